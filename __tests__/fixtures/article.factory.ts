@@ -2,7 +2,16 @@ import { addDays, subDays } from 'date-fns';
 
 // Domain
 import { Article } from '../../src/domain/entities/article.entity.js';
-import { ArticleTraits } from '../../src/domain/value-objects/article-traits.vo.js';
+import {
+    ArticleInsight,
+    type ArticleInsightData,
+} from '../../src/domain/value-objects/article-insight/article-insight.vo.js';
+import { type ArticleQuizQuestionProps } from '../../src/domain/value-objects/article-quiz-question.vo.js';
+import { ArticleQuizQuestions } from '../../src/domain/value-objects/article-quiz-questions.vo.js';
+import {
+    ArticleTraits,
+    type ArticleTraitsProps,
+} from '../../src/domain/value-objects/article-traits.vo.js';
 import {
     Authenticity,
     AuthenticityStatusEnum,
@@ -32,8 +41,10 @@ export class ArticleFactory {
         country: Country;
         headline: Headline;
         id: string;
+        insights?: ArticleInsight[];
         language: Language;
         publishedAt: Date;
+        quizQuestions?: ArticleQuizQuestions;
         traits: ArticleTraits;
     };
 
@@ -77,8 +88,10 @@ export class ArticleFactory {
             country: this.data.country,
             headline: this.data.headline,
             id: this.data.id,
+            insights: this.data.insights,
             language: this.data.language,
             publishedAt: this.data.publishedAt,
+            quizQuestions: this.data.quizQuestions,
             traits: this.data.traits,
         });
     }
@@ -116,8 +129,27 @@ export class ArticleFactory {
                 fabricatedReason: article.authenticity.clarification,
                 headline: article.headline.value,
                 id: article.id,
+                insights: article.insights
+                    ? {
+                          create: article.insights.map((insight) => ({
+                              analysis: insight.analysis,
+                              duration: insight.duration,
+                              kind: insight.kind,
+                              publishedAt: insight.publishedAt,
+                          })),
+                      }
+                    : undefined,
                 language: article.language.toString() as PrismaLanguage,
                 publishedAt: article.publishedAt,
+                quizQuestions: article.quizQuestions
+                    ? {
+                          create: article.quizQuestions.toArray().map((quiz) => ({
+                              answers: quiz.answers,
+                              correctAnswerIndex: quiz.correctAnswerIndex,
+                              question: quiz.question,
+                          })),
+                      }
+                    : undefined,
                 reports: {
                     connect: { id: report.id },
                 },
@@ -136,6 +168,11 @@ export class ArticleFactory {
         return this;
     }
 
+    public withCategories(categories: string[]): ArticleFactory {
+        this.data.categories = new Categories(categories);
+        return this;
+    }
+
     public withCountry(country: Country | string): ArticleFactory {
         this.data.country = typeof country === 'string' ? new Country(country) : country;
         return this;
@@ -151,6 +188,11 @@ export class ArticleFactory {
         return this;
     }
 
+    public withInsights(insights: ArticleInsightData[]): ArticleFactory {
+        this.data.insights = insights.map((insight) => new ArticleInsight(insight));
+        return this;
+    }
+
     public withLanguage(language: Language | string): ArticleFactory {
         this.data.language = typeof language === 'string' ? new Language(language) : language;
         return this;
@@ -160,6 +202,16 @@ export class ArticleFactory {
         this.data.publishedAt = date;
         return this;
     }
+
+    public withQuizQuestions(questions: ArticleQuizQuestionProps[]): ArticleFactory {
+        this.data.quizQuestions = new ArticleQuizQuestions(questions);
+        return this;
+    }
+
+    public withTraits(traits: Partial<ArticleTraitsProps>): ArticleFactory {
+        this.data.traits = new ArticleTraits(traits);
+        return this;
+    }
 }
 
 /**
@@ -152,6 +152,27 @@ function handleQuizGeneration(model: string) {
     );
 }
 
+function handleInsightGeneration(model: string) {
+    return HttpResponse.json(
+        buildCompletion('mock-insight-generation-id', model, {
+            insights: [
+                {
+                    analysis:
+                        'The decision changes the rules for millions of people and sets a precedent other governments are likely to follow.',
+                    duration: 'P1M',
+                    kind: 'WHY_IT_MATTERS',
+                },
+                {
+                    analysis:
+                        'The first official figures, expected in the coming weeks, will show whether the measure delivers what was promised.',
+                    duration: 'P1W',
+                    kind: 'WHAT_TO_WATCH',
+                },
+            ],
+        }),
+    );
+}
+
 /**
  * Single MSW handler mocking every OpenRouter AI agent used in integration tests.
  * Route discrimination is done by analysing the (second) user prompt.
@@ -218,6 +239,12 @@ export const openRouterUniversalResolver = http.post(
             return handleQuizGeneration(model);
         }
 
+        if (
+            userPrompt.includes('Explain to readers why this news matters and what to watch next')
+        ) {
+            return handleInsightGeneration(model);
+        }
+
         /* ------------------------------ Fallback -------------------------------- */
         return HttpResponse.json({ error: 'Unhandled prompt in OpenRouter mock' }, { status: 200 });
     },
@@ -57,6 +57,454 @@ describe('Server /articles route – integration', () => {
         });
     });
 
+    describe('Fetch by ID', () => {
+        it('returns the requested article without the pagination envelope', async () => {
+            // Given – seed articles
+            await createMixedArticles(integrationContext.prisma);
+
+            // When – requesting a single article
+            const res = await executeRequest(
+                integrationContext,
+                '/articles/22222222-2222-4222-8222-222222222222',
+            );
+            const body = await res.json();
+
+            // Then – the article is returned as-is
+            expect(res.status).toBe(200);
+            expect(body.id).toBe('22222222-2222-4222-8222-222222222222');
+            expect(body.headline).toBe('Default Test Article');
+            expect(body.items).toBeUndefined();
+        });
+
+        it('returns the stored insights of the article', async () => {
+            // Given – an article analyzed by the insight agent
+            const article = await new ArticleFactory()
+                .withInsights([
+                    {
+                        analysis:
+                            'The ruling sets a precedent for every similar case in the country.',
+                        duration: 'P1Y',
+                        kind: 'WHY_IT_MATTERS',
+                        publishedAt: new Date('2024-03-01T14:00:00.000Z'),
+                    },
+                ])
+                .createInDatabase(integrationContext.prisma);
+
+            // When
+            const res = await executeRequest(integrationContext, `/articles/${article.id}`);
+            const body = await res.json();
+
+            // Then
+            expect(body.insights).toEqual([
+                {
+                    agent: 'WHY_IT_MATTERS',
+                    analysis: 'The ruling sets a precedent for every similar case in the country.',
+                    duration: 'P1Y',
+                    enable: true,
+                    publishedAt: '2024-03-01T14:00:00.000Z',
+                },
+            ]);
+        });
+
+        it('returns 404 for an unknown article id', async () => {
+            // When – requesting an article that does not exist
+            const res = await executeRequest(
+                integrationContext,
+                '/articles/99999999-9999-4999-8999-999999999999',
+            );
+
+            // Then
+            expect(res.status).toBe(404);
+            expect(res.headers.get('Content-Type')).toBe('application/problem+json');
+            expect(await res.json()).toEqual({
+                detail: 'Article 99999999-9999-4999-8999-999999999999 not found',
+                instance: '/articles/99999999-9999-4999-8999-999999999999',
+                requestId: expect.any(String),
+                status: 404,
+                title: 'Not Found',
+                type: 'about:blank',
+            });
+        });
+
+        it('returns 422 for a malformed article id', async () => {
+            // When – requesting an article with an invalid id
+            const res = await executeRequest(integrationContext, '/articles/not-a-uuid', {
+                headers: { 'X-Request-Id': 'client-request-1' },
+            });
+
+            // Then – the problem lists the invalid fields
+            expect(res.status).toBe(422);
+            expect(await res.json()).toMatchObject({
+                detail: 'Invalid request parameters',
+                errors: [expect.objectContaining({ path: 'id' })],
+                requestId: 'client-request-1',
+                status: 422,
+                title: 'Unprocessable Entity',
+            });
+        });
+    });
+
+    describe('Quiz grading', () => {
+        it('grades submitted answers and reveals the correct answer text', async () => {
+            // Given – an article with a quiz
+            await new ArticleFactory()
+                .withId('55555555-5555-4555-8555-555555555555')
+                .withQuizQuestions([
+                    {
+                        answers: ['Paris', 'Lyon', 'Marseille', 'Nice'],
+                        correctAnswerIndex: 0,
+                        question: 'Which city hosted the summit?',
+                    },
+                ])
+                .createInDatabase(integrationContext.prisma);
+
+            // When – submitting a wrong answer
+            const res = await executeRequest(
+                integrationContext,
+                '/articles/55555555-5555-4555-8555-555555555555/quiz/answers',
+                { body: { answers: [{ answerIndex: 2, questionIndex: 0 }] }, method: 'POST' },
+            );
+            const body = await res.json();
+
+            // Then – the answer is graded server-side
+            expect(res.status).toBe(200);
+            expect(body).toEqual({
+                correctCount: 0,
+                results: [
+                    {
+                        answerIndex: 2,
+                        correct: false,
+                        correctAnswer: 'Paris',
+                        correctAnswerIndex: 0,
+                        questionIndex: 0,
+                    },
+                ],
+                total: 1,
+            });
+        });
+
+        it('returns 422 when answering a question the quiz does not have', async () => {
+            // Given – an article without quiz questions
+            await new ArticleFactory()
+                .withId('66666666-6666-4666-8666-666666666666')
+                .createInDatabase(integrationContext.prisma);
+
+            // When – submitting an answer
+            const res = await executeRequest(
+                integrationContext,
+                '/articles/66666666-6666-4666-8666-666666666666/quiz/answers',
+                { body: { answers: [{ answerIndex: 0, questionIndex: 0 }] }, method: 'POST' },
+            );
+
+            // Then
+            expect(res.status).toBe(422);
+        });
+    });
+
+    describe('Authenticity guess', () => {
+        it('reveals whether the guess was right with the explanation', async () => {
+            // Given – a fabricated article
+            await createFabricatedInventedEventArticle(integrationContext.prisma);
+            const [fabricated] = await integrationContext.prisma.article.findMany({
+                select: { id: true },
+                where: { fabricated: true },
+            });
+
+            // When – guessing the article is authentic
+            const res = await executeRequest(
+                integrationContext,
+                `/articles/${fabricated.id}/authenticity-guess`,
+                { body: { guess: 'AUTHENTIC' }, method: 'POST' },
+            );
+            const body = await res.json();
+
+            // Then – the guess is wrong and the clarification is revealed
+            expect(res.status).toBe(200);
+            expect(body).toEqual({
+                answer: 'FABRICATED',
+                correct: false,
+                explanation: 'Fabricated story',
+                guess: 'AUTHENTIC',
+            });
+        });
+
+        it('returns 422 for an unknown guess value', async () => {
+            // Given – an authentic article
+            await new ArticleFactory()
+                .withId('77777777-7777-4777-8777-777777777777')
+                .createInDatabase(integrationContext.prisma);
+
+            // When – submitting an invalid guess
+            const res = await executeRequest(
+                integrationContext,
+                '/articles/77777777-7777-4777-8777-777777777777/authenticity-guess',
+                { body: { guess: 'MAYBE' }, method: 'POST' },
+            );
+
+            // Then
+            expect(res.status).toBe(422);
+        });
+    });
+
+    describe('Filters', () => {
+        const createTaggedArticles = async () => {
+            await new ArticleFactory()
+                .withId('aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa')
+                .withCategories(['TECHNOLOGY', 'SCIENCE'])
+                .withTraits({ essential: true, positive: true })
+                .createInDatabase(integrationContext.prisma);
+            await new ArticleFactory()
+                .withId('bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb')
+                .withCategories(['SCIENCE'])
+                .withTraits({ positive: true })
+                .createInDatabase(integrationContext.prisma);
+            await new ArticleFactory()
+                .withId('cccccccc-cccc-4ccc-8ccc-cccccccccccc')
+                .withCategories(['SPORTS'])
+                .createInDatabase(integrationContext.prisma);
+        };
+
+        const listIds = async (query: string) => {
+            const res = await executeRequest(integrationContext, `/articles?${query}`);
+            const body = await res.json();
+            return {
+                ids: body.items.map((item: { id: string }) => item.id).sort(),
+                status: res.status,
+                total: body.total,
+            };
+        };
+
+        it('matches any of the requested traits and categories by default', async () => {
+            // Given – articles with different traits and categories
+            await createTaggedArticles();
+
+            // When – filtering on traits and on categories
+            const traits = await listIds('country=us&traits=positive,essential');
+            const categories = await listIds('country=us&categories=technology,sports');
+
+            // Then – each filter keeps articles matching at least one value
+            expect(traits).toEqual({
+                ids: [
+                    'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+                    'bbbbbbbb-bbbb-4bbb-8bbb-bbbbbbbbbbbb',
+                ],
+                status: 200,
+                total: 2,
+            });
+            expect(categories).toEqual({
+                ids: [
+                    'aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa',
+                    'cccccccc-cccc-4ccc-8ccc-cccccccccccc',
+                ],
+                status: 200,
+                total: 2,
+            });
+        });
+
+        it('requires every value with the all match mode and combines filters', async () => {
+            // Given – articles with different traits and categories
+            await createTaggedArticles();
+
+            // When – requiring every trait, every category, and a tier
+            const traits = await listIds('country=us&traits=positive,essential&traitsMatch=all');
+            const categories = await listIds(
+                'country=us&categories=science&categories=technology&categoriesMatch=all',
+            );
+            const combined = await listIds(
+                'country=us&traits=positive&categories=science&tier=general',
+            );
+            const niche = await listIds('country=us&tier=NICHE');
+
+            // Then – totals follow the same filters as the listed items
+            expect(traits).toEqual({
+                ids: ['aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa'],
+                status: 200,
+                total: 1,
+            });
+            expect(categories).toEqual({
+                ids: ['aaaaaaaa-aaaa-4aaa-8aaa-aaaaaaaaaaaa'],
+                status: 200,
+                total: 1,
+            });
+            expect(combined.total).toBe(2);
+            expect(niche).toEqual({ ids: [], status: 200, total: 0 });
+        });
+
+        it('returns 422 for an unknown trait or tier', async () => {
+            // When – filtering on unsupported values
+            const trait = await executeRequest(integrationContext, '/articles?traits=funny');
+            const tier = await executeRequest(integrationContext, '/articles?tier=OFF_TOPIC');
+
+            // Then
+            expect(trait.status).toBe(422);
+            expect(tier.status).toBe(422);
+        });
+    });
+
+    describe('HTTP caching', () => {
+        it('returns an ETag and answers a matching If-None-Match with 304', async () => {
+            // Given – stored US articles
+            await createMixedArticles(integrationContext.prisma);
+
+            // When – fetching the list, then revalidating it with its ETag
+            const first = await executeRequest(integrationContext, '/articles?country=us&limit=2');
+            const etag = first.headers.get('ETag');
+            const revalidated = await executeRequest(
+                integrationContext,
+                '/articles?country=us&limit=2',
+                { headers: { 'If-None-Match': `W/${etag}` } },
+            );
+
+            // Then – the client keeps its copy without downloading it again
+            expect(first.status).toBe(200);
+            expect(etag).toMatch(/^".+"$/);
+            expect(first.headers.get('Cache-Control')).toBe(
+                'public, max-age=60, stale-while-revalidate=600',
+            );
+            expect(revalidated.status).toBe(304);
+            expect(revalidated.headers.get('ETag')).toBe(etag);
+            expect(await revalidated.text()).toBe('');
+        });
+
+        it('returns the full response when the ETag does not match', async () => {
+            // Given – stored US articles
+            await createMixedArticles(integrationContext.prisma);
+
+            // When – revalidating with an outdated ETag
+            const res = await executeRequest(integrationContext, '/articles?country=us', {
+                headers: { 'If-None-Match': '"outdated"' },
+            });
+
+            // Then
+            expect(res.status).toBe(200);
+            expect(res.headers.get('ETag')).not.toBe('"outdated"');
+        });
+    });
+
+    describe('Pagination', () => {
+        it('pages through articles sharing a publication date without skipping any', async () => {
+            // Given – three US articles published at the same instant
+            const publishedAt = new Date('2024-03-01T12:00:00.000Z');
+            const ids = [
+                '10000000-0000-4000-8000-000000000001',
+                '10000000-0000-4000-8000-000000000002',
+                '10000000-0000-4000-8000-000000000003',
+            ];
+            for (const id of ids) {
+                await new ArticleFactory()
+                    .withId(id)
+                    .withPublishedAt(publishedAt)
+                    .createInDatabase(integrationContext.prisma);
+            }
+
+            // When – following nextCursor one article at a time, then prevCursor back
+            const pages = [];
+            let path = '/articles?country=us&limit=1';
+            for (let page = 0; page < 3; page++) {
+                const res = await executeRequest(integrationContext, path);
+                pages.push(await res.json());
+                path = `/articles?country=us&limit=1&cursor=${encodeURIComponent(pages[page].nextCursor)}`;
+            }
+            const backRes = await executeRequest(
+                integrationContext,
+                `/articles?country=us&limit=1&cursor=${encodeURIComponent(pages[2].prevCursor)}`,
+            );
+            const back = await backRes.json();
+
+            // Then – every article is listed once, in id order as tie-break, and back goes one page up
+            expect(pages.map((page) => page.items[0].id)).toEqual([...ids].reverse());
+            expect(pages[0].prevCursor).toBeNull();
+            expect(pages[2].nextCursor).toBeNull();
+            expect(back.items.map((item: { id: string }) => item.id)).toEqual([ids[1]]);
+            expect(back.prevCursor).toEqual(expect.any(String));
+            expect(back.nextCursor).toEqual(expect.any(String));
+        });
+
+        it('returns 422 for an unknown cursor version', async () => {
+            // When – sending a cursor with an unsupported version prefix
+            const res = await executeRequest(integrationContext, '/articles?cursor=v9.e30');
+
+            // Then
+            expect(res.status).toBe(422);
+        });
+    });
+
+    describe('Date range', () => {
+        const createArticlesAroundMidnight = async () => {
+            // 03:00 UTC on March 1st is still February 29th in New York
+            await new ArticleFactory()
+                .withId('dddddddd-dddd-4ddd-8ddd-dddddddddddd')
+                .withPublishedAt(new Date('2024-03-01T03:00:00.000Z'))
+                .createInDatabase(integrationContext.prisma);
+            await new ArticleFactory()
+                .withId('eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee')
+                .withPublishedAt(new Date('2024-03-01T12:00:00.000Z'))
+                .createInDatabase(integrationContext.prisma);
+            await new ArticleFactory()
+                .withId('ffffffff-ffff-4fff-8fff-ffffffffffff')
+                .withPublishedAt(new Date('2024-03-02T12:00:00.000Z'))
+                .createInDatabase(integrationContext.prisma);
+        };
+
+        it('filters on local calendar days of the country', async () => {
+            // Given – US articles around midnight in New York
+            await createArticlesAroundMidnight();
+
+            // When – requesting March 1st only
+            const res = await executeRequest(
+                integrationContext,
+                '/articles?country=us&from=2024-03-01&to=2024-03-01',
+            );
+            const body = await res.json();
+
+            // Then – only the article published during the New York day is listed
+            expect(res.status).toBe(200);
+            expect(body.total).toBe(1);
+            expect(body.items.map((item: { id: string }) => item.id)).toEqual([
+                'eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee',
+            ]);
+        });
+
+        it('groups the page by local calendar day', async () => {
+            // Given – US articles around midnight in New York
+            await createArticlesAroundMidnight();
+
+            // When – requesting the articles grouped by day
+            const res = await executeRequest(
+                integrationContext,
+                '/articles?country=us&groupBy=day',
+            );
+            const body = await res.json();
+
+            // Then – days are listed newest first with their articles
+            expect(res.status).toBe(200);
+            expect(body.items).toBeUndefined();
+            expect(
+                body.days.map((day: { date: string; items: Array<{ id: string }> }) => ({
+                    date: day.date,
+                    ids: day.items.map((item) => item.id),
+                })),
+            ).toEqual([
+                { date: '2024-03-02', ids: ['ffffffff-ffff-4fff-8fff-ffffffffffff'] },
+                { date: '2024-03-01', ids: ['eeeeeeee-eeee-4eee-8eee-eeeeeeeeeeee'] },
+                { date: '2024-02-29', ids: ['dddddddd-dddd-4ddd-8ddd-dddddddddddd'] },
+            ]);
+        });
+
+        it('returns 422 for a malformed or inverted range', async () => {
+            // When – sending an invalid date and a range ending before it starts
+            const malformed = await executeRequest(integrationContext, '/articles?from=yesterday');
+            const inverted = await executeRequest(
+                integrationContext,
+                '/articles?from=2024-03-02&to=2024-03-01',
+            );
+
+            // Then
+            expect(malformed.status).toBe(422);
+            expect(inverted.status).toBe(422);
+        });
+    });
+
     beforeEach(async () => {
         await startIntegrationContext(integrationContext);
     });
@@ -67,7 +515,9 @@ describe('Server /articles route – integration', () => {
 
     describe('Content validation', () => {
         const expectedItemShape = expect.objectContaining({
+            annotations: expect.any(Array),
             body: expect.any(String),
+            bodyText: expect.any(String),
             challenges: expect.objectContaining({
                 authenticity: expect.objectContaining({
                     enable: expect.any(Boolean),
@@ -109,6 +559,7 @@ describe('Server /articles route – integration', () => {
                 expect.objectContaining({
                     items: expect.any(Array),
                     nextCursor: null,
+                    prevCursor: null,
                     total: expect.any(Number),
                 }),
             );
@@ -123,7 +574,16 @@ describe('Server /articles route – integration', () => {
             expect(normalized).toEqual({
                 items: [
                     {
+                        annotations: [
+                            {
+                                end: 19,
+                                explanation: 'sensational',
+                                start: 9,
+                                text: 'FABRICATED',
+                            },
+                        ],
                         body: 'Breaking %%[(FABRICATED)]( sensational ) news about an invented event.',
+                        bodyText: 'Breaking FABRICATED news about an invented event.',
                         challenges: {
                             authenticity: { enable: true, explanation: 'Fabricated story' },
                             quiz: { enable: false, questions: [] },
@@ -143,7 +603,10 @@ describe('Server /articles route – integration', () => {
                         publishedAt: '<date>',
                     },
                     {
+                        annotations: [],
                         body: 'Default test article body with detailed information about the topic.',
+                        bodyText:
+                            'Default test article body with detailed information about the topic.',
                         challenges: {
                             authenticity: { enable: false, explanation: '' },
                             quiz: { enable: false, questions: [] },
@@ -163,7 +626,10 @@ describe('Server /articles route – integration', () => {
                         publishedAt: '<date>',
                     },
                     {
+                        annotations: [],
                         body: 'Default test article body with detailed information about the topic.',
+                        bodyText:
+                            'Default test article body with detailed information about the topic.',
                         challenges: {
                             authenticity: { enable: false, explanation: '' },
                             quiz: { enable: false, questions: [] },
@@ -184,6 +650,7 @@ describe('Server /articles route – integration', () => {
                     },
                 ],
                 nextCursor: null,
+                prevCursor: null,
                 total: 3,
             });
         });
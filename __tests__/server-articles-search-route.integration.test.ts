@@ -0,0 +1,82 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { ArticleFactory } from './fixtures/article.factory.js';
+import {
+    cleanupIntegrationContext,
+    createIntegrationContext,
+    executeRequest,
+    type IntegrationContext,
+    startIntegrationContext,
+    stopIntegrationContext,
+} from './setup/integration.js';
+
+/**
+ * Integration tests for the /articles/search server route.
+ * Scenario: Readers search stored articles by keyword.
+ */
+describe('Server /articles/search route – integration', () => {
+    let integrationContext: IntegrationContext;
+
+    beforeAll(async () => {
+        integrationContext = await createIntegrationContext();
+    });
+
+    afterAll(async () => {
+        await cleanupIntegrationContext(integrationContext);
+    });
+
+    beforeEach(async () => {
+        await startIntegrationContext(integrationContext);
+    });
+
+    afterEach(async () => {
+        await stopIntegrationContext(integrationContext);
+    });
+
+    it('ranks headline matches first, highlights them and paginates with a cursor', async () => {
+        // Given – US articles mentioning a volcano in the headline or the body, and one unrelated
+        const headlineMatch = await new ArticleFactory()
+            .withHeadline('Volcano Erupts Near Coastal Town')
+            .withBody('Residents were evacuated after the eruption.')
+            .createInDatabase(integrationContext.prisma);
+        const bodyMatch = await new ArticleFactory()
+            .withHeadline('Regional Air Traffic Disrupted')
+            .withBody('Flights were cancelled because of ash from a distant volcano.')
+            .createInDatabase(integrationContext.prisma);
+        await new ArticleFactory()
+            .withHeadline('Stock Markets Close Higher')
+            .createInDatabase(integrationContext.prisma);
+
+        // When – searching page by page
+        const firstPage = await executeRequest(
+            integrationContext,
+            '/articles/search?q=volcan&country=us&limit=1',
+        );
+        const firstBody = await firstPage.json();
+        const secondPage = await executeRequest(
+            integrationContext,
+            `/articles/search?q=volcan&country=us&limit=1&cursor=${encodeURIComponent(firstBody.nextCursor)}`,
+        );
+        const secondBody = await secondPage.json();
+
+        // Then – the headline match comes first and both pages cover the two matches
+        expect(firstPage.status).toBe(200);
+        expect(firstBody.total).toBe(2);
+        expect(firstBody.items).toHaveLength(1);
+        expect(firstBody.items[0].id).toBe(headlineMatch.id);
+        expect(firstBody.items[0].snippet).toContain('<mark>Volcano</mark>');
+        expect(secondPage.status).toBe(200);
+        expect(secondBody.items.map((item: { id: string }) => item.id)).toEqual([bodyMatch.id]);
+        expect(secondBody.nextCursor).toBeNull();
+    });
+
+    it('returns 422 when the query is missing or too short', async () => {
+        // When – searching without a usable query
+        const missing = await executeRequest(integrationContext, '/articles/search');
+        const tooShort = await executeRequest(integrationContext, '/articles/search?q=a');
+
+        // Then
+        expect(missing.status).toBe(422);
+        expect(tooShort.status).toBe(422);
+    });
+});
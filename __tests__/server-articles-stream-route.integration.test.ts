@@ -0,0 +1,65 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+    cleanupIntegrationContext,
+    createIntegrationContext,
+    executeRequest,
+    type IntegrationContext,
+    startIntegrationContext,
+    stopIntegrationContext,
+} from './setup/integration.js';
+
+/**
+ * Integration tests for the /articles/stream server route.
+ * Scenario: Clients keep a connection open to hear about newly published articles.
+ */
+describe('Server /articles/stream route – integration', () => {
+    let integrationContext: IntegrationContext;
+
+    beforeAll(async () => {
+        integrationContext = await createIntegrationContext();
+    });
+
+    afterAll(async () => {
+        await cleanupIntegrationContext(integrationContext);
+    });
+
+    beforeEach(async () => {
+        await startIntegrationContext(integrationContext);
+    });
+
+    afterEach(async () => {
+        await stopIntegrationContext(integrationContext);
+    });
+
+    it('opens an uncached event stream', async () => {
+        // When – subscribing to a locale
+        const response = await executeRequest(
+            integrationContext,
+            '/articles/stream?country=us&language=en',
+            { headers: { 'Last-Event-ID': '0' } },
+        );
+
+        // Then – the stream is open and bypasses HTTP caching
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toContain('text/event-stream');
+        expect(response.headers.get('ETag')).toBeNull();
+
+        await response.body?.cancel();
+    });
+
+    it('returns 422 for an unknown locale or a malformed Last-Event-ID', async () => {
+        // When
+        const unknownCountry = await executeRequest(
+            integrationContext,
+            '/articles/stream?country=zz',
+        );
+        const malformedId = await executeRequest(integrationContext, '/articles/stream', {
+            headers: { 'Last-Event-ID': 'abc' },
+        });
+
+        // Then
+        expect(unknownCountry.status).toBe(422);
+        expect(malformedId.status).toBe(422);
+    });
+});
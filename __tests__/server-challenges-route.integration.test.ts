@@ -0,0 +1,112 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+    createFabricatedInventedEventArticle,
+    createMixedArticles,
+} from './fixtures/article.factory.js';
+import {
+    cleanupIntegrationContext,
+    createIntegrationContext,
+    executeRequest,
+    type IntegrationContext,
+    startIntegrationContext,
+    stopIntegrationContext,
+} from './setup/integration.js';
+
+/**
+ * Integration tests for the /challenges server route.
+ * Scenario: Players of a locale request the daily challenge edition.
+ */
+describe('Server /challenges route – integration', () => {
+    let integrationContext: IntegrationContext;
+
+    beforeAll(async () => {
+        integrationContext = await createIntegrationContext();
+    });
+
+    afterAll(async () => {
+        await cleanupIntegrationContext(integrationContext);
+    });
+
+    beforeEach(async () => {
+        await startIntegrationContext(integrationContext);
+    });
+
+    afterEach(async () => {
+        await stopIntegrationContext(integrationContext);
+    });
+
+    it('serves the same persisted edition with one fabricated article', async () => {
+        // Given – authentic and fabricated US articles
+        await createMixedArticles(integrationContext.prisma);
+        await createFabricatedInventedEventArticle(integrationContext.prisma);
+
+        // When – requesting the daily challenge twice
+        const first = await executeRequest(
+            integrationContext,
+            '/challenges/daily?country=us&language=en',
+        );
+        const firstBody = await first.json();
+        const second = await executeRequest(
+            integrationContext,
+            '/challenges/daily?country=us&language=en',
+        );
+        const secondBody = await second.json();
+
+        // Then – both requests get the same stored edition
+        expect(first.status).toBe(200);
+        expect(firstBody).toEqual(
+            expect.objectContaining({
+                country: 'us',
+                date: expect.stringMatching(/^\d{4}-\d{2}-\d{2}$/),
+                fabricatedIncluded: true,
+                language: 'en',
+            }),
+        );
+        expect(firstBody.articles).toHaveLength(3);
+        expect(
+            firstBody.articles.filter(
+                (article: { metadata: { fabricated: boolean } }) => article.metadata.fabricated,
+            ),
+        ).toHaveLength(1);
+        expect(secondBody).toEqual(firstBody);
+        expect(await integrationContext.prisma.dailyChallenge.count()).toBe(1);
+    });
+
+    it('falls back to authentic articles without persisting when nothing is fabricated', async () => {
+        // Given – only authentic US articles
+        await createMixedArticles(integrationContext.prisma);
+
+        // When – requesting the daily challenge
+        const res = await executeRequest(
+            integrationContext,
+            '/challenges/daily?country=us&language=en',
+        );
+        const body = await res.json();
+
+        // Then – a provisional edition is served
+        expect(res.status).toBe(200);
+        expect(body.fabricatedIncluded).toBe(false);
+        expect(body.articles).toHaveLength(2);
+        expect(await integrationContext.prisma.dailyChallenge.count()).toBe(0);
+    });
+
+    it('returns 404 when the locale has no articles', async () => {
+        // When – requesting the daily challenge of an empty locale
+        const res = await executeRequest(
+            integrationContext,
+            '/challenges/daily?country=fr&language=en',
+        );
+
+        // Then
+        expect(res.status).toBe(404);
+    });
+
+    it('returns 422 when the language is missing', async () => {
+        // When – requesting the daily challenge without a language
+        const res = await executeRequest(integrationContext, '/challenges/daily?country=us');
+
+        // Then
+        expect(res.status).toBe(422);
+    });
+});
@@ -0,0 +1,89 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+    ArticleFactory,
+    createFabricatedInventedEventArticle,
+    createMixedArticles,
+} from './fixtures/article.factory.js';
+import {
+    cleanupIntegrationContext,
+    createIntegrationContext,
+    executeRequest,
+    type IntegrationContext,
+    startIntegrationContext,
+    stopIntegrationContext,
+} from './setup/integration.js';
+
+/**
+ * Integration tests for the /feeds server route.
+ * Scenario: Feed readers subscribe to the authentic articles of a locale.
+ */
+describe('Server /feeds route – integration', () => {
+    let integrationContext: IntegrationContext;
+
+    beforeAll(async () => {
+        integrationContext = await createIntegrationContext();
+    });
+
+    afterAll(async () => {
+        await cleanupIntegrationContext(integrationContext);
+    });
+
+    beforeEach(async () => {
+        await startIntegrationContext(integrationContext);
+    });
+
+    afterEach(async () => {
+        await stopIntegrationContext(integrationContext);
+    });
+
+    it('renders authentic articles as RSS without fabricated ones', async () => {
+        // Given – authentic and fabricated US articles
+        await createMixedArticles(integrationContext.prisma);
+        await createFabricatedInventedEventArticle(integrationContext.prisma);
+        await new ArticleFactory()
+            .withHeadline('Markets & Rates <Update>')
+            .withCategories(['BUSINESS'])
+            .withPublishedAt(new Date('2024-03-04T12:00:00.000Z'))
+            .createInDatabase(integrationContext.prisma);
+
+        // When – requesting the RSS feed
+        const res = await executeRequest(integrationContext, '/feeds/us/en.rss');
+        const body = await res.text();
+
+        // Then – authentic articles are syndicated, escaped, with their categories
+        expect(res.status).toBe(200);
+        expect(res.headers.get('Content-Type')).toBe('application/rss+xml; charset=utf-8');
+        expect(body).toContain('<rss version="2.0"');
+        expect(body.match(/<item>/g)).toHaveLength(3);
+        expect(body).toContain('<title>Markets &amp; Rates &lt;Update&gt;</title>');
+        expect(body).toContain('<category>BUSINESS</category>');
+        expect(body).not.toContain('Invented Event Shocks World');
+    });
+
+    it('renders the same articles as Atom', async () => {
+        // Given – authentic and fabricated US articles
+        await createMixedArticles(integrationContext.prisma);
+        await createFabricatedInventedEventArticle(integrationContext.prisma);
+
+        // When – requesting the Atom feed
+        const res = await executeRequest(integrationContext, '/feeds/us/en.atom');
+        const body = await res.text();
+
+        // Then
+        expect(res.status).toBe(200);
+        expect(res.headers.get('Content-Type')).toBe('application/atom+xml; charset=utf-8');
+        expect(body).toContain('<feed xmlns="http://www.w3.org/2005/Atom">');
+        expect(body.match(/<entry>/g)).toHaveLength(2);
+        expect(body).toContain('<category term="TECHNOLOGY"/>');
+        expect(body).not.toContain('Invented Event Shocks World');
+    });
+
+    it('returns 422 for an unknown feed format', async () => {
+        // When – requesting an unsupported extension
+        const res = await executeRequest(integrationContext, '/feeds/us/en.json');
+
+        // Then
+        expect(res.status).toBe(422);
+    });
+});
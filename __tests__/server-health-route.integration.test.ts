@@ -10,8 +10,9 @@ import {
 } from './setup/integration.js';
 
 /**
- * Integration test for the /health server route.
- * Ensures the service responds with HTTP 200 and plain 'OK' text, verifying basic liveness.
+ * Integration test for the health server routes.
+ * Ensures the service responds with HTTP 200 and plain 'OK' text, verifying basic liveness,
+ * and reports the status of its dependencies as JSON.
  */
 describe('Server /health route – integration', () => {
     let integrationContext: IntegrationContext;
@@ -40,4 +41,31 @@ describe('Server /health route – integration', () => {
         expect(response.status).toBe(200);
         expect(await response.text()).toBe('OK');
     });
+
+    it('should report liveness without checking dependencies', async () => {
+        // When
+        const response = await executeRequest(integrationContext, '/health/live');
+
+        // Then
+        expect(response.status).toBe(200);
+        expect(await response.json()).toMatchObject({ status: 'pass' });
+    });
+
+    it('should report readiness with the status of each dependency', async () => {
+        // When
+        const response = await executeRequest(integrationContext, '/health/ready');
+
+        // Then – the database answers; the pipeline has not run yet, which is not critical
+        expect(response.status).toBe(200);
+        const body = await response.json();
+        expect(body.status).not.toBe('fail');
+        expect(body.checks.database).toEqual({ status: 'pass' });
+        expect(body.checks.pipeline).toEqual({ status: 'warn' });
+        expect(Object.keys(body.checks).sort()).toEqual([
+            'database',
+            'models',
+            'newsProvider',
+            'pipeline',
+        ]);
+    });
 });
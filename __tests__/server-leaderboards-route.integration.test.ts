@@ -0,0 +1,102 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import { ArticleFactory } from './fixtures/article.factory.js';
+import {
+    cleanupIntegrationContext,
+    createIntegrationContext,
+    executeRequest,
+    type IntegrationContext,
+    startIntegrationContext,
+    stopIntegrationContext,
+} from './setup/integration.js';
+
+/**
+ * Integration tests for the /leaderboards server route.
+ * Scenario: Players guess the authenticity of articles from different locales.
+ */
+describe('Server /leaderboards route – integration', () => {
+    let integrationContext: IntegrationContext;
+
+    beforeAll(async () => {
+        integrationContext = await createIntegrationContext();
+    });
+
+    afterAll(async () => {
+        await cleanupIntegrationContext(integrationContext);
+    });
+
+    beforeEach(async () => {
+        await startIntegrationContext(integrationContext);
+    });
+
+    afterEach(async () => {
+        await stopIntegrationContext(integrationContext);
+    });
+
+    const registerPlayer = async (deviceId: string): Promise<string> => {
+        const res = await executeRequest(integrationContext, '/players', {
+            body: { deviceId },
+            method: 'POST',
+        });
+        return (await res.json()).id;
+    };
+
+    const guess = (articleId: string, playerId: string, value: string) =>
+        executeRequest(integrationContext, `/articles/${articleId}/authenticity-guess`, {
+            body: { guess: value, playerId },
+            method: 'POST',
+        });
+
+    it('ranks players on the articles of the requested locale only', async () => {
+        // Given – two US articles, one French article and two players
+        const [usFirst, usSecond, french] = await Promise.all([
+            new ArticleFactory()
+                .withId('11111111-aaaa-4aaa-8aaa-111111111111')
+                .withCountry('us')
+                .withLanguage('en')
+                .createInDatabase(integrationContext.prisma),
+            new ArticleFactory()
+                .withId('22222222-aaaa-4aaa-8aaa-222222222222')
+                .withCountry('us')
+                .withLanguage('en')
+                .createInDatabase(integrationContext.prisma),
+            new ArticleFactory()
+                .withId('33333333-aaaa-4aaa-8aaa-333333333333')
+                .withCountry('fr')
+                .withLanguage('fr')
+                .createInDatabase(integrationContext.prisma),
+        ]);
+        const alice = await registerPlayer('device-leaderboard-alice');
+        const bob = await registerPlayer('device-leaderboard-bob');
+
+        // When – Alice guesses both US articles right, Bob only one, and Bob plays in France
+        await guess(usFirst.id, alice, 'AUTHENTIC');
+        await guess(usSecond.id, alice, 'AUTHENTIC');
+        await guess(usFirst.id, bob, 'AUTHENTIC');
+        await guess(usSecond.id, bob, 'FABRICATED');
+        await guess(french.id, bob, 'AUTHENTIC');
+        const res = await executeRequest(integrationContext, '/leaderboards/us/en?period=day');
+        const body = await res.json();
+
+        // Then – only the US results are ranked
+        expect(res.status).toBe(200);
+        expect(body).toEqual({
+            country: 'us',
+            entries: [
+                { accuracy: 1, answered: 2, correct: 2, playerId: alice, rank: 1, score: 40 },
+                { accuracy: 0.5, answered: 2, correct: 1, playerId: bob, rank: 2, score: 20 },
+            ],
+            language: 'en',
+            period: 'day',
+            since: expect.any(String),
+        });
+    });
+
+    it('returns 422 for an unknown period', async () => {
+        // When – requesting an unsupported period
+        const res = await executeRequest(integrationContext, '/leaderboards/us/en?period=month');
+
+        // Then
+        expect(res.status).toBe(422);
+    });
+});
@@ -0,0 +1,94 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+    cleanupIntegrationContext,
+    createIntegrationContext,
+    executeRequest,
+    type IntegrationContext,
+    startIntegrationContext,
+    stopIntegrationContext,
+} from './setup/integration.js';
+
+/**
+ * Integration tests for the /openapi.json and /docs server routes.
+ * Scenario: Client developers discover the API from its published description.
+ */
+describe('Server /openapi.json and /docs routes – integration', () => {
+    let integrationContext: IntegrationContext;
+
+    beforeAll(async () => {
+        integrationContext = await createIntegrationContext();
+    });
+
+    afterAll(async () => {
+        await cleanupIntegrationContext(integrationContext);
+    });
+
+    beforeEach(async () => {
+        await startIntegrationContext(integrationContext);
+    });
+
+    afterEach(async () => {
+        await stopIntegrationContext(integrationContext);
+    });
+
+    it('describes every route with its parameters and response schema', async () => {
+        // When – fetching the document
+        const response = await executeRequest(integrationContext, '/openapi.json');
+        const document = await response.json();
+
+        // Then – every route is described, from the schemas the handlers validate with
+        expect(response.status).toBe(200);
+        expect(document.openapi).toBe('3.1.0');
+        expect(Object.keys(document.paths)).toEqual(
+            expect.arrayContaining([
+                '/articles',
+                '/articles/search',
+                '/articles/{id}',
+                '/articles/{id}/quiz/answers',
+                '/articles/{id}/authenticity-guess',
+                '/challenges/daily',
+                '/feeds/{country}/{file}',
+                '/leaderboards/{country}/{language}',
+                '/players',
+                '/players/{id}/stats',
+            ]),
+        );
+
+        const listArticles = document.paths['/articles'].get;
+        expect(
+            listArticles.parameters.map((parameter: { name: string }) => parameter.name),
+        ).toEqual(expect.arrayContaining(['country', 'cursor', 'limit', 'traits']));
+        expect(listArticles.responses['200'].content['application/json'].schema).toBeDefined();
+        expect(listArticles.responses['422'].content['application/problem+json'].schema).toEqual({
+            $ref: '#/components/schemas/Problem',
+        });
+        expect(document.components.schemas.Problem.required).toEqual(
+            expect.arrayContaining(['detail', 'requestId', 'status', 'title', 'type']),
+        );
+
+        const getArticle = document.paths['/articles/{id}'].get;
+        expect(getArticle.parameters).toEqual([
+            expect.objectContaining({ in: 'path', name: 'id', required: true }),
+        ]);
+        const articleProperties =
+            getArticle.responses['200'].content['application/json'].schema.properties;
+        expect(articleProperties.body).toMatchObject({ deprecated: true, type: 'string' });
+        expect(articleProperties.bodyText).toMatchObject({ description: expect.any(String) });
+
+        const registerPlayer = document.paths['/players'].post;
+        expect(registerPlayer.requestBody.content['application/json'].schema.required).toEqual([
+            'deviceId',
+        ]);
+    });
+
+    it('serves the interactive docs page', async () => {
+        // When
+        const response = await executeRequest(integrationContext, '/docs');
+
+        // Then – the page loads the document
+        expect(response.status).toBe(200);
+        expect(response.headers.get('Content-Type')).toContain('text/html');
+        expect(await response.text()).toContain('/openapi.json');
+    });
+});
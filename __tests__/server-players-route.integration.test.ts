@@ -0,0 +1,167 @@
+import { afterAll, afterEach, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+    ArticleFactory,
+    createFabricatedInventedEventArticle,
+} from './fixtures/article.factory.js';
+import {
+    cleanupIntegrationContext,
+    createIntegrationContext,
+    executeRequest,
+    type IntegrationContext,
+    startIntegrationContext,
+    stopIntegrationContext,
+} from './setup/integration.js';
+
+/**
+ * Integration tests for the /players server route.
+ * Scenario: An anonymous player registers, plays the article challenges and reads its stats.
+ */
+describe('Server /players route – integration', () => {
+    let integrationContext: IntegrationContext;
+
+    beforeAll(async () => {
+        integrationContext = await createIntegrationContext();
+    });
+
+    afterAll(async () => {
+        await cleanupIntegrationContext(integrationContext);
+    });
+
+    beforeEach(async () => {
+        await startIntegrationContext(integrationContext);
+    });
+
+    afterEach(async () => {
+        await stopIntegrationContext(integrationContext);
+    });
+
+    const registerPlayer = async (deviceId: string) => {
+        const res = await executeRequest(integrationContext, '/players', {
+            body: { deviceId },
+            method: 'POST',
+        });
+        return { body: await res.json(), status: res.status };
+    };
+
+    describe('Registration', () => {
+        it('creates a player once per device', async () => {
+            // When – registering the same device twice
+            const first = await registerPlayer('device-integration-1');
+            const second = await registerPlayer('device-integration-1');
+
+            // Then – the first call creates the player and the second returns it
+            expect(first.status).toBe(201);
+            expect(first.body).toEqual({
+                createdAt: expect.any(String),
+                deviceId: 'device-integration-1',
+                id: expect.any(String),
+            });
+            expect(second.status).toBe(200);
+            expect(second.body.id).toBe(first.body.id);
+        });
+
+        it('returns 422 for a missing device id', async () => {
+            // When – registering without a device id
+            const res = await executeRequest(integrationContext, '/players', {
+                body: {},
+                method: 'POST',
+            });
+
+            // Then
+            expect(res.status).toBe(422);
+        });
+    });
+
+    describe('Stats', () => {
+        it('scores the recorded quiz answers and authenticity guesses', async () => {
+            // Given – a registered player, an article with a quiz and a fabricated article
+            const { body: player } = await registerPlayer('device-integration-2');
+            await new ArticleFactory()
+                .withId('88888888-8888-4888-8888-888888888888')
+                .withQuizQuestions([
+                    {
+                        answers: ['A', 'B', 'C', 'D'],
+                        correctAnswerIndex: 1,
+                        question: 'Which letter?',
+                    },
+                    {
+                        answers: ['1', '2', '3', '4'],
+                        correctAnswerIndex: 0,
+                        question: 'Which number?',
+                    },
+                ])
+                .createInDatabase(integrationContext.prisma);
+            await createFabricatedInventedEventArticle(integrationContext.prisma);
+            const [fabricated] = await integrationContext.prisma.article.findMany({
+                select: { id: true },
+                where: { fabricated: true },
+            });
+
+            // When – the player answers the quiz and guesses the fabricated article
+            await executeRequest(
+                integrationContext,
+                '/articles/88888888-8888-4888-8888-888888888888/quiz/answers',
+                {
+                    body: {
+                        answers: [
+                            { answerIndex: 1, questionIndex: 0 },
+                            { answerIndex: 2, questionIndex: 1 },
+                        ],
+                        playerId: player.id,
+                    },
+                    method: 'POST',
+                },
+            );
+            await executeRequest(
+                integrationContext,
+                `/articles/${fabricated.id}/authenticity-guess`,
+                { body: { guess: 'FABRICATED', playerId: player.id }, method: 'POST' },
+            );
+            const res = await executeRequest(integrationContext, `/players/${player.id}/stats`);
+            const body = await res.json();
+
+            // Then – one quiz answer and the guess are counted
+            expect(res.status).toBe(200);
+            expect(body).toEqual({
+                accuracy: 0.667,
+                authenticity: { correct: 1, guessed: 1 },
+                playerId: player.id,
+                quiz: { answered: 2, correct: 1 },
+                score: 30,
+                streak: { current: 1, lastPlayedOn: expect.any(String), longest: 1 },
+            });
+        });
+
+        it('returns 404 when playing as an unknown player', async () => {
+            // Given – an authentic article
+            await new ArticleFactory()
+                .withId('99999999-9999-4999-8999-999999999999')
+                .createInDatabase(integrationContext.prisma);
+
+            // When – guessing with an unregistered player id
+            const res = await executeRequest(
+                integrationContext,
+                '/articles/99999999-9999-4999-8999-999999999999/authenticity-guess',
+                {
+                    body: { guess: 'AUTHENTIC', playerId: '00000000-0000-4000-8000-000000000000' },
+                    method: 'POST',
+                },
+            );
+
+            // Then
+            expect(res.status).toBe(404);
+        });
+
+        it('returns 404 for an unknown player', async () => {
+            // When – reading the stats of an unregistered player
+            const res = await executeRequest(
+                integrationContext,
+                '/players/00000000-0000-4000-8000-000000000000/stats',
+            );
+
+            // Then
+            expect(res.status).toBe(404);
+        });
+    });
+});
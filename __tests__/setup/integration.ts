@@ -36,7 +36,8 @@ export async function createIntegrationContext(
 
     // Create the database schema BEFORE container initialization
     // This ensures the better-sqlite3 adapter opens an existing file in read/write mode
-    execSync('npx prisma db push --force-reset', {
+    // Migrations also create the search index, which the Prisma schema cannot describe
+    execSync('npx prisma migrate reset --force', {
         env: {
             ...process.env,
             DATABASE_URL: databaseUrl,
@@ -98,6 +99,11 @@ export async function startIntegrationContext(context: IntegrationContext): Prom
     context.msw.listen({ onUnhandledRequest: 'warn' });
 
     // Clean database – order matters due to FK constraints
+    await context.prisma.apiKey.deleteMany();
+    await context.prisma.editorialAction.deleteMany();
+    await context.prisma.webhookSubscription.deleteMany();
+    await context.prisma.player.deleteMany();
+    await context.prisma.dailyChallenge.deleteMany();
     await context.prisma.article.deleteMany();
     await context.prisma.report.deleteMany();
 
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "Player" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "deviceId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "QuizAttempt" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "questionIndex" INTEGER NOT NULL,
+    "answerIndex" INTEGER NOT NULL,
+    "correct" BOOLEAN NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "QuizAttempt_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "QuizAttempt_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateTable
+CREATE TABLE "AuthenticityGuess" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "guess" TEXT NOT NULL,
+    "correct" BOOLEAN NOT NULL,
+    "playerId" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "AuthenticityGuess_playerId_fkey" FOREIGN KEY ("playerId") REFERENCES "Player" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "AuthenticityGuess_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Player_deviceId_key" ON "Player"("deviceId");
+
+-- CreateIndex
+CREATE INDEX "QuizAttempt_articleId_idx" ON "QuizAttempt"("articleId");
+
+-- CreateIndex
+CREATE INDEX "QuizAttempt_createdAt_idx" ON "QuizAttempt"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "QuizAttempt_playerId_articleId_questionIndex_key" ON "QuizAttempt"("playerId", "articleId", "questionIndex");
+
+-- CreateIndex
+CREATE INDEX "AuthenticityGuess_articleId_idx" ON "AuthenticityGuess"("articleId");
+
+-- CreateIndex
+CREATE INDEX "AuthenticityGuess_createdAt_idx" ON "AuthenticityGuess"("createdAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "AuthenticityGuess_playerId_articleId_key" ON "AuthenticityGuess"("playerId", "articleId");
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "DailyChallenge" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "country" TEXT NOT NULL,
+    "language" TEXT NOT NULL,
+    "date" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateTable
+CREATE TABLE "DailyChallengeArticle" (
+    "dailyChallengeId" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "position" INTEGER NOT NULL,
+
+    PRIMARY KEY ("dailyChallengeId", "articleId"),
+    CONSTRAINT "DailyChallengeArticle_dailyChallengeId_fkey" FOREIGN KEY ("dailyChallengeId") REFERENCES "DailyChallenge" ("id") ON DELETE CASCADE ON UPDATE CASCADE,
+    CONSTRAINT "DailyChallengeArticle_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DailyChallenge_country_language_date_key" ON "DailyChallenge"("country", "language", "date");
+
+-- CreateIndex
+CREATE INDEX "DailyChallengeArticle_articleId_idx" ON "DailyChallengeArticle"("articleId");
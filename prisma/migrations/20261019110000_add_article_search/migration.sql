@@ -0,0 +1,41 @@
+-- Full-text search index over articles, maintained by the article repository.
+-- The virtual table cannot be described in schema.prisma: this migration is the only place creating it,
+-- so databases must be built with `prisma migrate deploy` rather than `prisma db push`.
+-- CreateVirtualTable
+CREATE VIRTUAL TABLE IF NOT EXISTS "ArticleSearch" USING fts5(
+    "articleId" UNINDEXED, "headline", "body", "frames",
+    tokenize = 'unicode61 remove_diacritics 2'
+);
+
+-- Backfill existing articles. Fabricated bodies carry annotation markup, `%%[(passage)](explanation)%%`,
+-- indexed as the plain text served to clients: their passages kept, their explanations dropped.
+-- "PlainBody" walks each body from one delimiter to the next, ending on the row no delimiter follows.
+WITH RECURSIVE "PlainBody" ("articleId", "text", "rest", "delimiter") AS (
+    SELECT "id", '', "body", '%%[(' FROM "Article" WHERE "fabricated"
+    UNION ALL
+    SELECT
+        "articleId",
+        "text" || CASE "delimiter"
+            WHEN ')%%' THEN ''
+            ELSE substr("rest", 1, instr("rest", "delimiter") - 1)
+        END,
+        substr("rest", instr("rest", "delimiter") + length("delimiter")),
+        CASE "delimiter" WHEN '%%[(' THEN ')](' WHEN ')](' THEN ')%%' ELSE '%%[(' END
+    FROM "PlainBody"
+    WHERE instr("rest", "delimiter") > 0
+)
+INSERT INTO "ArticleSearch" ("articleId", "headline", "body", "frames")
+SELECT
+    a."id",
+    a."headline",
+    COALESCE(
+        (SELECT p."text" || replace(p."rest", '%%', '') FROM "PlainBody" p
+         WHERE p."articleId" = a."id" AND instr(p."rest", p."delimiter") = 0),
+        a."body"
+    ),
+    COALESCE(
+        (SELECT group_concat(f."headline" || char(10) || f."body", char(10))
+         FROM "ArticleFrame" f WHERE f."articleId" = a."id"),
+        ''
+    )
+FROM "Article" a;
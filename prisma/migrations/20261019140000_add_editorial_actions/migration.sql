@@ -0,0 +1,20 @@
+-- AlterTable
+ALTER TABLE "Article" ADD COLUMN "retractedAt" DATETIME;
+
+-- CreateTable
+CREATE TABLE "EditorialAction" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "type" TEXT NOT NULL,
+    "changes" JSONB NOT NULL,
+    "reportId" TEXT,
+    "articleId" TEXT,
+    "actor" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP
+);
+
+-- CreateIndex
+CREATE INDEX "EditorialAction_reportId_idx" ON "EditorialAction"("reportId");
+
+-- CreateIndex
+CREATE INDEX "EditorialAction_articleId_idx" ON "EditorialAction"("articleId");
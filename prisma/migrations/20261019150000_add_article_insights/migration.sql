@@ -0,0 +1,14 @@
+-- CreateTable
+CREATE TABLE "ArticleInsight" (
+    "id" TEXT NOT NULL PRIMARY KEY,
+    "kind" TEXT NOT NULL,
+    "analysis" TEXT NOT NULL,
+    "duration" TEXT NOT NULL,
+    "articleId" TEXT NOT NULL,
+    "publishedAt" DATETIME NOT NULL,
+    "createdAt" DATETIME NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    CONSTRAINT "ArticleInsight_articleId_fkey" FOREIGN KEY ("articleId") REFERENCES "Article" ("id") ON DELETE CASCADE ON UPDATE CASCADE
+);
+
+-- CreateIndex
+CREATE INDEX "ArticleInsight_articleId_idx" ON "ArticleInsight"("articleId");
@@ -23,10 +23,17 @@ export interface ConfigurationPort {
  * Inbound configuration (defined by the user)
  */
 export interface InboundConfigurationPort {
+    admin: AdminConfigurationPort;
+    auth: AuthConfigurationPort;
+    challenges: ChallengesConfigurationPort;
     env: 'development' | 'production' | 'test';
     http: {
+        cache: HttpCacheConfigurationPort;
+        health: HealthConfigurationPort;
         host: string;
+        metrics: MetricsConfigurationPort;
         port: number;
+        rateLimit: RateLimitConfigurationPort;
     };
     logger: {
         level: LoggerLevel;
@@ -37,6 +44,122 @@ export interface InboundConfigurationPort {
     };
 }
 
+/**
+ * Administration endpoints configuration
+ */
+export interface AdminConfigurationPort {
+    /**
+     * Bearer token granting the `admin` scope, used to issue the first API keys
+     */
+    token?: string;
+}
+
+/**
+ * API client authentication configuration
+ */
+export interface AuthConfigurationPort {
+    /**
+     * Serve public routes to clients without an API key, rate limited per IP address
+     */
+    anonymousAccess: boolean;
+
+    /**
+     * Reverse proxies in front of the API; the `X-Forwarded-For` hop added by the outermost
+     * one names anonymous clients. `0` keys them by the socket address.
+     */
+    trustedProxies: number;
+}
+
+/**
+ * Article challenges configuration
+ */
+export interface ChallengesConfigurationPort {
+    /**
+     * Number of articles in the daily challenge edition, one of them fabricated
+     */
+    dailyArticleCount: number;
+
+    /**
+     * Omit authenticity and its explanation from article responses until a guess is submitted
+     */
+    hideAuthenticity: boolean;
+
+    /**
+     * Omit quiz correct answers from article responses so answers are graded server-side
+     */
+    hideQuizAnswers: boolean;
+}
+
+/**
+ * Health checks configuration
+ */
+export interface HealthConfigurationPort {
+    /**
+     * Hours a locale may go without a successful pipeline run before readiness fails
+     */
+    pipelineCriticalAfterHours: number;
+}
+
+/**
+ * HTTP caching of article reads
+ */
+export interface HttpCacheConfigurationPort {
+    /**
+     * Seconds clients may reuse a response without revalidating it (`Cache-Control: max-age`)
+     */
+    maxAge: number;
+
+    /**
+     * Seconds clients may keep serving a stale response while revalidating it in the background
+     */
+    staleWhileRevalidate: number;
+}
+
+/**
+ * Prometheus metrics endpoint
+ */
+export interface MetricsConfigurationPort {
+    /**
+     * Serve the request, pipeline and agent metrics at `GET /metrics` (admin)
+     */
+    enabled: boolean;
+}
+
+/**
+ * Token-bucket rate limits of HTTP clients
+ */
+export interface RateLimitConfigurationPort {
+    /**
+     * Limit of requests without an API key, per IP address
+     */
+    anonymous: RateLimitPolicy;
+
+    /**
+     * Limit of requests with an API key that has no entry in `keys`
+     */
+    apiKey: RateLimitPolicy;
+
+    /**
+     * Limits of specific API keys, by key label
+     */
+    keys: Record<string, RateLimitPolicy>;
+}
+
+/**
+ * A bucket holding up to `capacity` requests, refilled continuously
+ */
+export interface RateLimitPolicy {
+    /**
+     * Requests a client may burst before being limited
+     */
+    capacity: number;
+
+    /**
+     * Requests regained per second, the sustained rate
+     */
+    refillPerSecond: number;
+}
+
 /**
  * Outbound configuration (defined by external services)
  */
@@ -47,6 +170,7 @@ export interface OutboundConfigurationPort {
         reportClassification: string;
         articleComposition: string;
         articleFabrication: string;
+        articleInsightGeneration: string;
         articleQuizGeneration: string;
     };
     telemetry: {
@@ -58,12 +182,38 @@ export interface OutboundConfigurationPort {
     prisma: {
         databaseUrl: string;
     };
+    webhooks: WebhooksConfigurationPort;
     worldNews: {
         apiKey: string;
         useCache: boolean;
     };
 }
 
+/**
+ * Delivery policy of outbound webhooks
+ */
+export interface WebhooksConfigurationPort {
+    /**
+     * Milliseconds to wait for a partner endpoint to respond
+     */
+    deliveryTimeoutMs: number;
+
+    /**
+     * Consecutive failed attempts after which a subscription is disabled
+     */
+    disableAfterFailures: number;
+
+    /**
+     * Attempts per delivery before it is given up
+     */
+    maxAttempts: number;
+
+    /**
+     * Delay before the first retry; each following retry waits twice as long
+     */
+    retryBaseDelaySeconds: number;
+}
+
 /**
  * Report pipeline task configuration
  */
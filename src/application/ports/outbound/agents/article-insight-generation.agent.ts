@@ -0,0 +1,37 @@
+// Domain
+import {
+    type ArticleInsightDuration,
+    type ArticleInsightKind,
+} from '../../../../domain/value-objects/article-insight/article-insight.vo.js';
+import { type ArticleTraits } from '../../../../domain/value-objects/article-traits.vo.js';
+import { type Language } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * @description
+ * Port for the Article Insight Generation Agent that explains why an article matters and what to watch next
+ */
+export interface ArticleInsightGenerationAgentPort {
+    run(input: ArticleInsightGenerationInput): Promise<ArticleInsightGenerationResult | null>;
+}
+
+/**
+ * @description
+ * Input data required for insight generation
+ */
+export interface ArticleInsightGenerationInput {
+    articleContent: string; // Preformatted article content to analyze
+    targetLanguage: Language;
+    traits: ArticleTraits; // Article traits to guide the depth of the analysis
+}
+
+/**
+ * @description
+ * Result of insight generation containing one analysis per perspective the agent covered
+ */
+export interface ArticleInsightGenerationResult {
+    insights: Array<{
+        analysis: string;
+        duration: ArticleInsightDuration;
+        kind: ArticleInsightKind;
+    }>;
+}
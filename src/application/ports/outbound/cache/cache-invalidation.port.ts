@@ -0,0 +1,9 @@
+/**
+ * Cache invalidation port - lets persistence adapters discard cached reads after a write
+ */
+export interface CacheInvalidationPort {
+    /**
+     * Discard every cached entry, so the next reads are computed from stored data
+     */
+    invalidate(): void;
+}
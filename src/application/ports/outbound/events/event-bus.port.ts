@@ -0,0 +1,31 @@
+// Domain
+import { type ArticlesPublishedEvent } from '../../../../domain/events/articles-published.event.js';
+import { type QuizzesGeneratedEvent } from '../../../../domain/events/quizzes-generated.event.js';
+
+/**
+ * Every event use cases can publish
+ */
+export type DomainEvent = ArticlesPublishedEvent | QuizzesGeneratedEvent;
+
+export type DomainEventType = DomainEvent['type'];
+
+export type DomainEventHandler<T extends DomainEventType> = (
+    event: Extract<DomainEvent, { type: T }>,
+) => void;
+
+/**
+ * Event bus port - lets use cases announce what happened without knowing who listens
+ */
+export interface EventBusPort {
+    /**
+     * Deliver an event to the current subscribers of its type.
+     * A failing subscriber never fails the publisher.
+     */
+    publish(event: DomainEvent): void;
+
+    /**
+     * Listen to events of one type
+     * @returns A function removing the subscription
+     */
+    subscribe<T extends DomainEventType>(type: T, handler: DomainEventHandler<T>): () => void;
+}
@@ -0,0 +1,35 @@
+/**
+ * Outcome of a health check: `warn` flags a degraded dependency the service can run without
+ */
+export type HealthStatus = 'fail' | 'pass' | 'warn';
+
+/**
+ * Result of a single health check
+ */
+export interface HealthCheckResult {
+    /** Overrides the criticality of the indicator, for a failure that became fatal */
+    critical?: boolean;
+    /** Facts supporting the status, e.g. latency or the time of the last success */
+    details?: Record<string, unknown>;
+    status: HealthStatus;
+}
+
+/**
+ * Health indicator port - defines how a dependency of the service reports its health
+ */
+export interface HealthIndicatorPort {
+    /**
+     * Check the dependency; failures are reported in the result rather than thrown
+     */
+    check(): Promise<HealthCheckResult>;
+
+    /**
+     * Whether the service cannot serve requests while this dependency fails
+     */
+    readonly critical: boolean;
+
+    /**
+     * Name of the check in health reports
+     */
+    readonly name: string;
+}
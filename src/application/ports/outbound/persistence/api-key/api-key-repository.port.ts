@@ -0,0 +1,37 @@
+// Domain
+import { type ApiKey } from '../../../../../domain/entities/api-key.entity.js';
+
+/**
+ * API key repository port - defines how API client credentials are persisted
+ */
+export interface ApiKeyRepositoryPort {
+    /**
+     * Create a new API key
+     */
+    create(apiKey: ApiKey): Promise<ApiKey>;
+
+    /**
+     * Find every API key, revoked ones included, oldest first
+     */
+    findAll(): Promise<ApiKey[]>;
+
+    /**
+     * Find an API key by the hash of its secret
+     */
+    findByHash(keyHash: string): Promise<null | ApiKey>;
+
+    /**
+     * Find an API key by ID
+     */
+    findById(id: string): Promise<null | ApiKey>;
+
+    /**
+     * Find an API key by its client label
+     */
+    findByLabel(label: string): Promise<null | ApiKey>;
+
+    /**
+     * Mark an API key as revoked
+     */
+    revoke(id: string, revokedAt: Date): Promise<ApiKey>;
+}
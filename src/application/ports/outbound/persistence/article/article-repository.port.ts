@@ -1,5 +1,8 @@
 // Domain
 import { type Article } from '../../../../../domain/entities/article.entity.js';
+import { type EditorialAction } from '../../../../../domain/entities/editorial-action.entity.js';
+import { type ArticleInsight } from '../../../../../domain/value-objects/article-insight/article-insight.vo.js';
+import { type ArticleTraitsProps } from '../../../../../domain/value-objects/article-traits.vo.js';
 import { type Categories } from '../../../../../domain/value-objects/categories.vo.js';
 import { type Category } from '../../../../../domain/value-objects/category.vo.js';
 import { type Country } from '../../../../../domain/value-objects/country.vo.js';
@@ -14,11 +17,21 @@ export interface ArticleRepositoryPort {
      */
     countMany(options: CountManyOptions): Promise<number>;
 
+    /**
+     * Count articles matching a full-text search query
+     */
+    countSearch(options: CountSearchOptions): Promise<number>;
+
     /**
      * Create multiple articles
      */
     createMany(articles: Article[]): Promise<void>;
 
+    /**
+     * Find an article by its id
+     */
+    findById(id: string): Promise<Article | null>;
+
     /**
      * Find headlines and summaries matching the given criteria
      */
@@ -37,19 +50,88 @@ export interface ArticleRepositoryPort {
      */
     findManyByIds(ids: string[]): Promise<Article[]>;
 
+    /**
+     * Create an article in place of the given ones, which get retracted, and record the
+     * editorial action behind it. Nothing is written unless every step succeeds.
+     */
+    republish(article: Article, replacedIds: string[], action: EditorialAction): Promise<void>;
+
+    /**
+     * Withdraw an article from every public listing, keeping it for the record, and record the
+     * editorial action behind it in the same transaction. It is retracted as of the action.
+     */
+    retract(id: string, action: EditorialAction): Promise<void>;
+
+    /**
+     * Replace the insights of an article, leaving the rest of it untouched
+     */
+    saveInsights(articleId: string, insights: ArticleInsight[]): Promise<void>;
+
+    /**
+     * Search articles by full-text query over headline, body and frames, best matches first
+     */
+    search(options: SearchOptions): Promise<ArticleSearchHit[]>;
+
     /**
      * Update multiple existing articles
      */
     updateMany(articles: Article[]): Promise<void>;
 }
 
+/**
+ * Position in the article list, which is ordered by `publishedAt` then `id`, newest first
+ */
+export interface ArticleCursor {
+    id: string;
+    publishedAt: Date;
+}
+
+export interface ArticleSearchHit {
+    article: Article;
+    /** Relevance score, lower is better. Used with the article id as pagination cursor. */
+    rank: number;
+    /** Best matching excerpt with matched terms wrapped in `<mark>` tags */
+    snippet: string;
+}
+
+export interface ArticleSearchCursor {
+    id: string;
+    rank: number;
+}
+
+export type ArticleTrait = keyof ArticleTraitsProps;
+
 export interface CountManyOptions {
     categories?: Categories;
+    /** How `categories` combine: `any` (default) matches one of them, `all` requires every one */
+    categoriesMatch?: FilterMatch;
     category?: Category;
     country?: Country;
     endDate?: Date;
+    /**
+     * Exclude articles whose associated report classification is OFF_TOPIC,
+     * or that an editor retracted.
+     * Defaults to false so totals used by the pipeline cover every stored article.
+     */
+    excludeArchived?: boolean;
+    /** Exclude articles whose authenticity is FABRICATED */
+    excludeFabricated?: boolean;
     language?: Language;
+    /** Only articles published strictly before this instant */
+    publishedBefore?: Date;
+    /** Only articles published at or after this instant */
+    publishedFrom?: Date;
     startDate?: Date;
+    tier?: Array<'GENERAL' | 'NICHE'>;
+    traits?: ArticleTrait[];
+    /** How `traits` combine: `any` (default) matches one of them, `all` requires every one */
+    traitsMatch?: FilterMatch;
+}
+
+export interface CountSearchOptions {
+    country?: Country;
+    language?: Language;
+    query: string;
 }
 
 export interface FindHeadlinesAndSummariesOptions {
@@ -58,17 +140,40 @@ export interface FindHeadlinesAndSummariesOptions {
     since?: Date;
 }
 
+export type FilterMatch = 'all' | 'any';
+
+export type PaginationDirection = 'backward' | 'forward';
+
 export interface FindManyOptions {
     categories?: Categories;
+    categoriesMatch?: FilterMatch;
     category?: Category;
     country?: Country;
     tier?: Array<'GENERAL' | 'NICHE'>;
-    cursor?: Date;
+    traits?: ArticleTrait[];
+    traitsMatch?: FilterMatch;
+    /** Return articles strictly after (older than) or before (newer than) this position */
+    cursor?: ArticleCursor;
     /**
-     * Exclude articles whose associated report classification is OFF_TOPIC.
+     * Which side of the cursor to read. Defaults to 'forward' (older articles).
+     * Results are always returned newest first.
+     */
+    direction?: PaginationDirection;
+    /**
+     * Exclude articles whose associated report classification is OFF_TOPIC,
+     * or that an editor retracted.
      * Defaults to true for most consumer-facing queries.
      */
     excludeArchived?: boolean;
+    excludeFabricated?: boolean;
     language?: Language;
     limit: number;
+    publishedBefore?: Date;
+    publishedFrom?: Date;
+}
+
+export interface SearchOptions extends CountSearchOptions {
+    /** Return hits ranked strictly after this one */
+    cursor?: ArticleSearchCursor;
+    limit: number;
 }
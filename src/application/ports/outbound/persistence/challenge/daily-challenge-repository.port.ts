@@ -0,0 +1,26 @@
+// Domain
+import { type DailyChallenge } from '../../../../../domain/entities/daily-challenge.entity.js';
+import { type Country } from '../../../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../../../domain/value-objects/language.vo.js';
+
+/**
+ * Daily challenge repository port - defines how daily editions are persisted
+ */
+export interface DailyChallengeRepositoryPort {
+    /**
+     * Find the edition of a locale for a local date (yyyy-MM-dd)
+     */
+    findByDate(options: FindDailyChallengeOptions): Promise<DailyChallenge | null>;
+
+    /**
+     * Persist an edition unless one already exists for the same locale and date.
+     * Returns the stored edition so concurrent requests agree on a single selection.
+     */
+    saveIfAbsent(challenge: DailyChallenge): Promise<DailyChallenge>;
+}
+
+export interface FindDailyChallengeOptions {
+    country: Country;
+    date: string;
+    language: Language;
+}
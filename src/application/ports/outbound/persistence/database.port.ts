@@ -11,4 +11,9 @@ export interface DatabasePort {
      * Disconnect from the database
      */
     disconnect(): Promise<void>;
+
+    /**
+     * Check the database answers a trivial query
+     */
+    ping(): Promise<void>;
 }
@@ -0,0 +1,27 @@
+// Domain
+import { type PipelineRun } from '../../../../../domain/entities/pipeline-run.entity.js';
+
+/**
+ * Pipeline run repository port - defines how the progress of report pipeline runs is tracked
+ */
+export interface PipelineRunRepositoryPort {
+    /**
+     * Record a new run
+     */
+    create(run: PipelineRun): Promise<PipelineRun>;
+
+    /**
+     * Find a run by its id
+     */
+    findById(id: string): Promise<null | PipelineRun>;
+
+    /**
+     * List the runs still tracked, latest first
+     */
+    findRecent(): Promise<PipelineRun[]>;
+
+    /**
+     * Replace the recorded state of a run
+     */
+    update(run: PipelineRun): Promise<PipelineRun>;
+}
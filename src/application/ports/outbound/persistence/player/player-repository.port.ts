@@ -0,0 +1,83 @@
+// Domain
+import { type Player } from '../../../../../domain/entities/player.entity.js';
+import { type AuthenticityStatusEnum } from '../../../../../domain/value-objects/article/authenticity.vo.js';
+import { type Country } from '../../../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../../../domain/value-objects/language.vo.js';
+
+/**
+ * Player repository port - defines how players and their game results are persisted
+ */
+export interface PlayerRepositoryPort {
+    /**
+     * Create a new player. When its device is already registered, the existing player is
+     * returned instead.
+     */
+    create(player: Player): Promise<Player>;
+
+    /**
+     * Find a player by the device it registered from
+     */
+    findByDeviceId(deviceId: string): Promise<null | Player>;
+
+    /**
+     * Find a player by ID
+     */
+    findById(id: string): Promise<null | Player>;
+
+    /**
+     * Find every quiz answer and authenticity guess recorded for a player
+     */
+    findGameResults(playerId: string): Promise<PlayerGameResult[]>;
+
+    /**
+     * Aggregate the results of every player on articles of a locale, optionally since a date
+     */
+    findResultTotals(options: FindResultTotalsOptions): Promise<PlayerResultTotals[]>;
+
+    /**
+     * Record an authenticity guess. Only the first guess per article is kept.
+     */
+    recordAuthenticityGuess(guess: AuthenticityGuessRecord): Promise<void>;
+
+    /**
+     * Record quiz answers. Only the first answer per article question is kept.
+     */
+    recordQuizAttempts(attempts: QuizAttemptRecord[]): Promise<void>;
+}
+
+export interface AuthenticityGuessRecord {
+    articleId: string;
+    correct: boolean;
+    guess: AuthenticityStatusEnum;
+    playerId: string;
+}
+
+export interface FindResultTotalsOptions {
+    country: Country;
+    language: Language;
+    /** Only count results recorded at or after this instant */
+    since?: Date;
+}
+
+export interface PlayerGameResult {
+    articleId: string;
+    correct: boolean;
+    kind: 'AUTHENTICITY' | 'QUIZ';
+    playedAt: Date;
+}
+
+export interface PlayerResultTotals {
+    authenticityCorrect: number;
+    authenticityGuessed: number;
+    playerId: string;
+    quizAnswered: number;
+    quizCorrect: number;
+}
+
+export interface QuizAttemptRecord {
+    answerIndex: number;
+    articleId: string;
+    correct: boolean;
+    playerId: string;
+    questionIndex: number;
+}
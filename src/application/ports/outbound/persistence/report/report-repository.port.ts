@@ -1,7 +1,18 @@
 // Domain
+import { type EditorialAction } from '../../../../../domain/entities/editorial-action.entity.js';
 import { type Report } from '../../../../../domain/entities/report.entity.js';
+import { type ArticleTraits } from '../../../../../domain/value-objects/article-traits.vo.js';
 import { type Country } from '../../../../../domain/value-objects/country.vo.js';
-import { type Language } from '../../../../../domain/value-objects/language.vo.js';
+import {
+    type Language,
+    type LanguageEnum,
+} from '../../../../../domain/value-objects/language.vo.js';
+import { type DeduplicationStateType } from '../../../../../domain/value-objects/report/deduplication-state.vo.js';
+import { type ClassificationStateType } from '../../../../../domain/value-objects/report/tier-state.vo.js';
+import {
+    type Classification,
+    type ClassificationType,
+} from '../../../../../domain/value-objects/report/tier.vo.js';
 
 /**
  * Repository port for report persistence operations
@@ -30,7 +41,13 @@ export interface ReportRepositoryPort {
     findById(id: string): Promise<null | Report>;
 
     /**
-     * Find reports by criteria
+     * Find a report by ID along with its duplicate chain and the articles published from it
+     */
+    findDetailById(id: string): Promise<null | ReportDetail>;
+
+    /**
+     * Find reports by criteria, latest dateline first.
+     * Each of `startDate` and `endDate` bounds the dateline on its own.
      */
     findMany(criteria: {
         category?: string;
@@ -40,7 +57,9 @@ export interface ReportRepositoryPort {
         offset?: number;
         startDate?: Date;
         where?: {
-            classificationState?: 'PENDING';
+            classificationState?: ClassificationStateType;
+            deduplicationState?: DeduplicationStateType;
+            tier?: ClassificationType;
         };
     }): Promise<Report[]>;
 
@@ -96,12 +115,66 @@ export interface ReportRepositoryPort {
     countByDateRange(country: Country, from: Date, to: Date): Promise<number>;
 
     /**
-     * Mark a report as a duplicate of another report
+     * Mark a report as a duplicate of another report, recording the editorial action behind it
+     * in the same transaction when given
+     */
+    markAsDuplicate(
+        reportId: string,
+        options: { action?: EditorialAction; duplicateOfId: string },
+    ): Promise<Report>;
+
+    /**
+     * Override the classification of a report and the traits of the articles published from it,
+     * recording the editorial action behind it in the same transaction
      */
-    markAsDuplicate(reportId: string, options: { duplicateOfId: string }): Promise<Report>;
+    reclassify(
+        reportId: string,
+        classification: { tier: Classification; traits?: ArticleTraits },
+        action: EditorialAction,
+    ): Promise<Report>;
+
+    /**
+     * Detach a report from the canonical report it was marked as a duplicate of, recording the
+     * editorial action behind it in the same transaction
+     */
+    unmarkAsDuplicate(reportId: string, action: EditorialAction): Promise<Report>;
 
     /**
      * Update a report's interest tier
      */
     update(id: string, data: Partial<Report>): Promise<Report>;
 }
+
+/**
+ * Article published from a report, as listed alongside it
+ */
+export interface ReportArticleSummary {
+    fabricated: boolean;
+    headline: string;
+    id: string;
+    language: LanguageEnum;
+    publishedAt: Date;
+    retractedAt: Date | null;
+}
+
+/**
+ * A report with the reports it is linked to by deduplication and its articles
+ */
+export interface ReportDetail {
+    articles: ReportArticleSummary[];
+    /** Canonical report this one duplicates, if any */
+    duplicateOf: null | ReportSummary;
+    /** Reports marked as duplicates of this one */
+    duplicates: ReportSummary[];
+    report: Report;
+}
+
+/**
+ * Report linked to another one by deduplication
+ */
+export interface ReportSummary {
+    core: string;
+    createdAt: Date;
+    dateline: Date;
+    id: string;
+}
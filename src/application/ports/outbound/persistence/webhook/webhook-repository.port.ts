@@ -0,0 +1,119 @@
+// Domain
+import {
+    type WebhookEventType,
+    type WebhookSubscription,
+} from '../../../../../domain/entities/webhook-subscription.entity.js';
+
+/**
+ * Webhook repository port - defines how subscriptions and their deliveries are persisted
+ */
+export interface WebhookRepositoryPort {
+    /**
+     * Queue deliveries, each to be sent at or after its `nextAttemptAt`
+     */
+    createDeliveries(deliveries: NewWebhookDelivery[]): Promise<void>;
+
+    /**
+     * Create a new subscription
+     */
+    createSubscription(subscription: WebhookSubscription): Promise<WebhookSubscription>;
+
+    /**
+     * Delete a subscription and its deliveries
+     * @returns false when the subscription does not exist
+     */
+    deleteSubscription(id: string): Promise<boolean>;
+
+    /**
+     * Find the latest deliveries of a subscription with their attempts, newest first
+     */
+    findDeliveries(subscriptionId: string, limit: number): Promise<WebhookDeliveryRecord[]>;
+
+    /**
+     * Find pending deliveries due at the given instant, oldest first, with their subscription
+     */
+    findDueDeliveries(options: FindDueDeliveriesOptions): Promise<DueWebhookDelivery[]>;
+
+    /**
+     * Find a subscription by ID
+     */
+    findSubscriptionById(id: string): Promise<null | WebhookSubscription>;
+
+    /**
+     * Find subscriptions, oldest first
+     */
+    findSubscriptions(options?: FindSubscriptionsOptions): Promise<WebhookSubscription[]>;
+
+    /**
+     * Record the outcome of an attempt: the attempt itself, the delivery workflow
+     * and the health of the subscription, atomically
+     */
+    recordDeliveryAttempt(outcome: WebhookDeliveryOutcome): Promise<void>;
+
+    /**
+     * Replace the stored state of a subscription
+     */
+    updateSubscription(subscription: WebhookSubscription): Promise<WebhookSubscription>;
+}
+
+export interface DueWebhookDelivery {
+    attemptCount: number;
+    eventType: WebhookEventType;
+    id: string;
+    payload: string;
+    subscription: WebhookSubscription;
+}
+
+export interface FindDueDeliveriesOptions {
+    limit: number;
+    now: Date;
+}
+
+export interface FindSubscriptionsOptions {
+    /** Only enabled subscriptions to this event type */
+    eventType?: WebhookEventType;
+}
+
+export interface NewWebhookDelivery {
+    eventType: WebhookEventType;
+    id: string;
+    nextAttemptAt: Date;
+    payload: string;
+    subscriptionId: string;
+}
+
+export interface WebhookDeliveryAttemptRecord {
+    attemptedAt: Date;
+    durationMs: number;
+    error?: string;
+    statusCode?: number;
+    succeeded: boolean;
+}
+
+export interface WebhookDeliveryOutcome {
+    attempt: WebhookDeliveryAttemptRecord;
+    delivery: {
+        attemptCount: number;
+        id: string;
+        /** Absent once the delivery succeeded or gave up */
+        nextAttemptAt: Date | null;
+        status: WebhookDeliveryStatus;
+    };
+    subscription: {
+        consecutiveFailures: number;
+        enabled: boolean;
+        id: string;
+    };
+}
+
+export interface WebhookDeliveryRecord {
+    attemptCount: number;
+    attempts: WebhookDeliveryAttemptRecord[];
+    createdAt: Date;
+    eventType: WebhookEventType;
+    id: string;
+    nextAttemptAt: Date | null;
+    status: WebhookDeliveryStatus;
+}
+
+export type WebhookDeliveryStatus = 'FAILED' | 'PENDING' | 'SUCCEEDED';
@@ -27,6 +27,19 @@ export interface NewsProviderPort {
      * Fetch news reports (each containing multiple articles) based on language and country
      */
     fetchNews(options?: NewsOptions): Promise<NewsReport[]>;
+
+    /**
+     * Outcome of the latest requests to the provider, as failures are not raised to callers
+     */
+    getStatus(): NewsProviderStatus;
+}
+
+/**
+ * Latest successful and failed requests to a news provider
+ */
+export interface NewsProviderStatus {
+    lastFailure: null | { at: Date; error: string };
+    lastSuccessAt: Date | null;
 }
 
 /**
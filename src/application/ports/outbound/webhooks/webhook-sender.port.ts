@@ -0,0 +1,29 @@
+// Domain
+import { type WebhookEventType } from '../../../../domain/entities/webhook-subscription.entity.js';
+
+/**
+ * Webhook sender port - delivers a signed payload to a partner endpoint
+ */
+export interface WebhookSenderPort {
+    /**
+     * POST the payload once. Never throws: transport failures are reported in the response.
+     */
+    send(request: WebhookRequest): Promise<WebhookResponse>;
+}
+
+export interface WebhookRequest {
+    deliveryId: string;
+    eventType: WebhookEventType;
+    payload: string;
+    secret: string;
+    url: string;
+}
+
+export interface WebhookResponse {
+    durationMs: number;
+    /** Transport failure or unexpected status, when not successful */
+    error?: string;
+    /** Absent when no response was received */
+    statusCode?: number;
+    succeeded: boolean;
+}
@@ -0,0 +1,71 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { ApiKey } from '../../../../domain/entities/api-key.entity.js';
+import { ApiKeySecret } from '../../../../domain/value-objects/api-key/api-key-secret.vo.js';
+
+// Ports
+import { type ApiKeyRepositoryPort } from '../../../ports/outbound/persistence/api-key/api-key-repository.port.js';
+
+import { AuthenticateApiKeyUseCase } from '../authenticate-api-key.use-case.js';
+
+describe('AuthenticateApiKeyUseCase', () => {
+    let mockApiKeyRepository: DeepMockProxy<ApiKeyRepositoryPort>;
+    let useCase: AuthenticateApiKeyUseCase;
+    let secret: ApiKeySecret;
+
+    const createApiKey = (revokedAt?: Date) =>
+        new ApiKey({
+            createdAt: new Date('2024-03-01T10:00:00.000Z'),
+            id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+            keyHash: secret.hash(),
+            label: 'partner-app',
+            prefix: secret.prefix(),
+            revokedAt,
+            scopes: ['read:articles'],
+        });
+
+    beforeEach(() => {
+        mockApiKeyRepository = mock<ApiKeyRepositoryPort>();
+        useCase = new AuthenticateApiKeyUseCase(mockApiKeyRepository);
+        secret = ApiKeySecret.generate();
+    });
+
+    describe('execute', () => {
+        it('should resolve the key by the hash of the secret', async () => {
+            // Given - an active key
+            const apiKey = createApiKey();
+            mockApiKeyRepository.findByHash.mockResolvedValue(apiKey);
+
+            // When
+            const result = await useCase.execute(secret.toString());
+
+            // Then
+            expect(result).toBe(apiKey);
+            expect(mockApiKeyRepository.findByHash).toHaveBeenCalledWith(secret.hash());
+        });
+
+        it('should reject a revoked key', async () => {
+            // Given - a key revoked yesterday
+            mockApiKeyRepository.findByHash.mockResolvedValue(
+                createApiKey(new Date(Date.now() - 86_400_000)),
+            );
+
+            // When
+            const result = await useCase.execute(secret.toString());
+
+            // Then
+            expect(result).toBeNull();
+        });
+
+        it('should reject a malformed key without querying the repository', async () => {
+            // When
+            const result = await useCase.execute('not-an-api-key');
+
+            // Then
+            expect(result).toBeNull();
+            expect(mockApiKeyRepository.findByHash).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,56 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Ports
+import { type ApiKeyRepositoryPort } from '../../../ports/outbound/persistence/api-key/api-key-repository.port.js';
+
+import { CreateApiKeyUseCase } from '../create-api-key.use-case.js';
+
+describe('CreateApiKeyUseCase', () => {
+    let mockApiKeyRepository: DeepMockProxy<ApiKeyRepositoryPort>;
+    let useCase: CreateApiKeyUseCase;
+
+    beforeEach(() => {
+        mockApiKeyRepository = mock<ApiKeyRepositoryPort>();
+        mockApiKeyRepository.create.mockImplementation(async (apiKey) => apiKey);
+        useCase = new CreateApiKeyUseCase(mockApiKeyRepository, mock<LoggerPort>());
+    });
+
+    describe('execute', () => {
+        it('should store only the hash of the issued key', async () => {
+            // Given - an unused label
+            mockApiKeyRepository.findByLabel.mockResolvedValue(null);
+
+            // When - issuing a key
+            const result = await useCase.execute({
+                label: 'partner-app',
+                scopes: ['read:articles'],
+            });
+
+            // Then - the stored key matches the secret without containing it
+            expect(result).not.toBeNull();
+            const { apiKey, secret } = result!;
+            expect(secret.toString()).toMatch(/^n00_/);
+            expect(apiKey.keyHash).toBe(secret.hash());
+            expect(apiKey.keyHash).not.toContain(secret.toString());
+            expect(apiKey.prefix).toBe(secret.toString().slice(0, 10));
+            expect(apiKey.scopes).toEqual(['read:articles']);
+            expect(mockApiKeyRepository.create).toHaveBeenCalledWith(apiKey);
+        });
+
+        it('should refuse a label already in use', async () => {
+            // Given - a key already issued to the label
+            const { apiKey } = (await useCase.execute({ label: 'partner-app', scopes: ['play'] }))!;
+            mockApiKeyRepository.create.mockClear();
+            mockApiKeyRepository.findByLabel.mockResolvedValue(apiKey);
+
+            // When
+            const result = await useCase.execute({ label: 'partner-app', scopes: ['admin'] });
+
+            // Then
+            expect(result).toBeNull();
+            expect(mockApiKeyRepository.create).not.toHaveBeenCalled();
+        });
+    });
+});
@@ -0,0 +1,34 @@
+// Domain
+import { type ApiKey } from '../../../domain/entities/api-key.entity.js';
+import { ApiKeySecret } from '../../../domain/value-objects/api-key/api-key-secret.vo.js';
+
+// Ports
+import { type ApiKeyRepositoryPort } from '../../ports/outbound/persistence/api-key/api-key-repository.port.js';
+
+/**
+ * Use case for resolving the client presenting an API key
+ */
+export class AuthenticateApiKeyUseCase {
+    constructor(private readonly apiKeyRepository: ApiKeyRepositoryPort) {}
+
+    /**
+     * @param key - Plaintext key sent by the client
+     * @returns The matching active key, or null for a malformed, unknown or revoked key
+     */
+    async execute(key: string): Promise<null | ApiKey> {
+        let secret: ApiKeySecret;
+        try {
+            secret = new ApiKeySecret(key);
+        } catch {
+            return null;
+        }
+
+        const apiKey = await this.apiKeyRepository.findByHash(secret.hash());
+
+        if (!apiKey || apiKey.isRevoked()) {
+            return null;
+        }
+
+        return apiKey;
+    }
+}
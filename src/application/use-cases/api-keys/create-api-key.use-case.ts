@@ -0,0 +1,69 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { ApiKey, type ApiKeyScope } from '../../../domain/entities/api-key.entity.js';
+import { ApiKeySecret } from '../../../domain/value-objects/api-key/api-key-secret.vo.js';
+
+// Ports
+import { type ApiKeyRepositoryPort } from '../../ports/outbound/persistence/api-key/api-key-repository.port.js';
+
+/**
+ * Input parameters for the CreateApiKey use case
+ */
+export interface CreateApiKeyParams {
+    label: string;
+    scopes: ApiKeyScope[];
+}
+
+/**
+ * Result returned by CreateApiKeyUseCase
+ */
+export interface CreateApiKeyResult {
+    apiKey: ApiKey;
+    /** Plaintext key, not recoverable once this result is discarded */
+    secret: ApiKeySecret;
+}
+
+/**
+ * Use case for issuing an API key to a client
+ */
+export class CreateApiKeyUseCase {
+    constructor(
+        private readonly apiKeyRepository: ApiKeyRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * Issue a key with the given scopes
+     * @param params - Client label and scopes
+     * @returns The key and its plaintext secret, or null when the label is already in use
+     */
+    async execute(params: CreateApiKeyParams): Promise<null | CreateApiKeyResult> {
+        const existing = await this.apiKeyRepository.findByLabel(params.label);
+
+        if (existing) {
+            return null;
+        }
+
+        const secret = ApiKeySecret.generate();
+        const apiKey = await this.apiKeyRepository.create(
+            new ApiKey({
+                createdAt: new Date(),
+                id: randomUUID(),
+                keyHash: secret.hash(),
+                label: params.label,
+                prefix: secret.prefix(),
+                scopes: params.scopes,
+            }),
+        );
+
+        this.logger.info('API key created', {
+            apiKeyId: apiKey.id,
+            label: apiKey.label,
+            scopes: apiKey.scopes,
+        });
+
+        return { apiKey, secret };
+    }
+}
@@ -0,0 +1,16 @@
+// Domain
+import { type ApiKey } from '../../../domain/entities/api-key.entity.js';
+
+// Ports
+import { type ApiKeyRepositoryPort } from '../../ports/outbound/persistence/api-key/api-key-repository.port.js';
+
+/**
+ * Use case for listing the issued API keys, revoked ones included
+ */
+export class GetApiKeysUseCase {
+    constructor(private readonly apiKeyRepository: ApiKeyRepositoryPort) {}
+
+    async execute(): Promise<ApiKey[]> {
+        return this.apiKeyRepository.findAll();
+    }
+}
@@ -0,0 +1,38 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Domain
+import { type ApiKey } from '../../../domain/entities/api-key.entity.js';
+
+// Ports
+import { type ApiKeyRepositoryPort } from '../../ports/outbound/persistence/api-key/api-key-repository.port.js';
+
+/**
+ * Use case for revoking an API key; the record is kept so listings show who had access
+ */
+export class RevokeApiKeyUseCase {
+    constructor(
+        private readonly apiKeyRepository: ApiKeyRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * @returns The revoked key, or null when it does not exist
+     */
+    async execute(id: string): Promise<null | ApiKey> {
+        const apiKey = await this.apiKeyRepository.findById(id);
+
+        if (!apiKey) {
+            return null;
+        }
+
+        if (apiKey.isRevoked()) {
+            return apiKey;
+        }
+
+        const revoked = await this.apiKeyRepository.revoke(id, new Date());
+
+        this.logger.info('API key revoked', { apiKeyId: id, label: revoked.label });
+
+        return revoked;
+    }
+}
@@ -21,6 +21,7 @@ import {
     type ArticleFabricationAgentPort,
     type ArticleFabricationResult,
 } from '../../../ports/outbound/agents/article-fabrication.agent.js';
+import { type EventBusPort } from '../../../ports/outbound/events/event-bus.port.js';
 import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
 
 import { FabricateArticlesUseCase } from '../fabricate-articles.use-case.js';
@@ -30,16 +31,19 @@ describe('FabricateArticlesUseCase', () => {
     let mockArticleFabricationAgent: DeepMockProxy<ArticleFabricationAgentPort>;
     let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
     let mockLogger: DeepMockProxy<LoggerPort>;
+    let mockEventBus: DeepMockProxy<EventBusPort>;
 
     beforeEach(() => {
         mockArticleFabricationAgent = mock<ArticleFabricationAgentPort>();
         mockArticleRepository = mock<ArticleRepositoryPort>();
         mockLogger = mock<LoggerPort>();
+        mockEventBus = mock<EventBusPort>();
 
         useCase = new FabricateArticlesUseCase(
             mockArticleFabricationAgent,
             mockArticleRepository,
             mockLogger,
+            mockEventBus,
         );
     });
 
@@ -172,6 +176,9 @@ describe('FabricateArticlesUseCase', () => {
             });
 
             expect(mockArticleRepository.createMany).toHaveBeenCalledWith([expect.any(Article)]);
+            expect(mockEventBus.publish).toHaveBeenCalledWith(
+                expect.objectContaining({ articles: result, type: 'articles.published' }),
+            );
         });
 
         test('should handle fabrication agent returning null', async () => {
@@ -204,6 +211,7 @@ describe('FabricateArticlesUseCase', () => {
                 language: 'EN',
             });
             expect(mockArticleRepository.createMany).not.toHaveBeenCalled();
+            expect(mockEventBus.publish).not.toHaveBeenCalled();
         });
 
         test('should handle publication date calculation with insertAfterIndex', async () => {
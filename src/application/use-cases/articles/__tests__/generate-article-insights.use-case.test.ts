@@ -0,0 +1,136 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { createMockArticle } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { Article } from '../../../../domain/entities/article.entity.js';
+import { ArticleInsight } from '../../../../domain/value-objects/article-insight/article-insight.vo.js';
+import { ArticleTraits } from '../../../../domain/value-objects/article-traits.vo.js';
+import {
+    Authenticity,
+    AuthenticityStatusEnum,
+} from '../../../../domain/value-objects/article/authenticity.vo.js';
+import { Country } from '../../../../domain/value-objects/country.vo.js';
+import { Language } from '../../../../domain/value-objects/language.vo.js';
+import { Classification } from '../../../../domain/value-objects/report/tier.vo.js';
+
+// Ports
+import { type ArticleInsightGenerationAgentPort } from '../../../ports/outbound/agents/article-insight-generation.agent.js';
+import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
+
+import { GenerateArticleInsightsUseCase } from '../generate-article-insights.use-case.js';
+
+describe('GenerateArticleInsightsUseCase', () => {
+    const language = new Language('EN');
+    const country = new Country('US');
+
+    const generalArticle = new Article({
+        ...createMockArticle(0),
+        tier: new Classification('GENERAL'),
+    });
+    const essentialArticle = new Article({
+        ...createMockArticle(1),
+        tier: new Classification('NICHE'),
+        traits: new ArticleTraits({ essential: true }),
+    });
+    const nicheArticle = new Article({
+        ...createMockArticle(2),
+        tier: new Classification('NICHE'),
+    });
+    const fabricatedArticle = new Article({
+        ...createMockArticle(3),
+        authenticity: new Authenticity(AuthenticityStatusEnum.FABRICATED, 'Invented'),
+        tier: new Classification('GENERAL'),
+    });
+    const analyzedArticle = new Article({
+        ...createMockArticle(4),
+        insights: [
+            new ArticleInsight({
+                analysis: 'The decision reshapes how the region handles its energy supply.',
+                duration: 'P1M',
+                kind: 'WHY_IT_MATTERS',
+                publishedAt: new Date(),
+            }),
+        ],
+        tier: new Classification('GENERAL'),
+    });
+
+    let mockAgent: DeepMockProxy<ArticleInsightGenerationAgentPort>;
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let useCase: GenerateArticleInsightsUseCase;
+
+    beforeEach(() => {
+        mockAgent = mock<ArticleInsightGenerationAgentPort>();
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        useCase = new GenerateArticleInsightsUseCase(
+            mockArticleRepository,
+            mockAgent,
+            mock<LoggerPort>(),
+        );
+
+        mockAgent.run.mockResolvedValue({
+            insights: [
+                {
+                    analysis: 'Millions of households will see their bills change this winter.',
+                    duration: 'P1M',
+                    kind: 'WHY_IT_MATTERS',
+                },
+                {
+                    analysis: 'The parliament votes on the final text before the end of the month.',
+                    duration: 'P1W',
+                    kind: 'WHAT_TO_WATCH',
+                },
+            ],
+        });
+    });
+
+    test('should analyze authentic general or essential articles without insights', async () => {
+        // Given
+        mockArticleRepository.findMany.mockResolvedValue([
+            generalArticle,
+            essentialArticle,
+            nicheArticle,
+            fabricatedArticle,
+            analyzedArticle,
+        ]);
+
+        // When
+        const result = await useCase.execute(language, country);
+
+        // Then
+        expect(result.map((article) => article.id)).toEqual([
+            generalArticle.id,
+            essentialArticle.id,
+        ]);
+        expect(mockAgent.run).toHaveBeenCalledTimes(2);
+        expect(mockAgent.run).toHaveBeenCalledWith({
+            articleContent: essentialArticle.toFullArticleContent(),
+            targetLanguage: language,
+            traits: essentialArticle.traits,
+        });
+        expect(result[0].insights?.map((insight) => [insight.kind, insight.duration])).toEqual([
+            ['WHY_IT_MATTERS', 'P1M'],
+            ['WHAT_TO_WATCH', 'P1W'],
+        ]);
+        expect(mockArticleRepository.saveInsights).toHaveBeenCalledTimes(2);
+        expect(mockArticleRepository.saveInsights).toHaveBeenCalledWith(
+            generalArticle.id,
+            result[0].insights,
+        );
+        expect(mockArticleRepository.updateMany).not.toHaveBeenCalled();
+    });
+
+    test('should skip articles the agent could not analyze', async () => {
+        // Given
+        mockArticleRepository.findMany.mockResolvedValue([generalArticle]);
+        mockAgent.run.mockResolvedValue(null);
+
+        // When
+        const result = await useCase.execute(language, country);
+
+        // Then
+        expect(result).toEqual([]);
+        expect(mockArticleRepository.saveInsights).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,61 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { Article } from '../../../../domain/entities/article.entity.js';
+import { createMockArticle } from '../../../../domain/entities/__mocks__/articles.mock.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
+
+import { GetArticleUseCase } from '../get-article.use-case.js';
+
+describe('GetArticleUseCase', () => {
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let useCase: GetArticleUseCase;
+
+    beforeEach(() => {
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        useCase = new GetArticleUseCase(mockArticleRepository);
+    });
+
+    describe('execute', () => {
+        it('should return the article matching the id', async () => {
+            // Given - an existing article
+            const article = createMockArticle(0);
+            mockArticleRepository.findById.mockResolvedValue(article);
+
+            // When - executing the use case
+            const result = await useCase.execute({ id: article.id });
+
+            // Then - it should look up the article by id and return it
+            expect(mockArticleRepository.findById).toHaveBeenCalledWith(article.id);
+            expect(result).toBe(article);
+        });
+
+        it('should return null when the article does not exist', async () => {
+            // Given - no article stored for the id
+            mockArticleRepository.findById.mockResolvedValue(null);
+
+            // When - executing the use case
+            const result = await useCase.execute({ id: '00000000-0000-4000-8000-000000000000' });
+
+            // Then - it should return null
+            expect(result).toBeNull();
+        });
+
+        it('should return null when the article was retracted', async () => {
+            // Given - an article an editor retracted
+            const article = createMockArticle(0);
+            mockArticleRepository.findById.mockResolvedValue(
+                new Article({ ...article, retractedAt: new Date() }),
+            );
+
+            // When - executing the use case
+            const result = await useCase.execute({ id: article.id });
+
+            // Then - it should hide it like a missing article
+            expect(result).toBeNull();
+        });
+    });
+});
@@ -2,8 +2,12 @@ import { beforeEach, describe, expect, it } from 'vitest';
 import { type DeepMockProxy, mock } from 'vitest-mock-extended';
 
 // Domain
-import { mockArticles } from '../../../../domain/entities/__mocks__/articles.mock.js';
-import { type Article } from '../../../../domain/entities/article.entity.js';
+import {
+    createMockArticle,
+    mockArticles,
+} from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { Article } from '../../../../domain/entities/article.entity.js';
+import { Categories } from '../../../../domain/value-objects/categories.vo.js';
 import { Category } from '../../../../domain/value-objects/category.vo.js';
 import { Country } from '../../../../domain/value-objects/country.vo.js';
 import { Language } from '../../../../domain/value-objects/language.vo.js';
@@ -55,24 +59,46 @@ describe('GetArticlesUseCase', () => {
 
             // Then - it should call repository methods correctly
             expect(mockArticleRepository.findMany).toHaveBeenCalledWith({
+                categories: undefined,
+                categoriesMatch: undefined,
                 category: undefined,
                 country: DEFAULT_COUNTRY,
                 cursor: undefined,
+                direction: 'forward',
                 excludeArchived: true,
+                excludeFabricated: undefined,
                 language: DEFAULT_LANGUAGE,
                 limit: DEFAULT_LIMIT + 1,
+                publishedBefore: undefined,
+                publishedFrom: undefined,
+                tier: undefined,
+                traits: undefined,
+                traitsMatch: undefined,
             });
 
             expect(mockArticleRepository.countMany).toHaveBeenCalledWith({
+                categories: undefined,
+                categoriesMatch: undefined,
                 category: undefined,
                 country: DEFAULT_COUNTRY,
+                excludeArchived: true,
+                excludeFabricated: undefined,
                 language: DEFAULT_LANGUAGE,
+                publishedBefore: undefined,
+                publishedFrom: undefined,
+                tier: undefined,
+                traits: undefined,
+                traitsMatch: undefined,
             });
 
             // And return correct paginated response
             expect(result).toEqual({
                 articles: testArticles.slice(0, DEFAULT_LIMIT),
-                lastItemDate: expect.any(Date),
+                nextCursor: {
+                    id: testArticles[DEFAULT_LIMIT - 1].id,
+                    publishedAt: testArticles[DEFAULT_LIMIT - 1].publishedAt,
+                },
+                prevCursor: null,
                 total: TEST_ARTICLES_COUNT,
             });
         });
@@ -109,6 +135,36 @@ describe('GetArticlesUseCase', () => {
             );
         });
 
+        it('should pass trait, tier and multi-category filters to both repository methods', async () => {
+            // Given - every category, every trait and the general tier
+            const categories = new Categories(['TECHNOLOGY', 'SCIENCE']);
+            const params = createParams({
+                categories,
+                categoriesMatch: 'all',
+                tier: ['GENERAL'],
+                traits: ['positive', 'essential'],
+                traitsMatch: 'all',
+            });
+
+            // When - executing the use case
+            await useCase.execute(params);
+
+            // Then - the page and the total are filtered the same way
+            const expectedFilters = {
+                categories,
+                categoriesMatch: 'all',
+                tier: ['GENERAL'],
+                traits: ['positive', 'essential'],
+                traitsMatch: 'all',
+            };
+            expect(mockArticleRepository.findMany).toHaveBeenCalledWith(
+                expect.objectContaining(expectedFilters),
+            );
+            expect(mockArticleRepository.countMany).toHaveBeenCalledWith(
+                expect.objectContaining(expectedFilters),
+            );
+        });
+
         it('should handle country filter', async () => {
             // Given - different country
             const country = new Country('fr');
@@ -145,7 +201,10 @@ describe('GetArticlesUseCase', () => {
 
         it('should handle cursor-based pagination', async () => {
             // Given - cursor for pagination
-            const cursor = new Date('2024-01-01T10:00:00Z');
+            const cursor = {
+                id: '11111111-1111-4111-8111-111111111111',
+                publishedAt: new Date('2024-01-01T10:00:00Z'),
+            };
             const params = createParams({ cursor });
 
             // When - executing the use case
@@ -160,7 +219,50 @@ describe('GetArticlesUseCase', () => {
             );
         });
 
-        it('should return null lastItemDate when no more pages', async () => {
+        it('should convert the local day range to instants in the country timezone', async () => {
+            // Given - a two-day range for US readers
+            const params = createParams({ from: '2024-03-01', to: '2024-03-02' });
+
+            // When - executing the use case
+            await useCase.execute(params);
+
+            // Then - it should span New York midnight to the midnight after the last day
+            const expectedRange = {
+                publishedBefore: expect.any(Date),
+                publishedFrom: expect.any(Date),
+            };
+            expect(mockArticleRepository.findMany).toHaveBeenCalledWith(
+                expect.objectContaining(expectedRange),
+            );
+            expect(mockArticleRepository.countMany).toHaveBeenCalledWith(
+                expect.objectContaining(expectedRange),
+            );
+            const { publishedBefore, publishedFrom } =
+                mockArticleRepository.countMany.mock.calls[0][0];
+            expect(publishedFrom?.getTime()).toBe(new Date('2024-03-01T05:00:00.000Z').getTime());
+            expect(publishedBefore?.getTime()).toBe(new Date('2024-03-03T05:00:00.000Z').getTime());
+        });
+
+        it('should group the page by local calendar day when requested', async () => {
+            // Given - articles published late evening in New York, which is the next day in UTC
+            const publishedAt = (iso: string) =>
+                new Article({ ...createMockArticle(0), publishedAt: new Date(iso) });
+            const first = publishedAt('2024-03-02T03:00:00.000Z');
+            const second = publishedAt('2024-03-01T15:00:00.000Z');
+            const third = publishedAt('2024-02-29T12:00:00.000Z');
+            mockArticleRepository.findMany.mockResolvedValue([first, second, third]);
+
+            // When - executing the use case grouped by day
+            const result = await useCase.execute(createParams({ groupBy: 'day' }));
+
+            // Then - the late evening article belongs to the New York day
+            expect(result.days).toEqual([
+                { articles: [first, second], date: '2024-03-01' },
+                { articles: [third], date: '2024-02-29' },
+            ]);
+        });
+
+        it('should return null nextCursor when no more pages', async () => {
             // Given - fewer items than page size
             const partialResults = testArticles.slice(0, 5);
             mockArticleRepository.findMany.mockResolvedValue(partialResults);
@@ -169,8 +271,50 @@ describe('GetArticlesUseCase', () => {
             const result = await useCase.execute(createParams());
 
             // Then - it should indicate no more pages
-            expect(result.lastItemDate).toBeNull();
+            expect(result.nextCursor).toBeNull();
+            expect(result.prevCursor).toBeNull();
             expect(result.articles).toHaveLength(5);
         });
+
+        it('should point back to the newer page after following a cursor', async () => {
+            // Given - a cursor from a previous page
+            const cursor = { id: testArticles[0].id, publishedAt: testArticles[0].publishedAt };
+
+            // When - executing the use case forward from it
+            const result = await useCase.execute(createParams({ cursor }));
+
+            // Then - both the older and the newer pages are reachable
+            expect(result.prevCursor).toEqual({
+                id: testArticles[0].id,
+                publishedAt: testArticles[0].publishedAt,
+            });
+            expect(result.nextCursor).toEqual({
+                id: testArticles[DEFAULT_LIMIT - 1].id,
+                publishedAt: testArticles[DEFAULT_LIMIT - 1].publishedAt,
+            });
+        });
+
+        it('should keep the articles closest to the cursor when paginating backward', async () => {
+            // Given - more newer articles than the page size, newest first
+            const cursor = {
+                id: '11111111-1111-4111-8111-111111111111',
+                publishedAt: new Date('2024-01-01T10:00:00Z'),
+            };
+
+            // When - executing the use case backward from the cursor
+            const result = await useCase.execute(createParams({ cursor, direction: 'backward' }));
+
+            // Then - it should return the page right before the cursor and link both ways
+            expect(mockArticleRepository.findMany).toHaveBeenCalledWith(
+                expect.objectContaining({ cursor, direction: 'backward' }),
+            );
+            const page = testArticles.slice(-DEFAULT_LIMIT);
+            expect(result.articles).toEqual(page);
+            expect(result.prevCursor).toEqual({ id: page[0].id, publishedAt: page[0].publishedAt });
+            expect(result.nextCursor).toEqual({
+                id: page[DEFAULT_LIMIT - 1].id,
+                publishedAt: page[DEFAULT_LIMIT - 1].publishedAt,
+            });
+        });
     });
 });
@@ -0,0 +1,177 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { createMockArticle } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { Article } from '../../../../domain/entities/article.entity.js';
+import { Player } from '../../../../domain/entities/player.entity.js';
+import { ArticleQuizQuestions } from '../../../../domain/value-objects/article-quiz-questions.vo.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
+import { type PlayerRepositoryPort } from '../../../ports/outbound/persistence/player/player-repository.port.js';
+
+import { PlayerNotFoundError } from '../../players/player-not-found.error.js';
+import { PlayerRequiredError } from '../../players/player-required.error.js';
+import { GradeArticleQuizUseCase, InvalidQuizAnswerError } from '../grade-article-quiz.use-case.js';
+
+describe('GradeArticleQuizUseCase', () => {
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let mockPlayerRepository: DeepMockProxy<PlayerRepositoryPort>;
+    let useCase: GradeArticleQuizUseCase;
+    let article: Article;
+
+    beforeEach(() => {
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        mockPlayerRepository = mock<PlayerRepositoryPort>();
+        useCase = new GradeArticleQuizUseCase(mockArticleRepository, mockPlayerRepository);
+
+        const baseArticle = createMockArticle(0);
+        article = new Article({
+            ...baseArticle,
+            quizQuestions: new ArticleQuizQuestions([
+                {
+                    answers: ['Paris', 'Lyon', 'Marseille', 'Nice'],
+                    correctAnswerIndex: 0,
+                    question: 'Which city hosted the summit?',
+                },
+                {
+                    answers: ['One', 'Two', 'Three', 'Four'],
+                    correctAnswerIndex: 2,
+                    question: 'How many countries signed the agreement?',
+                },
+            ]),
+        });
+        mockArticleRepository.findById.mockResolvedValue(article);
+    });
+
+    describe('execute', () => {
+        it('should grade each submitted answer and expose the correct answer text', async () => {
+            // Given - one correct and one wrong answer
+            const answers = [
+                { answerIndex: 0, questionIndex: 0 },
+                { answerIndex: 1, questionIndex: 1 },
+            ];
+
+            // When - grading the answers
+            const result = await useCase.execute({ answers, articleId: article.id });
+
+            // Then - each answer is graded against the stored quiz
+            expect(result).toEqual({
+                correctCount: 1,
+                results: [
+                    {
+                        answerIndex: 0,
+                        correct: true,
+                        correctAnswer: 'Paris',
+                        correctAnswerIndex: 0,
+                        questionIndex: 0,
+                    },
+                    {
+                        answerIndex: 1,
+                        correct: false,
+                        correctAnswer: 'Three',
+                        correctAnswerIndex: 2,
+                        questionIndex: 1,
+                    },
+                ],
+                total: 2,
+            });
+            expect(mockPlayerRepository.recordQuizAttempts).not.toHaveBeenCalled();
+        });
+
+        it('should record the graded answers for a registered player', async () => {
+            // Given - a registered player
+            const player = new Player({
+                createdAt: new Date(),
+                deviceId: 'device-0001',
+                id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+            });
+            mockPlayerRepository.findById.mockResolvedValue(player);
+
+            // When - the player submits an answer
+            await useCase.execute({
+                answers: [{ answerIndex: 2, questionIndex: 1 }],
+                articleId: article.id,
+                playerId: player.id,
+            });
+
+            // Then - the graded answer is recorded against the player
+            expect(mockPlayerRepository.recordQuizAttempts).toHaveBeenCalledWith([
+                {
+                    answerIndex: 2,
+                    articleId: article.id,
+                    correct: true,
+                    playerId: player.id,
+                    questionIndex: 1,
+                },
+            ]);
+        });
+
+        it('should throw when the player is not registered', async () => {
+            // Given - an unknown player
+            mockPlayerRepository.findById.mockResolvedValue(null);
+
+            // When / Then - grading fails
+            await expect(
+                useCase.execute({
+                    answers: [{ answerIndex: 0, questionIndex: 0 }],
+                    articleId: article.id,
+                    playerId: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+                }),
+            ).rejects.toThrow(PlayerNotFoundError);
+        });
+
+        it('should return null when the article does not exist', async () => {
+            // Given - no article stored for the id
+            mockArticleRepository.findById.mockResolvedValue(null);
+
+            // When - grading answers
+            const result = await useCase.execute({
+                answers: [{ answerIndex: 0, questionIndex: 0 }],
+                articleId: article.id,
+            });
+
+            // Then - it should return null
+            expect(result).toBeNull();
+        });
+
+        it('should reject answers to questions the quiz does not have', async () => {
+            // Given - an answer to a non-existent question
+            const answers = [{ answerIndex: 0, questionIndex: 5 }];
+
+            // When / Then - grading fails with an expected error
+            await expect(useCase.execute({ answers, articleId: article.id })).rejects.toThrow(
+                InvalidQuizAnswerError,
+            );
+        });
+
+        it('should reject answer indexes outside of the question answers', async () => {
+            // Given - an answer index beyond the available answers
+            const answers = [{ answerIndex: 9, questionIndex: 0 }];
+
+            // When / Then - grading fails with an expected error
+            await expect(useCase.execute({ answers, articleId: article.id })).rejects.toThrow(
+                InvalidQuizAnswerError,
+            );
+        });
+
+        it('should refuse unscored answers while correct answers are hidden', async () => {
+            // Given - correct answers only revealed to scored attempts
+            useCase = new GradeArticleQuizUseCase(
+                mockArticleRepository,
+                mockPlayerRepository,
+                true,
+            );
+
+            // When / Then - anonymous grading would reveal them before a scored attempt
+            await expect(
+                useCase.execute({
+                    answers: [{ answerIndex: 0, questionIndex: 0 }],
+                    articleId: article.id,
+                }),
+            ).rejects.toThrow(PlayerRequiredError);
+            expect(mockArticleRepository.findById).not.toHaveBeenCalled();
+        });
+    });
+});
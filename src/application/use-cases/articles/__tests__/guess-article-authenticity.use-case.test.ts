@@ -0,0 +1,141 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { createMockArticle } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { Article } from '../../../../domain/entities/article.entity.js';
+import { Player } from '../../../../domain/entities/player.entity.js';
+import {
+    Authenticity,
+    AuthenticityStatusEnum,
+} from '../../../../domain/value-objects/article/authenticity.vo.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
+import { type PlayerRepositoryPort } from '../../../ports/outbound/persistence/player/player-repository.port.js';
+
+import { PlayerNotFoundError } from '../../players/player-not-found.error.js';
+import { PlayerRequiredError } from '../../players/player-required.error.js';
+import { GuessArticleAuthenticityUseCase } from '../guess-article-authenticity.use-case.js';
+
+describe('GuessArticleAuthenticityUseCase', () => {
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let mockPlayerRepository: DeepMockProxy<PlayerRepositoryPort>;
+    let useCase: GuessArticleAuthenticityUseCase;
+    let fabricatedArticle: Article;
+
+    beforeEach(() => {
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        mockPlayerRepository = mock<PlayerRepositoryPort>();
+        useCase = new GuessArticleAuthenticityUseCase(mockArticleRepository, mockPlayerRepository);
+
+        fabricatedArticle = new Article({
+            ...createMockArticle(0),
+            authenticity: new Authenticity(
+                AuthenticityStatusEnum.FABRICATED,
+                'The summit never took place',
+            ),
+        });
+        mockArticleRepository.findById.mockResolvedValue(fabricatedArticle);
+    });
+
+    describe('execute', () => {
+        it('should confirm a right guess and reveal the clarification', async () => {
+            // Given - the player spots the fabricated article
+            const guess = AuthenticityStatusEnum.FABRICATED;
+
+            // When - submitting the guess
+            const result = await useCase.execute({ articleId: fabricatedArticle.id, guess });
+
+            // Then - the guess is right and the clarification is revealed
+            expect(result).toEqual({
+                answer: AuthenticityStatusEnum.FABRICATED,
+                clarification: 'The summit never took place',
+                correct: true,
+                guess: AuthenticityStatusEnum.FABRICATED,
+            });
+        });
+
+        it('should reject a wrong guess', async () => {
+            // Given - the player believes the fabricated article
+            const guess = AuthenticityStatusEnum.AUTHENTIC;
+
+            // When - submitting the guess
+            const result = await useCase.execute({ articleId: fabricatedArticle.id, guess });
+
+            // Then - the guess is wrong
+            expect(result?.correct).toBe(false);
+            expect(mockPlayerRepository.recordAuthenticityGuess).not.toHaveBeenCalled();
+        });
+
+        it('should record the guess for a registered player', async () => {
+            // Given - a registered player
+            const player = new Player({
+                createdAt: new Date(),
+                deviceId: 'device-0001',
+                id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+            });
+            mockPlayerRepository.findById.mockResolvedValue(player);
+
+            // When - the player submits a guess
+            await useCase.execute({
+                articleId: fabricatedArticle.id,
+                guess: AuthenticityStatusEnum.FABRICATED,
+                playerId: player.id,
+            });
+
+            // Then - the guess is recorded against the player
+            expect(mockPlayerRepository.recordAuthenticityGuess).toHaveBeenCalledWith({
+                articleId: fabricatedArticle.id,
+                correct: true,
+                guess: AuthenticityStatusEnum.FABRICATED,
+                playerId: player.id,
+            });
+        });
+
+        it('should throw when the player is not registered', async () => {
+            // Given - an unknown player
+            mockPlayerRepository.findById.mockResolvedValue(null);
+
+            // When / Then - submitting a guess fails
+            await expect(
+                useCase.execute({
+                    articleId: fabricatedArticle.id,
+                    guess: AuthenticityStatusEnum.FABRICATED,
+                    playerId: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+                }),
+            ).rejects.toThrow(PlayerNotFoundError);
+        });
+
+        it('should return null when the article does not exist', async () => {
+            // Given - no article stored for the id
+            mockArticleRepository.findById.mockResolvedValue(null);
+
+            // When - submitting a guess
+            const result = await useCase.execute({
+                articleId: fabricatedArticle.id,
+                guess: AuthenticityStatusEnum.AUTHENTIC,
+            });
+
+            // Then - it should return null
+            expect(result).toBeNull();
+        });
+
+        it('should refuse unscored guesses while authenticity is hidden', async () => {
+            // Given - authenticity only revealed to scored guesses
+            useCase = new GuessArticleAuthenticityUseCase(
+                mockArticleRepository,
+                mockPlayerRepository,
+                true,
+            );
+
+            // When / Then - an anonymous guess would reveal the answer before a scored one
+            await expect(
+                useCase.execute({
+                    articleId: fabricatedArticle.id,
+                    guess: AuthenticityStatusEnum.FABRICATED,
+                }),
+            ).rejects.toThrow(PlayerRequiredError);
+        });
+    });
+});
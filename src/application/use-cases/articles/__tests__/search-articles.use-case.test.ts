@@ -0,0 +1,76 @@
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { mockArticles } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { Country } from '../../../../domain/value-objects/country.vo.js';
+import { Language } from '../../../../domain/value-objects/language.vo.js';
+
+// Ports
+import {
+    type ArticleRepositoryPort,
+    type ArticleSearchHit,
+} from '../../../ports/outbound/persistence/article/article-repository.port.js';
+
+import { SearchArticlesUseCase } from '../search-articles.use-case.js';
+
+describe('SearchArticlesUseCase', () => {
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let useCase: SearchArticlesUseCase;
+    let hits: ArticleSearchHit[];
+
+    beforeEach(() => {
+        hits = mockArticles(3).map((article, index) => ({
+            article,
+            rank: -3 + index,
+            snippet: `<mark>climate</mark> excerpt ${index}`,
+        }));
+
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        mockArticleRepository.search.mockResolvedValue(hits);
+        mockArticleRepository.countSearch.mockResolvedValue(3);
+        useCase = new SearchArticlesUseCase(mockArticleRepository);
+    });
+
+    describe('execute', () => {
+        it('should return the best hits and a cursor when more results exist', async () => {
+            // Given - search parameters for a two-item page
+            const params = {
+                country: new Country('US'),
+                language: new Language('EN'),
+                limit: 2,
+                query: 'climate',
+            };
+
+            // When - searching
+            const result = await useCase.execute(params);
+
+            // Then - it should fetch one extra hit to detect the next page
+            expect(mockArticleRepository.search).toHaveBeenCalledWith({
+                country: params.country,
+                cursor: undefined,
+                language: params.language,
+                limit: 3,
+                query: 'climate',
+            });
+            expect(result.hits).toEqual([
+                { article: hits[0].article, snippet: hits[0].snippet },
+                { article: hits[1].article, snippet: hits[1].snippet },
+            ]);
+            expect(result.lastHit).toEqual({ id: hits[1].article.id, rank: hits[1].rank });
+            expect(result.total).toBe(3);
+        });
+
+        it('should not return a cursor on the last page', async () => {
+            // Given - a page large enough for every hit
+            const params = { country: new Country('US'), limit: 5, query: 'climate' };
+
+            // When - searching
+            const result = await useCase.execute(params);
+
+            // Then - every hit is returned without a cursor
+            expect(result.hits).toHaveLength(3);
+            expect(result.lastHit).toBeNull();
+        });
+    });
+});
@@ -3,6 +3,7 @@ import { randomUUID } from 'node:crypto';
 
 // Domain
 import { Article } from '../../../domain/entities/article.entity.js';
+import { ArticlesPublishedEvent } from '../../../domain/events/articles-published.event.js';
 import type { ArticleFrame } from '../../../domain/value-objects/article-frame/article-frame.vo.js';
 import { ArticleTraits } from '../../../domain/value-objects/article-traits.vo.js';
 import {
@@ -16,6 +17,7 @@ import { type Language } from '../../../domain/value-objects/language.vo.js';
 
 // Ports
 import { type ArticleFabricationAgentPort } from '../../ports/outbound/agents/article-fabrication.agent.js';
+import { type EventBusPort } from '../../ports/outbound/events/event-bus.port.js';
 import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
 
 /**
@@ -27,6 +29,7 @@ export class FabricateArticlesUseCase {
         private readonly articleFabricationAgent: ArticleFabricationAgentPort,
         private readonly articleRepository: ArticleRepositoryPort,
         private readonly logger: LoggerPort,
+        private readonly eventBus: EventBusPort,
     ) {}
 
     /**
@@ -162,7 +165,7 @@ export class FabricateArticlesUseCase {
                                 AuthenticityStatusEnum.FABRICATED,
                                 fakeResult.clarification,
                             ),
-                            body: new Body(fakeResult.body),
+                            body: Body.withValidAnnotations(fakeResult.body),
                             categories: fakeResult.categories,
                             country,
                             headline: new Headline(fakeResult.headline),
@@ -196,6 +199,7 @@ export class FabricateArticlesUseCase {
                 if (fakeArticles.length > 0) {
                     try {
                         await this.articleRepository.createMany(fakeArticles);
+                        this.eventBus.publish(new ArticlesPublishedEvent(fakeArticles));
                         this.logger.info('Fake articles persisted successfully', {
                             count: fakeArticles.length,
                             country: country.toString(),
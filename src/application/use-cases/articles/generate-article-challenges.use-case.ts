@@ -2,6 +2,7 @@ import { type LoggerPort } from '@jterrazz/logger';
 
 // Domain
 import { Article } from '../../../domain/entities/article.entity.js';
+import { QuizzesGeneratedEvent } from '../../../domain/events/quizzes-generated.event.js';
 import { ArticleQuizQuestion } from '../../../domain/value-objects/article-quiz-question.vo.js';
 import { ArticleQuizQuestions } from '../../../domain/value-objects/article-quiz-questions.vo.js';
 import { type Country } from '../../../domain/value-objects/country.vo.js';
@@ -9,6 +10,7 @@ import { type Language } from '../../../domain/value-objects/language.vo.js';
 
 // Ports
 import { type ArticleQuizGenerationAgentPort } from '../../ports/outbound/agents/article-quiz-generation.agent.js';
+import { type EventBusPort } from '../../ports/outbound/events/event-bus.port.js';
 import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
 
 /**
@@ -20,6 +22,7 @@ export class GenerateArticleChallengesUseCase {
         private readonly articleRepository: ArticleRepositoryPort,
         private readonly articleQuizGenerationAgent: ArticleQuizGenerationAgentPort,
         private readonly logger: LoggerPort,
+        private readonly eventBus: EventBusPort,
     ) {}
 
     /**
@@ -137,6 +140,7 @@ export class GenerateArticleChallengesUseCase {
             if (updatedArticles.length > 0) {
                 try {
                     await this.articleRepository.updateMany(updatedArticles);
+                    this.eventBus.publish(new QuizzesGeneratedEvent(updatedArticles));
                     this.logger.info('Article challenges generated and saved', {
                         count: updatedArticles.length,
                     });
@@ -0,0 +1,126 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Domain
+import { Article } from '../../../domain/entities/article.entity.js';
+import { ArticleInsight } from '../../../domain/value-objects/article-insight/article-insight.vo.js';
+import { type Country } from '../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type ArticleInsightGenerationAgentPort } from '../../ports/outbound/agents/article-insight-generation.agent.js';
+import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+
+/**
+ * Use case for generating "why it matters" and "what to watch" analyses of articles
+ * @description Covers authentic articles of general interest or marked essential that have no insights yet
+ */
+export class GenerateArticleInsightsUseCase {
+    constructor(
+        private readonly articleRepository: ArticleRepositoryPort,
+        private readonly articleInsightGenerationAgent: ArticleInsightGenerationAgentPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * Generate insights for recent articles that deserve them
+     * @param language - Target language for the analyses
+     * @param country - Target country for filtering articles
+     * @returns Array of articles with newly generated insights
+     */
+    public async execute(language: Language, country: Country): Promise<Article[]> {
+        try {
+            this.logger.info('Starting article insights generation process', {
+                country: country.toString(),
+                language: language.toString(),
+            });
+
+            const recentArticles = await this.articleRepository.findMany({
+                country,
+                excludeArchived: true,
+                language,
+                limit: 20, // Process in batches to avoid overwhelming the AI agent
+            });
+
+            const articlesToProcess = recentArticles.filter(
+                (article) =>
+                    (!article.insights || article.insights.length === 0) &&
+                    article.deservesInsights(),
+            );
+
+            if (articlesToProcess.length === 0) {
+                this.logger.info('No articles found without insights', {
+                    country: country.toString(),
+                    language: language.toString(),
+                });
+                return [];
+            }
+
+            this.logger.info('Articles found for insight generation', {
+                count: articlesToProcess.length,
+            });
+
+            const updatedArticles: Article[] = [];
+
+            for (const article of articlesToProcess) {
+                try {
+                    const insightResult = await this.articleInsightGenerationAgent.run({
+                        articleContent: article.toFullArticleContent(),
+                        targetLanguage: language,
+                        traits: article.traits,
+                    });
+
+                    if (!insightResult || insightResult.insights.length === 0) {
+                        this.logger.warn('Insight generation agent returned no insights', {
+                            articleId: article.id,
+                            country: country.toString(),
+                            language: language.toString(),
+                        });
+                        continue;
+                    }
+
+                    const publishedAt = new Date();
+                    const insights = insightResult.insights.map(
+                        (insight) =>
+                            new ArticleInsight({
+                                analysis: insight.analysis,
+                                duration: insight.duration,
+                                kind: insight.kind,
+                                publishedAt,
+                            }),
+                    );
+
+                    await this.articleRepository.saveInsights(article.id, insights);
+                    updatedArticles.push(new Article({ ...article, insights }));
+
+                    this.logger.info('Article insights generated successfully', {
+                        articleId: article.id,
+                        insightsCount: insights.length,
+                    });
+                } catch (articleError) {
+                    this.logger.warn('Error generating insights for article', {
+                        articleId: article.id,
+                        country: country.toString(),
+                        error: articleError,
+                        language: language.toString(),
+                    });
+                }
+            }
+
+            this.logger.info('Article insights generation process completed', {
+                country: country.toString(),
+                generatedCount: updatedArticles.length,
+                language: language.toString(),
+                processedCount: articlesToProcess.length,
+            });
+
+            return updatedArticles;
+        } catch (error) {
+            this.logger.error('Article insights generation failed', {
+                country: country.toString(),
+                error,
+                language: language.toString(),
+            });
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,31 @@
+// Domain
+import { type Article } from '../../../domain/entities/article.entity.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+
+/**
+ * Input parameters for the GetArticle use case
+ */
+export interface GetArticleParams {
+    id: string;
+}
+
+/**
+ * Use case for retrieving a single article
+ * @description Used by deep links (shares, notifications) that target one article
+ */
+export class GetArticleUseCase {
+    constructor(private readonly articleRepository: ArticleRepositoryPort) {}
+
+    /**
+     * Find an article by its id
+     * @param params - The article id to look up
+     * @returns The article, or `null` when no article matches the id or it was retracted
+     */
+    async execute(params: GetArticleParams): Promise<Article | null> {
+        const article = await this.articleRepository.findById(params.id);
+
+        return article && !article.isRetracted() ? article : null;
+    }
+}
@@ -1,22 +1,62 @@
 // Domain
 import { type Article } from '../../../domain/entities/article.entity.js';
+import { type Categories } from '../../../domain/value-objects/categories.vo.js';
 import { type Category } from '../../../domain/value-objects/category.vo.js';
 import { type Country } from '../../../domain/value-objects/country.vo.js';
 import { type Language } from '../../../domain/value-objects/language.vo.js';
 
 // Ports
-import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+import {
+    type ArticleCursor,
+    type ArticleRepositoryPort,
+    type ArticleTrait,
+    type CountManyOptions,
+    type FilterMatch,
+    type PaginationDirection,
+} from '../../ports/outbound/persistence/article/article-repository.port.js';
+
+// Shared
+import {
+    addDays,
+    createStartOfDayForCountry,
+    createTZDateForCountry,
+    formatTZDateForCountry,
+} from '../../../shared/date/timezone.js';
 
 /**
  * Input parameters for the GetArticles use case using domain value objects
  */
 export interface GetArticlesParams {
+    categories?: Categories;
+    categoriesMatch?: FilterMatch;
     category?: Category;
     country: Country;
-    cursor?: Date;
+    cursor?: ArticleCursor;
+    /** Read the page after the cursor ('forward', default) or the one before it ('backward') */
+    direction?: PaginationDirection;
+    /** Only list authentic articles, e.g. for syndication */
+    excludeFabricated?: boolean;
+    /** First local calendar day to include (yyyy-MM-dd, in the country timezone) */
+    from?: string;
+    /** Bucket the page by local calendar day */
+    groupBy?: 'day';
     ids?: string[];
     language?: Language;
     limit: number;
+    tier?: Array<'GENERAL' | 'NICHE'>;
+    traits?: ArticleTrait[];
+    traitsMatch?: FilterMatch;
+    /** Last local calendar day to include (yyyy-MM-dd, in the country timezone) */
+    to?: string;
+}
+
+/**
+ * Articles of the page published on the same local calendar day
+ */
+export interface ArticlesDay {
+    articles: Article[];
+    /** Local calendar day in the country timezone (yyyy-MM-dd) */
+    date: string;
 }
 
 /**
@@ -27,11 +67,21 @@ export interface GetArticlesResult {
     /** Raw domain articles list */
     articles: Article[];
     /**
-     * Date of the last item in the current page **only if** there is another page.
+     * The same articles bucketed by local calendar day, newest day first.
+     * Only set when grouping by day; a day may continue on the next page.
+     */
+    days?: ArticlesDay[];
+    /**
+     * Position of the last item in the current page **only if** there is an older page.
      * When there are no further pages, this is `null` so the presenter can omit
      * the `nextCursor` value.
      */
-    lastItemDate: Date | null;
+    nextCursor: ArticleCursor | null;
+    /**
+     * Position of the first item in the current page **only if** there is a newer page,
+     * `null` on the first page.
+     */
+    prevCursor: ArticleCursor | null;
     /** Total number of articles matching the filters. */
     total: number;
 }
@@ -40,36 +90,90 @@ export class GetArticlesUseCase {
     constructor(private readonly articleRepository: ArticleRepositoryPort) {}
 
     async execute(params: GetArticlesParams): Promise<GetArticlesResult> {
-        const { category, country, cursor, ids, language, limit } = params;
+        const { cursor, direction = 'forward', ids, limit } = params;
 
         if (ids && ids.length > 0) {
-            const articles = await this.articleRepository.findManyByIds(ids);
+            const articles = (await this.articleRepository.findManyByIds(ids)).filter(
+                (article) => !article.isRetracted(),
+            );
             // When querying by ids, ignore pagination and filtering
-            return { articles, lastItemDate: null, total: articles.length };
+            return { articles, nextCursor: null, prevCursor: null, total: articles.length };
         }
 
+        // Same filters for the page and the total so `total` matches what can be paginated
+        const filters: CountManyOptions = {
+            categories: params.categories,
+            categoriesMatch: params.categoriesMatch,
+            category: params.category,
+            country: params.country,
+            excludeArchived: true,
+            excludeFabricated: params.excludeFabricated,
+            language: params.language,
+            publishedBefore: params.to
+                ? addDays(createStartOfDayForCountry(params.to, params.country.toString()), 1)
+                : undefined,
+            publishedFrom: params.from
+                ? createStartOfDayForCountry(params.from, params.country.toString())
+                : undefined,
+            tier: params.tier,
+            traits: params.traits,
+            traitsMatch: params.traitsMatch,
+        };
+
         const [rawArticles, total] = await Promise.all([
-            this.articleRepository.findMany({
-                category,
-                country,
-                cursor,
-                excludeArchived: true,
-                language,
-                limit: limit + 1,
-            }),
-            this.articleRepository.countMany({ category, country, language }),
+            this.articleRepository.findMany({ ...filters, cursor, direction, limit: limit + 1 }),
+            this.articleRepository.countMany(filters),
         ]);
 
+        // Extra articles tell whether there is a page beyond this one in the read direction.
+        // Articles come newest first, so when reading backward the page is the closest tail.
         const hasMore = rawArticles.length > limit;
-        const results = hasMore ? rawArticles.slice(0, limit) : rawArticles;
+        const results = !hasMore
+            ? rawArticles
+            : direction === 'backward'
+              ? rawArticles.slice(-limit)
+              : rawArticles.slice(0, limit);
 
-        const lastItemDate =
-            hasMore && results.length > 0 ? results[results.length - 1].publishedAt : null;
+        // Coming from a cursor means there is a page on the other side of it
+        const hasOlder = direction === 'backward' ? cursor !== undefined : hasMore;
+        const hasNewer = direction === 'backward' ? hasMore : cursor !== undefined;
+        const first = results[0];
+        const last = results[results.length - 1];
 
         return {
             articles: results,
-            lastItemDate,
+            ...(params.groupBy === 'day' && {
+                days: this.groupByDay(results, params.country),
+            }),
+            nextCursor: hasOlder && last ? toCursor(last) : null,
+            prevCursor: hasNewer && first ? toCursor(first) : null,
             total,
         };
     }
+
+    private groupByDay(articles: Article[], country: Country): ArticlesDay[] {
+        const days: ArticlesDay[] = [];
+
+        // Articles are ordered by publication date, so each day is a contiguous run
+        for (const article of articles) {
+            const date = formatTZDateForCountry(
+                createTZDateForCountry(article.publishedAt, country.toString()),
+                country.toString(),
+                'yyyy-MM-dd',
+            );
+            const current = days[days.length - 1];
+
+            if (current?.date === date) {
+                current.articles.push(article);
+            } else {
+                days.push({ articles: [article], date });
+            }
+        }
+
+        return days;
+    }
+}
+
+function toCursor(article: Article): ArticleCursor {
+    return { id: article.id, publishedAt: article.publishedAt };
 }
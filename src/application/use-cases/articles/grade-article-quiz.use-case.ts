@@ -0,0 +1,137 @@
+// Ports
+import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+import { type PlayerRepositoryPort } from '../../ports/outbound/persistence/player/player-repository.port.js';
+
+import { PlayerNotFoundError } from '../players/player-not-found.error.js';
+import { PlayerRequiredError } from '../players/player-required.error.js';
+
+/**
+ * A single answer submitted by a player
+ */
+export interface QuizAnswerSubmission {
+    answerIndex: number;
+    questionIndex: number;
+}
+
+/**
+ * Input parameters for the GradeArticleQuiz use case
+ */
+export interface GradeArticleQuizParams {
+    answers: QuizAnswerSubmission[];
+    articleId: string;
+    /** When set, the graded answers count towards this player's stats */
+    playerId?: string;
+}
+
+/**
+ * Grading outcome for one submitted answer
+ */
+export interface QuizAnswerGrade {
+    answerIndex: number;
+    correct: boolean;
+    correctAnswer: string;
+    correctAnswerIndex: number;
+    questionIndex: number;
+}
+
+/**
+ * Result returned by GradeArticleQuizUseCase
+ */
+export interface GradeArticleQuizResult {
+    correctCount: number;
+    results: QuizAnswerGrade[];
+    total: number;
+}
+
+/**
+ * Raised when a submission references a question or answer the article quiz does not have
+ */
+export class InvalidQuizAnswerError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidQuizAnswerError';
+    }
+}
+
+/**
+ * Use case for grading quiz answers server-side
+ * @description Keeps correct answers out of client payloads so scores can be trusted
+ */
+export class GradeArticleQuizUseCase {
+    /**
+     * @param requirePlayer - Refuse unscored submissions, for when correct answers are hidden
+     */
+    constructor(
+        private readonly articleRepository: ArticleRepositoryPort,
+        private readonly playerRepository: PlayerRepositoryPort,
+        private readonly requirePlayer = false,
+    ) {}
+
+    /**
+     * Grade the submitted answers against the article quiz
+     * @param params - The article id and the submitted answers
+     * @returns The per-question grades, or `null` when the article does not exist
+     * @throws {InvalidQuizAnswerError} When an answer targets an unknown question or answer
+     * @throws {PlayerNotFoundError} When the given player is not registered
+     * @throws {PlayerRequiredError} When no player is given while one is required
+     */
+    async execute(params: GradeArticleQuizParams): Promise<GradeArticleQuizResult | null> {
+        if (this.requirePlayer && !params.playerId) {
+            throw new PlayerRequiredError();
+        }
+
+        const article = await this.articleRepository.findById(params.articleId);
+
+        if (!article) {
+            return null;
+        }
+
+        const results = params.answers.map((submission): QuizAnswerGrade => {
+            const question = article.quizQuestions?.getQuestion(submission.questionIndex);
+
+            if (!question) {
+                throw new InvalidQuizAnswerError(
+                    `Question ${submission.questionIndex} does not exist for article ${article.id}`,
+                );
+            }
+
+            if (submission.answerIndex >= question.answers.length) {
+                throw new InvalidQuizAnswerError(
+                    `Answer ${submission.answerIndex} does not exist for question ${submission.questionIndex}`,
+                );
+            }
+
+            return {
+                answerIndex: submission.answerIndex,
+                correct: question.isCorrectAnswer(submission.answerIndex),
+                correctAnswer: question.getCorrectAnswer(),
+                correctAnswerIndex: question.correctAnswerIndex,
+                questionIndex: submission.questionIndex,
+            };
+        });
+
+        if (params.playerId) {
+            const player = await this.playerRepository.findById(params.playerId);
+
+            if (!player) {
+                throw new PlayerNotFoundError(params.playerId);
+            }
+
+            await this.playerRepository.recordQuizAttempts(
+                results.map((result) => ({
+                    answerIndex: result.answerIndex,
+                    articleId: article.id,
+                    correct: result.correct,
+                    playerId: player.id,
+                    questionIndex: result.questionIndex,
+                })),
+            );
+        }
+
+        return {
+            correctCount: results.filter((result) => result.correct).length,
+            results,
+            total: results.length,
+        };
+    }
+}
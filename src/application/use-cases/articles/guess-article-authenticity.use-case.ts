@@ -0,0 +1,89 @@
+// Domain
+import { type AuthenticityStatusEnum } from '../../../domain/value-objects/article/authenticity.vo.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+import { type PlayerRepositoryPort } from '../../ports/outbound/persistence/player/player-repository.port.js';
+
+import { PlayerNotFoundError } from '../players/player-not-found.error.js';
+import { PlayerRequiredError } from '../players/player-required.error.js';
+
+/**
+ * Input parameters for the GuessArticleAuthenticity use case
+ */
+export interface GuessArticleAuthenticityParams {
+    articleId: string;
+    guess: AuthenticityStatusEnum;
+    /** When set, the guess counts towards this player's stats */
+    playerId?: string;
+}
+
+/**
+ * Result returned by GuessArticleAuthenticityUseCase
+ */
+export interface GuessArticleAuthenticityResult {
+    answer: AuthenticityStatusEnum;
+    clarification: null | string;
+    correct: boolean;
+    guess: AuthenticityStatusEnum;
+}
+
+/**
+ * Use case for the "real or fake" authenticity challenge
+ * @description Reveals an article's authenticity only once the player has committed to a guess
+ */
+export class GuessArticleAuthenticityUseCase {
+    /**
+     * @param requirePlayer - Refuse unscored guesses, for when authenticity is hidden
+     */
+    constructor(
+        private readonly articleRepository: ArticleRepositoryPort,
+        private readonly playerRepository: PlayerRepositoryPort,
+        private readonly requirePlayer = false,
+    ) {}
+
+    /**
+     * Check a player's guess against the article authenticity
+     * @param params - The article id and the player's guess
+     * @returns Whether the guess is right with the clarification, or `null` when the article does not exist
+     * @throws {PlayerNotFoundError} When the given player is not registered
+     * @throws {PlayerRequiredError} When no player is given while one is required
+     */
+    async execute(
+        params: GuessArticleAuthenticityParams,
+    ): Promise<GuessArticleAuthenticityResult | null> {
+        if (this.requirePlayer && !params.playerId) {
+            throw new PlayerRequiredError();
+        }
+
+        const article = await this.articleRepository.findById(params.articleId);
+
+        if (!article) {
+            return null;
+        }
+
+        const correct = article.authenticity.status === params.guess;
+
+        if (params.playerId) {
+            const player = await this.playerRepository.findById(params.playerId);
+
+            if (!player) {
+                throw new PlayerNotFoundError(params.playerId);
+            }
+
+            await this.playerRepository.recordAuthenticityGuess({
+                articleId: article.id,
+                correct,
+                guess: params.guess,
+                playerId: player.id,
+            });
+        }
+
+        return {
+            answer: article.authenticity.status,
+            clarification: article.authenticity.clarification,
+            correct,
+            guess: params.guess,
+        };
+    }
+}
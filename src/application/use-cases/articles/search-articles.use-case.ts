@@ -0,0 +1,62 @@
+// Domain
+import { type Article } from '../../../domain/entities/article.entity.js';
+import { type Country } from '../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import {
+    type ArticleRepositoryPort,
+    type ArticleSearchCursor,
+} from '../../ports/outbound/persistence/article/article-repository.port.js';
+
+/**
+ * Input parameters for the SearchArticles use case
+ */
+export interface SearchArticlesParams {
+    country: Country;
+    cursor?: ArticleSearchCursor;
+    language?: Language;
+    limit: number;
+    query: string;
+}
+
+/**
+ * Result returned by SearchArticlesUseCase, best matches first
+ */
+export interface SearchArticlesResult {
+    hits: Array<{ article: Article; snippet: string }>;
+    /**
+     * Position of the last hit in the current page **only if** there is another page,
+     * `null` otherwise so the presenter can omit the `nextCursor` value.
+     */
+    lastHit: ArticleSearchCursor | null;
+    /** Total number of articles matching the query and filters. */
+    total: number;
+}
+
+/**
+ * Use case for full-text search over past articles
+ * @description Mirrors GetArticlesUseCase pagination, ordered by relevance instead of date
+ */
+export class SearchArticlesUseCase {
+    constructor(private readonly articleRepository: ArticleRepositoryPort) {}
+
+    async execute(params: SearchArticlesParams): Promise<SearchArticlesResult> {
+        const { country, cursor, language, limit, query } = params;
+
+        const [rawHits, total] = await Promise.all([
+            this.articleRepository.search({ country, cursor, language, limit: limit + 1, query }),
+            this.articleRepository.countSearch({ country, language, query }),
+        ]);
+
+        const hasMore = rawHits.length > limit;
+        const results = hasMore ? rawHits.slice(0, limit) : rawHits;
+        const last = results[results.length - 1];
+
+        return {
+            hits: results.map((hit) => ({ article: hit.article, snippet: hit.snippet })),
+            lastHit: hasMore && last ? { id: last.article.id, rank: last.rank } : null,
+            total,
+        };
+    }
+}
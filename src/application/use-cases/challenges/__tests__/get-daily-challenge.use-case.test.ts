@@ -0,0 +1,176 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { createMockArticle } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { Article } from '../../../../domain/entities/article.entity.js';
+import { DailyChallenge } from '../../../../domain/entities/daily-challenge.entity.js';
+import {
+    Authenticity,
+    AuthenticityStatusEnum,
+} from '../../../../domain/value-objects/article/authenticity.vo.js';
+import { Country } from '../../../../domain/value-objects/country.vo.js';
+import { Language } from '../../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
+import { type DailyChallengeRepositoryPort } from '../../../ports/outbound/persistence/challenge/daily-challenge-repository.port.js';
+
+import { GetDailyChallengeUseCase } from '../get-daily-challenge.use-case.js';
+
+const createFabricatedArticle = (index: number): Article =>
+    new Article({
+        ...createMockArticle(index),
+        authenticity: new Authenticity(AuthenticityStatusEnum.FABRICATED, 'Invented story'),
+    });
+
+describe('GetDailyChallengeUseCase', () => {
+    const country = new Country('US');
+    const language = new Language('EN');
+
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let mockDailyChallengeRepository: DeepMockProxy<DailyChallengeRepositoryPort>;
+    let useCase: GetDailyChallengeUseCase;
+    let candidates: Article[];
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        // 03:00 UTC on Mar 12 is still Mar 11 in New York
+        vi.setSystemTime(new Date('2024-03-12T03:00:00.000Z'));
+
+        candidates = [
+            ...Array.from({ length: 6 }, (_, index) => createMockArticle(index)),
+            createFabricatedArticle(6),
+            createFabricatedArticle(7),
+        ];
+
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        mockArticleRepository.findMany.mockResolvedValue(candidates);
+        mockArticleRepository.findManyByIds.mockImplementation(async (ids) =>
+            ids.map((id) => candidates.find((article) => article.id === id)!),
+        );
+        mockDailyChallengeRepository = mock<DailyChallengeRepositoryPort>();
+        mockDailyChallengeRepository.findByDate.mockResolvedValue(null);
+        mockDailyChallengeRepository.saveIfAbsent.mockImplementation(
+            async (challenge) => challenge,
+        );
+
+        useCase = new GetDailyChallengeUseCase(
+            mockArticleRepository,
+            mockDailyChallengeRepository,
+            mock<LoggerPort>(),
+            4,
+        );
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('execute', () => {
+        it('should select and persist an edition with exactly one fabricated article', async () => {
+            // When - requesting the first edition of the local day
+            const result = await useCase.execute({ country, language });
+
+            // Then - the edition is dated in the country timezone and holds one fabricated article
+            expect(result?.date).toBe('2024-03-11');
+            expect(result?.fabricatedIncluded).toBe(true);
+            expect(result?.articles).toHaveLength(4);
+            expect(result?.articles.filter((article) => article.isFabricated())).toHaveLength(1);
+            expect(mockDailyChallengeRepository.saveIfAbsent).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    articleIds: result?.articles.map((article) => article.id),
+                    date: '2024-03-11',
+                }),
+            );
+        });
+
+        it('should select the same edition regardless of the candidates order', async () => {
+            // Given - the same candidates returned in two different orders
+            const first = await useCase.execute({ country, language });
+            mockArticleRepository.findMany.mockResolvedValue([...candidates].reverse());
+
+            // When - selecting the edition again
+            const second = await useCase.execute({ country, language });
+
+            // Then - the selection is identical
+            expect(second?.articles.map((article) => article.id)).toEqual(
+                first?.articles.map((article) => article.id),
+            );
+        });
+
+        it('should return the stored edition without selecting again', async () => {
+            // Given - an edition already stored for the day
+            const storedIds = [candidates[6].id, candidates[0].id];
+            mockDailyChallengeRepository.findByDate.mockResolvedValue(
+                new DailyChallenge({
+                    articleIds: storedIds,
+                    country,
+                    createdAt: new Date(),
+                    date: '2024-03-11',
+                    id: '0b8e2f4c-6a1d-4e3b-9f5a-7c2d1e0f3a4b',
+                    language,
+                }),
+            );
+
+            // When - requesting the edition
+            const result = await useCase.execute({ country, language });
+
+            // Then - the stored articles are returned in order
+            expect(result?.articles.map((article) => article.id)).toEqual(storedIds);
+            expect(mockDailyChallengeRepository.findByDate).toHaveBeenCalledWith({
+                country,
+                date: '2024-03-11',
+                language,
+            });
+            expect(mockArticleRepository.findMany).not.toHaveBeenCalled();
+        });
+
+        it('should leave retracted articles out of the stored edition', async () => {
+            // Given - an edition whose fabricated article was retracted since
+            candidates[6] = new Article({ ...candidates[6], retractedAt: new Date() });
+            mockDailyChallengeRepository.findByDate.mockResolvedValue(
+                new DailyChallenge({
+                    articleIds: [candidates[6].id, candidates[0].id],
+                    country,
+                    createdAt: new Date(),
+                    date: '2024-03-11',
+                    id: '0b8e2f4c-6a1d-4e3b-9f5a-7c2d1e0f3a4b',
+                    language,
+                }),
+            );
+
+            // When - requesting the edition
+            const result = await useCase.execute({ country, language });
+
+            // Then - only the articles still published are served
+            expect(result?.articles.map((article) => article.id)).toEqual([candidates[0].id]);
+            expect(result?.fabricatedIncluded).toBe(false);
+        });
+
+        it('should serve a provisional edition without persisting it when nothing is fabricated', async () => {
+            // Given - only authentic candidates
+            mockArticleRepository.findMany.mockResolvedValue(candidates.slice(0, 6));
+
+            // When - requesting the edition
+            const result = await useCase.execute({ country, language });
+
+            // Then - authentic articles are served and the day stays open for a proper edition
+            expect(result?.fabricatedIncluded).toBe(false);
+            expect(result?.articles).toHaveLength(4);
+            expect(mockDailyChallengeRepository.saveIfAbsent).not.toHaveBeenCalled();
+        });
+
+        it('should return null when the locale has no articles', async () => {
+            // Given - no candidates
+            mockArticleRepository.findMany.mockResolvedValue([]);
+
+            // When - requesting the edition
+            const result = await useCase.execute({ country, language });
+
+            // Then - it should return null
+            expect(result).toBeNull();
+        });
+    });
+});
@@ -0,0 +1,180 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { createHash, randomUUID } from 'node:crypto';
+
+// Domain
+import { type Article } from '../../../domain/entities/article.entity.js';
+import { DailyChallenge } from '../../../domain/entities/daily-challenge.entity.js';
+import { type Country } from '../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+import { type DailyChallengeRepositoryPort } from '../../ports/outbound/persistence/challenge/daily-challenge-repository.port.js';
+
+// Shared
+import {
+    createCurrentTZDateForCountry,
+    formatTZDateForCountry,
+} from '../../../shared/date/timezone.js';
+
+/** Number of recent articles the daily edition is drawn from */
+const CANDIDATE_POOL_SIZE = 50;
+
+/**
+ * Input parameters for the GetDailyChallenge use case
+ */
+export interface GetDailyChallengeParams {
+    country: Country;
+    language: Language;
+}
+
+/**
+ * Result returned by GetDailyChallengeUseCase
+ */
+export interface GetDailyChallengeResult {
+    articles: Article[];
+    /** Local date (yyyy-MM-dd) of the edition in the country timezone */
+    date: string;
+    /** `false` when no fabricated article was available and the edition is a provisional fallback */
+    fabricatedIncluded: boolean;
+}
+
+/**
+ * Use case for the daily challenge shared by every player of a locale
+ * @description Complete editions are persisted on first request so the selection never changes mid-day.
+ * Editions without a fabricated article are served but not persisted, so the day gets a proper edition
+ * as soon as the pipeline fabricates one.
+ */
+export class GetDailyChallengeUseCase {
+    constructor(
+        private readonly articleRepository: ArticleRepositoryPort,
+        private readonly dailyChallengeRepository: DailyChallengeRepositoryPort,
+        private readonly logger: LoggerPort,
+        private readonly articleCount: number,
+    ) {}
+
+    /**
+     * Get today's edition for a locale, selecting it when it does not exist yet
+     * @param params - The country and language of the edition
+     * @returns The edition articles in play order, or `null` when the locale has no articles
+     */
+    async execute(params: GetDailyChallengeParams): Promise<GetDailyChallengeResult | null> {
+        const { country, language } = params;
+        const date = formatTZDateForCountry(
+            createCurrentTZDateForCountry(country.toString()),
+            country.toString(),
+            'yyyy-MM-dd',
+        );
+
+        const existing = await this.dailyChallengeRepository.findByDate({
+            country,
+            date,
+            language,
+        });
+
+        if (existing) {
+            return this.toResult(existing.articleIds, date);
+        }
+
+        const candidates = await this.articleRepository.findMany({
+            country,
+            language,
+            limit: CANDIDATE_POOL_SIZE,
+        });
+
+        if (candidates.length === 0) {
+            return null;
+        }
+
+        const seed = `${date}:${country.toString()}:${language.toString()}`;
+        const selection = selectArticles(candidates, this.articleCount, seed);
+
+        if (!selection.fabricatedIncluded) {
+            this.logger.warn('No fabricated article available for the daily challenge', {
+                country: country.toString(),
+                date,
+                language: language.toString(),
+            });
+            return { articles: selection.articles, date, fabricatedIncluded: false };
+        }
+
+        const stored = await this.dailyChallengeRepository.saveIfAbsent(
+            new DailyChallenge({
+                articleIds: selection.articles.map((article) => article.id),
+                country,
+                createdAt: new Date(),
+                date,
+                id: randomUUID(),
+                language,
+            }),
+        );
+
+        return this.toResult(stored.articleIds, date);
+    }
+
+    private async toResult(articleIds: string[], date: string): Promise<GetDailyChallengeResult> {
+        // An editor may have retracted an article after the edition was stored
+        const articles = (await this.articleRepository.findManyByIds(articleIds)).filter(
+            (article) => !article.isRetracted(),
+        );
+
+        return {
+            articles,
+            date,
+            fabricatedIncluded: articles.some((article) => article.isFabricated()),
+        };
+    }
+}
+
+/**
+ * Pick `count` articles with exactly one fabricated article when available.
+ * Candidates are ordered by id before shuffling so the same pool and seed always yield the same edition.
+ */
+function selectArticles(
+    candidates: Article[],
+    count: number,
+    seed: string,
+): { articles: Article[]; fabricatedIncluded: boolean } {
+    const random = createSeededRandom(seed);
+    const byId = [...candidates].sort((a, b) => a.id.localeCompare(b.id));
+    const fabricated = shuffle(
+        byId.filter((article) => article.isFabricated()),
+        random,
+    );
+    const authentic = shuffle(
+        byId.filter((article) => !article.isFabricated()),
+        random,
+    );
+
+    if (fabricated.length === 0) {
+        return { articles: authentic.slice(0, count), fabricatedIncluded: false };
+    }
+
+    return {
+        articles: shuffle([fabricated[0], ...authentic.slice(0, count - 1)], random),
+        fabricatedIncluded: true,
+    };
+}
+
+/**
+ * Mulberry32 generator seeded from a SHA-256 digest of the seed string
+ */
+function createSeededRandom(seed: string): () => number {
+    let state = createHash('sha256').update(seed).digest().readUInt32BE(0);
+
+    return () => {
+        state = (state + 0x6d2b79f5) | 0;
+        let t = Math.imul(state ^ (state >>> 15), 1 | state);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+}
+
+function shuffle<T>(items: T[], random: () => number): T[] {
+    const shuffled = [...items];
+    for (let index = shuffled.length - 1; index > 0; index--) {
+        const swapIndex = Math.floor(random() * (index + 1));
+        [shuffled[index], shuffled[swapIndex]] = [shuffled[swapIndex], shuffled[index]];
+    }
+    return shuffled;
+}
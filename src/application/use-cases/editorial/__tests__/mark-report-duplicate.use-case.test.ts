@@ -0,0 +1,115 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { getMockReport } from '../../../../domain/entities/__mocks__/reports.mock.js';
+import { Report } from '../../../../domain/entities/report.entity.js';
+
+// Ports
+import {
+    type ReportDetail,
+    type ReportRepositoryPort,
+} from '../../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { InvalidEditorialTransitionError } from '../invalid-editorial-transition.error.js';
+import { MarkReportDuplicateUseCase } from '../mark-report-duplicate.use-case.js';
+
+const detailOf = (report: Report, overrides: Partial<ReportDetail> = {}): ReportDetail => ({
+    articles: [],
+    duplicateOf: null,
+    duplicates: [],
+    report,
+    ...overrides,
+});
+
+describe('MarkReportDuplicateUseCase', () => {
+    let mockReportRepository: DeepMockProxy<ReportRepositoryPort>;
+    let useCase: MarkReportDuplicateUseCase;
+
+    let report: Report;
+    let canonical: Report;
+
+    beforeEach(() => {
+        mockReportRepository = mock<ReportRepositoryPort>();
+        useCase = new MarkReportDuplicateUseCase(mockReportRepository, mock<LoggerPort>());
+
+        report = getMockReport();
+        canonical = getMockReport();
+        mockReportRepository.findDetailById.mockResolvedValue(detailOf(report));
+        mockReportRepository.findById.mockResolvedValue(canonical);
+    });
+
+    test('should mark the report as a duplicate of the canonical report', async () => {
+        // When
+        const action = await useCase.execute({
+            actor: 'newsroom',
+            duplicateOfId: canonical.id,
+            reason: 'Same story from another outlet',
+            reportId: report.id,
+        });
+
+        // Then - the action is recorded along with the change
+        expect(mockReportRepository.markAsDuplicate).toHaveBeenCalledWith(report.id, {
+            action,
+            duplicateOfId: canonical.id,
+        });
+        expect(action).toMatchObject({
+            changes: { duplicateOfId: { from: null, to: canonical.id } },
+            reportId: report.id,
+            type: 'MARK_DUPLICATE',
+        });
+    });
+
+    test('should reject a canonical report that is itself a duplicate', async () => {
+        // Given
+        mockReportRepository.findById.mockResolvedValue(
+            new Report({ ...canonical, duplicateOfId: randomUUID() }),
+        );
+
+        // When / Then
+        await expect(
+            useCase.execute({
+                actor: 'newsroom',
+                duplicateOfId: canonical.id,
+                reason: 'r',
+                reportId: report.id,
+            }),
+        ).rejects.toThrow(InvalidEditorialTransitionError);
+        expect(mockReportRepository.markAsDuplicate).not.toHaveBeenCalled();
+    });
+
+    test('should reject a report that has duplicates of its own', async () => {
+        // Given
+        mockReportRepository.findDetailById.mockResolvedValue(
+            detailOf(report, {
+                duplicates: [
+                    { core: 'Core', createdAt: new Date(), dateline: new Date(), id: randomUUID() },
+                ],
+            }),
+        );
+
+        // When / Then
+        await expect(
+            useCase.execute({
+                actor: 'newsroom',
+                duplicateOfId: canonical.id,
+                reason: 'r',
+                reportId: report.id,
+            }),
+        ).rejects.toThrow(InvalidEditorialTransitionError);
+    });
+
+    test('should reject marking a report as a duplicate of itself', async () => {
+        // When / Then
+        await expect(
+            useCase.execute({
+                actor: 'newsroom',
+                duplicateOfId: report.id,
+                reason: 'r',
+                reportId: report.id,
+            }),
+        ).rejects.toThrow(InvalidEditorialTransitionError);
+    });
+});
@@ -0,0 +1,128 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { getMockReport } from '../../../../domain/entities/__mocks__/reports.mock.js';
+import { Report } from '../../../../domain/entities/report.entity.js';
+import { DeduplicationState } from '../../../../domain/value-objects/report/deduplication-state.vo.js';
+import { ClassificationState } from '../../../../domain/value-objects/report/tier-state.vo.js';
+
+// Ports
+import { type ReportRepositoryPort } from '../../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { InvalidEditorialTransitionError } from '../invalid-editorial-transition.error.js';
+import { ReclassifyReportUseCase } from '../reclassify-report.use-case.js';
+
+describe('ReclassifyReportUseCase', () => {
+    let mockReportRepository: DeepMockProxy<ReportRepositoryPort>;
+    let useCase: ReclassifyReportUseCase;
+
+    beforeEach(() => {
+        mockReportRepository = mock<ReportRepositoryPort>();
+        useCase = new ReclassifyReportUseCase(mockReportRepository, mock<LoggerPort>());
+    });
+
+    test('should override the classification and record who made the change and why', async () => {
+        // Given - a report still pending classification
+        const report = new Report({
+            ...getMockReport(),
+            classificationState: new ClassificationState('PENDING'),
+            tier: undefined,
+        });
+        mockReportRepository.findById.mockResolvedValue(report);
+
+        // When
+        const action = await useCase.execute({
+            actor: 'newsroom',
+            reason: 'Major election news',
+            reportId: report.id,
+            tier: 'GENERAL',
+            traits: { essential: true, positive: false },
+        });
+
+        // Then - the report is classified and the action recorded along with it
+        expect(mockReportRepository.reclassify).toHaveBeenCalledWith(
+            report.id,
+            {
+                tier: expect.objectContaining({ value: 'GENERAL' }),
+                traits: expect.objectContaining({ essential: true, positive: false }),
+            },
+            action,
+        );
+        expect(action).toMatchObject({
+            actor: 'newsroom',
+            changes: {
+                classificationState: { from: 'PENDING', to: 'COMPLETE' },
+                tier: { from: null, to: 'GENERAL' },
+            },
+            reason: 'Major election news',
+            reportId: report.id,
+            type: 'RECLASSIFY_REPORT',
+        });
+    });
+
+    test('should keep the classified traits when none are given', async () => {
+        // Given - a classified report
+        const report = getMockReport();
+        mockReportRepository.findById.mockResolvedValue(report);
+
+        // When
+        await useCase.execute({
+            actor: 'newsroom',
+            reason: 'Too broad for general',
+            reportId: report.id,
+            tier: 'NICHE',
+        });
+
+        // Then - its traits are applied again as they were
+        expect(mockReportRepository.reclassify).toHaveBeenCalledWith(
+            report.id,
+            { tier: expect.objectContaining({ value: 'NICHE' }), traits: report.traits },
+            expect.objectContaining({ type: 'RECLASSIFY_REPORT' }),
+        );
+    });
+
+    test('should reject a report that has not been deduplicated yet', async () => {
+        // Given
+        const report = new Report({
+            ...getMockReport(),
+            deduplicationState: new DeduplicationState('PENDING'),
+        });
+        mockReportRepository.findById.mockResolvedValue(report);
+
+        // When / Then
+        await expect(
+            useCase.execute({ actor: 'newsroom', reason: 'r', reportId: report.id, tier: 'NICHE' }),
+        ).rejects.toThrow(InvalidEditorialTransitionError);
+        expect(mockReportRepository.reclassify).not.toHaveBeenCalled();
+    });
+
+    test('should reject a duplicate report', async () => {
+        // Given
+        const report = new Report({ ...getMockReport(), duplicateOfId: randomUUID() });
+        mockReportRepository.findById.mockResolvedValue(report);
+
+        // When / Then
+        await expect(
+            useCase.execute({ actor: 'newsroom', reason: 'r', reportId: report.id, tier: 'NICHE' }),
+        ).rejects.toThrow(InvalidEditorialTransitionError);
+    });
+
+    test('should return null when the report does not exist', async () => {
+        // Given
+        mockReportRepository.findById.mockResolvedValue(null);
+
+        // When
+        const action = await useCase.execute({
+            actor: 'newsroom',
+            reason: 'r',
+            reportId: randomUUID(),
+            tier: 'NICHE',
+        });
+
+        // Then
+        expect(action).toBeNull();
+    });
+});
@@ -0,0 +1,115 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { createMockArticle } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { getMockReport } from '../../../../domain/entities/__mocks__/reports.mock.js';
+import { Report } from '../../../../domain/entities/report.entity.js';
+import { Language } from '../../../../domain/value-objects/language.vo.js';
+import { Classification } from '../../../../domain/value-objects/report/tier.vo.js';
+
+// Ports
+import { type EventBusPort } from '../../../ports/outbound/events/event-bus.port.js';
+import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
+import { type ReportRepositoryPort } from '../../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { type PublishReportsUseCase } from '../../reports/publish-reports.use-case.js';
+import { InvalidEditorialTransitionError } from '../invalid-editorial-transition.error.js';
+import { RepublishReportUseCase } from '../republish-report.use-case.js';
+
+describe('RepublishReportUseCase', () => {
+    let mockReportRepository: DeepMockProxy<ReportRepositoryPort>;
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let mockPublishReports: DeepMockProxy<PublishReportsUseCase>;
+    let mockEventBus: DeepMockProxy<EventBusPort>;
+    let useCase: RepublishReportUseCase;
+
+    beforeEach(() => {
+        mockReportRepository = mock<ReportRepositoryPort>();
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        mockPublishReports = mock<PublishReportsUseCase>();
+        mockEventBus = mock<EventBusPort>();
+        useCase = new RepublishReportUseCase(
+            mockReportRepository,
+            mockArticleRepository,
+            mockPublishReports,
+            mockEventBus,
+            mock<LoggerPort>(),
+        );
+    });
+
+    test('should publish a new article and retract the previous one in that language', async () => {
+        // Given - a report published once in English and once in French
+        const report = getMockReport();
+        const previousId = randomUUID();
+        mockReportRepository.findDetailById.mockResolvedValue({
+            articles: [
+                {
+                    fabricated: false,
+                    headline: 'Previous',
+                    id: previousId,
+                    language: 'EN',
+                    publishedAt: new Date(),
+                    retractedAt: null,
+                },
+                {
+                    fabricated: false,
+                    headline: 'Précédent',
+                    id: randomUUID(),
+                    language: 'FR',
+                    publishedAt: new Date(),
+                    retractedAt: null,
+                },
+            ],
+            duplicateOf: null,
+            duplicates: [],
+            report,
+        });
+        const article = createMockArticle(0);
+        mockPublishReports.composeArticle.mockResolvedValue(article);
+
+        // When
+        const action = await useCase.execute({
+            actor: 'newsroom',
+            language: new Language('en'),
+            reason: 'Reclassified',
+            reportId: report.id,
+        });
+
+        // Then - the new article, the retraction and the action are written together
+        expect(action).toMatchObject({
+            changes: { articleIds: { from: [previousId], to: [article.id] } },
+            type: 'REPUBLISH_REPORT',
+        });
+        expect(mockArticleRepository.republish).toHaveBeenCalledWith(article, [previousId], action);
+        expect(mockEventBus.publish).toHaveBeenCalledTimes(1);
+    });
+
+    test('should reject an OFF_TOPIC report', async () => {
+        // Given
+        const report = new Report({
+            ...getMockReport(),
+            tier: new Classification('OFF_TOPIC'),
+        });
+        mockReportRepository.findDetailById.mockResolvedValue({
+            articles: [],
+            duplicateOf: null,
+            duplicates: [],
+            report,
+        });
+
+        // When / Then
+        await expect(
+            useCase.execute({
+                actor: 'newsroom',
+                language: new Language('en'),
+                reason: 'r',
+                reportId: report.id,
+            }),
+        ).rejects.toThrow(InvalidEditorialTransitionError);
+        expect(mockPublishReports.composeArticle).not.toHaveBeenCalled();
+        expect(mockArticleRepository.republish).not.toHaveBeenCalled();
+    });
+});
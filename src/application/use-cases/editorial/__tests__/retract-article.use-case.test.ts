@@ -0,0 +1,57 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { createMockArticle } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { Article } from '../../../../domain/entities/article.entity.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
+
+import { InvalidEditorialTransitionError } from '../invalid-editorial-transition.error.js';
+import { RetractArticleUseCase } from '../retract-article.use-case.js';
+
+describe('RetractArticleUseCase', () => {
+    let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let useCase: RetractArticleUseCase;
+
+    beforeEach(() => {
+        mockArticleRepository = mock<ArticleRepositoryPort>();
+        useCase = new RetractArticleUseCase(mockArticleRepository, mock<LoggerPort>());
+    });
+
+    test('should retract the article and record the action', async () => {
+        // Given
+        const article = createMockArticle(0);
+        mockArticleRepository.findById.mockResolvedValue(article);
+
+        // When
+        const action = await useCase.execute({
+            actor: 'admin-token',
+            articleId: article.id,
+            reason: 'Factual error',
+        });
+
+        // Then - the action is recorded along with the retraction
+        expect(mockArticleRepository.retract).toHaveBeenCalledWith(article.id, action);
+        expect(action).toMatchObject({
+            actor: 'admin-token',
+            articleId: article.id,
+            reason: 'Factual error',
+            type: 'RETRACT_ARTICLE',
+        });
+    });
+
+    test('should reject an article that is already retracted', async () => {
+        // Given
+        const article = new Article({ ...createMockArticle(0), retractedAt: new Date() });
+        mockArticleRepository.findById.mockResolvedValue(article);
+
+        // When / Then
+        await expect(
+            useCase.execute({ actor: 'admin-token', articleId: article.id, reason: 'Again' }),
+        ).rejects.toThrow(InvalidEditorialTransitionError);
+        expect(mockArticleRepository.retract).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,10 @@
+/**
+ * Raised when an editorial override does not apply to the current state of its target,
+ * e.g. reclassifying a report that is a duplicate of another one
+ */
+export class InvalidEditorialTransitionError extends Error {
+    constructor(message: string) {
+        super(message);
+        this.name = 'InvalidEditorialTransitionError';
+    }
+}
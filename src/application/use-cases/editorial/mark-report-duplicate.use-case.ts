@@ -0,0 +1,103 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { EditorialAction } from '../../../domain/entities/editorial-action.entity.js';
+
+// Ports
+import { type ReportRepositoryPort } from '../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { InvalidEditorialTransitionError } from './invalid-editorial-transition.error.js';
+
+/**
+ * Input parameters for the MarkReportDuplicate use case
+ */
+export interface MarkReportDuplicateParams {
+    actor: string;
+    /** Canonical report the report duplicates */
+    duplicateOfId: string;
+    reason: string;
+    reportId: string;
+}
+
+/**
+ * Use case for marking a report as a duplicate the deduplication agent missed,
+ * or for pointing it to another canonical report
+ */
+export class MarkReportDuplicateUseCase {
+    constructor(
+        private readonly reportRepository: ReportRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * @returns The recorded action, or null when the report does not exist
+     * @throws {InvalidEditorialTransitionError} When the duplicate chain would not end on a canonical report
+     */
+    async execute(params: MarkReportDuplicateParams): Promise<EditorialAction | null> {
+        const detail = await this.reportRepository.findDetailById(params.reportId);
+
+        if (!detail) {
+            return null;
+        }
+
+        const { report } = detail;
+
+        if (params.duplicateOfId === report.id) {
+            throw new InvalidEditorialTransitionError('A report cannot duplicate itself');
+        }
+        if (report.duplicateOfId === params.duplicateOfId) {
+            throw new InvalidEditorialTransitionError(
+                `Report ${report.id} is already a duplicate of report ${params.duplicateOfId}`,
+            );
+        }
+        // Duplicates point straight to their canonical report, never through another duplicate
+        if (detail.duplicates.length > 0) {
+            throw new InvalidEditorialTransitionError(
+                `Report ${report.id} has duplicates of its own`,
+            );
+        }
+
+        const canonical = await this.reportRepository.findById(params.duplicateOfId);
+
+        if (!canonical) {
+            throw new InvalidEditorialTransitionError(
+                `Canonical report ${params.duplicateOfId} not found`,
+            );
+        }
+        if (canonical.duplicateOfId !== undefined) {
+            throw new InvalidEditorialTransitionError(
+                `Report ${canonical.id} is itself a duplicate of report ${canonical.duplicateOfId}`,
+            );
+        }
+
+        const action = new EditorialAction({
+            actor: params.actor,
+            changes: {
+                deduplicationState: {
+                    from: report.deduplicationState.toString(),
+                    to: 'COMPLETE',
+                },
+                duplicateOfId: { from: report.duplicateOfId ?? null, to: canonical.id },
+            },
+            createdAt: new Date(),
+            id: randomUUID(),
+            reason: params.reason,
+            reportId: report.id,
+            type: 'MARK_DUPLICATE',
+        });
+
+        await this.reportRepository.markAsDuplicate(report.id, {
+            action,
+            duplicateOfId: canonical.id,
+        });
+
+        this.logger.info('Report marked as duplicate', {
+            actor: params.actor,
+            duplicateOfId: canonical.id,
+            reportId: report.id,
+        });
+
+        return action;
+    }
+}
@@ -0,0 +1,96 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { EditorialAction } from '../../../domain/entities/editorial-action.entity.js';
+import { ArticleTraits } from '../../../domain/value-objects/article-traits.vo.js';
+import {
+    Classification,
+    type ClassificationType,
+} from '../../../domain/value-objects/report/tier.vo.js';
+
+// Ports
+import { type ReportRepositoryPort } from '../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { InvalidEditorialTransitionError } from './invalid-editorial-transition.error.js';
+
+/**
+ * Input parameters for the ReclassifyReport use case
+ */
+export interface ReclassifyReportParams {
+    actor: string;
+    reason: string;
+    reportId: string;
+    tier: ClassificationType;
+    /** Kept as classified when omitted */
+    traits?: { essential: boolean; positive: boolean };
+}
+
+/**
+ * Use case for overriding the tier and traits the classification agent assigned to a report
+ * @description Articles already published from the report follow: they read their tier from
+ * the report, and get its traits
+ */
+export class ReclassifyReportUseCase {
+    constructor(
+        private readonly reportRepository: ReportRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * @returns The recorded action, or null when the report does not exist
+     * @throws {InvalidEditorialTransitionError} When the report is not deduplicated, or is a duplicate
+     */
+    async execute(params: ReclassifyReportParams): Promise<EditorialAction | null> {
+        const report = await this.reportRepository.findById(params.reportId);
+
+        if (!report) {
+            return null;
+        }
+
+        // Only canonical reports get classified and published
+        if (!report.deduplicationState.isComplete()) {
+            throw new InvalidEditorialTransitionError(
+                `Report ${report.id} has not been deduplicated yet`,
+            );
+        }
+        if (report.duplicateOfId !== undefined) {
+            throw new InvalidEditorialTransitionError(
+                `Report ${report.id} is a duplicate of report ${report.duplicateOfId}`,
+            );
+        }
+
+        const traits = params.traits ? new ArticleTraits(params.traits) : report.traits;
+
+        const action = new EditorialAction({
+            actor: params.actor,
+            changes: {
+                classificationState: {
+                    from: report.classificationState.toString(),
+                    to: 'COMPLETE',
+                },
+                tier: { from: report.tier?.toString() ?? null, to: params.tier },
+                traits: { from: report.traits?.toJSON() ?? null, to: traits?.toJSON() ?? null },
+            },
+            createdAt: new Date(),
+            id: randomUUID(),
+            reason: params.reason,
+            reportId: report.id,
+            type: 'RECLASSIFY_REPORT',
+        });
+
+        await this.reportRepository.reclassify(
+            report.id,
+            { tier: new Classification(params.tier), traits },
+            action,
+        );
+
+        this.logger.info('Report reclassified', {
+            actor: params.actor,
+            reportId: report.id,
+            tier: params.tier,
+        });
+
+        return action;
+    }
+}
@@ -0,0 +1,112 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { EditorialAction } from '../../../domain/entities/editorial-action.entity.js';
+import { ArticlesPublishedEvent } from '../../../domain/events/articles-published.event.js';
+import { type Language } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type EventBusPort } from '../../ports/outbound/events/event-bus.port.js';
+import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+import { type ReportRepositoryPort } from '../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { type PublishReportsUseCase } from '../reports/publish-reports.use-case.js';
+
+import { InvalidEditorialTransitionError } from './invalid-editorial-transition.error.js';
+
+/**
+ * Input parameters for the RepublishReport use case
+ */
+export interface RepublishReportParams {
+    actor: string;
+    language: Language;
+    reason: string;
+    reportId: string;
+}
+
+/**
+ * Use case for composing the article of a report again, e.g. after reclassifying it.
+ * The new article replaces the authentic articles previously published from the report
+ * in that language, which get retracted.
+ */
+export class RepublishReportUseCase {
+    constructor(
+        private readonly reportRepository: ReportRepositoryPort,
+        private readonly articleRepository: ArticleRepositoryPort,
+        private readonly publishReportsUseCase: PublishReportsUseCase,
+        private readonly eventBus: EventBusPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * @returns The recorded action, or null when the report does not exist
+     * @throws {InvalidEditorialTransitionError} When the report is not ready to be published
+     */
+    async execute(params: RepublishReportParams): Promise<EditorialAction | null> {
+        const detail = await this.reportRepository.findDetailById(params.reportId);
+
+        if (!detail) {
+            return null;
+        }
+
+        const { report } = detail;
+
+        if (!report.deduplicationState.isComplete() || !report.classificationState.isComplete()) {
+            throw new InvalidEditorialTransitionError(
+                `Report ${report.id} has not been deduplicated and classified yet`,
+            );
+        }
+        if (report.duplicateOfId !== undefined) {
+            throw new InvalidEditorialTransitionError(
+                `Report ${report.id} is a duplicate of report ${report.duplicateOfId}`,
+            );
+        }
+        if (report.tier?.toString() === 'OFF_TOPIC') {
+            throw new InvalidEditorialTransitionError(
+                `Report ${report.id} is classified OFF_TOPIC, reclassify it first`,
+            );
+        }
+
+        const article = await this.publishReportsUseCase.composeArticle(
+            report,
+            params.language,
+            report.country,
+        );
+
+        if (!article) {
+            throw new Error(`Article composition returned no result for report ${report.id}`);
+        }
+
+        const replacedArticleIds = detail.articles
+            .filter(
+                (published) =>
+                    !published.fabricated &&
+                    published.retractedAt === null &&
+                    published.language === params.language.toString(),
+            )
+            .map((published) => published.id);
+
+        const action = new EditorialAction({
+            actor: params.actor,
+            changes: { articleIds: { from: replacedArticleIds, to: [article.id] } },
+            createdAt: new Date(),
+            id: randomUUID(),
+            reason: params.reason,
+            reportId: report.id,
+            type: 'REPUBLISH_REPORT',
+        });
+
+        await this.articleRepository.republish(article, replacedArticleIds, action);
+        this.eventBus.publish(new ArticlesPublishedEvent([article]));
+
+        this.logger.info('Report republished', {
+            actor: params.actor,
+            articleId: article.id,
+            replacedArticleIds,
+            reportId: report.id,
+        });
+
+        return action;
+    }
+}
@@ -0,0 +1,63 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { EditorialAction } from '../../../domain/entities/editorial-action.entity.js';
+
+// Ports
+import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
+
+import { InvalidEditorialTransitionError } from './invalid-editorial-transition.error.js';
+
+/**
+ * Input parameters for the RetractArticle use case
+ */
+export interface RetractArticleParams {
+    actor: string;
+    articleId: string;
+    reason: string;
+}
+
+/**
+ * Use case for withdrawing a published article from every public listing.
+ * The article is kept, so answers, guesses and the audit trail still refer to it.
+ */
+export class RetractArticleUseCase {
+    constructor(
+        private readonly articleRepository: ArticleRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * @returns The recorded action, or null when the article does not exist
+     * @throws {InvalidEditorialTransitionError} When the article is already retracted
+     */
+    async execute(params: RetractArticleParams): Promise<EditorialAction | null> {
+        const article = await this.articleRepository.findById(params.articleId);
+
+        if (!article) {
+            return null;
+        }
+
+        if (article.isRetracted()) {
+            throw new InvalidEditorialTransitionError(`Article ${article.id} is already retracted`);
+        }
+
+        const retractedAt = new Date();
+        const action = new EditorialAction({
+            actor: params.actor,
+            articleId: article.id,
+            changes: { retractedAt: { from: null, to: retractedAt.toISOString() } },
+            createdAt: retractedAt,
+            id: randomUUID(),
+            reason: params.reason,
+            type: 'RETRACT_ARTICLE',
+        });
+
+        await this.articleRepository.retract(article.id, action);
+
+        this.logger.info('Article retracted', { actor: params.actor, articleId: article.id });
+
+        return action;
+    }
+}
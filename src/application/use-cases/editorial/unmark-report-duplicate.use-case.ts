@@ -0,0 +1,65 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { EditorialAction } from '../../../domain/entities/editorial-action.entity.js';
+
+// Ports
+import { type ReportRepositoryPort } from '../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { InvalidEditorialTransitionError } from './invalid-editorial-transition.error.js';
+
+/**
+ * Input parameters for the UnmarkReportDuplicate use case
+ */
+export interface UnmarkReportDuplicateParams {
+    actor: string;
+    reason: string;
+    reportId: string;
+}
+
+/**
+ * Use case for restoring a report wrongly marked as a duplicate as a canonical report,
+ * which the pipeline then classifies and publishes like any other
+ */
+export class UnmarkReportDuplicateUseCase {
+    constructor(
+        private readonly reportRepository: ReportRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * @returns The recorded action, or null when the report does not exist
+     * @throws {InvalidEditorialTransitionError} When the report is not a duplicate
+     */
+    async execute(params: UnmarkReportDuplicateParams): Promise<EditorialAction | null> {
+        const report = await this.reportRepository.findById(params.reportId);
+
+        if (!report) {
+            return null;
+        }
+
+        if (report.duplicateOfId === undefined) {
+            throw new InvalidEditorialTransitionError(`Report ${report.id} is not a duplicate`);
+        }
+
+        const action = new EditorialAction({
+            actor: params.actor,
+            changes: { duplicateOfId: { from: report.duplicateOfId, to: null } },
+            createdAt: new Date(),
+            id: randomUUID(),
+            reason: params.reason,
+            reportId: report.id,
+            type: 'UNMARK_DUPLICATE',
+        });
+
+        await this.reportRepository.unmarkAsDuplicate(report.id, action);
+
+        this.logger.info('Report unmarked as duplicate', {
+            actor: params.actor,
+            reportId: report.id,
+        });
+
+        return action;
+    }
+}
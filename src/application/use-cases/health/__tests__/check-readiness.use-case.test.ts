@@ -0,0 +1,178 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import {
+    PIPELINE_STEPS,
+    PipelineRun,
+    type PipelineRunStatus,
+} from '../../../../domain/entities/pipeline-run.entity.js';
+
+// Ports
+import { type HealthIndicatorPort } from '../../../ports/outbound/health/health-indicator.port.js';
+import { type PipelineRunRepositoryPort } from '../../../ports/outbound/persistence/pipeline/pipeline-run-repository.port.js';
+
+import { CheckReadinessUseCase } from '../check-readiness.use-case.js';
+
+const createIndicator = (
+    name: string,
+    critical: boolean,
+    check: HealthIndicatorPort['check'],
+): HealthIndicatorPort => ({ check, critical, name });
+
+const createRun = (status: PipelineRunStatus, finishedAt: Date): PipelineRun =>
+    new PipelineRun({
+        finishedAt,
+        id: randomUUID(),
+        startedAt: new Date(finishedAt.getTime() - 60_000),
+        status,
+        steps: PIPELINE_STEPS.map((name) => ({ name, status: 'SUCCEEDED' })),
+        targets: [{ country: 'US', language: 'EN' }],
+        trigger: 'SCHEDULE',
+    });
+
+describe('CheckReadinessUseCase', () => {
+    let mockLogger: DeepMockProxy<LoggerPort>;
+    let mockPipelineRunRepository: DeepMockProxy<PipelineRunRepositoryPort>;
+
+    beforeEach(() => {
+        mockLogger = mock<LoggerPort>();
+        mockPipelineRunRepository = mock<PipelineRunRepositoryPort>();
+        mockPipelineRunRepository.findRecent.mockResolvedValue([
+            createRun('SUCCEEDED', new Date()),
+        ]);
+    });
+
+    const createUseCase = (indicators: HealthIndicatorPort[]) =>
+        new CheckReadinessUseCase(
+            indicators,
+            mockPipelineRunRepository,
+            [{ country: 'US', language: 'EN' }],
+            { pipelineCriticalAfterHours: 12 },
+            mockLogger,
+        );
+
+    test('should pass when every check passes', async () => {
+        // Given
+        const useCase = createUseCase([
+            createIndicator('database', true, async () => ({ status: 'pass' })),
+        ]);
+
+        // When
+        const report = await useCase.execute();
+
+        // Then
+        expect(report.status).toBe('pass');
+        expect(report.checks.pipeline).toMatchObject({ critical: false, status: 'pass' });
+    });
+
+    test('should fail when a critical check fails, even by throwing', async () => {
+        // Given
+        const useCase = createUseCase([
+            createIndicator('database', true, async () => {
+                throw new Error('Connection refused');
+            }),
+        ]);
+
+        // When
+        const report = await useCase.execute();
+
+        // Then
+        expect(report.status).toBe('fail');
+        expect(report.checks.database).toEqual({
+            critical: true,
+            details: { error: 'Connection refused' },
+            status: 'fail',
+        });
+        expect(mockLogger.warn).toHaveBeenCalledWith('Readiness check not passing', {
+            check: 'database',
+            critical: true,
+            details: { error: 'Connection refused' },
+            status: 'fail',
+        });
+    });
+
+    test('should only warn when a non-critical check fails', async () => {
+        // Given - the last run of the locale failed
+        mockPipelineRunRepository.findRecent.mockResolvedValue([
+            createRun('FAILED', new Date()),
+            createRun('SUCCEEDED', new Date(Date.now() - 60 * 60 * 1000)),
+        ]);
+        const useCase = createUseCase([
+            createIndicator('database', true, async () => ({ status: 'pass' })),
+        ]);
+
+        // When
+        const report = await useCase.execute();
+
+        // Then
+        expect(report.status).toBe('warn');
+        expect(report.checks.pipeline.status).toBe('fail');
+        expect(report.checks.pipeline.details).toMatchObject({
+            locales: [{ country: 'US', language: 'EN', lastRunStatus: 'FAILED', status: 'fail' }],
+        });
+    });
+
+    test('should fail the pipeline check when the last run is stale', async () => {
+        // Given
+        mockPipelineRunRepository.findRecent.mockResolvedValue([
+            createRun('SUCCEEDED', new Date(Date.now() - 6 * 60 * 60 * 1000)),
+        ]);
+
+        // When
+        const report = await createUseCase([]).execute();
+
+        // Then
+        expect(report.checks.pipeline).toMatchObject({ critical: false, status: 'fail' });
+        expect(report.status).toBe('warn');
+    });
+
+    test('should fail readiness once a locale went without a successful run past the threshold', async () => {
+        // Given - runs kept failing since the last success, 13 hours ago
+        mockPipelineRunRepository.findRecent.mockResolvedValue([
+            createRun('FAILED', new Date()),
+            createRun('SUCCEEDED', new Date(Date.now() - 13 * 60 * 60 * 1000)),
+        ]);
+
+        // When
+        const report = await createUseCase([]).execute();
+
+        // Then
+        expect(report.status).toBe('fail');
+        expect(report.checks.pipeline).toMatchObject({ critical: true, status: 'fail' });
+        expect(report.checks.pipeline.details).toMatchObject({
+            locales: [{ lastRunStatus: 'FAILED', stalled: true }],
+        });
+    });
+
+    test('should count from the oldest known run when none succeeded', async () => {
+        // Given - only failed runs, the oldest 13 hours ago
+        mockPipelineRunRepository.findRecent.mockResolvedValue([
+            createRun('FAILED', new Date()),
+            createRun('FAILED', new Date(Date.now() - 13 * 60 * 60 * 1000)),
+        ]);
+
+        // When
+        const report = await createUseCase([]).execute();
+
+        // Then
+        expect(report.status).toBe('fail');
+        expect(report.checks.pipeline.details).toMatchObject({
+            locales: [{ lastSuccessAt: null, stalled: true }],
+        });
+    });
+
+    test('should warn about a locale the pipeline has not run for yet', async () => {
+        // Given
+        mockPipelineRunRepository.findRecent.mockResolvedValue([]);
+
+        // When
+        const report = await createUseCase([]).execute();
+
+        // Then
+        expect(report.checks.pipeline.status).toBe('warn');
+        expect(report.status).toBe('warn');
+    });
+});
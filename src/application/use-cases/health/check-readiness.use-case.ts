@@ -0,0 +1,182 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Configuration
+import {
+    type HealthConfigurationPort,
+    type ReportPipelineTaskConfig,
+} from '../../ports/inbound/configuration.port.js';
+
+// Domain
+import { PIPELINE_STEPS, type PipelineRun } from '../../../domain/entities/pipeline-run.entity.js';
+
+// Ports
+import {
+    type HealthCheckResult,
+    type HealthIndicatorPort,
+    type HealthStatus,
+} from '../../ports/outbound/health/health-indicator.port.js';
+import { type PipelineRunRepositoryPort } from '../../ports/outbound/persistence/pipeline/pipeline-run-repository.port.js';
+
+/** A check slower than this fails, so probes answer before their own timeout */
+const CHECK_TIMEOUT_MS = 5000;
+
+/** Two missed runs of the 2-hour schedule, plus time for a long run */
+const PIPELINE_STALE_AFTER_MS = 5 * 60 * 60 * 1000;
+
+const HOUR_MS = 60 * 60 * 1000;
+
+const SEVERITY: Record<HealthStatus, number> = { fail: 2, pass: 0, warn: 1 };
+
+/**
+ * Result of a single check in a readiness report
+ */
+export interface HealthCheck extends HealthCheckResult {
+    critical: boolean;
+}
+
+/**
+ * Result returned by CheckReadinessUseCase
+ */
+export interface ReadinessReport {
+    checkedAt: Date;
+    checks: Record<string, HealthCheck>;
+    /** `fail` when a critical check fails, `warn` when any other check does not pass */
+    status: HealthStatus;
+}
+
+/**
+ * Use case for checking whether the service and the dependencies it runs on are healthy
+ */
+export class CheckReadinessUseCase {
+    constructor(
+        private readonly indicators: HealthIndicatorPort[],
+        private readonly pipelineRunRepository: PipelineRunRepositoryPort,
+        private readonly taskConfigs: ReportPipelineTaskConfig[],
+        private readonly healthConfig: HealthConfigurationPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    async execute(): Promise<ReadinessReport> {
+        const pipelineIndicator: HealthIndicatorPort = {
+            check: () => this.checkPipeline(),
+            critical: false,
+            name: 'pipeline',
+        };
+
+        const results = await Promise.all(
+            [...this.indicators, pipelineIndicator].map(
+                async (indicator): Promise<[string, HealthCheck]> => [
+                    indicator.name,
+                    { critical: indicator.critical, ...(await runCheck(indicator)) },
+                ],
+            ),
+        );
+        const checks = Object.fromEntries(results);
+
+        // Details name internal errors and runs: they go to the logs, not to probes
+        for (const [name, check] of results) {
+            if (check.status !== 'pass') {
+                this.logger.warn('Readiness check not passing', {
+                    check: name,
+                    critical: check.critical,
+                    details: check.details,
+                    status: check.status,
+                });
+            }
+        }
+
+        return { checkedAt: new Date(), checks, status: summarize(Object.values(checks)) };
+    }
+
+    /**
+     * Reports the last complete run of each configured locale: failed or stale runs mean
+     * articles stopped flowing, while a locale not run yet since startup is only a warning.
+     * The check turns critical once a locale has gone without a successful run for longer
+     * than the configured threshold, counted from its oldest known run when none succeeded.
+     */
+    private async checkPipeline(): Promise<HealthCheckResult> {
+        const runs = await this.pipelineRunRepository.findRecent();
+        const completeRuns = runs.filter(
+            (run) => run.status !== 'RUNNING' && run.steps.length === PIPELINE_STEPS.length,
+        );
+        const now = Date.now();
+        const criticalAfterMs = this.healthConfig.pipelineCriticalAfterHours * HOUR_MS;
+
+        const locales = this.taskConfigs.map(({ country, language }) => {
+            const localeRuns = completeRuns.filter((run) =>
+                run.targets.some(
+                    (target) => target.country === country && target.language === language,
+                ),
+            );
+            const lastRun: PipelineRun | undefined = localeRuns[0];
+            const finishedAt = lastRun?.finishedAt;
+            const lastSuccessAt = localeRuns.find((run) => run.status === 'SUCCEEDED')?.finishedAt;
+            const stalledSince = lastSuccessAt ?? localeRuns.at(-1)?.startedAt;
+
+            let status: HealthStatus = 'warn';
+            if (lastRun && finishedAt) {
+                status =
+                    lastRun.status === 'SUCCEEDED' &&
+                    now - finishedAt.getTime() <= PIPELINE_STALE_AFTER_MS
+                        ? 'pass'
+                        : 'fail';
+            }
+
+            return {
+                country,
+                language,
+                lastRunAt: finishedAt?.toISOString() ?? null,
+                lastRunId: lastRun?.id ?? null,
+                lastRunStatus: lastRun?.status ?? null,
+                lastSuccessAt: lastSuccessAt?.toISOString() ?? null,
+                stalled:
+                    stalledSince !== undefined && now - stalledSince.getTime() > criticalAfterMs,
+                status,
+            };
+        });
+
+        return {
+            critical: locales.some((locale) => locale.stalled),
+            details: {
+                activeRunId: runs.find((run) => run.status === 'RUNNING')?.id ?? null,
+                locales,
+            },
+            status: worst(locales.map((locale) => locale.status)),
+        };
+    }
+}
+
+const runCheck = async (indicator: HealthIndicatorPort): Promise<HealthCheckResult> => {
+    let timer: NodeJS.Timeout | undefined;
+    const timeout = new Promise<HealthCheckResult>((resolve) => {
+        timer = setTimeout(
+            () => resolve({ details: { error: 'Check timed out' }, status: 'fail' }),
+            CHECK_TIMEOUT_MS,
+        );
+    });
+
+    try {
+        return await Promise.race([indicator.check(), timeout]);
+    } catch (error) {
+        return {
+            details: { error: error instanceof Error ? error.message : String(error) },
+            status: 'fail',
+        };
+    } finally {
+        clearTimeout(timer);
+    }
+};
+
+const summarize = (checks: HealthCheck[]): HealthStatus => {
+    if (checks.some((check) => check.critical && check.status === 'fail')) {
+        return 'fail';
+    }
+
+    return checks.some((check) => check.status !== 'pass') ? 'warn' : 'pass';
+};
+
+const worst = (statuses: HealthStatus[]): HealthStatus =>
+    statuses.reduce<HealthStatus>(
+        (current, status) => (SEVERITY[status] > SEVERITY[current] ? status : current),
+        'pass',
+    );
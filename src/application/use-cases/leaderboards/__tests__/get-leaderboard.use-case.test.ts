@@ -0,0 +1,150 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { Country } from '../../../../domain/value-objects/country.vo.js';
+import { Language } from '../../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type PlayerRepositoryPort } from '../../../ports/outbound/persistence/player/player-repository.port.js';
+
+import { GetLeaderboardUseCase } from '../get-leaderboard.use-case.js';
+
+describe('GetLeaderboardUseCase', () => {
+    let mockPlayerRepository: DeepMockProxy<PlayerRepositoryPort>;
+    let useCase: GetLeaderboardUseCase;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        // 02:30 UTC on Mar 12 is still Mar 11 in New York and already Mar 12 in Paris
+        vi.setSystemTime(new Date('2024-03-12T02:30:00.000Z'));
+
+        mockPlayerRepository = mock<PlayerRepositoryPort>();
+        mockPlayerRepository.findResultTotals.mockResolvedValue([]);
+        useCase = new GetLeaderboardUseCase(mockPlayerRepository);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('execute', () => {
+        it('should rank players by score and share ranks on ties', async () => {
+            // Given - three players, two of them tied on score
+            mockPlayerRepository.findResultTotals.mockResolvedValue([
+                {
+                    authenticityCorrect: 0,
+                    authenticityGuessed: 1,
+                    playerId: 'player-c',
+                    quizAnswered: 2,
+                    quizCorrect: 1,
+                },
+                {
+                    authenticityCorrect: 1,
+                    authenticityGuessed: 1,
+                    playerId: 'player-a',
+                    quizAnswered: 4,
+                    quizCorrect: 3,
+                },
+                {
+                    authenticityCorrect: 2,
+                    authenticityGuessed: 2,
+                    playerId: 'player-b',
+                    quizAnswered: 1,
+                    quizCorrect: 1,
+                },
+            ]);
+
+            // When - getting the all-time leaderboard
+            const result = await useCase.execute({
+                country: new Country('US'),
+                language: new Language('EN'),
+                limit: 10,
+                period: 'all',
+            });
+
+            // Then - the tie is broken by accuracy but both players share the first rank
+            expect(result.since).toBeNull();
+            expect(result.entries).toEqual([
+                { accuracy: 1, answered: 3, correct: 3, playerId: 'player-b', rank: 1, score: 50 },
+                {
+                    accuracy: 0.8,
+                    answered: 5,
+                    correct: 4,
+                    playerId: 'player-a',
+                    rank: 1,
+                    score: 50,
+                },
+                {
+                    accuracy: 1 / 3,
+                    answered: 3,
+                    correct: 1,
+                    playerId: 'player-c',
+                    rank: 3,
+                    score: 10,
+                },
+            ]);
+        });
+
+        it('should start the daily leaderboard at local midnight of the country', async () => {
+            // Given - the US locale
+            const country = new Country('US');
+            const language = new Language('EN');
+
+            // When - getting the daily leaderboard
+            const result = await useCase.execute({ country, language, limit: 10, period: 'day' });
+
+            // Then - the period starts at midnight in New York, not at server midnight
+            expect(result.since?.getTime()).toBe(new Date('2024-03-11T04:00:00.000Z').getTime());
+            expect(mockPlayerRepository.findResultTotals).toHaveBeenCalledWith({
+                country,
+                language,
+                since: result.since,
+            });
+        });
+
+        it('should cover the last seven local days for the weekly leaderboard', async () => {
+            // When - getting the weekly leaderboard in France
+            const result = await useCase.execute({
+                country: new Country('FR'),
+                language: new Language('FR'),
+                limit: 10,
+                period: 'week',
+            });
+
+            // Then - the period starts six days before today at midnight in Paris
+            expect(result.since?.getTime()).toBe(new Date('2024-03-05T23:00:00.000Z').getTime());
+        });
+
+        it('should keep only the requested number of entries', async () => {
+            // Given - two players
+            mockPlayerRepository.findResultTotals.mockResolvedValue([
+                {
+                    authenticityCorrect: 1,
+                    authenticityGuessed: 1,
+                    playerId: 'player-a',
+                    quizAnswered: 0,
+                    quizCorrect: 0,
+                },
+                {
+                    authenticityCorrect: 0,
+                    authenticityGuessed: 0,
+                    playerId: 'player-b',
+                    quizAnswered: 1,
+                    quizCorrect: 1,
+                },
+            ]);
+
+            // When - limiting the leaderboard to one entry
+            const result = await useCase.execute({
+                country: new Country('US'),
+                language: new Language('EN'),
+                limit: 1,
+                period: 'all',
+            });
+
+            // Then - only the leader is returned
+            expect(result.entries.map((entry) => entry.playerId)).toEqual(['player-a']);
+        });
+    });
+});
@@ -0,0 +1,124 @@
+// Domain
+import { type Country } from '../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import {
+    type PlayerRepositoryPort,
+    type PlayerResultTotals,
+} from '../../ports/outbound/persistence/player/player-repository.port.js';
+
+// Shared
+import {
+    createCurrentTZDateForCountry,
+    getStartOfDay,
+    subtractDays,
+} from '../../../shared/date/timezone.js';
+
+import { computeScore } from '../players/player-scoring.js';
+
+/** Number of local days covered by the weekly leaderboard, today included */
+const WEEK_LENGTH_IN_DAYS = 7;
+
+export type LeaderboardPeriod = 'all' | 'day' | 'week';
+
+/**
+ * Input parameters for the GetLeaderboard use case
+ */
+export interface GetLeaderboardParams {
+    country: Country;
+    language: Language;
+    limit: number;
+    period: LeaderboardPeriod;
+}
+
+/**
+ * A ranked player on the leaderboard
+ */
+export interface LeaderboardEntry {
+    /** Ratio of correct results over every result of the period, between 0 and 1 */
+    accuracy: number;
+    answered: number;
+    correct: number;
+    playerId: string;
+    /** Competition ranking: players with the same score share a rank and the next rank is skipped */
+    rank: number;
+    score: number;
+}
+
+/**
+ * Result returned by GetLeaderboardUseCase
+ */
+export interface GetLeaderboardResult {
+    entries: LeaderboardEntry[];
+    /** Start of the period in the country timezone, `null` for the all-time leaderboard */
+    since: Date | null;
+}
+
+/**
+ * Use case for ranking players on the articles of a country and language
+ * @description Day and week boundaries follow the country timezone so a "day" matches what players see locally
+ */
+export class GetLeaderboardUseCase {
+    constructor(private readonly playerRepository: PlayerRepositoryPort) {}
+
+    /**
+     * Rank the players of a locale over the requested period
+     * @param params - The locale, the period and the maximum number of entries
+     * @returns The ranked entries and the start of the period
+     */
+    async execute(params: GetLeaderboardParams): Promise<GetLeaderboardResult> {
+        const since = getPeriodStart(params.period, params.country);
+
+        const totals = await this.playerRepository.findResultTotals({
+            country: params.country,
+            language: params.language,
+            since: since ?? undefined,
+        });
+
+        const sortedEntries = totals
+            .map(toUnrankedEntry)
+            .sort(
+                (a, b) =>
+                    b.score - a.score ||
+                    b.accuracy - a.accuracy ||
+                    a.playerId.localeCompare(b.playerId),
+            );
+
+        const entries: LeaderboardEntry[] = [];
+        for (const [index, entry] of sortedEntries.slice(0, params.limit).entries()) {
+            const previous = entries[index - 1];
+            const rank = previous && previous.score === entry.score ? previous.rank : index + 1;
+            entries.push({ ...entry, rank });
+        }
+
+        return { entries, since };
+    }
+}
+
+function getPeriodStart(period: LeaderboardPeriod, country: Country): Date | null {
+    if (period === 'all') {
+        return null;
+    }
+
+    const startOfToday = getStartOfDay(createCurrentTZDateForCountry(country.toString()));
+
+    if (period === 'day') {
+        return startOfToday;
+    }
+
+    return subtractDays(startOfToday, WEEK_LENGTH_IN_DAYS - 1);
+}
+
+function toUnrankedEntry(totals: PlayerResultTotals): Omit<LeaderboardEntry, 'rank'> {
+    const answered = totals.quizAnswered + totals.authenticityGuessed;
+    const correct = totals.quizCorrect + totals.authenticityCorrect;
+
+    return {
+        accuracy: answered === 0 ? 0 : correct / answered,
+        answered,
+        correct,
+        playerId: totals.playerId,
+        score: computeScore(totals.quizCorrect, totals.authenticityCorrect),
+    };
+}
@@ -0,0 +1,201 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { mockArticles } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import { getMockReports } from '../../../../domain/entities/__mocks__/reports.mock.js';
+import { type PipelineRun } from '../../../../domain/entities/pipeline-run.entity.js';
+
+// Ports
+import { type PipelineRunRepositoryPort } from '../../../ports/outbound/persistence/pipeline/pipeline-run-repository.port.js';
+
+// Shared
+import { type CorrelationIds, getCorrelationIds } from '../../../../shared/correlation/index.js';
+import { type TelemetryPort } from '../../../../shared/telemetry/index.js';
+
+import { type GenerateArticleChallengesUseCase } from '../../articles/generate-article-challenges.use-case.js';
+import { type GenerateArticleInsightsUseCase } from '../../articles/generate-article-insights.use-case.js';
+import { type ClassifyReportsUseCase } from '../../reports/classify-reports.use-case.js';
+import { type DeduplicateReportsUseCase } from '../../reports/deduplicate-reports.use-case.js';
+import { type IngestReportsUseCase } from '../../reports/ingest-reports.use-case.js';
+import { type PublishReportsUseCase } from '../../reports/publish-reports.use-case.js';
+import { PipelineRunInProgressError } from '../pipeline-run-in-progress.error.js';
+import { RunReportPipelineUseCase } from '../run-report-pipeline.use-case.js';
+
+describe('RunReportPipelineUseCase', () => {
+    let mockIngestReports: DeepMockProxy<IngestReportsUseCase>;
+    let mockDeduplicateReports: DeepMockProxy<DeduplicateReportsUseCase>;
+    let mockPublishReports: DeepMockProxy<PublishReportsUseCase>;
+    let mockGenerateArticleChallenges: DeepMockProxy<GenerateArticleChallengesUseCase>;
+    let mockGenerateArticleInsights: DeepMockProxy<GenerateArticleInsightsUseCase>;
+    let mockClassifyReports: DeepMockProxy<ClassifyReportsUseCase>;
+    let mockPipelineRunRepository: DeepMockProxy<PipelineRunRepositoryPort>;
+    let mockTelemetry: DeepMockProxy<TelemetryPort>;
+    let useCase: RunReportPipelineUseCase;
+
+    const lastRecorded = (): PipelineRun =>
+        mockPipelineRunRepository.update.mock.lastCall?.[0] as PipelineRun;
+
+    beforeEach(() => {
+        mockIngestReports = mock<IngestReportsUseCase>();
+        mockDeduplicateReports = mock<DeduplicateReportsUseCase>();
+        mockPublishReports = mock<PublishReportsUseCase>();
+        mockGenerateArticleChallenges = mock<GenerateArticleChallengesUseCase>();
+        mockGenerateArticleInsights = mock<GenerateArticleInsightsUseCase>();
+        mockClassifyReports = mock<ClassifyReportsUseCase>();
+        mockPipelineRunRepository = mock<PipelineRunRepositoryPort>();
+        mockTelemetry = mock<TelemetryPort>();
+        mockPipelineRunRepository.create.mockImplementation(async (run) => run);
+        mockPipelineRunRepository.update.mockImplementation(async (run) => run);
+
+        mockIngestReports.execute.mockResolvedValue(getMockReports(2));
+        mockDeduplicateReports.execute.mockResolvedValue(getMockReports(1));
+        mockPublishReports.execute.mockResolvedValue([]);
+        mockGenerateArticleChallenges.execute.mockResolvedValue([]);
+        mockGenerateArticleInsights.execute.mockResolvedValue(mockArticles(1));
+
+        useCase = new RunReportPipelineUseCase(
+            mockIngestReports,
+            mockDeduplicateReports,
+            mockPublishReports,
+            mockGenerateArticleChallenges,
+            mockGenerateArticleInsights,
+            mockClassifyReports,
+            mockPipelineRunRepository,
+            [
+                { country: 'FR', language: 'FR' },
+                { country: 'US', language: 'EN' },
+            ],
+            mock<LoggerPort>(),
+            mockTelemetry,
+        );
+    });
+
+    test('should run every step for the configured pairs and record their progress', async () => {
+        // When
+        const run = await useCase.execute({ trigger: 'SCHEDULE' });
+
+        // Then
+        expect(mockIngestReports.execute).toHaveBeenCalledTimes(2);
+        expect(mockClassifyReports.execute).toHaveBeenCalledTimes(1);
+        expect(run.status).toBe('SUCCEEDED');
+        expect(run.steps.map((step) => [step.name, step.status, step.processedCount])).toEqual([
+            ['ingest', 'SUCCEEDED', 4],
+            ['deduplicate', 'SUCCEEDED', 2],
+            ['classify', 'SUCCEEDED', undefined],
+            ['publish', 'SUCCEEDED', 0],
+            ['challenge', 'SUCCEEDED', 0],
+            ['analyze', 'SUCCEEDED', 2],
+        ]);
+        expect(lastRecorded()).toEqual(run);
+    });
+
+    test('should only run the requested steps for the requested pair', async () => {
+        // When
+        const run = await useCase.execute({
+            steps: ['publish', 'classify'],
+            targets: [{ country: 'US', language: 'EN' }],
+            trigger: 'MANUAL',
+        });
+
+        // Then - steps keep the pipeline order
+        expect(run.steps.map((step) => step.name)).toEqual(['classify', 'publish']);
+        expect(mockIngestReports.execute).not.toHaveBeenCalled();
+        expect(mockPublishReports.execute).toHaveBeenCalledTimes(1);
+        expect(mockPublishReports.execute).toHaveBeenCalledWith(
+            expect.objectContaining({ value: 'EN' }),
+            expect.objectContaining({ value: 'US' }),
+        );
+    });
+
+    test('should report step durations and published articles per locale', async () => {
+        // Given
+        mockPublishReports.execute.mockImplementation(async (_language, country) =>
+            country.toString() === 'FR' ? [] : mockArticles(2),
+        );
+
+        // When
+        await useCase.execute({ steps: ['publish'], trigger: 'SCHEDULE' });
+
+        // Then
+        expect(mockTelemetry.counter).toHaveBeenCalledWith('articles.published', 0, {
+            country: 'FR',
+            language: 'FR',
+        });
+        expect(mockTelemetry.counter).toHaveBeenCalledWith('articles.published', 2, {
+            country: 'US',
+            language: 'EN',
+        });
+        expect(mockTelemetry.histogram).toHaveBeenCalledWith(
+            'pipeline.step.duration_ms',
+            expect.any(Number),
+            { status: 'SUCCEEDED', step: 'publish' },
+        );
+    });
+
+    test('should record the failed step and skip the next ones', async () => {
+        // Given
+        mockDeduplicateReports.execute.mockRejectedValue(new Error('Agent unavailable'));
+
+        // When
+        const error = await useCase.execute({ trigger: 'SCHEDULE' }).catch((e: unknown) => e);
+
+        // Then
+        expect(error).toEqual(new Error('Agent unavailable'));
+        expect(mockClassifyReports.execute).not.toHaveBeenCalled();
+        const run = lastRecorded();
+        expect(run).toMatchObject({ error: 'Agent unavailable', status: 'FAILED' });
+        expect(run.steps.map((step) => step.status)).toEqual([
+            'SUCCEEDED',
+            'FAILED',
+            'SKIPPED',
+            'SKIPPED',
+            'SKIPPED',
+            'SKIPPED',
+        ]);
+        expect(mockTelemetry.histogram).toHaveBeenCalledWith(
+            'pipeline.step.duration_ms',
+            expect.any(Number),
+            { status: 'FAILED', step: 'deduplicate' },
+        );
+    });
+
+    test('should bind the run id to everything the run executes', async () => {
+        // Given
+        let boundIds: CorrelationIds = {};
+        mockClassifyReports.execute.mockImplementation(async () => {
+            boundIds = getCorrelationIds();
+        });
+
+        // When
+        const run = await useCase.execute({ steps: ['classify'], trigger: 'SCHEDULE' });
+
+        // Then
+        expect(boundIds).toEqual({ pipelineRunId: run.id });
+        expect(getCorrelationIds()).toEqual({});
+    });
+
+    test('should refuse to start a run while another one is active', async () => {
+        // Given - an ingestion that has not finished yet
+        let finishIngestion: () => void = () => undefined;
+        mockIngestReports.execute.mockReturnValue(
+            new Promise((resolve) => {
+                finishIngestion = () => resolve([]);
+            }),
+        );
+        const active = await useCase.start({ trigger: 'MANUAL' });
+
+        // When / Then
+        await expect(useCase.start({ trigger: 'MANUAL' })).rejects.toThrow(
+            new PipelineRunInProgressError(active.id),
+        );
+
+        // Then - a new run can start once the active one finished
+        finishIngestion();
+        await expect.poll(() => lastRecorded().status).toBe('SUCCEEDED');
+        await expect(useCase.start({ trigger: 'MANUAL' })).resolves.toMatchObject({
+            status: 'RUNNING',
+        });
+    });
+});
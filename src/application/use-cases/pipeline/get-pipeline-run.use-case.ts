@@ -0,0 +1,16 @@
+// Ports
+import { type PipelineRunRepositoryPort } from '../../ports/outbound/persistence/pipeline/pipeline-run-repository.port.js';
+
+// Domain
+import { type PipelineRun } from '../../../domain/entities/pipeline-run.entity.js';
+
+/**
+ * Returns a pipeline run with the progress of its steps
+ */
+export class GetPipelineRunUseCase {
+    constructor(private readonly pipelineRunRepository: PipelineRunRepositoryPort) {}
+
+    async execute(id: string): Promise<null | PipelineRun> {
+        return this.pipelineRunRepository.findById(id);
+    }
+}
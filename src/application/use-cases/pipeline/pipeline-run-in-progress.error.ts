@@ -0,0 +1,9 @@
+/**
+ * Raised when a pipeline run is requested while another one is still running
+ */
+export class PipelineRunInProgressError extends Error {
+    constructor(public readonly activeRunId: string) {
+        super(`Pipeline run ${activeRunId} is still running`);
+        this.name = 'PipelineRunInProgressError';
+    }
+}
@@ -0,0 +1,282 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Configuration
+import { type ReportPipelineTaskConfig } from '../../ports/inbound/configuration.port.js';
+
+// Domain
+import {
+    PIPELINE_STEPS,
+    PipelineRun,
+    type PipelineRunTarget,
+    type PipelineRunTrigger,
+    type PipelineStep,
+    type PipelineStepProgress,
+} from '../../../domain/entities/pipeline-run.entity.js';
+import { Country } from '../../../domain/value-objects/country.vo.js';
+import { Language } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type PipelineRunRepositoryPort } from '../../ports/outbound/persistence/pipeline/pipeline-run-repository.port.js';
+
+// Shared
+import { runWithCorrelation } from '../../../shared/correlation/index.js';
+import { type TelemetryPort } from '../../../shared/telemetry/index.js';
+
+import { type GenerateArticleChallengesUseCase } from '../articles/generate-article-challenges.use-case.js';
+import { type GenerateArticleInsightsUseCase } from '../articles/generate-article-insights.use-case.js';
+import { type ClassifyReportsUseCase } from '../reports/classify-reports.use-case.js';
+import { type DeduplicateReportsUseCase } from '../reports/deduplicate-reports.use-case.js';
+import { type IngestReportsUseCase } from '../reports/ingest-reports.use-case.js';
+import { type PublishReportsUseCase } from '../reports/publish-reports.use-case.js';
+
+import { PipelineRunInProgressError } from './pipeline-run-in-progress.error.js';
+
+export interface RunReportPipelineParams {
+    /** Who requested a manual run */
+    requestedBy?: string;
+    /** Steps to run, in pipeline order; all of them by default */
+    steps?: PipelineStep[];
+    /** Country/language pairs to run for; the configured ones by default */
+    targets?: PipelineRunTarget[];
+    trigger: PipelineRunTrigger;
+}
+
+/**
+ * Runs the report pipeline: ingest, deduplicate, classify, publish, generate challenges, then
+ * analyze the articles that deserve insights.
+ * Only one run is active at a time; its progress is recorded step by step, and its id is bound
+ * to the logs and spans of everything it executes. The step durations
+ * (`pipeline.step.duration_ms`) and published articles per locale (`articles.published`)
+ * are reported to telemetry.
+ */
+export class RunReportPipelineUseCase {
+    private activeRunId: null | string = null;
+
+    constructor(
+        private readonly ingestReports: IngestReportsUseCase,
+        private readonly deduplicateReports: DeduplicateReportsUseCase,
+        private readonly publishReports: PublishReportsUseCase,
+        private readonly generateArticleChallenges: GenerateArticleChallengesUseCase,
+        private readonly generateArticleInsights: GenerateArticleInsightsUseCase,
+        private readonly classifyReports: ClassifyReportsUseCase,
+        private readonly pipelineRunRepository: PipelineRunRepositoryPort,
+        private readonly taskConfigs: ReportPipelineTaskConfig[],
+        private readonly logger: LoggerPort,
+        private readonly telemetry: TelemetryPort,
+    ) {}
+
+    /**
+     * Runs the pipeline to completion
+     *
+     * @returns The finished run
+     * @throws PipelineRunInProgressError when another run is active
+     * @throws The error of the step that failed, once recorded on the run
+     */
+    public async execute(params: RunReportPipelineParams): Promise<PipelineRun> {
+        const run = await this.createRun(params);
+
+        return runWithCorrelation({ pipelineRunId: run.id }, () => this.run(run));
+    }
+
+    /**
+     * Starts the pipeline in the background
+     *
+     * @returns The run as recorded when it started, to follow with its id
+     * @throws PipelineRunInProgressError when another run is active
+     */
+    public async start(params: RunReportPipelineParams): Promise<PipelineRun> {
+        const run = await this.createRun(params);
+
+        // Failures are logged and recorded on the run
+        runWithCorrelation({ pipelineRunId: run.id }, () => this.run(run)).catch(() => undefined);
+
+        return run;
+    }
+
+    private async createRun(params: RunReportPipelineParams): Promise<PipelineRun> {
+        if (this.activeRunId) {
+            throw new PipelineRunInProgressError(this.activeRunId);
+        }
+
+        const requestedSteps = params.steps ?? PIPELINE_STEPS;
+        const run = new PipelineRun({
+            id: randomUUID(),
+            requestedBy: params.requestedBy,
+            startedAt: new Date(),
+            status: 'RUNNING',
+            steps: PIPELINE_STEPS.filter((step) => requestedSteps.includes(step)).map((name) => ({
+                name,
+                status: 'PENDING',
+            })),
+            targets: params.targets ?? this.taskConfigs,
+            trigger: params.trigger,
+        });
+
+        // Claimed before any await, so concurrent requests cannot both start a run
+        this.activeRunId = run.id;
+
+        try {
+            return await this.pipelineRunRepository.create(run);
+        } catch (error) {
+            this.activeRunId = null;
+            throw error;
+        }
+    }
+
+    private async run(initialRun: PipelineRun): Promise<PipelineRun> {
+        let run = initialRun;
+
+        const save = async (changes: Partial<PipelineRun>) => {
+            run = new PipelineRun({ ...run, ...changes });
+            await this.pipelineRunRepository.update(run);
+        };
+        const saveStep = (progress: PipelineStepProgress) =>
+            save({
+                steps: run.steps.map((step) => (step.name === progress.name ? progress : step)),
+            });
+
+        this.logger.info('Report pipeline started', {
+            runId: run.id,
+            steps: run.steps.map((step) => step.name),
+            targets: run.targets,
+            trigger: run.trigger,
+        });
+
+        try {
+            for (const { name } of initialRun.steps) {
+                const startedAt = new Date();
+                await saveStep({ name, startedAt, status: 'RUNNING' });
+
+                const recordDuration = (status: 'FAILED' | 'SUCCEEDED') =>
+                    this.telemetry.histogram(
+                        'pipeline.step.duration_ms',
+                        Date.now() - startedAt.getTime(),
+                        { status, step: name },
+                    );
+
+                try {
+                    const processedCount = await this.executeStep(name, run.targets);
+                    recordDuration('SUCCEEDED');
+                    await saveStep({
+                        finishedAt: new Date(),
+                        name,
+                        processedCount,
+                        startedAt,
+                        status: 'SUCCEEDED',
+                    });
+                } catch (error) {
+                    recordDuration('FAILED');
+                    await saveStep({
+                        error: getErrorMessage(error),
+                        finishedAt: new Date(),
+                        name,
+                        startedAt,
+                        status: 'FAILED',
+                    });
+                    throw error;
+                }
+            }
+
+            await save({ finishedAt: new Date(), status: 'SUCCEEDED' });
+            this.logger.info('Report pipeline execution finished', { runId: run.id });
+
+            return run;
+        } catch (error) {
+            this.logger.error('Report pipeline encountered an error', { error, runId: run.id });
+
+            // Steps after the failed one never ran
+            await save({
+                error: getErrorMessage(error),
+                finishedAt: new Date(),
+                status: 'FAILED',
+                steps: run.steps.map((step) =>
+                    step.status === 'PENDING' ? { ...step, status: 'SKIPPED' } : step,
+                ),
+            }).catch((saveError) =>
+                this.logger.error('Failed to record the pipeline run failure', {
+                    error: saveError,
+                    runId: run.id,
+                }),
+            );
+
+            throw error;
+        } finally {
+            this.activeRunId = null;
+        }
+    }
+
+    /**
+     * @returns The number of reports or articles the step produced, when it reports them
+     */
+    private async executeStep(
+        step: PipelineStep,
+        targets: PipelineRunTarget[],
+    ): Promise<number | undefined> {
+        const pairs = targets.map((target) => ({
+            country: new Country(target.country),
+            language: new Language(target.language),
+        }));
+        const countResults = async (results: Promise<unknown[]>[]) =>
+            (await Promise.all(results)).reduce((total, items) => total + items.length, 0);
+
+        switch (step) {
+            case 'analyze':
+                return countResults(
+                    pairs.map(({ country, language }) => {
+                        this.logger.info('Generating insights for articles', {
+                            country: country.toString(),
+                            language: language.toString(),
+                        });
+                        return this.generateArticleInsights.execute(language, country);
+                    }),
+                );
+            case 'challenge':
+                return countResults(
+                    pairs.map(({ country, language }) => {
+                        this.logger.info('Generating challenges for articles', {
+                            country: country.toString(),
+                            language: language.toString(),
+                        });
+                        return this.generateArticleChallenges.execute(language, country);
+                    }),
+                );
+            case 'classify':
+                await this.classifyReports.execute();
+                return undefined;
+            case 'deduplicate':
+                return countResults(
+                    pairs.map(({ country }) => {
+                        this.logger.info('Deduplicating reports', { country: country.toString() });
+                        return this.deduplicateReports.execute(country);
+                    }),
+                );
+            case 'ingest':
+                return countResults(
+                    pairs.map(({ country, language }) => {
+                        this.logger.info('Ingesting reports', {
+                            country: country.toString(),
+                            language: language.toString(),
+                        });
+                        return this.ingestReports.execute(language, country);
+                    }),
+                );
+            case 'publish':
+                return countResults(
+                    pairs.map(async ({ country, language }) => {
+                        const locale = {
+                            country: country.toString(),
+                            language: language.toString(),
+                        };
+                        this.logger.info('Publishing reports as articles', locale);
+                        const articles = await this.publishReports.execute(language, country);
+                        this.telemetry.counter('articles.published', articles.length, locale);
+                        return articles;
+                    }),
+                );
+        }
+    }
+}
+
+const getErrorMessage = (error: unknown): string =>
+    error instanceof Error ? error.message : String(error);
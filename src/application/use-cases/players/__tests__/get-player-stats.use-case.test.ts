@@ -0,0 +1,149 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { Player } from '../../../../domain/entities/player.entity.js';
+import { Country } from '../../../../domain/value-objects/country.vo.js';
+
+// Ports
+import {
+    type PlayerGameResult,
+    type PlayerRepositoryPort,
+} from '../../../ports/outbound/persistence/player/player-repository.port.js';
+
+import { GetPlayerStatsUseCase } from '../get-player-stats.use-case.js';
+
+const result = (
+    kind: PlayerGameResult['kind'],
+    correct: boolean,
+    playedAt: string,
+): PlayerGameResult => ({
+    articleId: '9a7b6c5d-4e3f-4a1b-8c2d-3e4f5a6b7c8d',
+    correct,
+    kind,
+    playedAt: new Date(playedAt),
+});
+
+describe('GetPlayerStatsUseCase', () => {
+    let mockPlayerRepository: DeepMockProxy<PlayerRepositoryPort>;
+    let useCase: GetPlayerStatsUseCase;
+    let player: Player;
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+        vi.setSystemTime(new Date('2024-03-10T15:00:00.000Z'));
+
+        player = new Player({
+            createdAt: new Date('2024-03-01T10:00:00.000Z'),
+            deviceId: 'device-0001',
+            id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+        });
+        mockPlayerRepository = mock<PlayerRepositoryPort>();
+        mockPlayerRepository.findById.mockResolvedValue(player);
+        useCase = new GetPlayerStatsUseCase(mockPlayerRepository);
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    describe('execute', () => {
+        it('should compute score and accuracy from recorded results', async () => {
+            // Given - two correct quiz answers, one wrong, and one correct authenticity guess
+            mockPlayerRepository.findGameResults.mockResolvedValue([
+                result('QUIZ', true, '2024-03-10T12:00:00.000Z'),
+                result('QUIZ', true, '2024-03-10T12:00:00.000Z'),
+                result('QUIZ', false, '2024-03-10T12:00:00.000Z'),
+                result('AUTHENTICITY', true, '2024-03-10T12:01:00.000Z'),
+            ]);
+
+            // When - computing the stats
+            const stats = await useCase.execute({
+                country: new Country('US'),
+                playerId: player.id,
+            });
+
+            // Then - quiz answers and authenticity guesses are weighted separately
+            expect(stats).toMatchObject({
+                accuracy: 0.75,
+                authenticity: { correct: 1, guessed: 1 },
+                playerId: player.id,
+                quiz: { answered: 3, correct: 2 },
+                score: 40,
+            });
+        });
+
+        it('should count consecutive local days ending yesterday as the current streak', async () => {
+            // Given - plays on Mar 6, then Mar 7-9 in New York (Mar 10 01:00 UTC is still Mar 9 locally)
+            mockPlayerRepository.findGameResults.mockResolvedValue([
+                result('QUIZ', true, '2024-03-06T18:00:00.000Z'),
+                result('QUIZ', true, '2024-03-07T18:00:00.000Z'),
+                result('QUIZ', false, '2024-03-08T18:00:00.000Z'),
+                result('AUTHENTICITY', true, '2024-03-10T01:00:00.000Z'),
+            ]);
+
+            // When - computing the stats on Mar 10 before playing
+            const stats = await useCase.execute({
+                country: new Country('US'),
+                playerId: player.id,
+            });
+
+            // Then - the streak is still alive and counted in the country timezone
+            expect(stats?.streak).toEqual({ current: 4, lastPlayedOn: '2024-03-09', longest: 4 });
+        });
+
+        it('should reset the current streak after a missed day but keep the longest', async () => {
+            // Given - a three-day run that ended days ago, then a single play today
+            mockPlayerRepository.findGameResults.mockResolvedValue([
+                result('QUIZ', true, '2024-03-01T12:00:00.000Z'),
+                result('QUIZ', true, '2024-03-02T12:00:00.000Z'),
+                result('QUIZ', true, '2024-03-03T12:00:00.000Z'),
+                result('QUIZ', true, '2024-03-10T12:00:00.000Z'),
+            ]);
+
+            // When - computing the stats
+            const stats = await useCase.execute({
+                country: new Country('FR'),
+                playerId: player.id,
+            });
+
+            // Then - only today counts towards the current streak
+            expect(stats?.streak).toEqual({ current: 1, lastPlayedOn: '2024-03-10', longest: 3 });
+        });
+
+        it('should return empty stats for a player who never played', async () => {
+            // Given - no recorded results
+            mockPlayerRepository.findGameResults.mockResolvedValue([]);
+
+            // When - computing the stats
+            const stats = await useCase.execute({
+                country: new Country('US'),
+                playerId: player.id,
+            });
+
+            // Then - everything is zeroed
+            expect(stats).toEqual({
+                accuracy: 0,
+                authenticity: { correct: 0, guessed: 0 },
+                playerId: player.id,
+                quiz: { answered: 0, correct: 0 },
+                score: 0,
+                streak: { current: 0, lastPlayedOn: null, longest: 0 },
+            });
+        });
+
+        it('should return null when the player does not exist', async () => {
+            // Given - no player stored for the id
+            mockPlayerRepository.findById.mockResolvedValue(null);
+
+            // When - computing the stats
+            const stats = await useCase.execute({
+                country: new Country('US'),
+                playerId: player.id,
+            });
+
+            // Then - it should return null
+            expect(stats).toBeNull();
+        });
+    });
+});
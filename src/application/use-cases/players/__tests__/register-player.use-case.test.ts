@@ -0,0 +1,71 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { Player } from '../../../../domain/entities/player.entity.js';
+
+// Ports
+import { type PlayerRepositoryPort } from '../../../ports/outbound/persistence/player/player-repository.port.js';
+
+import { RegisterPlayerUseCase } from '../register-player.use-case.js';
+
+describe('RegisterPlayerUseCase', () => {
+    let mockPlayerRepository: DeepMockProxy<PlayerRepositoryPort>;
+    let useCase: RegisterPlayerUseCase;
+
+    beforeEach(() => {
+        mockPlayerRepository = mock<PlayerRepositoryPort>();
+        mockPlayerRepository.create.mockImplementation(async (player) => player);
+        useCase = new RegisterPlayerUseCase(mockPlayerRepository, mock<LoggerPort>());
+    });
+
+    describe('execute', () => {
+        it('should create a player for an unknown device', async () => {
+            // Given - a device that never registered
+            mockPlayerRepository.findByDeviceId.mockResolvedValue(null);
+
+            // When - registering the device
+            const result = await useCase.execute({ deviceId: 'device-0001' });
+
+            // Then - a new player is persisted for the device
+            expect(result.created).toBe(true);
+            expect(result.player.deviceId).toBe('device-0001');
+            expect(mockPlayerRepository.create).toHaveBeenCalledWith(result.player);
+        });
+
+        it('should return the existing player for a known device', async () => {
+            // Given - a device already bound to a player
+            const existingPlayer = new Player({
+                createdAt: new Date('2024-03-01T10:00:00.000Z'),
+                deviceId: 'device-0001',
+                id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+            });
+            mockPlayerRepository.findByDeviceId.mockResolvedValue(existingPlayer);
+
+            // When - registering the device again
+            const result = await useCase.execute({ deviceId: 'device-0001' });
+
+            // Then - the existing player is returned untouched
+            expect(result).toEqual({ created: false, player: existingPlayer });
+            expect(mockPlayerRepository.create).not.toHaveBeenCalled();
+        });
+
+        it('should return the player of a concurrent registration of the same device', async () => {
+            // Given - another request registers the device between the lookup and the creation
+            const concurrentPlayer = new Player({
+                createdAt: new Date('2024-03-01T10:00:00.000Z'),
+                deviceId: 'device-0001',
+                id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+            });
+            mockPlayerRepository.findByDeviceId.mockResolvedValue(null);
+            mockPlayerRepository.create.mockResolvedValue(concurrentPlayer);
+
+            // When - registering the device
+            const result = await useCase.execute({ deviceId: 'device-0001' });
+
+            // Then - the stored player is returned as not created
+            expect(result).toEqual({ created: false, player: concurrentPlayer });
+        });
+    });
+});
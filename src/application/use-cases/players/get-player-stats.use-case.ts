@@ -0,0 +1,135 @@
+// Domain
+import { type Country } from '../../../domain/value-objects/country.vo.js';
+
+// Ports
+import {
+    type PlayerGameResult,
+    type PlayerRepositoryPort,
+} from '../../ports/outbound/persistence/player/player-repository.port.js';
+
+// Shared
+import {
+    createCurrentTZDateForCountry,
+    createTZDateForCountry,
+    formatTZDateForCountry,
+    subtractDays,
+} from '../../../shared/date/timezone.js';
+
+import { computeScore } from './player-scoring.js';
+
+const DAY_FORMAT = 'yyyy-MM-dd';
+
+/**
+ * Input parameters for the GetPlayerStats use case
+ */
+export interface GetPlayerStatsParams {
+    /** Country whose timezone defines the day boundaries of the streak */
+    country: Country;
+    playerId: string;
+}
+
+/**
+ * Result returned by GetPlayerStatsUseCase
+ */
+export interface PlayerStats {
+    /** Ratio of correct results over every recorded result, between 0 and 1 */
+    accuracy: number;
+    authenticity: { correct: number; guessed: number };
+    playerId: string;
+    quiz: { answered: number; correct: number };
+    score: number;
+    streak: PlayerStreak;
+}
+
+export interface PlayerStreak {
+    current: number;
+    /** Local day (yyyy-MM-dd) of the most recent result, `null` when the player never played */
+    lastPlayedOn: null | string;
+    longest: number;
+}
+
+/**
+ * Use case for computing a player's score, accuracy and daily streak
+ * @description Stats are derived from the recorded results on every read so scoring rules can evolve without migrations
+ */
+export class GetPlayerStatsUseCase {
+    constructor(private readonly playerRepository: PlayerRepositoryPort) {}
+
+    /**
+     * Compute the stats of a player
+     * @param params - The player id and the country used for day boundaries
+     * @returns The player stats, or `null` when the player does not exist
+     */
+    async execute(params: GetPlayerStatsParams): Promise<null | PlayerStats> {
+        const player = await this.playerRepository.findById(params.playerId);
+
+        if (!player) {
+            return null;
+        }
+
+        const results = await this.playerRepository.findGameResults(player.id);
+        const quizResults = results.filter((result) => result.kind === 'QUIZ');
+        const authenticityResults = results.filter((result) => result.kind === 'AUTHENTICITY');
+        const quizCorrect = countCorrect(quizResults);
+        const authenticityCorrect = countCorrect(authenticityResults);
+
+        return {
+            accuracy:
+                results.length === 0 ? 0 : (quizCorrect + authenticityCorrect) / results.length,
+            authenticity: { correct: authenticityCorrect, guessed: authenticityResults.length },
+            playerId: player.id,
+            quiz: { answered: quizResults.length, correct: quizCorrect },
+            score: computeScore(quizCorrect, authenticityCorrect),
+            streak: computeStreak(results, params.country.toString()),
+        };
+    }
+}
+
+function computeStreak(results: PlayerGameResult[], country: string): PlayerStreak {
+    const playedDays = new Set(
+        results.map((result) =>
+            formatTZDateForCountry(
+                createTZDateForCountry(result.playedAt, country),
+                country,
+                DAY_FORMAT,
+            ),
+        ),
+    );
+
+    if (playedDays.size === 0) {
+        return { current: 0, lastPlayedOn: null, longest: 0 };
+    }
+
+    const sortedDays = [...playedDays].sort();
+    let longest = 1;
+    let run = 1;
+
+    for (let index = 1; index < sortedDays.length; index++) {
+        run = isNextDay(sortedDays[index - 1], sortedDays[index]) ? run + 1 : 1;
+        longest = Math.max(longest, run);
+    }
+
+    // The streak is still alive until the player misses a whole local day
+    const today = createCurrentTZDateForCountry(country);
+    let cursor = playedDays.has(formatTZDateForCountry(today, country, DAY_FORMAT))
+        ? today
+        : subtractDays(today, 1);
+    let current = 0;
+
+    while (playedDays.has(formatTZDateForCountry(cursor, country, DAY_FORMAT))) {
+        current++;
+        cursor = subtractDays(cursor, 1);
+    }
+
+    return { current, lastPlayedOn: sortedDays[sortedDays.length - 1], longest };
+}
+
+function countCorrect(results: PlayerGameResult[]): number {
+    return results.filter((result) => result.correct).length;
+}
+
+function isNextDay(previousDay: string, day: string): boolean {
+    const next = new Date(`${previousDay}T00:00:00Z`);
+    next.setUTCDate(next.getUTCDate() + 1);
+    return next.toISOString().slice(0, 10) === day;
+}
@@ -0,0 +1,9 @@
+/**
+ * Raised when a game action references a player that was never registered
+ */
+export class PlayerNotFoundError extends Error {
+    constructor(public readonly playerId: string) {
+        super(`Player ${playerId} not found`);
+        this.name = 'PlayerNotFoundError';
+    }
+}
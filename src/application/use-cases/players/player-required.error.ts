@@ -0,0 +1,10 @@
+/**
+ * Raised when a game action is submitted without a player while answers are hidden:
+ * an unscored attempt would reveal the answers a scored one is then graded against
+ */
+export class PlayerRequiredError extends Error {
+    constructor() {
+        super('A playerId is required while answers are hidden');
+        this.name = 'PlayerRequiredError';
+    }
+}
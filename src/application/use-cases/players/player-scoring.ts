@@ -0,0 +1,12 @@
+/** Points awarded for each correctly answered quiz question */
+export const QUIZ_POINTS = 10;
+
+/** Points awarded for each correct authenticity guess */
+export const AUTHENTICITY_POINTS = 20;
+
+/**
+ * Score earned from correct results, shared by player stats and leaderboards
+ */
+export function computeScore(quizCorrect: number, authenticityCorrect: number): number {
+    return quizCorrect * QUIZ_POINTS + authenticityCorrect * AUTHENTICITY_POINTS;
+}
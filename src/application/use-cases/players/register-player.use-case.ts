@@ -0,0 +1,64 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { Player } from '../../../domain/entities/player.entity.js';
+
+// Ports
+import { type PlayerRepositoryPort } from '../../ports/outbound/persistence/player/player-repository.port.js';
+
+/**
+ * Input parameters for the RegisterPlayer use case
+ */
+export interface RegisterPlayerParams {
+    deviceId: string;
+}
+
+/**
+ * Result returned by RegisterPlayerUseCase
+ */
+export interface RegisterPlayerResult {
+    /** `false` when the device was already registered and the existing player is returned */
+    created: boolean;
+    player: Player;
+}
+
+/**
+ * Use case for registering an anonymous player
+ * @description Idempotent per device so reinstalling or retrying never splits a player's progress
+ */
+export class RegisterPlayerUseCase {
+    constructor(
+        private readonly playerRepository: PlayerRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * Register the device as a player, or return the player already bound to it
+     * @param params - The anonymous device id
+     * @returns The player and whether it was created by this call
+     */
+    async execute(params: RegisterPlayerParams): Promise<RegisterPlayerResult> {
+        const existingPlayer = await this.playerRepository.findByDeviceId(params.deviceId);
+
+        if (existingPlayer) {
+            return { created: false, player: existingPlayer };
+        }
+
+        const newPlayer = new Player({
+            createdAt: new Date(),
+            deviceId: params.deviceId,
+            id: randomUUID(),
+        });
+        const player = await this.playerRepository.create(newPlayer);
+
+        // A concurrent registration of the same device may have stored its player first
+        if (player.id !== newPlayer.id) {
+            return { created: false, player };
+        }
+
+        this.logger.info('Player registered', { playerId: player.id });
+
+        return { created: true, player };
+    }
+}
@@ -0,0 +1,80 @@
+import { beforeEach, describe, expect, test } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { getMockReports } from '../../../../domain/entities/__mocks__/reports.mock.js';
+import { Country } from '../../../../domain/value-objects/country.vo.js';
+
+// Ports
+import { type ReportRepositoryPort } from '../../../ports/outbound/persistence/report/report-repository.port.js';
+
+import { GetReportsUseCase } from '../get-reports.use-case.js';
+
+describe('GetReportsUseCase', () => {
+    let mockReportRepository: DeepMockProxy<ReportRepositoryPort>;
+    let useCase: GetReportsUseCase;
+
+    beforeEach(() => {
+        mockReportRepository = mock<ReportRepositoryPort>();
+        useCase = new GetReportsUseCase(mockReportRepository);
+    });
+
+    test('should pass the filters to the repository and fetch one extra report', async () => {
+        // Given
+        const from = new Date('2026-10-01T00:00:00Z');
+        const to = new Date('2026-10-02T00:00:00Z');
+        mockReportRepository.findMany.mockResolvedValue([]);
+
+        // When
+        await useCase.execute({
+            classificationState: 'COMPLETE',
+            country: new Country('fr'),
+            deduplicationState: 'PENDING',
+            from,
+            limit: 10,
+            offset: 20,
+            tier: 'NICHE',
+            to,
+        });
+
+        // Then
+        expect(mockReportRepository.findMany).toHaveBeenCalledWith({
+            country: 'FR',
+            endDate: to,
+            limit: 11,
+            offset: 20,
+            startDate: from,
+            where: {
+                classificationState: 'COMPLETE',
+                deduplicationState: 'PENDING',
+                tier: 'NICHE',
+            },
+        });
+    });
+
+    test('should return the next offset when there are more reports', async () => {
+        // Given
+        const reports = getMockReports(3);
+        mockReportRepository.findMany.mockResolvedValue(reports);
+
+        // When
+        const result = await useCase.execute({ limit: 2, offset: 4 });
+
+        // Then
+        expect(result.reports).toEqual(reports.slice(0, 2));
+        expect(result.nextOffset).toBe(6);
+    });
+
+    test('should not return a next offset on the last page', async () => {
+        // Given
+        const reports = getMockReports(2);
+        mockReportRepository.findMany.mockResolvedValue(reports);
+
+        // When
+        const result = await useCase.execute({ limit: 2, offset: 0 });
+
+        // Then
+        expect(result.reports).toEqual(reports);
+        expect(result.nextOffset).toBeNull();
+    });
+});
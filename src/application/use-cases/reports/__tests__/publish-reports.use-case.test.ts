@@ -27,6 +27,7 @@ import {
     type ArticleCompositionAgentPort,
     type ArticleCompositionResult,
 } from '../../../ports/outbound/agents/article-composition.agent.js';
+import { type EventBusPort } from '../../../ports/outbound/events/event-bus.port.js';
 import { type ArticleRepositoryPort } from '../../../ports/outbound/persistence/article/article-repository.port.js';
 import { type ReportRepositoryPort } from '../../../ports/outbound/persistence/report/report-repository.port.js';
 
@@ -40,6 +41,7 @@ describe('PublishReportsUseCase', () => {
     let mockLogger: DeepMockProxy<LoggerPort>;
     let mockReportRepository: DeepMockProxy<ReportRepositoryPort>;
     let mockArticleRepository: DeepMockProxy<ArticleRepositoryPort>;
+    let mockEventBus: DeepMockProxy<EventBusPort>;
 
     const createEmptyReport = (_id: string): Report =>
         new Report({
@@ -69,6 +71,7 @@ describe('PublishReportsUseCase', () => {
         mockLogger = mock<LoggerPort>();
         mockReportRepository = mock<ReportRepositoryPort>();
         mockArticleRepository = mock<ArticleRepositoryPort>();
+        mockEventBus = mock<EventBusPort>();
 
         // Set up default mocks for all repository methods that might be called
         // Note: findReportsWithoutArticles is mocked in individual tests
@@ -104,6 +107,7 @@ describe('PublishReportsUseCase', () => {
             mockLogger,
             mockReportRepository,
             mockArticleRepository,
+            mockEventBus,
         );
     });
 
@@ -157,6 +161,9 @@ describe('PublishReportsUseCase', () => {
             });
 
             expect(mockArticleRepository.createMany).toHaveBeenCalledWith([expect.any(Article)]);
+            expect(mockEventBus.publish).toHaveBeenCalledWith(
+                expect.objectContaining({ articles: result, type: 'articles.published' }),
+            );
         });
 
         test('should generate fake articles when conditions are met', async () => {
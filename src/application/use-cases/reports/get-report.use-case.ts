@@ -0,0 +1,19 @@
+// Ports
+import {
+    type ReportDetail,
+    type ReportRepositoryPort,
+} from '../../ports/outbound/persistence/report/report-repository.port.js';
+
+/**
+ * Use case for inspecting a report, the reports it is linked to by deduplication and its articles
+ */
+export class GetReportUseCase {
+    constructor(private readonly reportRepository: ReportRepositoryPort) {}
+
+    /**
+     * @returns The report and its links, or null when it does not exist
+     */
+    async execute(id: string): Promise<null | ReportDetail> {
+        return this.reportRepository.findDetailById(id);
+    }
+}
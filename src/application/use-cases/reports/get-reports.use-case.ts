@@ -0,0 +1,68 @@
+// Domain
+import { type Report } from '../../../domain/entities/report.entity.js';
+import { type Country } from '../../../domain/value-objects/country.vo.js';
+import { type DeduplicationStateType } from '../../../domain/value-objects/report/deduplication-state.vo.js';
+import { type ClassificationStateType } from '../../../domain/value-objects/report/tier-state.vo.js';
+import { type ClassificationType } from '../../../domain/value-objects/report/tier.vo.js';
+
+// Ports
+import { type ReportRepositoryPort } from '../../ports/outbound/persistence/report/report-repository.port.js';
+
+/**
+ * Input parameters for the GetReports use case
+ */
+export interface GetReportsParams {
+    classificationState?: ClassificationStateType;
+    country?: Country;
+    deduplicationState?: DeduplicationStateType;
+    /** Earliest dateline to include */
+    from?: Date;
+    limit: number;
+    offset: number;
+    tier?: ClassificationType;
+    /** Latest dateline to include */
+    to?: Date;
+}
+
+/**
+ * A page of reports and the offset of the next one
+ */
+export interface GetReportsResult {
+    nextOffset: null | number;
+    reports: Report[];
+}
+
+/**
+ * Use case for inspecting reports through their classification and deduplication workflows
+ */
+export class GetReportsUseCase {
+    constructor(private readonly reportRepository: ReportRepositoryPort) {}
+
+    /**
+     * @returns The reports matching the filters, latest dateline first
+     */
+    async execute(params: GetReportsParams): Promise<GetReportsResult> {
+        const { limit, offset } = params;
+
+        // The extra report tells whether there is a page beyond this one
+        const reports = await this.reportRepository.findMany({
+            country: params.country?.toString(),
+            endDate: params.to,
+            limit: limit + 1,
+            offset,
+            startDate: params.from,
+            where: {
+                classificationState: params.classificationState,
+                deduplicationState: params.deduplicationState,
+                tier: params.tier,
+            },
+        });
+
+        const hasMore = reports.length > limit;
+
+        return {
+            nextOffset: hasMore ? offset + limit : null,
+            reports: hasMore ? reports.slice(0, limit) : reports,
+        };
+    }
+}
@@ -3,6 +3,8 @@ import { randomUUID } from 'node:crypto';
 
 // Domain
 import { Article } from '../../../domain/entities/article.entity.js';
+import { type Report } from '../../../domain/entities/report.entity.js';
+import { ArticlesPublishedEvent } from '../../../domain/events/articles-published.event.js';
 import { ArticleFrame } from '../../../domain/value-objects/article-frame/article-frame.vo.js';
 import { ArticleTraits } from '../../../domain/value-objects/article-traits.vo.js';
 import {
@@ -19,6 +21,7 @@ import {
     type ArticleCompositionAgentPort,
     type ArticleCompositionInput,
 } from '../../ports/outbound/agents/article-composition.agent.js';
+import { type EventBusPort } from '../../ports/outbound/events/event-bus.port.js';
 import { type ArticleRepositoryPort } from '../../ports/outbound/persistence/article/article-repository.port.js';
 import { type ReportRepositoryPort } from '../../ports/outbound/persistence/report/report-repository.port.js';
 
@@ -35,6 +38,7 @@ export class PublishReportsUseCase {
         private readonly logger: LoggerPort,
         private readonly reportRepository: ReportRepositoryPort,
         private readonly articleRepository: ArticleRepositoryPort,
+        private readonly eventBus: EventBusPort,
     ) {}
 
     /**
@@ -75,46 +79,12 @@ export class PublishReportsUseCase {
             if (reportsToProcess.length > 0) {
                 for (const report of reportsToProcess) {
                     try {
-                        const compositionInput: ArticleCompositionInput = {
-                            report,
-                            targetCountry: country,
-                            targetLanguage: language,
-                        };
-
-                        const compositionResult =
-                            await this.articleCompositionAgent.run(compositionInput);
-
-                        if (!compositionResult) {
-                            this.logger.warn('Composition agent returned no result', {
-                                country: country.toString(),
-                                language: language.toString(),
-                                reportId: report.id,
-                            });
+                        const article = await this.composeArticle(report, language, country);
+
+                        if (!article) {
                             continue;
                         }
 
-                        const frames = compositionResult.frames.map(
-                            (frameData) =>
-                                new ArticleFrame({
-                                    body: new Body(frameData.body),
-                                    headline: new Headline(frameData.headline),
-                                }),
-                        );
-
-                        const article = new Article({
-                            authenticity: new Authenticity(AuthenticityStatusEnum.AUTHENTIC),
-                            body: new Body(compositionResult.body),
-                            categories: report.categories,
-                            country,
-                            frames,
-                            headline: new Headline(compositionResult.headline),
-                            id: randomUUID(),
-                            language,
-                            publishedAt: report.dateline,
-                            reportIds: [report.id],
-                            traits: report.traits || new ArticleTraits(), // Use report traits if available, otherwise default
-                        });
-
                         publishedArticles.push(article);
                     } catch (articleError) {
                         this.logger.warn('Error publishing article from report', {
@@ -131,6 +101,7 @@ export class PublishReportsUseCase {
             if (publishedArticles.length > 0) {
                 try {
                     await this.articleRepository.createMany(publishedArticles);
+                    this.eventBus.publish(new ArticlesPublishedEvent(publishedArticles));
                 } catch (persistError) {
                     this.logger.warn('Error persisting real articles', {
                         country: country.toString(),
@@ -165,4 +136,53 @@ export class PublishReportsUseCase {
             throw error;
         }
     }
+
+    /**
+     * Compose the authentic article of a report for a locale, without persisting it
+     * @returns The article, or null when the composition agent returned no result
+     */
+    public async composeArticle(
+        report: Report,
+        language: Language,
+        country: Country,
+    ): Promise<Article | null> {
+        const compositionInput: ArticleCompositionInput = {
+            report,
+            targetCountry: country,
+            targetLanguage: language,
+        };
+
+        const compositionResult = await this.articleCompositionAgent.run(compositionInput);
+
+        if (!compositionResult) {
+            this.logger.warn('Composition agent returned no result', {
+                country: country.toString(),
+                language: language.toString(),
+                reportId: report.id,
+            });
+            return null;
+        }
+
+        const frames = compositionResult.frames.map(
+            (frameData) =>
+                new ArticleFrame({
+                    body: Body.withValidAnnotations(frameData.body),
+                    headline: new Headline(frameData.headline),
+                }),
+        );
+
+        return new Article({
+            authenticity: new Authenticity(AuthenticityStatusEnum.AUTHENTIC),
+            body: Body.withValidAnnotations(compositionResult.body),
+            categories: report.categories,
+            country,
+            frames,
+            headline: new Headline(compositionResult.headline),
+            id: randomUUID(),
+            language,
+            publishedAt: report.dateline,
+            reportIds: [report.id],
+            traits: report.traits || new ArticleTraits(), // Use report traits if available, otherwise default
+        });
+    }
 }
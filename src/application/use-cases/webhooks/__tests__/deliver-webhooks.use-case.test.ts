@@ -0,0 +1,172 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { WebhookSubscription } from '../../../../domain/entities/webhook-subscription.entity.js';
+
+// Ports
+import { type WebhooksConfigurationPort } from '../../../ports/inbound/configuration.port.js';
+import {
+    type DueWebhookDelivery,
+    type WebhookRepositoryPort,
+} from '../../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+import { type WebhookSenderPort } from '../../../ports/outbound/webhooks/webhook-sender.port.js';
+
+import { DeliverWebhooksUseCase } from '../deliver-webhooks.use-case.js';
+
+const configuration: WebhooksConfigurationPort = {
+    deliveryTimeoutMs: 10_000,
+    disableAfterFailures: 3,
+    maxAttempts: 4,
+    retryBaseDelaySeconds: 30,
+};
+
+const createDelivery = (
+    id: string,
+    attemptCount = 0,
+    consecutiveFailures = 0,
+): DueWebhookDelivery => ({
+    attemptCount,
+    eventType: 'articles.published',
+    id,
+    payload: '{"type":"articles.published"}',
+    subscription: new WebhookSubscription({
+        consecutiveFailures,
+        countries: [],
+        createdAt: new Date('2024-03-01T10:00:00.000Z'),
+        enabled: true,
+        eventTypes: ['articles.published'],
+        id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+        languages: [],
+        secret: 'secret-0123456789abcdef',
+        url: 'https://partner.example.com/hooks',
+    }),
+});
+
+describe('DeliverWebhooksUseCase', () => {
+    let mockWebhookRepository: DeepMockProxy<WebhookRepositoryPort>;
+    let mockWebhookSender: DeepMockProxy<WebhookSenderPort>;
+    let useCase: DeliverWebhooksUseCase;
+
+    beforeEach(() => {
+        mockWebhookRepository = mock<WebhookRepositoryPort>();
+        mockWebhookSender = mock<WebhookSenderPort>();
+        useCase = new DeliverWebhooksUseCase(
+            mockWebhookRepository,
+            mockWebhookSender,
+            configuration,
+            mock<LoggerPort>(),
+        );
+    });
+
+    describe('execute', () => {
+        it('should complete a successful delivery and reset the failure count', async () => {
+            // Given - a subscription that failed before, now answering 200
+            mockWebhookRepository.findDueDeliveries.mockResolvedValue([
+                createDelivery('delivery-1', 1, 2),
+            ]);
+            mockWebhookSender.send.mockResolvedValue({
+                durationMs: 12,
+                statusCode: 200,
+                succeeded: true,
+            });
+
+            // When
+            const result = await useCase.execute();
+
+            // Then
+            expect(result).toEqual({ attempted: 1, failed: 0, succeeded: 1 });
+            expect(mockWebhookRepository.recordDeliveryAttempt).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    delivery: {
+                        attemptCount: 2,
+                        id: 'delivery-1',
+                        nextAttemptAt: null,
+                        status: 'SUCCEEDED',
+                    },
+                    subscription: expect.objectContaining({
+                        consecutiveFailures: 0,
+                        enabled: true,
+                    }),
+                }),
+            );
+        });
+
+        it('should retry a failed delivery with exponential backoff', async () => {
+            // Given - a delivery failing for the third time
+            mockWebhookRepository.findDueDeliveries.mockResolvedValue([
+                createDelivery('delivery-1', 2),
+            ]);
+            mockWebhookSender.send.mockResolvedValue({
+                durationMs: 12,
+                error: 'Unexpected status 500',
+                statusCode: 500,
+                succeeded: false,
+            });
+
+            // When
+            await useCase.execute();
+
+            // Then - the next attempt waits 30s * 2^2
+            const [outcome] = mockWebhookRepository.recordDeliveryAttempt.mock.calls[0];
+            expect(outcome.delivery.status).toBe('PENDING');
+            expect(outcome.delivery.attemptCount).toBe(3);
+            expect(
+                outcome.delivery.nextAttemptAt!.getTime() - outcome.attempt.attemptedAt.getTime(),
+            ).toBe(120_000);
+        });
+
+        it('should give up once the maximum number of attempts is reached', async () => {
+            // Given - a delivery on its last attempt
+            mockWebhookRepository.findDueDeliveries.mockResolvedValue([
+                createDelivery('delivery-1', 3),
+            ]);
+            mockWebhookSender.send.mockResolvedValue({
+                durationMs: 12,
+                error: 'fetch failed',
+                succeeded: false,
+            });
+
+            // When
+            const result = await useCase.execute();
+
+            // Then
+            expect(result).toEqual({ attempted: 1, failed: 1, succeeded: 0 });
+            expect(mockWebhookRepository.recordDeliveryAttempt).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    delivery: expect.objectContaining({ nextAttemptAt: null, status: 'FAILED' }),
+                }),
+            );
+        });
+
+        it('should disable a subscription after repeated failures and skip its other deliveries', async () => {
+            // Given - a subscription one failure away from the threshold, with two due deliveries
+            mockWebhookRepository.findDueDeliveries.mockResolvedValue([
+                createDelivery('delivery-1', 0, 2),
+                createDelivery('delivery-2', 0, 2),
+            ]);
+            mockWebhookSender.send.mockResolvedValue({
+                durationMs: 12,
+                error: 'Unexpected status 503',
+                statusCode: 503,
+                succeeded: false,
+            });
+
+            // When
+            const result = await useCase.execute();
+
+            // Then - only the first delivery is attempted, and it disables the subscription
+            expect(result).toEqual({ attempted: 1, failed: 1, succeeded: 0 });
+            expect(mockWebhookSender.send).toHaveBeenCalledTimes(1);
+            expect(mockWebhookRepository.recordDeliveryAttempt).toHaveBeenCalledWith(
+                expect.objectContaining({
+                    subscription: expect.objectContaining({
+                        consecutiveFailures: 3,
+                        enabled: false,
+                    }),
+                }),
+            );
+        });
+    });
+});
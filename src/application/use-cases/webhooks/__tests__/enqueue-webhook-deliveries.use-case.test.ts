@@ -0,0 +1,95 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+
+// Domain
+import { mockArticles } from '../../../../domain/entities/__mocks__/articles.mock.js';
+import {
+    WebhookSubscription,
+    type WebhookSubscriptionProps,
+} from '../../../../domain/entities/webhook-subscription.entity.js';
+import { ArticlesPublishedEvent } from '../../../../domain/events/articles-published.event.js';
+
+// Ports
+import { type WebhookRepositoryPort } from '../../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+import { EnqueueWebhookDeliveriesUseCase } from '../enqueue-webhook-deliveries.use-case.js';
+
+const createSubscription = (overrides: Partial<WebhookSubscriptionProps> = {}) =>
+    new WebhookSubscription({
+        consecutiveFailures: 0,
+        countries: [],
+        createdAt: new Date('2024-03-01T10:00:00.000Z'),
+        enabled: true,
+        eventTypes: ['articles.published'],
+        id: '4f1c5f3e-8d2a-4b7e-9c6d-1a2b3c4d5e6f',
+        languages: [],
+        secret: 'secret-0123456789abcdef',
+        url: 'https://partner.example.com/hooks',
+        ...overrides,
+    });
+
+describe('EnqueueWebhookDeliveriesUseCase', () => {
+    let mockWebhookRepository: DeepMockProxy<WebhookRepositoryPort>;
+    let useCase: EnqueueWebhookDeliveriesUseCase;
+
+    beforeEach(() => {
+        mockWebhookRepository = mock<WebhookRepositoryPort>();
+        useCase = new EnqueueWebhookDeliveriesUseCase(mockWebhookRepository, mock<LoggerPort>());
+    });
+
+    describe('execute', () => {
+        it('should queue one delivery per subscription with the articles of its locales', async () => {
+            // Given - a US and a French article, and a subscription following the US only
+            const [usArticle, frArticle] = mockArticles(2);
+            const subscription = createSubscription({ countries: ['US'] });
+            mockWebhookRepository.findSubscriptions.mockResolvedValue([subscription]);
+            const event = new ArticlesPublishedEvent([usArticle, frArticle]);
+
+            // When - the event is enqueued
+            const count = await useCase.execute(event);
+
+            // Then - a single delivery, due now, carries the US article only
+            expect(count).toBe(1);
+            expect(mockWebhookRepository.findSubscriptions).toHaveBeenCalledWith({
+                eventType: 'articles.published',
+            });
+            const [[delivery]] = mockWebhookRepository.createDeliveries.mock.calls[0];
+            expect(delivery).toEqual(
+                expect.objectContaining({
+                    eventType: 'articles.published',
+                    nextAttemptAt: expect.any(Date),
+                    subscriptionId: subscription.id,
+                }),
+            );
+            expect(JSON.parse(delivery.payload)).toEqual({
+                data: {
+                    articles: [
+                        expect.objectContaining({
+                            country: 'US',
+                            headline: usArticle.headline.toString(),
+                            id: usArticle.id,
+                        }),
+                    ],
+                },
+                id: delivery.id,
+                occurredAt: event.occurredAt.toISOString(),
+                type: 'articles.published',
+            });
+        });
+
+        it('should queue nothing when no subscription follows the locales', async () => {
+            // Given - a subscription following a language none of the articles is in
+            mockWebhookRepository.findSubscriptions.mockResolvedValue([
+                createSubscription({ languages: ['FR'] }),
+            ]);
+
+            // When
+            const count = await useCase.execute(new ArticlesPublishedEvent([mockArticles(1)[0]]));
+
+            // Then
+            expect(count).toBe(0);
+            expect(mockWebhookRepository.createDeliveries).not.toHaveBeenCalled();
+        });
+    });
+});
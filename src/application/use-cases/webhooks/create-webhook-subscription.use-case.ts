@@ -0,0 +1,63 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomBytes, randomUUID } from 'node:crypto';
+
+// Domain
+import {
+    type WebhookEventType,
+    WebhookSubscription,
+} from '../../../domain/entities/webhook-subscription.entity.js';
+import { type CountryEnum } from '../../../domain/value-objects/country.vo.js';
+import { type LanguageEnum } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type WebhookRepositoryPort } from '../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+/**
+ * Input parameters for the CreateWebhookSubscription use case
+ */
+export interface CreateWebhookSubscriptionParams {
+    countries: CountryEnum[];
+    eventTypes: WebhookEventType[];
+    languages: LanguageEnum[];
+    /** Generated when absent */
+    secret?: string;
+    url: string;
+}
+
+/**
+ * Use case for subscribing a partner endpoint to domain events
+ */
+export class CreateWebhookSubscriptionUseCase {
+    constructor(
+        private readonly webhookRepository: WebhookRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * Register an enabled subscription
+     * @param params - Endpoint, events and locale filters
+     * @returns The subscription, including the secret partners verify signatures with
+     */
+    async execute(params: CreateWebhookSubscriptionParams): Promise<WebhookSubscription> {
+        const subscription = await this.webhookRepository.createSubscription(
+            new WebhookSubscription({
+                consecutiveFailures: 0,
+                countries: params.countries,
+                createdAt: new Date(),
+                enabled: true,
+                eventTypes: params.eventTypes,
+                id: randomUUID(),
+                languages: params.languages,
+                secret: params.secret ?? randomBytes(32).toString('base64url'),
+                url: params.url,
+            }),
+        );
+
+        this.logger.info('Webhook subscription created', {
+            eventTypes: subscription.eventTypes,
+            subscriptionId: subscription.id,
+        });
+
+        return subscription;
+    }
+}
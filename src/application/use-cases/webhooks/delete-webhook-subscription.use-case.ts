@@ -0,0 +1,27 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Ports
+import { type WebhookRepositoryPort } from '../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+/**
+ * Use case for removing a subscription along with its pending and past deliveries
+ */
+export class DeleteWebhookSubscriptionUseCase {
+    constructor(
+        private readonly webhookRepository: WebhookRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * @returns false when the subscription does not exist
+     */
+    async execute(id: string): Promise<boolean> {
+        const deleted = await this.webhookRepository.deleteSubscription(id);
+
+        if (deleted) {
+            this.logger.info('Webhook subscription deleted', { subscriptionId: id });
+        }
+
+        return deleted;
+    }
+}
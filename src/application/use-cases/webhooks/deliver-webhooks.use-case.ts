@@ -0,0 +1,151 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Configuration
+import { type WebhooksConfigurationPort } from '../../ports/inbound/configuration.port.js';
+
+// Ports
+import {
+    type DueWebhookDelivery,
+    type WebhookDeliveryOutcome,
+    type WebhookRepositoryPort,
+} from '../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+import { type WebhookSenderPort } from '../../ports/outbound/webhooks/webhook-sender.port.js';
+
+/** Deliveries attempted per run; the rest wait for the next run */
+const BATCH_SIZE = 50;
+
+/**
+ * Result returned by DeliverWebhooksUseCase
+ */
+export interface DeliverWebhooksResult {
+    attempted: number;
+    failed: number;
+    succeeded: number;
+}
+
+type SubscriptionHealth = WebhookDeliveryOutcome['subscription'];
+
+/**
+ * Use case for sending due webhook deliveries
+ * @description Failed attempts are retried with exponential backoff until the delivery gives up,
+ * and an endpoint failing too many times in a row is disabled
+ */
+export class DeliverWebhooksUseCase {
+    constructor(
+        private readonly webhookRepository: WebhookRepositoryPort,
+        private readonly webhookSender: WebhookSenderPort,
+        private readonly configuration: WebhooksConfigurationPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * Attempt every pending delivery whose next attempt is due
+     * @returns How many attempts were made and how they went
+     */
+    async execute(): Promise<DeliverWebhooksResult> {
+        const deliveries = await this.webhookRepository.findDueDeliveries({
+            limit: BATCH_SIZE,
+            now: new Date(),
+        });
+        const healthBySubscription = new Map<string, SubscriptionHealth>();
+        const result: DeliverWebhooksResult = { attempted: 0, failed: 0, succeeded: 0 };
+
+        for (const delivery of deliveries) {
+            const health = healthBySubscription.get(delivery.subscription.id) ?? {
+                consecutiveFailures: delivery.subscription.consecutiveFailures,
+                enabled: delivery.subscription.enabled,
+                id: delivery.subscription.id,
+            };
+
+            // Disabled earlier in this run: keep its deliveries pending until it is re-enabled
+            if (!health.enabled) {
+                continue;
+            }
+
+            const outcome = await this.attempt(delivery, health);
+            await this.webhookRepository.recordDeliveryAttempt(outcome);
+            healthBySubscription.set(health.id, outcome.subscription);
+
+            result.attempted++;
+            if (outcome.attempt.succeeded) {
+                result.succeeded++;
+            } else {
+                result.failed++;
+            }
+        }
+
+        if (result.attempted > 0) {
+            this.logger.info('Webhook deliveries attempted', { ...result });
+        }
+
+        return result;
+    }
+
+    private async attempt(
+        delivery: DueWebhookDelivery,
+        health: SubscriptionHealth,
+    ): Promise<WebhookDeliveryOutcome> {
+        const attemptedAt = new Date();
+        const response = await this.webhookSender.send({
+            deliveryId: delivery.id,
+            eventType: delivery.eventType,
+            payload: delivery.payload,
+            secret: delivery.subscription.secret,
+            url: delivery.subscription.url,
+        });
+        const attemptCount = delivery.attemptCount + 1;
+        const attempt = {
+            attemptedAt,
+            durationMs: response.durationMs,
+            error: response.error,
+            statusCode: response.statusCode,
+            succeeded: response.succeeded,
+        };
+
+        if (response.succeeded) {
+            return {
+                attempt,
+                delivery: {
+                    attemptCount,
+                    id: delivery.id,
+                    nextAttemptAt: null,
+                    status: 'SUCCEEDED',
+                },
+                subscription: { ...health, consecutiveFailures: 0 },
+            };
+        }
+
+        const { disableAfterFailures, maxAttempts, retryBaseDelaySeconds } = this.configuration;
+        const consecutiveFailures = health.consecutiveFailures + 1;
+        const givesUp = attemptCount >= maxAttempts;
+        const enabled = consecutiveFailures < disableAfterFailures;
+
+        this.logger.warn('Webhook delivery attempt failed', {
+            attemptCount,
+            deliveryId: delivery.id,
+            error: response.error,
+            statusCode: response.statusCode,
+            subscriptionId: health.id,
+        });
+
+        if (!enabled) {
+            this.logger.warn('Webhook subscription disabled after repeated failures', {
+                consecutiveFailures,
+                subscriptionId: health.id,
+            });
+        }
+
+        const retryDelayMs = retryBaseDelaySeconds * 1000 * 2 ** (attemptCount - 1);
+
+        return {
+            attempt,
+            delivery: {
+                attemptCount,
+                id: delivery.id,
+                nextAttemptAt: givesUp ? null : new Date(attemptedAt.getTime() + retryDelayMs),
+                status: givesUp ? 'FAILED' : 'PENDING',
+            },
+            subscription: { consecutiveFailures, enabled, id: health.id },
+        };
+    }
+}
@@ -0,0 +1,90 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { randomUUID } from 'node:crypto';
+
+// Domain
+import { type Article } from '../../../domain/entities/article.entity.js';
+
+// Ports
+import { type DomainEvent } from '../../ports/outbound/events/event-bus.port.js';
+import {
+    type NewWebhookDelivery,
+    type WebhookRepositoryPort,
+} from '../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+/**
+ * Use case for turning a domain event into one pending delivery per interested subscription
+ * @description Each subscription only receives the articles of the locales it follows
+ */
+export class EnqueueWebhookDeliveriesUseCase {
+    constructor(
+        private readonly webhookRepository: WebhookRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * Queue deliveries of the event, due immediately
+     * @param event - Event raised by a use case
+     * @returns Number of deliveries queued
+     */
+    async execute(event: DomainEvent): Promise<number> {
+        const subscriptions = await this.webhookRepository.findSubscriptions({
+            eventType: event.type,
+        });
+        const now = new Date();
+
+        const deliveries = subscriptions.flatMap((subscription): NewWebhookDelivery[] => {
+            const articles = event.articles.filter((article) =>
+                subscription.accepts(event.type, article.country, article.language),
+            );
+
+            if (articles.length === 0) {
+                return [];
+            }
+
+            const id = randomUUID();
+            const payload = {
+                data: { articles: articles.map(toWebhookArticle) },
+                id,
+                occurredAt: event.occurredAt.toISOString(),
+                type: event.type,
+            };
+
+            return [
+                {
+                    eventType: event.type,
+                    id,
+                    nextAttemptAt: now,
+                    payload: JSON.stringify(payload),
+                    subscriptionId: subscription.id,
+                },
+            ];
+        });
+
+        if (deliveries.length > 0) {
+            await this.webhookRepository.createDeliveries(deliveries);
+        }
+
+        this.logger.info('Webhook deliveries queued', {
+            count: deliveries.length,
+            type: event.type,
+        });
+
+        return deliveries.length;
+    }
+}
+
+/**
+ * Partners get a summary; the full article is available from the API by id
+ */
+function toWebhookArticle(article: Article) {
+    return {
+        categories: article.categories.toArray(),
+        country: article.country.toString(),
+        fabricated: article.isFabricated(),
+        headline: article.headline.toString(),
+        id: article.id,
+        language: article.language.toString(),
+        publishedAt: article.publishedAt.toISOString(),
+        quizQuestionCount: article.quizQuestions?.count() ?? 0,
+    };
+}
@@ -0,0 +1,35 @@
+// Ports
+import {
+    type WebhookDeliveryRecord,
+    type WebhookRepositoryPort,
+} from '../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+/**
+ * Input parameters for the GetWebhookDeliveries use case
+ */
+export interface GetWebhookDeliveriesParams {
+    limit: number;
+    subscriptionId: string;
+}
+
+/**
+ * Use case for inspecting the latest deliveries of a subscription and each of their attempts
+ */
+export class GetWebhookDeliveriesUseCase {
+    constructor(private readonly webhookRepository: WebhookRepositoryPort) {}
+
+    /**
+     * @returns The deliveries, newest first, or null when the subscription does not exist
+     */
+    async execute(params: GetWebhookDeliveriesParams): Promise<null | WebhookDeliveryRecord[]> {
+        const subscription = await this.webhookRepository.findSubscriptionById(
+            params.subscriptionId,
+        );
+
+        if (!subscription) {
+            return null;
+        }
+
+        return this.webhookRepository.findDeliveries(params.subscriptionId, params.limit);
+    }
+}
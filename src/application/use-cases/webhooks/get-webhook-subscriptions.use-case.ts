@@ -0,0 +1,16 @@
+// Domain
+import { type WebhookSubscription } from '../../../domain/entities/webhook-subscription.entity.js';
+
+// Ports
+import { type WebhookRepositoryPort } from '../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+/**
+ * Use case for listing every webhook subscription, enabled or not
+ */
+export class GetWebhookSubscriptionsUseCase {
+    constructor(private readonly webhookRepository: WebhookRepositoryPort) {}
+
+    async execute(): Promise<WebhookSubscription[]> {
+        return this.webhookRepository.findSubscriptions();
+    }
+}
@@ -0,0 +1,69 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Domain
+import {
+    type WebhookEventType,
+    type WebhookSubscription,
+} from '../../../domain/entities/webhook-subscription.entity.js';
+import { type CountryEnum } from '../../../domain/value-objects/country.vo.js';
+import { type LanguageEnum } from '../../../domain/value-objects/language.vo.js';
+
+// Ports
+import { type WebhookRepositoryPort } from '../../ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+/**
+ * Input parameters for the UpdateWebhookSubscription use case
+ * Absent properties are left unchanged
+ */
+export interface UpdateWebhookSubscriptionParams {
+    countries?: CountryEnum[];
+    enabled?: boolean;
+    eventTypes?: WebhookEventType[];
+    id: string;
+    languages?: LanguageEnum[];
+    url?: string;
+}
+
+/**
+ * Use case for changing a subscription, including re-enabling one disabled after failures
+ */
+export class UpdateWebhookSubscriptionUseCase {
+    constructor(
+        private readonly webhookRepository: WebhookRepositoryPort,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    /**
+     * Apply the changes to a subscription
+     * @param params - Subscription id and the properties to change
+     * @returns The updated subscription, or null when it does not exist
+     */
+    async execute(params: UpdateWebhookSubscriptionParams): Promise<null | WebhookSubscription> {
+        const subscription = await this.webhookRepository.findSubscriptionById(params.id);
+
+        if (!subscription) {
+            return null;
+        }
+
+        const reEnabled = params.enabled === true && !subscription.enabled;
+
+        const updated = await this.webhookRepository.updateSubscription(
+            subscription.with({
+                ...(params.countries && { countries: params.countries }),
+                ...(params.enabled !== undefined && { enabled: params.enabled }),
+                ...(params.eventTypes && { eventTypes: params.eventTypes }),
+                ...(params.languages && { languages: params.languages }),
+                ...(params.url && { url: params.url }),
+                // A re-enabled endpoint starts over instead of being disabled on its next failure
+                ...(reEnabled && { consecutiveFailures: 0 }),
+            }),
+        );
+
+        this.logger.info('Webhook subscription updated', {
+            enabled: updated.enabled,
+            subscriptionId: updated.id,
+        });
+
+        return updated;
+    }
+}
@@ -11,41 +11,130 @@ import { NodeConfig } from '../infrastructure/inbound/configuration/node-config.
 // Application
 import type { ServerPort } from '../application/ports/inbound/server.port.js';
 import type { TaskPort, WorkerPort } from '../application/ports/inbound/worker.port.js';
+import type { EventBusPort } from '../application/ports/outbound/events/event-bus.port.js';
+import { type HealthIndicatorPort } from '../application/ports/outbound/health/health-indicator.port.js';
+import { type ApiKeyRepositoryPort } from '../application/ports/outbound/persistence/api-key/api-key-repository.port.js';
 import type { ArticleRepositoryPort } from '../application/ports/outbound/persistence/article/article-repository.port.js';
+import { type DailyChallengeRepositoryPort } from '../application/ports/outbound/persistence/challenge/daily-challenge-repository.port.js';
+import { type PipelineRunRepositoryPort } from '../application/ports/outbound/persistence/pipeline/pipeline-run-repository.port.js';
+import { type PlayerRepositoryPort } from '../application/ports/outbound/persistence/player/player-repository.port.js';
 import { type ReportRepositoryPort } from '../application/ports/outbound/persistence/report/report-repository.port.js';
+import { type WebhookRepositoryPort } from '../application/ports/outbound/persistence/webhook/webhook-repository.port.js';
 import type { NewsProviderPort } from '../application/ports/outbound/providers/news.port.js';
+import type { WebhookSenderPort } from '../application/ports/outbound/webhooks/webhook-sender.port.js';
+import { AuthenticateApiKeyUseCase } from '../application/use-cases/api-keys/authenticate-api-key.use-case.js';
+import { CreateApiKeyUseCase } from '../application/use-cases/api-keys/create-api-key.use-case.js';
+import { GetApiKeysUseCase } from '../application/use-cases/api-keys/get-api-keys.use-case.js';
+import { RevokeApiKeyUseCase } from '../application/use-cases/api-keys/revoke-api-key.use-case.js';
 import { FabricateArticlesUseCase } from '../application/use-cases/articles/fabricate-articles.use-case.js';
 import { GenerateArticleChallengesUseCase } from '../application/use-cases/articles/generate-article-challenges.use-case.js';
+import { GenerateArticleInsightsUseCase } from '../application/use-cases/articles/generate-article-insights.use-case.js';
+import { GetArticleUseCase } from '../application/use-cases/articles/get-article.use-case.js';
 import { GetArticlesUseCase } from '../application/use-cases/articles/get-articles.use-case.js';
+import { GradeArticleQuizUseCase } from '../application/use-cases/articles/grade-article-quiz.use-case.js';
+import { GuessArticleAuthenticityUseCase } from '../application/use-cases/articles/guess-article-authenticity.use-case.js';
+import { SearchArticlesUseCase } from '../application/use-cases/articles/search-articles.use-case.js';
+import { GetDailyChallengeUseCase } from '../application/use-cases/challenges/get-daily-challenge.use-case.js';
+import { MarkReportDuplicateUseCase } from '../application/use-cases/editorial/mark-report-duplicate.use-case.js';
+import { ReclassifyReportUseCase } from '../application/use-cases/editorial/reclassify-report.use-case.js';
+import { RepublishReportUseCase } from '../application/use-cases/editorial/republish-report.use-case.js';
+import { RetractArticleUseCase } from '../application/use-cases/editorial/retract-article.use-case.js';
+import { UnmarkReportDuplicateUseCase } from '../application/use-cases/editorial/unmark-report-duplicate.use-case.js';
+import { CheckReadinessUseCase } from '../application/use-cases/health/check-readiness.use-case.js';
+import { GetLeaderboardUseCase } from '../application/use-cases/leaderboards/get-leaderboard.use-case.js';
+import { GetPipelineRunUseCase } from '../application/use-cases/pipeline/get-pipeline-run.use-case.js';
+import { RunReportPipelineUseCase } from '../application/use-cases/pipeline/run-report-pipeline.use-case.js';
+import { GetPlayerStatsUseCase } from '../application/use-cases/players/get-player-stats.use-case.js';
+import { RegisterPlayerUseCase } from '../application/use-cases/players/register-player.use-case.js';
 import { ClassifyReportsUseCase } from '../application/use-cases/reports/classify-reports.use-case.js';
 import { DeduplicateReportsUseCase } from '../application/use-cases/reports/deduplicate-reports.use-case.js';
+import { GetReportUseCase } from '../application/use-cases/reports/get-report.use-case.js';
+import { GetReportsUseCase } from '../application/use-cases/reports/get-reports.use-case.js';
 import { IngestReportsUseCase } from '../application/use-cases/reports/ingest-reports.use-case.js';
 import { PublishReportsUseCase } from '../application/use-cases/reports/publish-reports.use-case.js';
+import { CreateWebhookSubscriptionUseCase } from '../application/use-cases/webhooks/create-webhook-subscription.use-case.js';
+import { DeleteWebhookSubscriptionUseCase } from '../application/use-cases/webhooks/delete-webhook-subscription.use-case.js';
+import { DeliverWebhooksUseCase } from '../application/use-cases/webhooks/deliver-webhooks.use-case.js';
+import { EnqueueWebhookDeliveriesUseCase } from '../application/use-cases/webhooks/enqueue-webhook-deliveries.use-case.js';
+import { GetWebhookDeliveriesUseCase } from '../application/use-cases/webhooks/get-webhook-deliveries.use-case.js';
+import { GetWebhookSubscriptionsUseCase } from '../application/use-cases/webhooks/get-webhook-subscriptions.use-case.js';
+import { UpdateWebhookSubscriptionUseCase } from '../application/use-cases/webhooks/update-webhook-subscription.use-case.js';
 
 // Infrastructure
+import { ApiKeyAuth } from '../infrastructure/inbound/server/api-key-auth.middleware.js';
+import { CreateApiKeyController } from '../infrastructure/inbound/server/api-keys/create-api-key.controller.js';
+import { GetApiKeysController } from '../infrastructure/inbound/server/api-keys/get-api-keys.controller.js';
+import { RevokeApiKeyController } from '../infrastructure/inbound/server/api-keys/revoke-api-key.controller.js';
+import { GetArticleController } from '../infrastructure/inbound/server/articles/get-article.controller.js';
 import { GetArticlesController } from '../infrastructure/inbound/server/articles/get-articles.controller.js';
-import { HonoServer } from '../infrastructure/inbound/server/hono.server.js';
+import { GradeArticleQuizController } from '../infrastructure/inbound/server/articles/grade-article-quiz.controller.js';
+import { GuessArticleAuthenticityController } from '../infrastructure/inbound/server/articles/guess-article-authenticity.controller.js';
+import { SearchArticlesController } from '../infrastructure/inbound/server/articles/search-articles.controller.js';
+import { StreamArticlesController } from '../infrastructure/inbound/server/articles/stream-articles.controller.js';
+import {
+    HonoServer,
+    type HonoServerControllers,
+} from '../infrastructure/inbound/server/hono.server.js';
+import { GetDailyChallengeController } from '../infrastructure/inbound/server/challenges/get-daily-challenge.controller.js';
+import { MarkReportDuplicateController } from '../infrastructure/inbound/server/editorial/mark-report-duplicate.controller.js';
+import { ReclassifyReportController } from '../infrastructure/inbound/server/editorial/reclassify-report.controller.js';
+import { RepublishReportController } from '../infrastructure/inbound/server/editorial/republish-report.controller.js';
+import { RetractArticleController } from '../infrastructure/inbound/server/editorial/retract-article.controller.js';
+import { UnmarkReportDuplicateController } from '../infrastructure/inbound/server/editorial/unmark-report-duplicate.controller.js';
+import { GetFeedController } from '../infrastructure/inbound/server/feeds/get-feed.controller.js';
+import { CheckReadinessController } from '../infrastructure/inbound/server/health/check-readiness.controller.js';
+import { HttpCache } from '../infrastructure/inbound/server/http-cache.middleware.js';
+import { HttpMetrics } from '../infrastructure/inbound/server/http-metrics.middleware.js';
+import { GetLeaderboardController } from '../infrastructure/inbound/server/leaderboards/get-leaderboard.controller.js';
+import { GetPipelineRunController } from '../infrastructure/inbound/server/pipeline/get-pipeline-run.controller.js';
+import { StartPipelineRunController } from '../infrastructure/inbound/server/pipeline/start-pipeline-run.controller.js';
+import { GetPlayerStatsController } from '../infrastructure/inbound/server/players/get-player-stats.controller.js';
+import { RegisterPlayerController } from '../infrastructure/inbound/server/players/register-player.controller.js';
+import { RateLimiter } from '../infrastructure/inbound/server/rate-limit.middleware.js';
+import { GetReportController } from '../infrastructure/inbound/server/reports/get-report.controller.js';
+import { GetReportsController } from '../infrastructure/inbound/server/reports/get-reports.controller.js';
+import { CreateWebhookSubscriptionController } from '../infrastructure/inbound/server/webhooks/create-webhook-subscription.controller.js';
+import { DeleteWebhookSubscriptionController } from '../infrastructure/inbound/server/webhooks/delete-webhook-subscription.controller.js';
+import { GetWebhookDeliveriesController } from '../infrastructure/inbound/server/webhooks/get-webhook-deliveries.controller.js';
+import { GetWebhookSubscriptionsController } from '../infrastructure/inbound/server/webhooks/get-webhook-subscriptions.controller.js';
+import { UpdateWebhookSubscriptionController } from '../infrastructure/inbound/server/webhooks/update-webhook-subscription.controller.js';
 import { NodeCron } from '../infrastructure/inbound/worker/node-cron.worker.js';
 import { ReportPipelineTask } from '../infrastructure/inbound/worker/reports/report-pipeline.task.js';
+import { WebhookDeliveryTask } from '../infrastructure/inbound/worker/webhooks/webhook-delivery.task.js';
 import { ArticleCompositionAgent } from '../infrastructure/outbound/agents/article-composition.agent.js';
 import { ArticleFabricationAgent } from '../infrastructure/outbound/agents/article-fabrication.agent.js';
+import { ArticleInsightGenerationAgent } from '../infrastructure/outbound/agents/article-insight-generation.agent.js';
 import { ArticleQuizGenerationAgent } from '../infrastructure/outbound/agents/article-quiz-generation.agent.js';
+import { MeteredAgent } from '../infrastructure/outbound/agents/metered.agent.js';
 import { ReportClassificationAgent } from '../infrastructure/outbound/agents/report-classification.agent.js';
 import { ReportDeduplicationAgent } from '../infrastructure/outbound/agents/report-deduplication.agent.js';
 import { ReportIngestionAgent } from '../infrastructure/outbound/agents/report-ingestion.agent.js';
+import { InMemoryEventBus } from '../infrastructure/outbound/events/in-memory-event-bus.js';
+import { DatabaseHealthIndicator } from '../infrastructure/outbound/health/database.health-indicator.js';
+import { NewsProviderHealthIndicator } from '../infrastructure/outbound/health/news-provider.health-indicator.js';
+import { OpenRouterModelsHealthIndicator } from '../infrastructure/outbound/health/openrouter-models.health-indicator.js';
+import { PrismaApiKeyRepository } from '../infrastructure/outbound/persistence/api-key/prisma-api-key.repository.js';
 import { PrismaArticleRepository } from '../infrastructure/outbound/persistence/article/prisma-article.repository.js';
+import { PrismaDailyChallengeRepository } from '../infrastructure/outbound/persistence/challenge/prisma-daily-challenge.repository.js';
+import { InMemoryPipelineRunRepository } from '../infrastructure/outbound/persistence/pipeline/in-memory-pipeline-run.repository.js';
+import { PrismaPlayerRepository } from '../infrastructure/outbound/persistence/player/prisma-player.repository.js';
 import { PrismaDatabase } from '../infrastructure/outbound/persistence/prisma.database.js';
 import { PrismaReportRepository } from '../infrastructure/outbound/persistence/report/prisma-report.repository.js';
+import { PrismaWebhookRepository } from '../infrastructure/outbound/persistence/webhook/prisma-webhook.repository.js';
 import { CachedNews } from '../infrastructure/outbound/providers/cached-news.provider.js';
 import {
     WorldNews,
     type WorldNewsConfiguration,
 } from '../infrastructure/outbound/providers/world-news.provider.js';
+import { HttpWebhookSender } from '../infrastructure/outbound/webhooks/http-webhook.sender.js';
 
 // Shared
+import { CorrelatedLoggerAdapter } from '../shared/correlation/index.js';
 import {
+    CompositeTelemetryAdapter,
     NoopTelemetryAdapter,
     OpenTelemetryAdapter,
+    PrometheusTelemetryAdapter,
     type TelemetryPort,
 } from '../shared/telemetry/index.js';
 
@@ -59,14 +148,22 @@ const databaseFactory = Injectable(
         new PrismaDatabase(logger, config.getOutboundConfiguration().prisma.databaseUrl),
 );
 
+const eventBusFactory = Injectable(
+    'EventBus',
+    ['Logger'] as const,
+    (logger: LoggerPort): EventBusPort => new InMemoryEventBus(logger),
+);
+
 const loggerFactory = Injectable(
     'Logger',
     ['Configuration'] as const,
-    (config: ConfigurationPort) =>
-        new PinoLoggerAdapter({
-            level: config.getInboundConfiguration().logger.level,
-            prettyPrint: config.getInboundConfiguration().logger.prettyPrint,
-        }),
+    (config: ConfigurationPort): LoggerPort =>
+        new CorrelatedLoggerAdapter(
+            new PinoLoggerAdapter({
+                level: config.getInboundConfiguration().logger.level,
+                prettyPrint: config.getInboundConfiguration().logger.prettyPrint,
+            }),
+        ),
 );
 
 const newsFactory = Injectable(
@@ -108,41 +205,74 @@ const providerFactory = Injectable(
         }),
 );
 
+const webhookSenderFactory = Injectable(
+    'WebhookSender',
+    ['Configuration'] as const,
+    (config: ConfigurationPort): WebhookSenderPort =>
+        new HttpWebhookSender(config.getOutboundConfiguration().webhooks.deliveryTimeoutMs),
+);
+
+const healthIndicatorsFactory = Injectable(
+    'HealthIndicators',
+    ['Database', 'News', 'Configuration'] as const,
+    (
+        db: PrismaDatabase,
+        news: NewsProviderPort,
+        config: ConfigurationPort,
+    ): HealthIndicatorPort[] => [
+        new DatabaseHealthIndicator(db),
+        new NewsProviderHealthIndicator(news),
+        new OpenRouterModelsHealthIndicator(config.getOutboundConfiguration().agents),
+    ],
+);
+
 /**
  * Agent factories
  */
 const agentFactory = Injectable(
     'Agents',
-    ['Provider', 'Configuration', 'Logger'] as const,
-    (provider: OpenRouterProvider, config: ConfigurationPort, logger: LoggerPort) => {
+    ['Provider', 'Configuration', 'Logger', 'Telemetry'] as const,
+    (
+        provider: OpenRouterProvider,
+        config: ConfigurationPort,
+        logger: LoggerPort,
+        telemetry: TelemetryPort,
+    ) => {
         const agentConfig = config.getOutboundConfiguration().agents;
 
         const getModel = (modelName: string) => provider.model(modelName);
 
         return {
-            reportIngestion: new ReportIngestionAgent(
-                getModel(agentConfig.reportIngestion),
-                logger,
+            reportIngestion: new MeteredAgent(
+                new ReportIngestionAgent(getModel(agentConfig.reportIngestion), logger),
+                telemetry,
             ),
-            reportDeduplication: new ReportDeduplicationAgent(
-                getModel(agentConfig.reportDeduplication),
-                logger,
+            reportDeduplication: new MeteredAgent(
+                new ReportDeduplicationAgent(getModel(agentConfig.reportDeduplication), logger),
+                telemetry,
             ),
-            reportClassification: new ReportClassificationAgent(
-                getModel(agentConfig.reportClassification),
-                logger,
+            reportClassification: new MeteredAgent(
+                new ReportClassificationAgent(getModel(agentConfig.reportClassification), logger),
+                telemetry,
             ),
-            articleComposition: new ArticleCompositionAgent(
-                getModel(agentConfig.articleComposition),
-                logger,
+            articleComposition: new MeteredAgent(
+                new ArticleCompositionAgent(getModel(agentConfig.articleComposition), logger),
+                telemetry,
             ),
-            articleFabrication: new ArticleFabricationAgent(
-                getModel(agentConfig.articleFabrication),
-                logger,
+            articleFabrication: new MeteredAgent(
+                new ArticleFabricationAgent(getModel(agentConfig.articleFabrication), logger),
+                telemetry,
             ),
-            articleQuizGeneration: new ArticleQuizGenerationAgent(
-                getModel(agentConfig.articleQuizGeneration),
-                logger,
+            articleQuizGeneration: new MeteredAgent(
+                new ArticleQuizGenerationAgent(getModel(agentConfig.articleQuizGeneration), logger),
+                telemetry,
+            ),
+            articleInsightGeneration: new MeteredAgent(
+                new ArticleInsightGenerationAgent(
+                    getModel(agentConfig.articleInsightGeneration),
+                    logger,
+                ),
+                telemetry,
             ),
         };
     },
@@ -153,24 +283,76 @@ const agentFactory = Injectable(
  */
 const articleRepositoryFactory = Injectable(
     'ArticleRepository',
-    ['Database', 'Logger'] as const,
-    (db: PrismaDatabase, logger: LoggerPort) => {
+    ['Database', 'HttpCache', 'Logger'] as const,
+    (db: PrismaDatabase, httpCache: HttpCache, logger: LoggerPort) => {
         logger.info('Initializing Article repository', { repository: 'PrismaArticle' });
-        const articleRepository = new PrismaArticleRepository(db);
+        const articleRepository = new PrismaArticleRepository(db, httpCache);
         return articleRepository;
     },
 );
 
 const reportRepositoryFactory = Injectable(
     'ReportRepository',
-    ['Database', 'Logger'] as const,
-    (db: PrismaDatabase, logger: LoggerPort) => {
+    ['Database', 'HttpCache', 'Logger'] as const,
+    (db: PrismaDatabase, httpCache: HttpCache, logger: LoggerPort) => {
         logger.info('Initializing Report repository', { repository: 'PrismaReport' });
-        const reportRepository = new PrismaReportRepository(db, logger);
+        const reportRepository = new PrismaReportRepository(db, logger, httpCache);
         return reportRepository;
     },
 );
 
+const playerRepositoryFactory = Injectable(
+    'PlayerRepository',
+    ['Database', 'Logger'] as const,
+    (db: PrismaDatabase, logger: LoggerPort) => {
+        logger.info('Initializing Player repository', { repository: 'PrismaPlayer' });
+        const playerRepository = new PrismaPlayerRepository(db);
+        return playerRepository;
+    },
+);
+
+const dailyChallengeRepositoryFactory = Injectable(
+    'DailyChallengeRepository',
+    ['Database', 'Logger'] as const,
+    (db: PrismaDatabase, logger: LoggerPort) => {
+        logger.info('Initializing DailyChallenge repository', {
+            repository: 'PrismaDailyChallenge',
+        });
+        const dailyChallengeRepository = new PrismaDailyChallengeRepository(db);
+        return dailyChallengeRepository;
+    },
+);
+
+const apiKeyRepositoryFactory = Injectable(
+    'ApiKeyRepository',
+    ['Database', 'Logger'] as const,
+    (db: PrismaDatabase, logger: LoggerPort) => {
+        logger.info('Initializing ApiKey repository', { repository: 'PrismaApiKey' });
+        const apiKeyRepository = new PrismaApiKeyRepository(db);
+        return apiKeyRepository;
+    },
+);
+
+const webhookRepositoryFactory = Injectable(
+    'WebhookRepository',
+    ['Database', 'Logger'] as const,
+    (db: PrismaDatabase, logger: LoggerPort) => {
+        logger.info('Initializing Webhook repository', { repository: 'PrismaWebhook' });
+        const webhookRepository = new PrismaWebhookRepository(db);
+        return webhookRepository;
+    },
+);
+
+const pipelineRunRepositoryFactory = Injectable(
+    'PipelineRunRepository',
+    ['Logger'] as const,
+    (logger: LoggerPort) => {
+        logger.info('Initializing PipelineRun repository', { repository: 'InMemoryPipelineRun' });
+        const pipelineRunRepository = new InMemoryPipelineRunRepository();
+        return pipelineRunRepository;
+    },
+);
+
 /**
  * Use case factories
  */
@@ -180,14 +362,99 @@ const getArticlesUseCaseFactory = Injectable(
     (articleRepository: ArticleRepositoryPort) => new GetArticlesUseCase(articleRepository),
 );
 
+const getArticleUseCaseFactory = Injectable(
+    'GetArticle',
+    ['ArticleRepository'] as const,
+    (articleRepository: ArticleRepositoryPort) => new GetArticleUseCase(articleRepository),
+);
+
+const searchArticlesUseCaseFactory = Injectable(
+    'SearchArticles',
+    ['ArticleRepository'] as const,
+    (articleRepository: ArticleRepositoryPort) => new SearchArticlesUseCase(articleRepository),
+);
+
+const gradeArticleQuizUseCaseFactory = Injectable(
+    'GradeArticleQuiz',
+    ['ArticleRepository', 'PlayerRepository', 'Configuration'] as const,
+    (
+        articleRepository: ArticleRepositoryPort,
+        playerRepository: PlayerRepositoryPort,
+        config: ConfigurationPort,
+    ) =>
+        new GradeArticleQuizUseCase(
+            articleRepository,
+            playerRepository,
+            config.getInboundConfiguration().challenges.hideQuizAnswers,
+        ),
+);
+
+const guessArticleAuthenticityUseCaseFactory = Injectable(
+    'GuessArticleAuthenticity',
+    ['ArticleRepository', 'PlayerRepository', 'Configuration'] as const,
+    (
+        articleRepository: ArticleRepositoryPort,
+        playerRepository: PlayerRepositoryPort,
+        config: ConfigurationPort,
+    ) =>
+        new GuessArticleAuthenticityUseCase(
+            articleRepository,
+            playerRepository,
+            config.getInboundConfiguration().challenges.hideAuthenticity,
+        ),
+);
+
+const registerPlayerUseCaseFactory = Injectable(
+    'RegisterPlayer',
+    ['PlayerRepository', 'Logger'] as const,
+    (playerRepository: PlayerRepositoryPort, logger: LoggerPort) =>
+        new RegisterPlayerUseCase(playerRepository, logger),
+);
+
+const getPlayerStatsUseCaseFactory = Injectable(
+    'GetPlayerStats',
+    ['PlayerRepository'] as const,
+    (playerRepository: PlayerRepositoryPort) => new GetPlayerStatsUseCase(playerRepository),
+);
+
+const getLeaderboardUseCaseFactory = Injectable(
+    'GetLeaderboard',
+    ['PlayerRepository'] as const,
+    (playerRepository: PlayerRepositoryPort) => new GetLeaderboardUseCase(playerRepository),
+);
+
+const getDailyChallengeUseCaseFactory = Injectable(
+    'GetDailyChallenge',
+    ['ArticleRepository', 'DailyChallengeRepository', 'Logger', 'Configuration'] as const,
+    (
+        articleRepository: ArticleRepositoryPort,
+        dailyChallengeRepository: DailyChallengeRepositoryPort,
+        logger: LoggerPort,
+        config: ConfigurationPort,
+    ) =>
+        new GetDailyChallengeUseCase(
+            articleRepository,
+            dailyChallengeRepository,
+            logger,
+            config.getInboundConfiguration().challenges.dailyArticleCount,
+        ),
+);
+
 const fabricateArticlesUseCaseFactory = Injectable(
     'FabricateArticles',
-    ['Agents', 'ArticleRepository', 'Logger'] as const,
+    ['Agents', 'ArticleRepository', 'Logger', 'EventBus'] as const,
     (
         agents: ReturnType<typeof agentFactory>,
         articleRepository: ArticleRepositoryPort,
         logger: LoggerPort,
-    ) => new FabricateArticlesUseCase(agents.articleFabrication, articleRepository, logger),
+        eventBus: EventBusPort,
+    ) =>
+        new FabricateArticlesUseCase(
+            agents.articleFabrication,
+            articleRepository,
+            logger,
+            eventBus,
+        ),
 );
 
 const ingestReportsUseCaseFactory = Injectable(
@@ -213,13 +480,21 @@ const deduplicateReportsUseCaseFactory = Injectable(
 
 const publishReportsUseCaseFactory = Injectable(
     'PublishReports',
-    ['Agents', 'FabricateArticles', 'Logger', 'ReportRepository', 'ArticleRepository'] as const,
+    [
+        'Agents',
+        'FabricateArticles',
+        'Logger',
+        'ReportRepository',
+        'ArticleRepository',
+        'EventBus',
+    ] as const,
     (
         agents: ReturnType<typeof agentFactory>,
         fabricateArticles: FabricateArticlesUseCase,
         logger: LoggerPort,
         reportRepository: ReportRepositoryPort,
         articleRepository: ArticleRepositoryPort,
+        eventBus: EventBusPort,
     ) =>
         new PublishReportsUseCase(
             agents.articleComposition,
@@ -227,6 +502,7 @@ const publishReportsUseCaseFactory = Injectable(
             logger,
             reportRepository,
             articleRepository,
+            eventBus,
         ),
 );
 
@@ -240,69 +516,386 @@ const classifyReportsUseCaseFactory = Injectable(
     ) => new ClassifyReportsUseCase(agents.reportClassification, logger, reportRepository),
 );
 
+const getReportsUseCaseFactory = Injectable(
+    'GetReports',
+    ['ReportRepository'] as const,
+    (reportRepository: ReportRepositoryPort) => new GetReportsUseCase(reportRepository),
+);
+
+const getReportUseCaseFactory = Injectable(
+    'GetReport',
+    ['ReportRepository'] as const,
+    (reportRepository: ReportRepositoryPort) => new GetReportUseCase(reportRepository),
+);
+
+const reclassifyReportUseCaseFactory = Injectable(
+    'ReclassifyReport',
+    ['ReportRepository', 'Logger'] as const,
+    (reportRepository: ReportRepositoryPort, logger: LoggerPort) =>
+        new ReclassifyReportUseCase(reportRepository, logger),
+);
+
+const markReportDuplicateUseCaseFactory = Injectable(
+    'MarkReportDuplicate',
+    ['ReportRepository', 'Logger'] as const,
+    (reportRepository: ReportRepositoryPort, logger: LoggerPort) =>
+        new MarkReportDuplicateUseCase(reportRepository, logger),
+);
+
+const unmarkReportDuplicateUseCaseFactory = Injectable(
+    'UnmarkReportDuplicate',
+    ['ReportRepository', 'Logger'] as const,
+    (reportRepository: ReportRepositoryPort, logger: LoggerPort) =>
+        new UnmarkReportDuplicateUseCase(reportRepository, logger),
+);
+
+const republishReportUseCaseFactory = Injectable(
+    'RepublishReport',
+    ['ReportRepository', 'ArticleRepository', 'PublishReports', 'EventBus', 'Logger'] as const,
+    (
+        reportRepository: ReportRepositoryPort,
+        articleRepository: ArticleRepositoryPort,
+        publishReports: PublishReportsUseCase,
+        eventBus: EventBusPort,
+        logger: LoggerPort,
+    ) =>
+        new RepublishReportUseCase(
+            reportRepository,
+            articleRepository,
+            publishReports,
+            eventBus,
+            logger,
+        ),
+);
+
+const retractArticleUseCaseFactory = Injectable(
+    'RetractArticle',
+    ['ArticleRepository', 'Logger'] as const,
+    (articleRepository: ArticleRepositoryPort, logger: LoggerPort) =>
+        new RetractArticleUseCase(articleRepository, logger),
+);
+
 const generateArticleChallengesUseCaseFactory = Injectable(
     'GenerateArticleChallenges',
-    ['ArticleRepository', 'Agents', 'Logger'] as const,
+    ['ArticleRepository', 'Agents', 'Logger', 'EventBus'] as const,
     (
         articleRepository: ArticleRepositoryPort,
         agents: ReturnType<typeof agentFactory>,
         logger: LoggerPort,
+        eventBus: EventBusPort,
     ) =>
         new GenerateArticleChallengesUseCase(
             articleRepository,
             agents.articleQuizGeneration,
             logger,
+            eventBus,
         ),
 );
 
-/**
- * Controller factories
- */
-const controllersFactory = Injectable(
-    'Controllers',
-    ['GetArticles'] as const,
-    (getArticles: GetArticlesUseCase) => ({
-        getArticles: new GetArticlesController(getArticles),
-    }),
+const generateArticleInsightsUseCaseFactory = Injectable(
+    'GenerateArticleInsights',
+    ['ArticleRepository', 'Agents', 'Logger'] as const,
+    (
+        articleRepository: ArticleRepositoryPort,
+        agents: ReturnType<typeof agentFactory>,
+        logger: LoggerPort,
+    ) =>
+        new GenerateArticleInsightsUseCase(
+            articleRepository,
+            agents.articleInsightGeneration,
+            logger,
+        ),
 );
 
-/**
- * Task factories
- */
-const tasksFactory = Injectable(
-    'Tasks',
+const runReportPipelineUseCaseFactory = Injectable(
+    'RunReportPipeline',
     [
         'IngestReports',
         'DeduplicateReports',
         'PublishReports',
         'GenerateArticleChallenges',
+        'GenerateArticleInsights',
         'ClassifyReports',
+        'PipelineRunRepository',
         'Configuration',
         'Logger',
+        'Telemetry',
     ] as const,
     (
         ingestReports: IngestReportsUseCase,
         deduplicateReports: DeduplicateReportsUseCase,
         publishReports: PublishReportsUseCase,
         generateArticleChallenges: GenerateArticleChallengesUseCase,
+        generateArticleInsights: GenerateArticleInsightsUseCase,
         classifyReports: ClassifyReportsUseCase,
+        pipelineRunRepository: PipelineRunRepositoryPort,
         configuration: ConfigurationPort,
         logger: LoggerPort,
+        telemetry: TelemetryPort,
+    ) =>
+        new RunReportPipelineUseCase(
+            ingestReports,
+            deduplicateReports,
+            publishReports,
+            generateArticleChallenges,
+            generateArticleInsights,
+            classifyReports,
+            pipelineRunRepository,
+            configuration.getInboundConfiguration().tasks.reportPipeline,
+            logger,
+            telemetry,
+        ),
+);
+
+const getPipelineRunUseCaseFactory = Injectable(
+    'GetPipelineRun',
+    ['PipelineRunRepository'] as const,
+    (pipelineRunRepository: PipelineRunRepositoryPort) =>
+        new GetPipelineRunUseCase(pipelineRunRepository),
+);
+
+const checkReadinessUseCaseFactory = Injectable(
+    'CheckReadiness',
+    ['HealthIndicators', 'PipelineRunRepository', 'Configuration', 'Logger'] as const,
+    (
+        indicators: HealthIndicatorPort[],
+        pipelineRunRepository: PipelineRunRepositoryPort,
+        configuration: ConfigurationPort,
+        logger: LoggerPort,
+    ) =>
+        new CheckReadinessUseCase(
+            indicators,
+            pipelineRunRepository,
+            configuration.getInboundConfiguration().tasks.reportPipeline,
+            configuration.getInboundConfiguration().http.health,
+            logger,
+        ),
+);
+
+const authenticateApiKeyUseCaseFactory = Injectable(
+    'AuthenticateApiKey',
+    ['ApiKeyRepository'] as const,
+    (apiKeyRepository: ApiKeyRepositoryPort) => new AuthenticateApiKeyUseCase(apiKeyRepository),
+);
+
+const createApiKeyUseCaseFactory = Injectable(
+    'CreateApiKey',
+    ['ApiKeyRepository', 'Logger'] as const,
+    (apiKeyRepository: ApiKeyRepositoryPort, logger: LoggerPort) =>
+        new CreateApiKeyUseCase(apiKeyRepository, logger),
+);
+
+const getApiKeysUseCaseFactory = Injectable(
+    'GetApiKeys',
+    ['ApiKeyRepository'] as const,
+    (apiKeyRepository: ApiKeyRepositoryPort) => new GetApiKeysUseCase(apiKeyRepository),
+);
+
+const revokeApiKeyUseCaseFactory = Injectable(
+    'RevokeApiKey',
+    ['ApiKeyRepository', 'Logger'] as const,
+    (apiKeyRepository: ApiKeyRepositoryPort, logger: LoggerPort) =>
+        new RevokeApiKeyUseCase(apiKeyRepository, logger),
+);
+
+const createWebhookSubscriptionUseCaseFactory = Injectable(
+    'CreateWebhookSubscription',
+    ['WebhookRepository', 'Logger'] as const,
+    (webhookRepository: WebhookRepositoryPort, logger: LoggerPort) =>
+        new CreateWebhookSubscriptionUseCase(webhookRepository, logger),
+);
+
+const getWebhookSubscriptionsUseCaseFactory = Injectable(
+    'GetWebhookSubscriptions',
+    ['WebhookRepository'] as const,
+    (webhookRepository: WebhookRepositoryPort) =>
+        new GetWebhookSubscriptionsUseCase(webhookRepository),
+);
+
+const updateWebhookSubscriptionUseCaseFactory = Injectable(
+    'UpdateWebhookSubscription',
+    ['WebhookRepository', 'Logger'] as const,
+    (webhookRepository: WebhookRepositoryPort, logger: LoggerPort) =>
+        new UpdateWebhookSubscriptionUseCase(webhookRepository, logger),
+);
+
+const deleteWebhookSubscriptionUseCaseFactory = Injectable(
+    'DeleteWebhookSubscription',
+    ['WebhookRepository', 'Logger'] as const,
+    (webhookRepository: WebhookRepositoryPort, logger: LoggerPort) =>
+        new DeleteWebhookSubscriptionUseCase(webhookRepository, logger),
+);
+
+const getWebhookDeliveriesUseCaseFactory = Injectable(
+    'GetWebhookDeliveries',
+    ['WebhookRepository'] as const,
+    (webhookRepository: WebhookRepositoryPort) =>
+        new GetWebhookDeliveriesUseCase(webhookRepository),
+);
+
+const enqueueWebhookDeliveriesUseCaseFactory = Injectable(
+    'EnqueueWebhookDeliveries',
+    ['WebhookRepository', 'Logger'] as const,
+    (webhookRepository: WebhookRepositoryPort, logger: LoggerPort) =>
+        new EnqueueWebhookDeliveriesUseCase(webhookRepository, logger),
+);
+
+const deliverWebhooksUseCaseFactory = Injectable(
+    'DeliverWebhooks',
+    ['WebhookRepository', 'WebhookSender', 'Configuration', 'Logger'] as const,
+    (
+        webhookRepository: WebhookRepositoryPort,
+        webhookSender: WebhookSenderPort,
+        config: ConfigurationPort,
+        logger: LoggerPort,
+    ) =>
+        new DeliverWebhooksUseCase(
+            webhookRepository,
+            webhookSender,
+            config.getOutboundConfiguration().webhooks,
+            logger,
+        ),
+);
+
+/**
+ * Controller factories
+ */
+const controllersFactory = Injectable(
+    'Controllers',
+    [
+        'Configuration',
+        'GetArticles',
+        'GetArticle',
+        'GradeArticleQuiz',
+        'GuessArticleAuthenticity',
+        'RegisterPlayer',
+        'GetPlayerStats',
+        'GetLeaderboard',
+        'GetDailyChallenge',
+        'SearchArticles',
+        'EventBus',
+        'CreateWebhookSubscription',
+        'GetWebhookSubscriptions',
+        'UpdateWebhookSubscription',
+        'DeleteWebhookSubscription',
+        'GetWebhookDeliveries',
+        'CreateApiKey',
+        'GetApiKeys',
+        'RevokeApiKey',
+        'GetReports',
+        'GetReport',
+        'ReclassifyReport',
+        'MarkReportDuplicate',
+        'UnmarkReportDuplicate',
+        'RepublishReport',
+        'RetractArticle',
+        'RunReportPipeline',
+        'GetPipelineRun',
+        'CheckReadiness',
+    ] as const,
+    (
+        config: ConfigurationPort,
+        getArticles: GetArticlesUseCase,
+        getArticle: GetArticleUseCase,
+        gradeArticleQuiz: GradeArticleQuizUseCase,
+        guessArticleAuthenticity: GuessArticleAuthenticityUseCase,
+        registerPlayer: RegisterPlayerUseCase,
+        getPlayerStats: GetPlayerStatsUseCase,
+        getLeaderboard: GetLeaderboardUseCase,
+        getDailyChallenge: GetDailyChallengeUseCase,
+        searchArticles: SearchArticlesUseCase,
+        eventBus: EventBusPort,
+        createWebhookSubscription: CreateWebhookSubscriptionUseCase,
+        getWebhookSubscriptions: GetWebhookSubscriptionsUseCase,
+        updateWebhookSubscription: UpdateWebhookSubscriptionUseCase,
+        deleteWebhookSubscription: DeleteWebhookSubscriptionUseCase,
+        getWebhookDeliveries: GetWebhookDeliveriesUseCase,
+        createApiKey: CreateApiKeyUseCase,
+        getApiKeys: GetApiKeysUseCase,
+        revokeApiKey: RevokeApiKeyUseCase,
+        getReports: GetReportsUseCase,
+        getReport: GetReportUseCase,
+        reclassifyReport: ReclassifyReportUseCase,
+        markReportDuplicate: MarkReportDuplicateUseCase,
+        unmarkReportDuplicate: UnmarkReportDuplicateUseCase,
+        republishReport: RepublishReportUseCase,
+        retractArticle: RetractArticleUseCase,
+        runReportPipeline: RunReportPipelineUseCase,
+        getPipelineRun: GetPipelineRunUseCase,
+        checkReadiness: CheckReadinessUseCase,
+    ): HonoServerControllers => {
+        const { hideAuthenticity, hideQuizAnswers } = config.getInboundConfiguration().challenges;
+        const presenterOptions = { hideAuthenticity, hideQuizAnswers };
+
+        return {
+            checkReadiness: new CheckReadinessController(checkReadiness),
+            createApiKey: new CreateApiKeyController(createApiKey),
+            createWebhookSubscription: new CreateWebhookSubscriptionController(
+                createWebhookSubscription,
+            ),
+            deleteWebhookSubscription: new DeleteWebhookSubscriptionController(
+                deleteWebhookSubscription,
+            ),
+            getApiKeys: new GetApiKeysController(getApiKeys),
+            getArticle: new GetArticleController(getArticle, presenterOptions),
+            getArticles: new GetArticlesController(getArticles, presenterOptions),
+            getDailyChallenge: new GetDailyChallengeController(getDailyChallenge, presenterOptions),
+            getFeed: new GetFeedController(getArticles),
+            getLeaderboard: new GetLeaderboardController(getLeaderboard),
+            getPipelineRun: new GetPipelineRunController(getPipelineRun),
+            getPlayerStats: new GetPlayerStatsController(getPlayerStats),
+            getReport: new GetReportController(getReport),
+            getReports: new GetReportsController(getReports),
+            getWebhookDeliveries: new GetWebhookDeliveriesController(getWebhookDeliveries),
+            getWebhookSubscriptions: new GetWebhookSubscriptionsController(getWebhookSubscriptions),
+            gradeArticleQuiz: new GradeArticleQuizController(gradeArticleQuiz),
+            guessArticleAuthenticity: new GuessArticleAuthenticityController(
+                guessArticleAuthenticity,
+            ),
+            markReportDuplicate: new MarkReportDuplicateController(markReportDuplicate),
+            reclassifyReport: new ReclassifyReportController(reclassifyReport),
+            registerPlayer: new RegisterPlayerController(registerPlayer),
+            republishReport: new RepublishReportController(republishReport),
+            retractArticle: new RetractArticleController(retractArticle),
+            revokeApiKey: new RevokeApiKeyController(revokeApiKey),
+            searchArticles: new SearchArticlesController(searchArticles, presenterOptions),
+            startPipelineRun: new StartPipelineRunController(runReportPipeline),
+            streamArticles: new StreamArticlesController(eventBus),
+            unmarkReportDuplicate: new UnmarkReportDuplicateController(unmarkReportDuplicate),
+            updateWebhookSubscription: new UpdateWebhookSubscriptionController(
+                updateWebhookSubscription,
+            ),
+        };
+    },
+);
+
+/**
+ * Task factories
+ */
+const tasksFactory = Injectable(
+    'Tasks',
+    [
+        'RunReportPipeline',
+        'EnqueueWebhookDeliveries',
+        'DeliverWebhooks',
+        'EventBus',
+        'Logger',
+    ] as const,
+    (
+        runReportPipeline: RunReportPipelineUseCase,
+        enqueueWebhookDeliveries: EnqueueWebhookDeliveriesUseCase,
+        deliverWebhooks: DeliverWebhooksUseCase,
+        eventBus: EventBusPort,
+        logger: LoggerPort,
     ): TaskPort[] => {
         const tasks: TaskPort[] = [];
 
         // Report pipeline task
-        const reportPipelineConfigs = configuration.getInboundConfiguration().tasks.reportPipeline;
+        tasks.push(new ReportPipelineTask(runReportPipeline, logger));
+
+        // Webhook delivery task
         tasks.push(
-            new ReportPipelineTask(
-                ingestReports,
-                deduplicateReports,
-                publishReports,
-                generateArticleChallenges,
-                classifyReports,
-                reportPipelineConfigs,
-                logger,
-            ),
+            new WebhookDeliveryTask(enqueueWebhookDeliveries, deliverWebhooks, eventBus, logger),
         );
 
         return tasks;
@@ -312,19 +905,40 @@ const tasksFactory = Injectable(
 /**
  * Telemetry adapters
  */
+const metricsFactory = Injectable(
+    'Metrics',
+    ['Configuration', 'Logger'] as const,
+    (config: ConfigurationPort, logger: LoggerPort): null | PrometheusTelemetryAdapter => {
+        if (!config.getInboundConfiguration().http.metrics.enabled) {
+            return null;
+        }
+
+        logger.info('Initializing Prometheus metrics', { endpoint: '/metrics' });
+        return new PrometheusTelemetryAdapter();
+    },
+);
+
 const telemetryFactory = Injectable(
     'Telemetry',
-    ['Configuration', 'Logger'] as const,
-    (config: ConfigurationPort, logger: LoggerPort): TelemetryPort => {
+    ['Configuration', 'Metrics', 'Logger'] as const,
+    (
+        config: ConfigurationPort,
+        metrics: null | PrometheusTelemetryAdapter,
+        logger: LoggerPort,
+    ): TelemetryPort => {
         const telemetryEnabled = config.getOutboundConfiguration().telemetry.enabled;
 
         if (!telemetryEnabled) {
+            if (metrics) return metrics;
+
             logger.info('Telemetry disabled, using noop adapter');
             return new NoopTelemetryAdapter();
         }
 
         logger.info('Initializing OpenTelemetry', { provider: 'OpenTelemetry' });
-        return new OpenTelemetryAdapter('n00-api');
+        const openTelemetry = new OpenTelemetryAdapter('n00-api');
+
+        return metrics ? new CompositeTelemetryAdapter([openTelemetry, metrics]) : openTelemetry;
     },
 );
 
@@ -334,12 +948,56 @@ const telemetryFactory = Injectable(
 const configurationFactory = (overrides?: ContainerOverrides) =>
     Injectable('Configuration', () => new NodeConfig(nodeConfiguration, overrides));
 
+const httpCacheFactory = Injectable(
+    'HttpCache',
+    ['Configuration'] as const,
+    (config: ConfigurationPort) => new HttpCache(config.getInboundConfiguration().http.cache),
+);
+
+const apiKeyAuthFactory = Injectable(
+    'ApiKeyAuth',
+    ['AuthenticateApiKey', 'Configuration'] as const,
+    (authenticateApiKey: AuthenticateApiKeyUseCase, config: ConfigurationPort) =>
+        new ApiKeyAuth(
+            authenticateApiKey,
+            config.getInboundConfiguration().admin,
+            config.getInboundConfiguration().auth,
+        ),
+);
+
+const rateLimiterFactory = Injectable(
+    'RateLimiter',
+    ['Configuration'] as const,
+    (config: ConfigurationPort) => new RateLimiter(config.getInboundConfiguration().http.rateLimit),
+);
+
+const httpMetricsFactory = Injectable(
+    'HttpMetrics',
+    ['Telemetry', 'Metrics'] as const,
+    (telemetry: TelemetryPort, metrics: null | PrometheusTelemetryAdapter) =>
+        new HttpMetrics(telemetry, metrics),
+);
+
 const serverFactory = Injectable(
     'Server',
-    ['Logger', 'Controllers'] as const,
-    (logger: LoggerPort, controllers: { getArticles: GetArticlesController }): ServerPort => {
+    ['Logger', 'Controllers', 'HttpCache', 'ApiKeyAuth', 'RateLimiter', 'HttpMetrics'] as const,
+    (
+        logger: LoggerPort,
+        controllers: HonoServerControllers,
+        httpCache: HttpCache,
+        apiKeyAuth: ApiKeyAuth,
+        rateLimiter: RateLimiter,
+        httpMetrics: HttpMetrics,
+    ): ServerPort => {
         logger.info('Initializing Server', { implementation: 'Hono' });
-        const server = new HonoServer(logger, controllers.getArticles);
+        const server = new HonoServer(
+            logger,
+            controllers,
+            httpCache,
+            apiKeyAuth,
+            rateLimiter,
+            httpMetrics,
+        );
         return server;
     },
 );
@@ -366,25 +1024,68 @@ export const createContainer = (overrides?: ContainerOverrides) =>
         // Outbound adapters
         .provides(configurationFactory(overrides))
         .provides(loggerFactory)
+        .provides(metricsFactory)
         .provides(telemetryFactory)
+        .provides(eventBusFactory)
+        .provides(httpCacheFactory)
         .provides(databaseFactory)
         .provides(newsFactory)
         .provides(providerFactory)
         .provides(agentFactory)
+        .provides(webhookSenderFactory)
+        .provides(healthIndicatorsFactory)
         // Repositories
         .provides(articleRepositoryFactory)
         .provides(reportRepositoryFactory)
+        .provides(playerRepositoryFactory)
+        .provides(dailyChallengeRepositoryFactory)
+        .provides(apiKeyRepositoryFactory)
+        .provides(webhookRepositoryFactory)
+        .provides(pipelineRunRepositoryFactory)
         // Use cases
         .provides(getArticlesUseCaseFactory)
+        .provides(getArticleUseCaseFactory)
+        .provides(searchArticlesUseCaseFactory)
+        .provides(gradeArticleQuizUseCaseFactory)
+        .provides(guessArticleAuthenticityUseCaseFactory)
+        .provides(registerPlayerUseCaseFactory)
+        .provides(getPlayerStatsUseCaseFactory)
+        .provides(getLeaderboardUseCaseFactory)
+        .provides(getDailyChallengeUseCaseFactory)
         .provides(fabricateArticlesUseCaseFactory)
         .provides(ingestReportsUseCaseFactory)
         .provides(deduplicateReportsUseCaseFactory)
         .provides(publishReportsUseCaseFactory)
         .provides(generateArticleChallengesUseCaseFactory)
+        .provides(generateArticleInsightsUseCaseFactory)
         .provides(classifyReportsUseCaseFactory)
+        .provides(getReportsUseCaseFactory)
+        .provides(getReportUseCaseFactory)
+        .provides(reclassifyReportUseCaseFactory)
+        .provides(markReportDuplicateUseCaseFactory)
+        .provides(unmarkReportDuplicateUseCaseFactory)
+        .provides(republishReportUseCaseFactory)
+        .provides(retractArticleUseCaseFactory)
+        .provides(runReportPipelineUseCaseFactory)
+        .provides(getPipelineRunUseCaseFactory)
+        .provides(checkReadinessUseCaseFactory)
+        .provides(authenticateApiKeyUseCaseFactory)
+        .provides(createApiKeyUseCaseFactory)
+        .provides(getApiKeysUseCaseFactory)
+        .provides(revokeApiKeyUseCaseFactory)
+        .provides(createWebhookSubscriptionUseCaseFactory)
+        .provides(getWebhookSubscriptionsUseCaseFactory)
+        .provides(updateWebhookSubscriptionUseCaseFactory)
+        .provides(deleteWebhookSubscriptionUseCaseFactory)
+        .provides(getWebhookDeliveriesUseCaseFactory)
+        .provides(enqueueWebhookDeliveriesUseCaseFactory)
+        .provides(deliverWebhooksUseCaseFactory)
         // Controllers and tasks
         .provides(controllersFactory)
         .provides(tasksFactory)
         // Inbound adapters
+        .provides(apiKeyAuthFactory)
+        .provides(rateLimiterFactory)
+        .provides(httpMetricsFactory)
         .provides(serverFactory)
         .provides(workerFactory);
@@ -0,0 +1,65 @@
+import { z } from 'zod/v4';
+
+export const apiKeyScopeSchema = z
+    .enum(['admin', 'play', 'read:articles'])
+    .describe(
+        'Permission granted to a client: read:articles for article, challenge and feed reads, play for players, answers and leaderboards, admin for everything.',
+    );
+
+export type ApiKeyScope = z.infer<typeof apiKeyScopeSchema>;
+
+export const apiKeySchema = z.object({
+    createdAt: z.date(),
+    id: z.uuid(),
+    keyHash: z.string().regex(/^[0-9a-f]{64}$/),
+    label: z
+        .string()
+        .regex(/^[a-z0-9][a-z0-9-]{0,63}$/)
+        .describe('Unique client name in kebab-case, also used to configure its rate limit.'),
+    prefix: z.string().min(1),
+    revokedAt: z.date().optional(),
+    scopes: z.array(apiKeyScopeSchema).min(1),
+});
+
+export type ApiKeyProps = z.input<typeof apiKeySchema>;
+
+/**
+ * @description Credentials of an API client, stored hashed, with the scopes it was granted
+ */
+export class ApiKey {
+    public readonly createdAt: Date;
+    public readonly id: string;
+    public readonly keyHash: string;
+    public readonly label: string;
+    public readonly prefix: string;
+    public readonly revokedAt?: Date;
+    public readonly scopes: ApiKeyScope[];
+
+    public constructor(data: ApiKeyProps) {
+        const result = apiKeySchema.safeParse(data);
+
+        if (!result.success) {
+            throw new Error(`Invalid API key data: ${result.error.message}`);
+        }
+
+        const validatedData = result.data;
+        this.id = validatedData.id;
+        this.label = validatedData.label;
+        this.prefix = validatedData.prefix;
+        this.keyHash = validatedData.keyHash;
+        this.scopes = validatedData.scopes;
+        this.revokedAt = validatedData.revokedAt;
+        this.createdAt = validatedData.createdAt;
+    }
+
+    /**
+     * Whether the key may be used for a scope; `admin` grants every scope
+     */
+    public grants(scope: ApiKeyScope): boolean {
+        return !this.isRevoked() && (this.scopes.includes('admin') || this.scopes.includes(scope));
+    }
+
+    public isRevoked(): boolean {
+        return this.revokedAt !== undefined;
+    }
+}
@@ -1,6 +1,7 @@
 import { z } from 'zod/v4';
 
 import { ArticleFrame } from '../value-objects/article-frame/article-frame.vo.js';
+import { ArticleInsight } from '../value-objects/article-insight/article-insight.vo.js';
 import { ArticleQuizQuestions } from '../value-objects/article-quiz-questions.vo.js';
 import { ArticleTraits } from '../value-objects/article-traits.vo.js';
 import { Authenticity } from '../value-objects/article/authenticity.vo.js';
@@ -19,10 +20,12 @@ export const articleSchema = z.object({
     frames: z.array(z.instanceof(ArticleFrame)).optional(),
     headline: z.instanceof(Headline),
     id: z.uuid(),
+    insights: z.array(z.instanceof(ArticleInsight)).optional(),
     language: z.instanceof(Language),
     publishedAt: z.date(),
     quizQuestions: z.instanceof(ArticleQuizQuestions).optional(),
     reportIds: z.array(z.string()).optional(),
+    retractedAt: z.date().optional(),
     tier: z.instanceof(Classification).optional(),
     traits: z.instanceof(ArticleTraits),
 });
@@ -37,10 +40,12 @@ export class Article {
     public readonly frames?: ArticleFrame[];
     public readonly headline: Headline;
     public readonly id: string;
+    public readonly insights?: ArticleInsight[];
     public readonly language: Language;
     public readonly publishedAt: Date;
     public readonly quizQuestions?: ArticleQuizQuestions;
     public readonly reportIds?: string[];
+    public readonly retractedAt?: Date;
     public readonly tier?: Classification;
     public readonly traits: ArticleTraits;
 
@@ -60,17 +65,34 @@ export class Article {
         this.tier = validatedData.tier;
         this.headline = validatedData.headline;
         this.id = validatedData.id;
+        this.insights = validatedData.insights;
         this.language = validatedData.language;
         this.publishedAt = validatedData.publishedAt;
         this.quizQuestions = validatedData.quizQuestions;
         this.reportIds = validatedData.reportIds;
+        this.retractedAt = validatedData.retractedAt;
         this.frames = validatedData.frames;
     }
 
+    /**
+     * Whether readers are served analyses of this article: authentic news of general
+     * interest, or articles marked essential
+     */
+    public deservesInsights(): boolean {
+        return !this.isFabricated() && (this.tier?.value === 'GENERAL' || this.traits.essential);
+    }
+
     public isFabricated(): boolean {
         return this.authenticity.isFabricated();
     }
 
+    /**
+     * Whether an editor withdrew the article from the public listings
+     */
+    public isRetracted(): boolean {
+        return this.retractedAt !== undefined;
+    }
+
     /**
      * Determines if this article should show an authenticity challenge.
      * Always shows for fabricated articles, and for 20% of authentic articles
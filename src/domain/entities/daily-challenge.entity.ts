@@ -0,0 +1,49 @@
+import { z } from 'zod/v4';
+
+import { Country } from '../value-objects/country.vo.js';
+import { Language } from '../value-objects/language.vo.js';
+
+export const dailyChallengeSchema = z.object({
+    articleIds: z
+        .array(z.uuid())
+        .min(1)
+        .describe('Ids of the selected articles, in the order they are played.'),
+    country: z.instanceof(Country),
+    createdAt: z.date(),
+    date: z
+        .string()
+        .regex(/^\d{4}-\d{2}-\d{2}$/)
+        .describe('Local date (yyyy-MM-dd) of the edition in the country timezone.'),
+    id: z.uuid(),
+    language: z.instanceof(Language),
+});
+
+export type DailyChallengeProps = z.input<typeof dailyChallengeSchema>;
+
+/**
+ * @description Edition of articles shared by every player of a locale on a given local day
+ */
+export class DailyChallenge {
+    public readonly articleIds: string[];
+    public readonly country: Country;
+    public readonly createdAt: Date;
+    public readonly date: string;
+    public readonly id: string;
+    public readonly language: Language;
+
+    public constructor(data: DailyChallengeProps) {
+        const result = dailyChallengeSchema.safeParse(data);
+
+        if (!result.success) {
+            throw new Error(`Invalid daily challenge data: ${result.error.message}`);
+        }
+
+        const validatedData = result.data;
+        this.id = validatedData.id;
+        this.country = validatedData.country;
+        this.language = validatedData.language;
+        this.date = validatedData.date;
+        this.articleIds = validatedData.articleIds;
+        this.createdAt = validatedData.createdAt;
+    }
+}
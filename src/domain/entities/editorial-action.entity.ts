@@ -0,0 +1,74 @@
+import { z } from 'zod/v4';
+
+export const editorialActionTypeSchema = z
+    .enum([
+        'MARK_DUPLICATE',
+        'RECLASSIFY_REPORT',
+        'REPUBLISH_REPORT',
+        'RETRACT_ARTICLE',
+        'UNMARK_DUPLICATE',
+    ])
+    .describe('Correction an editor made to a decision of the pipeline.');
+
+export type EditorialActionType = z.infer<typeof editorialActionTypeSchema>;
+
+export const editorialChangeSchema = z.object({
+    from: z.unknown(),
+    to: z.unknown(),
+});
+
+export type EditorialChange = z.infer<typeof editorialChangeSchema>;
+
+export const editorialActionSchema = z
+    .object({
+        actor: z
+            .string()
+            .min(1)
+            .describe('Who made the change: an API key label or the admin token.'),
+        articleId: z.uuid().optional(),
+        changes: z
+            .record(z.string(), editorialChangeSchema)
+            .describe('Changed fields with their previous and next values.'),
+        createdAt: z.date(),
+        id: z.uuid(),
+        reason: z.string().trim().min(1).describe('Why the change was made.'),
+        reportId: z.uuid().optional(),
+        type: editorialActionTypeSchema,
+    })
+    .refine((data) => data.articleId !== undefined || data.reportId !== undefined, {
+        message: 'An editorial action targets a report or an article',
+    });
+
+export type EditorialActionProps = z.input<typeof editorialActionSchema>;
+
+/**
+ * @description Audit record of an editorial override: what changed, who changed it and why
+ */
+export class EditorialAction {
+    public readonly actor: string;
+    public readonly articleId?: string;
+    public readonly changes: Record<string, EditorialChange>;
+    public readonly createdAt: Date;
+    public readonly id: string;
+    public readonly reason: string;
+    public readonly reportId?: string;
+    public readonly type: EditorialActionType;
+
+    public constructor(data: EditorialActionProps) {
+        const result = editorialActionSchema.safeParse(data);
+
+        if (!result.success) {
+            throw new Error(`Invalid editorial action data: ${result.error.message}`);
+        }
+
+        const validatedData = result.data;
+        this.id = validatedData.id;
+        this.type = validatedData.type;
+        this.reportId = validatedData.reportId;
+        this.articleId = validatedData.articleId;
+        this.changes = validatedData.changes;
+        this.actor = validatedData.actor;
+        this.reason = validatedData.reason;
+        this.createdAt = validatedData.createdAt;
+    }
+}
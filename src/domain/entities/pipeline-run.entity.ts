@@ -0,0 +1,111 @@
+import { z } from 'zod/v4';
+
+import { countrySchema } from '../value-objects/country.vo.js';
+import { languageSchema } from '../value-objects/language.vo.js';
+
+/**
+ * Steps of the report pipeline, in the order they run
+ */
+export const PIPELINE_STEPS = [
+    'ingest',
+    'deduplicate',
+    'classify',
+    'publish',
+    'challenge',
+    'analyze',
+] as const;
+
+export const pipelineStepSchema = z.enum(PIPELINE_STEPS).describe('A step of the report pipeline.');
+
+export type PipelineStep = z.infer<typeof pipelineStepSchema>;
+
+export const pipelineRunStatusSchema = z.enum(['FAILED', 'RUNNING', 'SUCCEEDED']);
+
+export type PipelineRunStatus = z.infer<typeof pipelineRunStatusSchema>;
+
+export const pipelineStepStatusSchema = z.enum([
+    'FAILED',
+    'PENDING',
+    'RUNNING',
+    'SKIPPED',
+    'SUCCEEDED',
+]);
+
+export type PipelineStepStatus = z.infer<typeof pipelineStepStatusSchema>;
+
+export const pipelineRunTriggerSchema = z
+    .enum(['MANUAL', 'SCHEDULE'])
+    .describe('Whether the run was requested through the API or started by the schedule.');
+
+export type PipelineRunTrigger = z.infer<typeof pipelineRunTriggerSchema>;
+
+export const pipelineRunTargetSchema = z.object({
+    country: countrySchema,
+    language: languageSchema,
+});
+
+export type PipelineRunTarget = z.infer<typeof pipelineRunTargetSchema>;
+
+export const pipelineStepProgressSchema = z.object({
+    error: z.string().optional(),
+    finishedAt: z.date().optional(),
+    name: pipelineStepSchema,
+    processedCount: z
+        .number()
+        .int()
+        .min(0)
+        .optional()
+        .describe('Reports or articles the step produced, when it reports them.'),
+    startedAt: z.date().optional(),
+    status: pipelineStepStatusSchema,
+});
+
+export type PipelineStepProgress = z.infer<typeof pipelineStepProgressSchema>;
+
+export const pipelineRunSchema = z.object({
+    error: z.string().optional(),
+    finishedAt: z.date().optional(),
+    id: z.uuid(),
+    requestedBy: z.string().min(1).optional(),
+    startedAt: z.date(),
+    status: pipelineRunStatusSchema,
+    steps: z.array(pipelineStepProgressSchema).min(1),
+    targets: z.array(pipelineRunTargetSchema).min(1),
+    trigger: pipelineRunTriggerSchema,
+});
+
+export type PipelineRunProps = z.input<typeof pipelineRunSchema>;
+
+/**
+ * @description A run of the report pipeline over a set of country/language pairs, with the progress of each step
+ */
+export class PipelineRun {
+    public readonly error?: string;
+    public readonly finishedAt?: Date;
+    public readonly id: string;
+    public readonly requestedBy?: string;
+    public readonly startedAt: Date;
+    public readonly status: PipelineRunStatus;
+    public readonly steps: PipelineStepProgress[];
+    public readonly targets: PipelineRunTarget[];
+    public readonly trigger: PipelineRunTrigger;
+
+    public constructor(data: PipelineRunProps) {
+        const result = pipelineRunSchema.safeParse(data);
+
+        if (!result.success) {
+            throw new Error(`Invalid pipeline run data: ${result.error.message}`);
+        }
+
+        const validatedData = result.data;
+        this.id = validatedData.id;
+        this.trigger = validatedData.trigger;
+        this.requestedBy = validatedData.requestedBy;
+        this.targets = validatedData.targets;
+        this.steps = validatedData.steps;
+        this.status = validatedData.status;
+        this.error = validatedData.error;
+        this.startedAt = validatedData.startedAt;
+        this.finishedAt = validatedData.finishedAt;
+    }
+}
@@ -0,0 +1,42 @@
+import { z } from 'zod/v4';
+
+export const createdAtSchema = z.date().describe('The timestamp when the player first registered.');
+
+export const deviceIdSchema = z
+    .string()
+    .trim()
+    .min(8)
+    .max(128)
+    .describe('Anonymous identifier of the device the player plays from.');
+
+export const idSchema = z.uuid().describe('The unique identifier for the player.');
+
+export const playerSchema = z.object({
+    createdAt: createdAtSchema,
+    deviceId: deviceIdSchema,
+    id: idSchema,
+});
+
+export type PlayerProps = z.input<typeof playerSchema>;
+
+/**
+ * @description Anonymous player of the news games, identified by the device it plays from
+ */
+export class Player {
+    public readonly createdAt: Date;
+    public readonly deviceId: string;
+    public readonly id: string;
+
+    public constructor(data: PlayerProps) {
+        const result = playerSchema.safeParse(data);
+
+        if (!result.success) {
+            throw new Error(`Invalid player data: ${result.error.message}`);
+        }
+
+        const validatedData = result.data;
+        this.id = validatedData.id;
+        this.deviceId = validatedData.deviceId;
+        this.createdAt = validatedData.createdAt;
+    }
+}
@@ -47,6 +47,11 @@ export const datelineSchema = z
 
 export const idSchema = z.uuid().describe('The unique identifier for the report.');
 
+export const duplicateOfIdSchema = z
+    .uuid()
+    .optional()
+    .describe('The canonical report this report duplicates, if any.');
+
 export const anglesSchema = z
     .array(z.instanceof(ReportAngle))
     .describe('A list of different viewpoints or angles on the report.');
@@ -72,6 +77,7 @@ export const reportSchema = z.object({
     createdAt: createdAtSchema,
     dateline: datelineSchema,
     deduplicationState: deduplicationStateSchema,
+    duplicateOfId: duplicateOfIdSchema,
     id: idSchema,
     sourceReferences: sourceReferencesSchema,
     tier: classificationSchema,
@@ -94,6 +100,7 @@ export class Report {
     public readonly createdAt: Date;
     public readonly dateline: Date;
     public readonly deduplicationState: DeduplicationState;
+    public readonly duplicateOfId?: string;
     public readonly id: string;
     public readonly sourceReferences: string[];
     public readonly tier?: Classification;
@@ -122,5 +129,6 @@ export class Report {
         this.classificationState = validatedData.classificationState;
         this.tier = validatedData.tier;
         this.deduplicationState = validatedData.deduplicationState;
+        this.duplicateOfId = validatedData.duplicateOfId;
     }
 }
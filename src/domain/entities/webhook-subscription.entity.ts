@@ -0,0 +1,98 @@
+import { z } from 'zod/v4';
+
+import { type Country, type CountryEnum, countrySchema } from '../value-objects/country.vo.js';
+import { type Language, type LanguageEnum, languageSchema } from '../value-objects/language.vo.js';
+
+export const webhookEventTypeSchema = z
+    .enum(['articles.published', 'quizzes.generated'])
+    .describe('Domain event a partner can be notified about.');
+
+export type WebhookEventType = z.infer<typeof webhookEventTypeSchema>;
+
+export const webhookSubscriptionSchema = z.object({
+    consecutiveFailures: z
+        .number()
+        .int()
+        .min(0)
+        .describe('Failed delivery attempts since the last successful one.'),
+    countries: z
+        .array(countrySchema)
+        .describe('Countries to be notified about; empty for every country.'),
+    createdAt: z.date(),
+    enabled: z.boolean().describe('Disabled subscriptions receive no new deliveries.'),
+    eventTypes: z.array(webhookEventTypeSchema).min(1),
+    id: z.uuid(),
+    languages: z
+        .array(languageSchema)
+        .describe('Languages to be notified about; empty for every language.'),
+    secret: z.string().min(16).describe('Shared secret signing every delivery.'),
+    url: z
+        .url({ protocol: /^https?$/ })
+        .describe('Endpoint receiving the deliveries as JSON POST requests.'),
+});
+
+export type WebhookSubscriptionProps = z.input<typeof webhookSubscriptionSchema>;
+
+/**
+ * @description Partner endpoint notified about domain events of the locales it follows
+ */
+export class WebhookSubscription {
+    public readonly consecutiveFailures: number;
+    public readonly countries: CountryEnum[];
+    public readonly createdAt: Date;
+    public readonly enabled: boolean;
+    public readonly eventTypes: WebhookEventType[];
+    public readonly id: string;
+    public readonly languages: LanguageEnum[];
+    public readonly secret: string;
+    public readonly url: string;
+
+    public constructor(data: WebhookSubscriptionProps) {
+        const result = webhookSubscriptionSchema.safeParse(data);
+
+        if (!result.success) {
+            throw new Error(`Invalid webhook subscription data: ${result.error.message}`);
+        }
+
+        const validatedData = result.data;
+        this.id = validatedData.id;
+        this.url = validatedData.url;
+        this.secret = validatedData.secret;
+        this.eventTypes = validatedData.eventTypes;
+        this.countries = validatedData.countries;
+        this.languages = validatedData.languages;
+        this.enabled = validatedData.enabled;
+        this.consecutiveFailures = validatedData.consecutiveFailures;
+        this.createdAt = validatedData.createdAt;
+    }
+
+    /**
+     * Whether an event of this type about this locale should be delivered
+     */
+    public accepts(eventType: WebhookEventType, country: Country, language: Language): boolean {
+        return (
+            this.enabled &&
+            this.eventTypes.includes(eventType) &&
+            (this.countries.length === 0 || this.countries.includes(country.toString())) &&
+            (this.languages.length === 0 || this.languages.includes(language.toString()))
+        );
+    }
+
+    /**
+     * Copy with some properties replaced, validated like a new subscription
+     */
+    public with(changes: Partial<WebhookSubscriptionProps>): WebhookSubscription {
+        return new WebhookSubscription({
+            consecutiveFailures: this.consecutiveFailures,
+            countries: this.countries,
+            createdAt: this.createdAt,
+            enabled: this.enabled,
+            eventTypes: this.eventTypes,
+            id: this.id,
+            languages: this.languages,
+            secret: this.secret,
+            url: this.url,
+            ...changes,
+        });
+    }
+}
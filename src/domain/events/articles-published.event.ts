@@ -0,0 +1,14 @@
+// Domain
+import { type Article } from '../entities/article.entity.js';
+
+/**
+ * Raised once newly published articles have been persisted
+ */
+export class ArticlesPublishedEvent {
+    readonly type = 'articles.published';
+
+    constructor(
+        readonly articles: Article[],
+        readonly occurredAt: Date = new Date(),
+    ) {}
+}
@@ -0,0 +1,14 @@
+// Domain
+import { type Article } from '../entities/article.entity.js';
+
+/**
+ * Raised once quiz questions generated for articles have been persisted
+ */
+export class QuizzesGeneratedEvent {
+    readonly type = 'quizzes.generated';
+
+    constructor(
+        readonly articles: Article[],
+        readonly occurredAt: Date = new Date(),
+    ) {}
+}
@@ -0,0 +1,51 @@
+import { createHash, randomBytes } from 'node:crypto';
+import { z } from 'zod/v4';
+
+const API_KEY_PREFIX = 'n00_';
+
+export const apiKeySecretSchema = z
+    .string()
+    .regex(/^n00_[A-Za-z0-9_-]{32}$/, 'API keys look like n00_ followed by 32 characters');
+
+/**
+ * Plaintext API key, only known to the client once issued
+ */
+export class ApiKeySecret {
+    public readonly value: string;
+
+    constructor(secret: string) {
+        const result = apiKeySecretSchema.safeParse(secret);
+
+        if (!result.success) {
+            throw new Error(`Invalid API key: ${result.error.issues[0].message}`);
+        }
+
+        this.value = result.data;
+    }
+
+    /**
+     * Issue a new random key (192 bits of entropy)
+     */
+    public static generate(): ApiKeySecret {
+        return new ApiKeySecret(`${API_KEY_PREFIX}${randomBytes(24).toString('base64url')}`);
+    }
+
+    /**
+     * SHA-256 of the key, the only form it is stored in.
+     * Keys are random enough that a slow password hash would add nothing.
+     */
+    public hash(): string {
+        return createHash('sha256').update(this.value).digest('hex');
+    }
+
+    /**
+     * Leading characters shown in listings to recognise a key
+     */
+    public prefix(): string {
+        return this.value.slice(0, API_KEY_PREFIX.length + 6);
+    }
+
+    public toString(): string {
+        return this.value;
+    }
+}
@@ -0,0 +1,48 @@
+import { z } from 'zod/v4';
+
+/**
+ * Perspectives the insight agent analyses an article from
+ */
+export const articleInsightKindSchema = z.enum(['WHAT_TO_WATCH', 'WHY_IT_MATTERS']);
+
+export type ArticleInsightKind = z.infer<typeof articleInsightKindSchema>;
+
+/**
+ * How long an analysis stays relevant, as an ISO 8601 duration
+ */
+export const articleInsightDurationSchema = z.enum(['P1W', 'P1M', 'P1Y']);
+
+export type ArticleInsightDuration = z.infer<typeof articleInsightDurationSchema>;
+
+export const articleInsightSchema = z.object({
+    analysis: z.string().min(20).max(1200),
+    duration: articleInsightDurationSchema,
+    kind: articleInsightKindSchema,
+    publishedAt: z.date(),
+});
+
+export type ArticleInsightData = z.input<typeof articleInsightSchema>;
+
+/**
+ * @description Represents an analysis of an article, e.g. why its news matters to readers
+ */
+export class ArticleInsight {
+    public readonly analysis: string;
+    public readonly duration: ArticleInsightDuration;
+    public readonly kind: ArticleInsightKind;
+    public readonly publishedAt: Date;
+
+    constructor(data: ArticleInsightData) {
+        const result = articleInsightSchema.safeParse(data);
+
+        if (!result.success) {
+            throw new Error(`Invalid article insight data: ${result.error.message}`);
+        }
+
+        const validatedData = result.data;
+        this.analysis = validatedData.analysis;
+        this.duration = validatedData.duration;
+        this.kind = validatedData.kind;
+        this.publishedAt = validatedData.publishedAt;
+    }
+}
@@ -0,0 +1,66 @@
+import { describe, expect, test } from 'vitest';
+
+import { AnnotatedText } from '../annotated-text.vo.js';
+
+describe('AnnotatedText', () => {
+    test('should locate each annotated passage in the plain text', () => {
+        // When
+        const annotated = new AnnotatedText(
+            'Prices %%[(tripled)](invented figure)%% after the %%[(minister)]( no such official )%% resigned.',
+        );
+
+        // Then
+        expect(annotated.text).toBe('Prices tripled after the minister resigned.');
+        expect(annotated.annotations).toEqual([
+            { end: 14, explanation: 'invented figure', start: 7, text: 'tripled' },
+            { end: 33, explanation: 'no such official', start: 25, text: 'minister' },
+        ]);
+    });
+
+    test('should offset later passages by the plain text of earlier ones', () => {
+        // When
+        const annotated = new AnnotatedText('%%[(A)](first)%%%%[(long passage)](second)%% end');
+
+        // Then
+        expect(annotated.text).toBe('Along passage end');
+        for (const annotation of annotated.annotations) {
+            expect(annotated.text.slice(annotation.start, annotation.end)).toBe(annotation.text);
+        }
+        expect(annotated.annotations[1]).toMatchObject({ end: 13, start: 1 });
+    });
+
+    test('should keep closing parentheses inside an explanation', () => {
+        // When
+        const annotated = new AnnotatedText(
+            'The %%[(summit)](never held (see the agenda))%% ended early.',
+        );
+
+        // Then
+        expect(annotated.text).toBe('The summit ended early.');
+        expect(annotated.annotations).toEqual([
+            { end: 10, explanation: 'never held (see the agenda)', start: 4, text: 'summit' },
+        ]);
+    });
+
+    test('should reject stray delimiters and empty explanations', () => {
+        // When / Then
+        expect(() => new AnnotatedText('Growth reached 5%% this year.')).toThrow(
+            'Invalid annotated text: malformed annotation at offset 16',
+        );
+        expect(() => new AnnotatedText('The %%[(summit)]()%% ended early.')).toThrow(
+            'Invalid annotated text',
+        );
+    });
+
+    test('should read malformed markup as plain text when tolerant', () => {
+        // When
+        const strayDelimiter = AnnotatedText.tolerant('Growth reached 5%% this year.');
+        const emptyExplanation = AnnotatedText.tolerant('The %%[(summit)]()%% ended early.');
+
+        // Then
+        expect(strayDelimiter.text).toBe('Growth reached 5 this year.');
+        expect(strayDelimiter.annotations).toEqual([]);
+        expect(emptyExplanation.text).toBe('The summit ended early.');
+        expect(emptyExplanation.annotations).toEqual([]);
+    });
+});
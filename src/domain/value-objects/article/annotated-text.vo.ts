@@ -0,0 +1,101 @@
+import { z } from 'zod/v4';
+
+/**
+ * Inline markup of an annotated passage: `%%[(passage)](explanation)%%`
+ */
+const ANNOTATION_PATTERN = /%%\[\((.*?)\)\]\((.*?)\)%%/g;
+
+const ANNOTATION_DELIMITER = '%%';
+
+export const annotationSchema = z
+    .object({
+        end: z.number().int().min(0).describe('Offset right after the passage in the plain text'),
+        explanation: z.string().min(1).describe('Why the passage is annotated'),
+        start: z.number().int().min(0).describe('Offset of the passage in the plain text'),
+        text: z.string().min(1).describe('The annotated passage'),
+    })
+    .refine((annotation) => annotation.end - annotation.start === annotation.text.length, {
+        message: 'Annotation offsets must span its text',
+        path: ['end'],
+    });
+
+export type Annotation = z.infer<typeof annotationSchema>;
+
+/**
+ * @description
+ * Text carrying inline annotations, e.g. the deceptive passages of a fabricated article.
+ * Parsed into plain text and the spans of its annotated passages; offsets count UTF-16
+ * code units, as JavaScript strings do.
+ *
+ * @example
+ * const annotated = new AnnotatedText('Prices %%[(tripled)](invented figure)%% overnight.');
+ * annotated.text; // 'Prices tripled overnight.'
+ * annotated.annotations; // [{ end: 14, explanation: 'invented figure', start: 7, text: 'tripled' }]
+ */
+export class AnnotatedText {
+    public readonly annotations: Annotation[];
+    public readonly text: string;
+
+    /**
+     * @throws Error when the markup holds a malformed annotation
+     */
+    constructor(markup: string) {
+        const annotations: Annotation[] = [];
+        let text = '';
+        let cursor = 0;
+
+        const appendPlain = (plain: string, offset: number) => {
+            const delimiterIndex = plain.indexOf(ANNOTATION_DELIMITER);
+            if (delimiterIndex !== -1) {
+                throw new Error(
+                    `Invalid annotated text: malformed annotation at offset ${offset + delimiterIndex}`,
+                );
+            }
+            text += plain;
+        };
+
+        for (const match of markup.matchAll(ANNOTATION_PATTERN)) {
+            appendPlain(markup.slice(cursor, match.index), cursor);
+
+            const [, passage, explanation] = match;
+            annotations.push({
+                end: text.length + passage.length,
+                explanation: explanation.trim(),
+                start: text.length,
+                text: passage,
+            });
+            appendPlain(passage, match.index + '%%[('.length);
+
+            cursor = match.index + match[0].length;
+        }
+        appendPlain(markup.slice(cursor), cursor);
+
+        const result = z.array(annotationSchema).safeParse(annotations);
+
+        if (!result.success) {
+            throw new Error(`Invalid annotated text: ${result.error.message}`);
+        }
+
+        this.annotations = result.data;
+        this.text = text;
+    }
+
+    /**
+     * Parses markup that was stored before it could be validated: malformed markup falls back
+     * to its plain text, the annotated passages kept and the delimiters dropped, with no annotations
+     */
+    public static tolerant(markup: string): AnnotatedText {
+        try {
+            return new AnnotatedText(markup);
+        } catch {
+            const plain = markup
+                .replace(ANNOTATION_PATTERN, '$1')
+                .replaceAll(ANNOTATION_DELIMITER, '');
+            return new AnnotatedText(plain);
+        }
+    }
+
+    public hasAnnotations(): boolean {
+        return this.annotations.length > 0;
+    }
+}
@@ -1,11 +1,19 @@
 import { z } from 'zod/v4';
 
+import { AnnotatedText } from './annotated-text.vo.js';
+
 export const bodySchema = z.string().min(30, 'Article body must be at least 30 characters long');
 
 export class Body {
+    /** Plain text and annotation spans, parsed from the annotation markup of the body */
+    public readonly annotated: AnnotatedText;
     public readonly value: string;
 
-    constructor(body: string) {
+    /**
+     * Malformed annotation markup is read as plain text, so stored bodies always load;
+     * use {@link Body.withValidAnnotations} for newly written content
+     */
+    constructor(body: string, annotated?: AnnotatedText) {
         const result = bodySchema.safeParse(body);
 
         if (!result.success) {
@@ -13,6 +21,15 @@ export class Body {
         }
 
         this.value = result.data;
+        this.annotated = annotated ?? AnnotatedText.tolerant(result.data);
+    }
+
+    /**
+     * Creates a body whose annotation markup must be well-formed
+     * @throws Error when the body holds a malformed annotation
+     */
+    public static withValidAnnotations(body: string): Body {
+        return new Body(body, new AnnotatedText(body));
     }
 
     public toString(): string {
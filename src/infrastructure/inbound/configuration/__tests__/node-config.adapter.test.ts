@@ -6,10 +6,39 @@ import { NodeConfig } from '../node-config.js';
 describe('Node Config', () => {
     const validConfig = {
         inbound: {
+            admin: {
+                token: 'test-admin-token-0123456789',
+            },
+            auth: {
+                anonymousAccess: false,
+                trustedProxies: 1,
+            },
+            challenges: {
+                dailyArticleCount: 5,
+                hideAuthenticity: false,
+                hideQuizAnswers: false,
+            },
             env: 'development',
             http: {
+                cache: {
+                    maxAge: 60,
+                    staleWhileRevalidate: 600,
+                },
+                health: {
+                    pipelineCriticalAfterHours: 12,
+                },
                 host: 'localhost',
+                metrics: {
+                    enabled: true,
+                },
                 port: 3000,
+                rateLimit: {
+                    anonymous: { capacity: 30, refillPerSecond: 0.5 },
+                    apiKey: { capacity: 600, refillPerSecond: 10 },
+                    keys: {
+                        'partner-app': { capacity: 1200, refillPerSecond: 20 },
+                    },
+                },
             },
             logger: {
                 level: 'info',
@@ -35,6 +64,7 @@ describe('Node Config', () => {
                 reportClassification: 'google/gemini-2.5-flash-lite',
                 articleComposition: 'google/gemini-2.5-flash-lite',
                 articleFabrication: 'google/gemini-2.5-flash-lite',
+                articleInsightGeneration: 'google/gemini-2.5-flash-lite',
                 articleQuizGeneration: 'google/gemini-2.5-flash-lite',
             },
             telemetry: {
@@ -46,6 +76,12 @@ describe('Node Config', () => {
             prisma: {
                 databaseUrl: 'file:./database/test.sqlite',
             },
+            webhooks: {
+                deliveryTimeoutMs: 5000,
+                disableAfterFailures: 10,
+                maxAttempts: 5,
+                retryBaseDelaySeconds: 60,
+            },
             worldNews: {
                 apiKey: 'test-world-news-key',
                 useCache: false,
@@ -79,6 +115,92 @@ describe('Node Config', () => {
         expect(config.getInboundConfiguration().tasks.reportPipeline).toEqual([]);
     });
 
+    test('should default http cache, health and metrics configuration when not provided', () => {
+        // Given - a valid configuration without http cache settings
+        const configWithoutCache = {
+            ...validConfig,
+            inbound: {
+                ...validConfig.inbound,
+                http: {
+                    host: 'localhost',
+                    port: 3000,
+                },
+            },
+        };
+        // When - creating a NodeConfig instance
+        const config = new NodeConfig(configWithoutCache);
+        // Then - it should return the default cache lifetimes
+        expect(config.getInboundConfiguration().http.cache).toEqual({
+            maxAge: 60,
+            staleWhileRevalidate: 600,
+        });
+        expect(config.getInboundConfiguration().http.health).toEqual({
+            pipelineCriticalAfterHours: 24,
+        });
+        expect(config.getInboundConfiguration().http.metrics).toEqual({ enabled: false });
+    });
+
+    test('should default challenges configuration when not provided', () => {
+        // Given - a valid configuration without challenges settings
+        const configWithoutChallenges = {
+            ...validConfig,
+            inbound: {
+                ...validConfig.inbound,
+                challenges: undefined,
+            },
+        };
+        // When - creating a NodeConfig instance
+        const config = new NodeConfig(configWithoutChallenges);
+        // Then - challenge solutions should still be exposed to clients
+        expect(config.getInboundConfiguration().challenges).toEqual({
+            dailyArticleCount: 5,
+            hideAuthenticity: false,
+            hideQuizAnswers: false,
+        });
+    });
+
+    test('should leave the admin token unset and default webhook policy when not provided', () => {
+        // Given - a valid configuration without admin and webhook settings
+        const configWithoutAdmin = {
+            inbound: { ...validConfig.inbound, admin: undefined },
+            outbound: { ...validConfig.outbound, webhooks: undefined },
+        };
+        // When - creating a NodeConfig instance
+        const config = new NodeConfig(configWithoutAdmin);
+        // Then - no admin token is set and deliveries follow the default policy
+        expect(config.getInboundConfiguration().admin).toEqual({});
+        expect(config.getOutboundConfiguration().webhooks).toEqual({
+            deliveryTimeoutMs: 10_000,
+            disableAfterFailures: 15,
+            maxAttempts: 6,
+            retryBaseDelaySeconds: 30,
+        });
+    });
+
+    test('should allow anonymous access with default rate limits when not provided', () => {
+        // Given - a valid configuration without auth and rate limit settings
+        const configWithoutLimits = {
+            ...validConfig,
+            inbound: {
+                ...validConfig.inbound,
+                auth: undefined,
+                http: { ...validConfig.inbound.http, rateLimit: undefined },
+            },
+        };
+        // When - creating a NodeConfig instance
+        const config = new NodeConfig(configWithoutLimits);
+        // Then - anonymous clients are served and every client gets the default bucket
+        expect(config.getInboundConfiguration().auth).toEqual({
+            anonymousAccess: true,
+            trustedProxies: 0,
+        });
+        expect(config.getInboundConfiguration().http.rateLimit).toEqual({
+            anonymous: { capacity: 60, refillPerSecond: 1 },
+            apiKey: { capacity: 600, refillPerSecond: 10 },
+            keys: {},
+        });
+    });
+
     test('should fail with invalid environment', () => {
         // Given - a configuration with an invalid environment
         const invalidConfig = {
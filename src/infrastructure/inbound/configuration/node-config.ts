@@ -12,12 +12,62 @@ import {
 import { countrySchema } from '../../../domain/value-objects/country.vo.js';
 import { languageSchema } from '../../../domain/value-objects/language.vo.js';
 
+const rateLimitPolicySchema = z.object({
+    capacity: z.coerce.number().int().positive(),
+    refillPerSecond: z.coerce.number().positive(),
+});
+
 const configurationSchema = z.object({
     inbound: z.object({
+        admin: z
+            .object({
+                token: z.string().min(16).optional(),
+            })
+            .default({}),
+        auth: z
+            .object({
+                anonymousAccess: z.boolean().default(true),
+                trustedProxies: z.coerce.number().int().min(0).default(0),
+            })
+            .default({ anonymousAccess: true, trustedProxies: 0 }),
+        challenges: z
+            .object({
+                dailyArticleCount: z.number().int().min(2).max(20).default(5),
+                hideAuthenticity: z.boolean().default(false),
+                hideQuizAnswers: z.boolean().default(false),
+            })
+            .default({ dailyArticleCount: 5, hideAuthenticity: false, hideQuizAnswers: false }),
         env: z.enum(['development', 'production', 'test']),
         http: z.object({
+            cache: z
+                .object({
+                    maxAge: z.coerce.number().int().min(0).default(60),
+                    staleWhileRevalidate: z.coerce.number().int().min(0).default(600),
+                })
+                .default({ maxAge: 60, staleWhileRevalidate: 600 }),
+            health: z
+                .object({
+                    pipelineCriticalAfterHours: z.coerce.number().positive().default(24),
+                })
+                .default({ pipelineCriticalAfterHours: 24 }),
             host: z.string(),
+            metrics: z
+                .object({
+                    enabled: z.boolean().default(false),
+                })
+                .default({ enabled: false }),
             port: z.coerce.number().int().positive(),
+            rateLimit: z
+                .object({
+                    anonymous: rateLimitPolicySchema.default({ capacity: 60, refillPerSecond: 1 }),
+                    apiKey: rateLimitPolicySchema.default({ capacity: 600, refillPerSecond: 10 }),
+                    keys: z.record(z.string(), rateLimitPolicySchema).default({}),
+                })
+                .default({
+                    anonymous: { capacity: 60, refillPerSecond: 1 },
+                    apiKey: { capacity: 600, refillPerSecond: 10 },
+                    keys: {},
+                }),
         }),
         logger: z.object({
             level: LoggerLevelSchema,
@@ -42,6 +92,7 @@ const configurationSchema = z.object({
             reportClassification: z.string().min(1),
             articleComposition: z.string().min(1),
             articleFabrication: z.string().min(1),
+            articleInsightGeneration: z.string().min(1),
             articleQuizGeneration: z.string().min(1),
         }),
         telemetry: z.object({
@@ -53,6 +104,19 @@ const configurationSchema = z.object({
         prisma: z.object({
             databaseUrl: z.string().min(1),
         }),
+        webhooks: z
+            .object({
+                deliveryTimeoutMs: z.coerce.number().int().positive().default(10_000),
+                disableAfterFailures: z.coerce.number().int().positive().default(15),
+                maxAttempts: z.coerce.number().int().positive().default(6),
+                retryBaseDelaySeconds: z.coerce.number().int().positive().default(30),
+            })
+            .default({
+                deliveryTimeoutMs: 10_000,
+                disableAfterFailures: 15,
+                maxAttempts: 6,
+                retryBaseDelaySeconds: 30,
+            }),
         worldNews: z.object({
             apiKey: z.string().min(1),
             useCache: z.coerce.boolean(),
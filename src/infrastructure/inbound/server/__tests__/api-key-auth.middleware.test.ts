@@ -0,0 +1,50 @@
+import { Hono } from 'hono';
+import { describe, expect, it } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+// Application
+import { type AuthenticateApiKeyUseCase } from '../../../../application/use-cases/api-keys/authenticate-api-key.use-case.js';
+
+import { ApiKeyAuth, describeApiClient } from '../api-key-auth.middleware.js';
+
+describe('ApiKeyAuth', () => {
+    const createApp = (trustedProxies: number) => {
+        const apiKeyAuth = new ApiKeyAuth(
+            mock<AuthenticateApiKeyUseCase>(),
+            {},
+            { anonymousAccess: true, trustedProxies },
+        );
+
+        const app = new Hono();
+        app.use('*', apiKeyAuth.identify());
+        app.get('/', (c) => c.text(describeApiClient(c.get('apiClient'))));
+        return app;
+    };
+
+    const identify = async (app: Hono, forwardedFor: string) =>
+        (await app.request('/', { headers: { 'X-Forwarded-For': forwardedFor } })).text();
+
+    it('should ignore X-Forwarded-For when no proxy is trusted', async () => {
+        // Given
+        const app = createApp(0);
+
+        // When
+        const client = await identify(app, '203.0.113.7');
+
+        // Then - requests dispatched in-process have no socket address
+        expect(client).toBe('anonymous (unknown)');
+    });
+
+    it('should name anonymous clients by the hop the outermost trusted proxy added', async () => {
+        // Given
+        const app = createApp(1);
+
+        // When - a client prepending a spoofed address of its own
+        const first = await identify(app, '198.51.100.1, 203.0.113.7');
+        const second = await identify(app, '198.51.100.2, 203.0.113.7');
+
+        // Then
+        expect(first).toBe('anonymous (203.0.113.7)');
+        expect(second).toBe('anonymous (203.0.113.7)');
+    });
+});
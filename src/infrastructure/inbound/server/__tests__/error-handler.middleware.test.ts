@@ -0,0 +1,98 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { Hono } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { beforeEach, describe, expect, it } from 'vitest';
+import { type DeepMockProxy, mock } from 'vitest-mock-extended';
+import { z } from 'zod/v4';
+
+import {
+    createErrorHandlerMiddleware,
+    createNotFoundHandler,
+} from '../error-handler.middleware.js';
+import { createRequestIdMiddleware } from '../request-id.middleware.js';
+
+describe('createErrorHandlerMiddleware', () => {
+    let app: Hono;
+    let logger: DeepMockProxy<LoggerPort>;
+
+    beforeEach(() => {
+        logger = mock<LoggerPort>();
+
+        app = new Hono();
+        app.onError(createErrorHandlerMiddleware(logger));
+        app.notFound(createNotFoundHandler());
+        app.use('*', createRequestIdMiddleware());
+        app.get('/invalid', () => {
+            const result = z.object({ limit: z.number().max(100) }).safeParse({ limit: 500 });
+            throw new HTTPException(422, {
+                cause: { details: result.error?.issues },
+                message: 'Invalid request parameters',
+            });
+        });
+        app.get('/crash', () => {
+            throw new Error('Connection to database lost');
+        });
+    });
+
+    it('should answer validation errors as a problem listing the invalid fields', async () => {
+        // When
+        const response = await app.request('/invalid', {
+            headers: { 'X-Request-Id': 'client-request-1' },
+        });
+
+        // Then
+        expect(response.status).toBe(422);
+        expect(response.headers.get('Content-Type')).toBe('application/problem+json');
+        expect(await response.json()).toEqual({
+            detail: 'Invalid request parameters',
+            errors: [
+                {
+                    code: 'too_big',
+                    message: 'Too big: expected number to be <=100',
+                    path: 'limit',
+                },
+            ],
+            instance: '/invalid',
+            requestId: 'client-request-1',
+            status: 422,
+            title: 'Unprocessable Entity',
+            type: 'about:blank',
+        });
+    });
+
+    it('should hide unexpected errors behind a generic problem and log their stack', async () => {
+        // When
+        const response = await app.request('/crash');
+
+        // Then
+        expect(response.status).toBe(500);
+        const problem = await response.json();
+        expect(problem).toMatchObject({
+            detail: 'An unexpected error occurred',
+            status: 500,
+            title: 'Internal Server Error',
+        });
+        expect(problem.requestId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(response.headers.get('X-Request-Id')).toBe(problem.requestId);
+        expect(logger.error).toHaveBeenCalledWith(
+            'Unexpected error in HTTP handler',
+            expect.objectContaining({
+                error: 'Connection to database lost',
+                stack: expect.any(String),
+            }),
+        );
+    });
+
+    it('should answer unknown routes as a problem', async () => {
+        // When
+        const response = await app.request('/unknown', { method: 'POST' });
+
+        // Then
+        expect(response.status).toBe(404);
+        expect(await response.json()).toMatchObject({
+            detail: 'No route matches POST /unknown',
+            status: 404,
+            title: 'Not Found',
+        });
+    });
+});
@@ -0,0 +1,62 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+// Shared
+import { PrometheusTelemetryAdapter } from '../../../../shared/telemetry/index.js';
+
+import { HttpMetrics } from '../http-metrics.middleware.js';
+
+describe('HttpMetrics', () => {
+    let app: Hono;
+    let prometheus: PrometheusTelemetryAdapter;
+
+    beforeEach(() => {
+        prometheus = new PrometheusTelemetryAdapter();
+        const httpMetrics = new HttpMetrics(prometheus, prometheus);
+
+        app = new Hono();
+        app.onError((_error, c) => c.text('Internal Server Error', 500));
+        app.use('*', httpMetrics.middleware());
+        app.get('/articles/:id', (c) => c.text('ok'));
+        app.get('/failing', () => {
+            throw new Error('Boom');
+        });
+        app.get('/metrics', httpMetrics.handler()!);
+    });
+
+    it('should count requests by route pattern rather than path', async () => {
+        // Given
+        await app.request('/articles/1');
+        await app.request('/articles/2');
+        await app.request('/failing');
+
+        // When
+        const response = await app.request('/metrics');
+
+        // Then
+        expect(response.headers.get('Content-Type')).toBe(
+            'text/plain; version=0.0.4; charset=utf-8',
+        );
+        const body = await response.text();
+        expect(body).toContain(
+            'http_server_requests_total{method="GET",route="/articles/:id",status="200"} 2',
+        );
+        expect(body).toContain(
+            'http_server_requests_total{method="GET",route="/failing",status="500"} 1',
+        );
+        expect(body).toContain(
+            'http_server_duration_ms_count{method="GET",route="/articles/:id",status="200"} 2',
+        );
+    });
+
+    it('should not serve metrics when the endpoint is disabled', () => {
+        // Given
+        const httpMetrics = new HttpMetrics(prometheus, null);
+
+        // When
+        const handler = httpMetrics.handler();
+
+        // Then
+        expect(handler).toBeNull();
+    });
+});
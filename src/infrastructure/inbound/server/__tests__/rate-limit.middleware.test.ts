@@ -0,0 +1,77 @@
+import { Hono } from 'hono';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { type ApiClient } from '../api-key-auth.middleware.js';
+import { RateLimiter } from '../rate-limit.middleware.js';
+
+describe('RateLimiter', () => {
+    let app: Hono;
+
+    const request = (address: string) => app.request('/', { headers: { 'X-Address': address } });
+
+    beforeEach(() => {
+        vi.useFakeTimers();
+
+        const rateLimiter = new RateLimiter({
+            anonymous: { capacity: 2, refillPerSecond: 0.5 },
+            apiKey: { capacity: 100, refillPerSecond: 10 },
+            keys: {},
+        });
+
+        app = new Hono();
+        app.use('*', async (c, next) => {
+            const client: ApiClient = { address: c.req.header('X-Address')!, kind: 'anonymous' };
+            c.set('apiClient', client);
+            return next();
+        });
+        app.use('*', rateLimiter.middleware());
+        app.get('/', (c) => c.text('ok'));
+    });
+
+    afterEach(() => {
+        vi.useRealTimers();
+    });
+
+    it('should reject requests once the bucket is empty', async () => {
+        // Given - a client that used its whole burst
+        await request('10.0.0.1');
+        const last = await request('10.0.0.1');
+
+        // When
+        const limited = await request('10.0.0.1');
+
+        // Then
+        expect(last.status).toBe(200);
+        expect(last.headers.get('RateLimit-Remaining')).toBe('0');
+        expect(last.headers.get('RateLimit-Reset')).toBe('4');
+        expect(limited.status).toBe(429);
+        expect(limited.headers.get('Retry-After')).toBe('2');
+    });
+
+    it('should refill the bucket over time', async () => {
+        // Given - an empty bucket
+        await request('10.0.0.1');
+        await request('10.0.0.1');
+
+        // When - one token's worth of time passes
+        vi.advanceTimersByTime(2_000);
+        const res = await request('10.0.0.1');
+
+        // Then
+        expect(res.status).toBe(200);
+        expect(res.headers.get('RateLimit-Remaining')).toBe('0');
+    });
+
+    it('should keep a separate bucket per client', async () => {
+        // Given - a client that used its whole burst
+        await request('10.0.0.1');
+        await request('10.0.0.1');
+
+        // When
+        const res = await request('10.0.0.2');
+
+        // Then
+        expect(res.status).toBe(200);
+        expect(res.headers.get('RateLimit-Remaining')).toBe('1');
+    });
+});
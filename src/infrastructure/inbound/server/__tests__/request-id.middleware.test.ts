@@ -0,0 +1,44 @@
+import { Hono } from 'hono';
+import { beforeEach, describe, expect, it } from 'vitest';
+
+// Shared
+import { getCorrelationIds } from '../../../../shared/correlation/index.js';
+
+import { createRequestIdMiddleware } from '../request-id.middleware.js';
+
+describe('createRequestIdMiddleware', () => {
+    let app: Hono;
+
+    beforeEach(() => {
+        app = new Hono();
+        app.use('*', createRequestIdMiddleware());
+        app.get('/', async (c) => {
+            await Promise.resolve();
+            return c.json({ bound: getCorrelationIds(), requestId: c.get('requestId') });
+        });
+    });
+
+    it('should reuse the request id sent by the client', async () => {
+        // When
+        const response = await app.request('/', { headers: { 'X-Request-Id': 'abc-123' } });
+
+        // Then
+        expect(response.headers.get('X-Request-Id')).toBe('abc-123');
+        expect(await response.json()).toEqual({
+            bound: { requestId: 'abc-123' },
+            requestId: 'abc-123',
+        });
+    });
+
+    it('should generate a request id when the client sent none or an unusable one', async () => {
+        // When
+        const response = await app.request('/', {
+            headers: { 'X-Request-Id': 'not an id <script>' },
+        });
+
+        // Then
+        const requestId = response.headers.get('X-Request-Id');
+        expect(requestId).toMatch(/^[0-9a-f-]{36}$/);
+        expect(await response.json()).toEqual({ bound: { requestId }, requestId });
+    });
+});
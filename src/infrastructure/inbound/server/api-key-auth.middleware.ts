@@ -0,0 +1,160 @@
+import { getConnInfo } from '@hono/node-server/conninfo';
+import type { Context, MiddlewareHandler } from 'hono';
+import { HTTPException } from 'hono/http-exception';
+import { createHash, timingSafeEqual } from 'node:crypto';
+
+// Application
+import type {
+    AdminConfigurationPort,
+    AuthConfigurationPort,
+} from '../../../application/ports/inbound/configuration.port.js';
+import type { AuthenticateApiKeyUseCase } from '../../../application/use-cases/api-keys/authenticate-api-key.use-case.js';
+
+// Domain
+import type { ApiKey, ApiKeyScope } from '../../../domain/entities/api-key.entity.js';
+
+/**
+ * Caller of a request, as resolved from its credentials
+ */
+export type ApiClient =
+    | { address: string; kind: 'anonymous' }
+    | { apiKey: ApiKey; kind: 'api-key' }
+    | { kind: 'admin-token' };
+
+declare module 'hono' {
+    interface ContextVariableMap {
+        apiClient: ApiClient;
+    }
+}
+
+/**
+ * API key authentication.
+ * Keys are sent as `Authorization: Bearer <key>` or `X-Api-Key: <key>`; the configured
+ * admin token is accepted the same way and grants the `admin` scope, so it can issue
+ * the first keys. Routes then declare the scope they need.
+ */
+export class ApiKeyAuth {
+    constructor(
+        private readonly authenticateApiKey: AuthenticateApiKeyUseCase,
+        private readonly admin: AdminConfigurationPort,
+        private readonly auth: AuthConfigurationPort,
+    ) {}
+
+    /**
+     * Resolves the client of every request. A key that does not authenticate is rejected
+     * even on routes open to anonymous clients, so a misconfigured client notices.
+     */
+    identify(): MiddlewareHandler {
+        return async (c, next) => {
+            const key = readKey(c);
+
+            if (key === undefined) {
+                c.set('apiClient', {
+                    address: clientAddress(c, this.auth.trustedProxies),
+                    kind: 'anonymous',
+                });
+                return next();
+            }
+
+            if (this.isAdminToken(key)) {
+                c.set('apiClient', { kind: 'admin-token' });
+                return next();
+            }
+
+            const apiKey = await this.authenticateApiKey.execute(key);
+
+            if (!apiKey) {
+                throw new HTTPException(401, { message: 'Invalid API key' });
+            }
+
+            c.set('apiClient', { apiKey, kind: 'api-key' });
+            return next();
+        };
+    }
+
+    /**
+     * Guards routes behind a scope; anonymous clients only pass non-admin scopes,
+     * and only while anonymous access is enabled
+     */
+    requireScope(scope: ApiKeyScope): MiddlewareHandler {
+        return async (c, next) => {
+            const client = c.get('apiClient');
+
+            switch (client.kind) {
+                case 'admin-token':
+                    return next();
+                case 'anonymous':
+                    if (scope === 'admin' || !this.auth.anonymousAccess) {
+                        throw new HTTPException(401, { message: 'API key required' });
+                    }
+                    return next();
+                case 'api-key':
+                    if (!client.apiKey.grants(scope)) {
+                        throw new HTTPException(403, {
+                            message: `API key lacks the ${scope} scope`,
+                        });
+                    }
+                    return next();
+            }
+        };
+    }
+
+    private isAdminToken(key: string): boolean {
+        if (!this.admin.token) return false;
+
+        // Comparing digests keeps the comparison constant-time whatever the key length
+        const digest = (value: string) => createHash('sha256').update(value).digest();
+        return timingSafeEqual(digest(key), digest(this.admin.token));
+    }
+}
+
+/**
+ * Names the client of a request, e.g. to record who made a change
+ */
+export function describeApiClient(client: ApiClient): string {
+    switch (client.kind) {
+        case 'admin-token':
+            return 'admin-token';
+        case 'anonymous':
+            return `anonymous (${client.address})`;
+        case 'api-key':
+            return client.apiKey.label;
+    }
+}
+
+/**
+ * Address rate limits of anonymous clients are keyed by.
+ * Clients can send any `X-Forwarded-For`, so only the hops appended by trusted proxies count:
+ * the right-most one past them is the address the outermost proxy saw.
+ */
+function clientAddress(c: Context, trustedProxies: number): string {
+    const hops =
+        c.req
+            .header('X-Forwarded-For')
+            ?.split(',')
+            .map((hop) => hop.trim())
+            .filter(Boolean) ?? [];
+    if (trustedProxies > 0 && hops.length > 0) {
+        return hops[Math.max(hops.length - trustedProxies, 0)];
+    }
+
+    try {
+        return getConnInfo(c).remote.address ?? 'unknown';
+    } catch {
+        // Requests dispatched in-process (e.g. tests) have no socket
+        return 'unknown';
+    }
+}
+
+function readKey(c: Context): string | undefined {
+    const authorization = c.req.header('Authorization');
+    if (authorization) {
+        const [scheme, credentials] = authorization.split(' ');
+        if (scheme?.toLowerCase() !== 'bearer' || !credentials) {
+            throw new HTTPException(401, { message: 'Expected a Bearer API key' });
+        }
+        return credentials;
+    }
+
+    return c.req.header('X-Api-Key') || undefined;
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod/v4';
+
+// Domain
+import { type ApiKey, apiKeyScopeSchema } from '../../../../domain/entities/api-key.entity.js';
+import { type ApiKeySecret } from '../../../../domain/value-objects/api-key/api-key-secret.vo.js';
+
+/**
+ * HTTP representation of an API key, also used to document the API
+ */
+export const apiKeyResponseSchema = z.object({
+    createdAt: z.iso.datetime(),
+    id: z.uuid(),
+    /** Only returned when the key is created */
+    key: z.string().optional(),
+    label: z.string(),
+    prefix: z.string(),
+    revokedAt: z.iso.datetime().nullable(),
+    scopes: z.array(apiKeyScopeSchema),
+});
+
+export type ApiKeyResponse = z.infer<typeof apiKeyResponseSchema>;
+
+/**
+ * Maps an API key to its HTTP representation
+ * Shared by every API key endpoint so the response shape stays identical
+ */
+export class ApiKeyResponsePresenter {
+    present(apiKey: ApiKey, secret?: ApiKeySecret): ApiKeyResponse {
+        return {
+            createdAt: apiKey.createdAt.toISOString(),
+            id: apiKey.id,
+            ...(secret && { key: secret.toString() }),
+            label: apiKey.label,
+            prefix: apiKey.prefix,
+            revokedAt: apiKey.revokedAt?.toISOString() ?? null,
+            scopes: apiKey.scopes,
+        };
+    }
+}
@@ -0,0 +1,40 @@
+import { Hono } from 'hono';
+
+import { type CreateApiKeyController } from './create-api-key.controller.js';
+import { type GetApiKeysController } from './get-api-keys.controller.js';
+import { type RevokeApiKeyController } from './revoke-api-key.controller.js';
+
+/**
+ * Controllers backing the /admin/api-keys routes
+ */
+export interface ApiKeysControllers {
+    createApiKey: CreateApiKeyController;
+    getApiKeys: GetApiKeysController;
+    revokeApiKey: RevokeApiKeyController;
+}
+
+export const createApiKeysRouter = (controllers: ApiKeysControllers) => {
+    const app = new Hono();
+
+    app.get('/', async (c) => {
+        const response = await controllers.getApiKeys.getApiKeys();
+
+        return c.json(response);
+    });
+
+    app.post('/', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.createApiKey.createApiKey({ body });
+
+        return c.json(response, 201);
+    });
+
+    app.delete('/:id', async (c) => {
+        await controllers.revokeApiKey.revokeApiKey({ id: c.req.param('id') });
+
+        return c.body(null, 204);
+    });
+
+    return app;
+};
@@ -0,0 +1,52 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { apiKeySchema } from '../../../../domain/entities/api-key.entity.js';
+
+/**
+ * Raw HTTP input for POST /admin/api-keys
+ */
+export interface CreateApiKeyHttpInput {
+    body: unknown;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/api-keys endpoint
+ */
+export const createApiKeyInputSchema = z.object({
+    body: z.object({
+        label: apiKeySchema.shape.label,
+        scopes: z
+            .array(apiKeySchema.shape.scopes.element)
+            .min(1)
+            .transform((scopes) => Array.from(new Set(scopes))),
+    }),
+});
+
+export type CreateApiKeyHttpParams = z.infer<typeof createApiKeyInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /admin/api-keys endpoint
+ */
+export class CreateApiKeyRequestHandler {
+    /**
+     * Validates the client label and the requested scopes
+     *
+     * @param rawInput - Raw HTTP JSON body
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: CreateApiKeyHttpInput): CreateApiKeyHttpParams {
+        const validatedInput = createApiKeyInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,37 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type CreateApiKeyUseCase } from '../../../../application/use-cases/api-keys/create-api-key.use-case.js';
+
+import { ApiKeyResponsePresenter } from './api-key-response.presenter.js';
+import {
+    type CreateApiKeyHttpInput,
+    CreateApiKeyRequestHandler,
+} from './create-api-key-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the API key creation endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class CreateApiKeyController {
+    private readonly requestHandler: CreateApiKeyRequestHandler;
+    private readonly responsePresenter: ApiKeyResponsePresenter;
+
+    constructor(private readonly createApiKeyUseCase: CreateApiKeyUseCase) {
+        this.requestHandler = new CreateApiKeyRequestHandler();
+        this.responsePresenter = new ApiKeyResponsePresenter();
+    }
+
+    async createApiKey(rawInput: CreateApiKeyHttpInput) {
+        const { body } = this.requestHandler.handle(rawInput);
+
+        const result = await this.createApiKeyUseCase.execute(body);
+
+        if (!result) {
+            throw new HTTPException(409, { message: `API key label ${body.label} already in use` });
+        }
+
+        // The key is only ever disclosed here, clients must store it
+        return this.responsePresenter.present(result.apiKey, result.secret);
+    }
+}
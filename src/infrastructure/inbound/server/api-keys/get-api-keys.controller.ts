@@ -0,0 +1,21 @@
+// Application
+import { type GetApiKeysUseCase } from '../../../../application/use-cases/api-keys/get-api-keys.use-case.js';
+
+import { ApiKeyResponsePresenter } from './api-key-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the API key list endpoint
+ */
+export class GetApiKeysController {
+    private readonly responsePresenter: ApiKeyResponsePresenter;
+
+    constructor(private readonly getApiKeysUseCase: GetApiKeysUseCase) {
+        this.responsePresenter = new ApiKeyResponsePresenter();
+    }
+
+    async getApiKeys() {
+        const apiKeys = await this.getApiKeysUseCase.execute();
+
+        return { items: apiKeys.map((apiKey) => this.responsePresenter.present(apiKey)) };
+    }
+}
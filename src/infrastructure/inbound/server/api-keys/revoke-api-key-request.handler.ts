@@ -0,0 +1,43 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+/**
+ * Raw HTTP input for DELETE /admin/api-keys/:id
+ */
+export interface RevokeApiKeyHttpInput {
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for DELETE /admin/api-keys/:id endpoint
+ */
+export const revokeApiKeyInputSchema = z.object({
+    id: z.uuid({ message: 'API key id must be a UUID' }),
+});
+
+export type RevokeApiKeyHttpParams = z.infer<typeof revokeApiKeyInputSchema>;
+
+/**
+ * Handles HTTP request validation for DELETE /admin/api-keys/:id endpoint
+ */
+export class RevokeApiKeyRequestHandler {
+    /**
+     * Validates the API key id
+     *
+     * @param rawInput - Raw HTTP path parameter
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: RevokeApiKeyHttpInput): RevokeApiKeyHttpParams {
+        const validatedInput = revokeApiKeyInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,30 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type RevokeApiKeyUseCase } from '../../../../application/use-cases/api-keys/revoke-api-key.use-case.js';
+
+import {
+    type RevokeApiKeyHttpInput,
+    RevokeApiKeyRequestHandler,
+} from './revoke-api-key-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the API key revocation endpoint
+ */
+export class RevokeApiKeyController {
+    private readonly requestHandler: RevokeApiKeyRequestHandler;
+
+    constructor(private readonly revokeApiKeyUseCase: RevokeApiKeyUseCase) {
+        this.requestHandler = new RevokeApiKeyRequestHandler();
+    }
+
+    async revokeApiKey(rawInput: RevokeApiKeyHttpInput): Promise<void> {
+        const { id } = this.requestHandler.handle(rawInput);
+
+        const apiKey = await this.revokeApiKeyUseCase.execute(id);
+
+        if (!apiKey) {
+            throw new HTTPException(404, { message: `API key ${id} not found` });
+        }
+    }
+}
@@ -0,0 +1,150 @@
+import { describe, expect, it } from 'vitest';
+
+// Domain
+import { createMockArticle } from '../../../../../domain/entities/__mocks__/articles.mock.js';
+import { Article } from '../../../../../domain/entities/article.entity.js';
+import { ArticleInsight } from '../../../../../domain/value-objects/article-insight/article-insight.vo.js';
+import { ArticleQuizQuestions } from '../../../../../domain/value-objects/article-quiz-questions.vo.js';
+import { ArticleTraits } from '../../../../../domain/value-objects/article-traits.vo.js';
+import {
+    Authenticity,
+    AuthenticityStatusEnum,
+} from '../../../../../domain/value-objects/article/authenticity.vo.js';
+import { Body } from '../../../../../domain/value-objects/article/body.vo.js';
+import { Classification } from '../../../../../domain/value-objects/report/tier.vo.js';
+
+import { ArticleResponsePresenter } from '../article-response.presenter.js';
+
+/**
+ * Structure of a response: its keys, the length of its arrays and the type of its values
+ */
+const shapeOf = (value: unknown): unknown => {
+    if (Array.isArray(value)) return value.map(shapeOf);
+    if (value && typeof value === 'object') {
+        return Object.fromEntries(
+            Object.entries(value)
+                .sort(([a], [b]) => a.localeCompare(b))
+                .map(([key, nested]) => [key, shapeOf(nested)]),
+        );
+    }
+    return typeof value;
+};
+
+describe('ArticleResponsePresenter', () => {
+    const authentic = new Article({
+        ...createMockArticle(0),
+        id: '00000000-0000-4000-8000-000000000001',
+        insights: [
+            new ArticleInsight({
+                analysis: 'The vote decides how the region funds its hospitals next year.',
+                duration: 'P1M',
+                kind: 'WHY_IT_MATTERS',
+                publishedAt: new Date('2024-03-01T12:00:00.000Z'),
+            }),
+        ],
+        quizQuestions: new ArticleQuizQuestions([
+            {
+                answers: ['Paris', 'Lyon', 'Marseille', 'Nice'],
+                correctAnswerIndex: 0,
+                question: 'Which city hosted the vote?',
+            },
+        ]),
+        tier: new Classification('GENERAL'),
+        traits: new ArticleTraits({ essential: true }),
+    });
+    // Stored as fabricate-articles stores it: no frames, quiz or traits
+    const fabricated = new Article({
+        ...createMockArticle(1),
+        authenticity: new Authenticity(AuthenticityStatusEnum.FABRICATED, 'Invented vote'),
+        frames: [],
+    });
+
+    it('should not tell authentic and fabricated articles apart while authenticity is hidden', () => {
+        // Given
+        const presenter = new ArticleResponsePresenter({ hideAuthenticity: true });
+
+        // When
+        const responses = [authentic, fabricated].map((article) => presenter.present(article));
+
+        // Then
+        for (const response of responses) {
+            expect(response.challenges.authenticity).toEqual({ enable: true });
+            expect(response).not.toHaveProperty('annotations');
+            expect(response).not.toHaveProperty('insights');
+            expect(response.metadata).not.toHaveProperty('fabricated');
+            expect(response.metadata).not.toHaveProperty('tier');
+        }
+    });
+
+    it('should give authentic and fabricated articles the same shape while authenticity is hidden', () => {
+        // Given - an authentic article with frames, a quiz and traits, and a fabricated one without
+        const presenter = new ArticleResponsePresenter({ hideAuthenticity: true });
+
+        // When
+        const [authenticResponse, fabricatedResponse] = [authentic, fabricated].map((article) =>
+            presenter.present(article),
+        );
+
+        // Then - the responses only differ in their values, never in their keys
+        expect(shapeOf(authenticResponse)).toEqual(shapeOf(fabricatedResponse));
+        expect(authenticResponse).not.toHaveProperty('frames');
+        expect(authenticResponse.challenges).not.toHaveProperty('quiz');
+        expect(authenticResponse.metadata).not.toHaveProperty('traits');
+    });
+
+    it('should list frames and quiz, even empty, when authenticity is revealed', () => {
+        // Given
+        const presenter = new ArticleResponsePresenter();
+
+        // When
+        const response = presenter.present(fabricated);
+
+        // Then - frames and quiz are still listed, empty
+        expect(response.frames).toEqual([]);
+        expect(response.challenges.quiz).toEqual({ enable: false, questions: [] });
+    });
+
+    it('should serve the annotation markup in body and the plain text in bodyText', () => {
+        // Given - a fabricated article with an annotated passage
+        const article = new Article({
+            ...fabricated,
+            body: new Body('Prices %%[(tripled)](invented figure)%% overnight.'),
+        });
+
+        // When
+        const revealed = new ArticleResponsePresenter().present(article);
+        const hidden = new ArticleResponsePresenter({ hideAuthenticity: true }).present(article);
+
+        // Then - body keeps the markup existing clients parse, unless authenticity is hidden
+        expect(revealed).toMatchObject({
+            annotations: [{ end: 14, explanation: 'invented figure', start: 7, text: 'tripled' }],
+            body: 'Prices %%[(tripled)](invented figure) overnight.',
+            bodyText: 'Prices tripled overnight.',
+        });
+        expect(hidden).toMatchObject({
+            body: 'Prices tripled overnight.',
+            bodyText: 'Prices tripled overnight.',
+        });
+    });
+
+    it('should reveal tier and insights when authenticity is not hidden', () => {
+        // Given
+        const presenter = new ArticleResponsePresenter();
+
+        // When
+        const response = presenter.present(authentic);
+
+        // Then
+        expect(response.challenges.authenticity.enable).toBe(false);
+        expect(response.metadata).toMatchObject({ fabricated: false, tier: 'GENERAL' });
+        expect(response.insights).toEqual([
+            {
+                agent: 'WHY_IT_MATTERS',
+                analysis: 'The vote decides how the region funds its hospitals next year.',
+                duration: 'P1M',
+                enable: true,
+                publishedAt: '2024-03-01T12:00:00.000Z',
+            },
+        ]);
+    });
+});
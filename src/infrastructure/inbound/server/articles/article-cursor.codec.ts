@@ -0,0 +1,65 @@
+// Application
+import type {
+    ArticleCursor,
+    PaginationDirection,
+} from '../../../../application/ports/outbound/persistence/article/article-repository.port.js';
+
+const CURSOR_VERSION = 'v1';
+
+export interface DecodedArticleCursor {
+    cursor: ArticleCursor;
+    direction: PaginationDirection;
+}
+
+/**
+ * Encodes a list position and the direction to read from it as an opaque cursor.
+ * Format: `v1.<base64url JSON>`, so the payload can change under a new version prefix.
+ */
+export function encodeArticleCursor(cursor: ArticleCursor, direction: PaginationDirection): string {
+    const payload = JSON.stringify({
+        d: direction === 'backward' ? 'b' : 'f',
+        i: cursor.id,
+        p: cursor.publishedAt.getTime(),
+    });
+
+    return `${CURSOR_VERSION}.${Buffer.from(payload).toString('base64url')}`;
+}
+
+/**
+ * Decodes a cursor produced by {@link encodeArticleCursor}, or null when it is malformed.
+ * Unversioned cursors are the former base64 millisecond timestamps: they carry no id,
+ * so the empty id keeps their original `publishedAt < cursor` behaviour.
+ */
+export function decodeArticleCursor(value: string): DecodedArticleCursor | null {
+    const [version, encoded] = value.split('.');
+
+    if (encoded === undefined) {
+        const timestamp = Number(Buffer.from(value, 'base64').toString());
+        return Number.isFinite(timestamp) && value.length > 0
+            ? { cursor: { id: '', publishedAt: new Date(timestamp) }, direction: 'forward' }
+            : null;
+    }
+
+    if (version !== CURSOR_VERSION) {
+        return null;
+    }
+
+    try {
+        const payload = JSON.parse(Buffer.from(encoded, 'base64url').toString());
+
+        if (
+            (payload.d !== 'b' && payload.d !== 'f') ||
+            typeof payload.i !== 'string' ||
+            !Number.isFinite(payload.p)
+        ) {
+            return null;
+        }
+
+        return {
+            cursor: { id: payload.i, publishedAt: new Date(payload.p) },
+            direction: payload.d === 'b' ? 'backward' : 'forward',
+        };
+    } catch {
+        return null;
+    }
+}
@@ -0,0 +1,195 @@
+import { z } from 'zod/v4';
+
+// Domain
+import { type Article } from '../../../../domain/entities/article.entity.js';
+import { annotationSchema } from '../../../../domain/value-objects/article/annotated-text.vo.js';
+import { type CategoryEnum, categorySchema } from '../../../../domain/value-objects/category.vo.js';
+import { type CountryEnum, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { type LanguageEnum, languageSchema } from '../../../../domain/value-objects/language.vo.js';
+import {
+    classificationSchema,
+    type ClassificationType,
+} from '../../../../domain/value-objects/report/tier.vo.js';
+
+/**
+ * HTTP representation of an article, also used to document the API
+ */
+export const articleResponseSchema = z.object({
+    annotations: z
+        .array(annotationSchema)
+        .optional()
+        .describe(
+            'Deceptive passages of fabricated articles, located in `bodyText`. Omitted while authenticity is hidden',
+        ),
+    body: z.string().meta({
+        deprecated: true,
+        description:
+            'Body as served before `bodyText`: fabricated articles carry their annotation markup, `%%[(passage)](explanation)`, once authenticity is revealed',
+    }),
+    bodyText: z.string().describe('Plain text of the body'),
+    challenges: z.object({
+        authenticity: z.object({
+            enable: z.boolean(),
+            explanation: z.string().optional(),
+        }),
+        /** Omitted while authenticity is hidden */
+        quiz: z
+            .object({
+                enable: z.boolean(),
+                questions: z.array(
+                    z.object({
+                        answers: z.array(z.string()),
+                        correctAnswerIndex: z.number().int().optional(),
+                        question: z.string(),
+                    }),
+                ),
+            })
+            .optional(),
+    }),
+    /** Omitted while authenticity is hidden */
+    frames: z
+        .array(
+            z.object({
+                body: z.string(),
+                headline: z.string(),
+            }),
+        )
+        .optional(),
+    headline: z.string(),
+    id: z.uuid(),
+    /** Omitted while authenticity is hidden */
+    insights: z
+        .array(
+            z.object({
+                /** Perspective of the analysis, e.g. `WHY_IT_MATTERS` */
+                agent: z.string(),
+                analysis: z.string(),
+                /** ISO 8601 duration the analysis stays relevant for */
+                duration: z.string(),
+                enable: z.boolean(),
+                publishedAt: z.string(),
+            }),
+        )
+        .optional(),
+    metadata: z.object({
+        categories: z.array(z.enum(categorySchema.options)),
+        country: z.enum(countrySchema.options),
+        fabricated: z.boolean().optional(),
+        language: z.enum(languageSchema.options),
+        tier: z.enum(classificationSchema.options).optional(),
+        /** Omitted while authenticity is hidden */
+        traits: z
+            .object({
+                essential: z.boolean(),
+                positive: z.boolean(),
+            })
+            .optional(),
+    }),
+    publishedAt: z.iso.datetime(),
+});
+
+export type ArticleResponse = z.infer<typeof articleResponseSchema>;
+
+type ArticleFrameResponse = NonNullable<ArticleResponse['frames']>[number];
+
+/**
+ * Options controlling which challenge solutions are exposed to clients
+ */
+export interface ArticleResponsePresenterOptions {
+    /**
+     * Omit `fabricated`, `annotations` and the authenticity explanation; clients reveal them by
+     * submitting a guess. Every article then offers the authenticity challenge, and what only
+     * authentic articles get from the pipeline is omitted as it would give the answer away:
+     * `tier`, `traits`, `insights`, `frames` and the quiz.
+     * @default false
+     */
+    hideAuthenticity?: boolean;
+
+    /**
+     * Omit `correctAnswerIndex` from quiz questions; clients grade answers through the API
+     * @default false
+     */
+    hideQuizAnswers?: boolean;
+}
+
+/**
+ * Maps a single article domain entity to its HTTP representation
+ * Shared by every endpoint returning articles so the response shape stays identical
+ */
+export class ArticleResponsePresenter {
+    constructor(private readonly options: ArticleResponsePresenterOptions = {}) {}
+
+    present(article: Article): ArticleResponse {
+        const { annotations, text } = article.body.annotated;
+        const revealAuthenticity = !this.options.hideAuthenticity;
+
+        // Existing clients parse the markup out of `body`, unless it would spoil the guess
+        const legacyBody =
+            revealAuthenticity && article.isFabricated()
+                ? article.body.value.replaceAll(')%%', ')')
+                : text;
+
+        // Map article frames from domain entities
+        const frames: ArticleFrameResponse[] =
+            article.frames?.map((frame) => ({
+                body: frame.body.toString(),
+                headline: frame.headline.toString(),
+            })) ?? [];
+
+        return {
+            ...(revealAuthenticity && { annotations }),
+            body: legacyBody,
+            bodyText: text,
+            challenges: {
+                authenticity: {
+                    enable: !revealAuthenticity || article.shouldShowAuthenticityChallenge(),
+                    ...(revealAuthenticity && {
+                        explanation: article.authenticity.clarification ?? '',
+                    }),
+                },
+                ...(revealAuthenticity && {
+                    quiz: {
+                        enable: Boolean(article.quizQuestions && !article.quizQuestions.isEmpty()),
+                        questions:
+                            article.quizQuestions?.toArray().map((quiz) => ({
+                                answers: quiz.answers,
+                                ...(!this.options.hideQuizAnswers && {
+                                    correctAnswerIndex: quiz.correctAnswerIndex,
+                                }),
+                                question: quiz.question,
+                            })) ?? [],
+                    },
+                }),
+            },
+            ...(revealAuthenticity && { frames }),
+            headline: article.headline.toString(),
+            id: article.id,
+            ...(revealAuthenticity && {
+                insights:
+                    article.insights?.map((insight) => ({
+                        agent: insight.kind,
+                        analysis: insight.analysis,
+                        duration: insight.duration,
+                        enable: true,
+                        publishedAt: insight.publishedAt.toISOString(),
+                    })) ?? [],
+            }),
+            metadata: {
+                categories: article.categories.toArray() as CategoryEnum[],
+                country: article.country.toString() as CountryEnum,
+                ...(revealAuthenticity && { fabricated: article.isFabricated() }),
+                language: article.language.toString() as LanguageEnum,
+                ...(revealAuthenticity && {
+                    tier: article.tier?.toString() as ClassificationType | undefined,
+                }),
+                ...(revealAuthenticity && {
+                    traits: {
+                        essential: article.traits.essential,
+                        positive: article.traits.positive,
+                    },
+                }),
+            },
+            publishedAt: article.publishedAt.toISOString(),
+        };
+    }
+}
@@ -1,21 +1,124 @@
 import { Hono } from 'hono';
+import { streamSSE } from 'hono/streaming';
 
+import { type GetArticleController } from './get-article.controller.js';
 import { type GetArticlesController } from './get-articles.controller.js';
+import { type GradeArticleQuizController } from './grade-article-quiz.controller.js';
+import { type GuessArticleAuthenticityController } from './guess-article-authenticity.controller.js';
+import { type SearchArticlesController } from './search-articles.controller.js';
+import { type StreamArticlesController } from './stream-articles.controller.js';
 
-export const createArticlesRouter = (getArticlesController: GetArticlesController) => {
+/** Keeps idle connections open through proxies that drop silent ones */
+const STREAM_HEARTBEAT_INTERVAL_MS = 15_000;
+
+/**
+ * Controllers backing the /articles routes
+ */
+export interface ArticlesControllers {
+    getArticle: GetArticleController;
+    getArticles: GetArticlesController;
+    gradeArticleQuiz: GradeArticleQuizController;
+    guessArticleAuthenticity: GuessArticleAuthenticityController;
+    searchArticles: SearchArticlesController;
+    streamArticles: StreamArticlesController;
+}
+
+export const createArticlesRouter = (controllers: ArticlesControllers) => {
     const app = new Hono();
 
     app.get('/', async (c) => {
         const query = c.req.query();
-        const queries = c.req.queries();
 
-        const response = await getArticlesController.getArticles({
+        const response = await controllers.getArticles.getArticles({
+            categories: c.req.queries('categories'),
+            categoriesMatch: query.categoriesMatch,
             category: query.category,
             country: query.country,
             cursor: query.cursor,
-            ids: (queries as unknown as Record<string, string[] | undefined>).ids,
+            from: query.from,
+            groupBy: query.groupBy,
+            ids: c.req.queries('ids'),
             language: query.language,
             limit: query.limit,
+            tier: c.req.queries('tier'),
+            to: query.to,
+            traits: c.req.queries('traits'),
+            traitsMatch: query.traitsMatch,
+        });
+
+        return c.json(response);
+    });
+
+    // Registered before '/:id' so 'search' is not captured as an article id
+    app.get('/search', async (c) => {
+        const query = c.req.query();
+
+        const response = await controllers.searchArticles.searchArticles({
+            country: query.country,
+            cursor: query.cursor,
+            language: query.language,
+            limit: query.limit,
+            q: query.q,
+        });
+
+        return c.json(response);
+    });
+
+    // Registered before '/:id' so 'stream' is not captured as an article id
+    app.get('/stream', (c) => {
+        const subscription = controllers.streamArticles.streamArticles({
+            country: c.req.query('country'),
+            language: c.req.query('language'),
+            lastEventId: c.req.header('Last-Event-ID'),
+        });
+
+        return streamSSE(c, async (stream) => {
+            // Writes are chained so messages and heartbeats never interleave
+            let writing: Promise<unknown> = Promise.resolve();
+            const enqueue = (write: () => Promise<unknown>) => {
+                writing = writing.then(write).catch(() => undefined);
+            };
+
+            const unsubscribe = subscription.subscribe((message) =>
+                enqueue(() => stream.writeSSE(message)),
+            );
+            const heartbeat = setInterval(
+                () => enqueue(() => stream.write(': heartbeat\n\n')),
+                STREAM_HEARTBEAT_INTERVAL_MS,
+            );
+
+            await new Promise<void>((resolve) => stream.onAbort(resolve));
+
+            clearInterval(heartbeat);
+            unsubscribe();
+        });
+    });
+
+    app.get('/:id', async (c) => {
+        const response = await controllers.getArticle.getArticle({
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    app.post('/:id/quiz/answers', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.gradeArticleQuiz.gradeArticleQuiz({
+            body,
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    app.post('/:id/authenticity-guess', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.guessArticleAuthenticity.guessArticleAuthenticity({
+            body,
+            id: c.req.param('id'),
         });
 
         return c.json(response);
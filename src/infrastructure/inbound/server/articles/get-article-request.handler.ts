@@ -0,0 +1,46 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+/**
+ * Raw HTTP path parameters from the request
+ */
+export interface GetArticleHttpParams {
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input parameters for GET /articles/:id endpoint
+ */
+export const getArticleParamsSchema = z.object({
+    id: z
+        .string()
+        .trim()
+        .regex(/^[0-9a-fA-F-]{36}$/, { message: 'Article id must be a UUID' }),
+});
+
+export type GetArticleValidatedParams = z.infer<typeof getArticleParamsSchema>;
+
+/**
+ * Handles HTTP request validation for GET /articles/:id endpoint
+ */
+export class GetArticleRequestHandler {
+    /**
+     * Validates raw HTTP path parameters
+     *
+     * @param rawParams - Raw HTTP path parameters
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawParams: GetArticleHttpParams): GetArticleValidatedParams {
+        const validatedParams = getArticleParamsSchema.safeParse(rawParams);
+
+        if (!validatedParams.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedParams.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedParams.data;
+    }
+}
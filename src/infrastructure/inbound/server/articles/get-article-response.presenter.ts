@@ -0,0 +1,24 @@
+// Domain
+import { type Article } from '../../../../domain/entities/article.entity.js';
+
+import {
+    type ArticleResponse,
+    ArticleResponsePresenter,
+    type ArticleResponsePresenterOptions,
+} from './article-response.presenter.js';
+
+/**
+ * Handles response formatting for GET /articles/:id endpoint
+ * Returns the same article shape as the list endpoint, without the pagination envelope
+ */
+export class GetArticleResponsePresenter {
+    private readonly articlePresenter: ArticleResponsePresenter;
+
+    constructor(options: ArticleResponsePresenterOptions = {}) {
+        this.articlePresenter = new ArticleResponsePresenter(options);
+    }
+
+    present(article: Article): ArticleResponse {
+        return this.articlePresenter.present(article);
+    }
+}
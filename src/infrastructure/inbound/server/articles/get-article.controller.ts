@@ -0,0 +1,40 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type GetArticleUseCase } from '../../../../application/use-cases/articles/get-article.use-case.js';
+
+import { type ArticleResponsePresenterOptions } from './article-response.presenter.js';
+import {
+    type GetArticleHttpParams,
+    GetArticleRequestHandler,
+} from './get-article-request.handler.js';
+import { GetArticleResponsePresenter } from './get-article-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for get single article endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetArticleController {
+    private readonly requestHandler: GetArticleRequestHandler;
+    private readonly responsePresenter: GetArticleResponsePresenter;
+
+    constructor(
+        private readonly getArticleUseCase: GetArticleUseCase,
+        presenterOptions: ArticleResponsePresenterOptions = {},
+    ) {
+        this.requestHandler = new GetArticleRequestHandler();
+        this.responsePresenter = new GetArticleResponsePresenter(presenterOptions);
+    }
+
+    async getArticle(rawParams: GetArticleHttpParams) {
+        const validatedParams = this.requestHandler.handle(rawParams);
+
+        const article = await this.getArticleUseCase.execute(validatedParams);
+
+        if (!article) {
+            throw new HTTPException(404, { message: `Article ${validatedParams.id} not found` });
+        }
+
+        return this.responsePresenter.present(article);
+    }
+}
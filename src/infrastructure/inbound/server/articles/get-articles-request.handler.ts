@@ -2,10 +2,14 @@ import { HTTPException } from 'hono/http-exception';
 import { z } from 'zod/v4';
 
 // Domain
+import { articleTraitsSchema } from '../../../../domain/value-objects/article-traits.vo.js';
+import { Categories } from '../../../../domain/value-objects/categories.vo.js';
 import { Category, categorySchema } from '../../../../domain/value-objects/category.vo.js';
 import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
 import { Language, languageSchema } from '../../../../domain/value-objects/language.vo.js';
 
+import { decodeArticleCursor } from './article-cursor.codec.js';
+
 const DEFAULT_PAGE_SIZE = 20;
 const MAX_PAGE_SIZE = 100;
 
@@ -13,14 +17,42 @@ const MAX_PAGE_SIZE = 100;
  * Raw HTTP query parameters from the request
  */
 export interface GetArticlesHttpQuery {
+    categories?: string | string[];
+    categoriesMatch?: string;
     category?: string;
     country?: string;
     cursor?: string;
+    from?: string;
+    groupBy?: string;
     ids?: string | string[];
     language?: string;
     limit?: string;
+    tier?: string | string[];
+    to?: string;
+    traits?: string | string[];
+    traitsMatch?: string;
 }
 
+/**
+ * Splits a comma-separated (or repeated) query parameter into trimmed, non-empty values
+ */
+const listParamSchema = z
+    .union([z.string(), z.array(z.string())])
+    .optional()
+    .transform((v) =>
+        v === undefined ? [] : (Array.isArray(v) ? v : [v]).flatMap((item) => item.split(',')),
+    )
+    .transform((arr) => arr.map((item) => item.trim()).filter((item) => item.length > 0));
+
+/**
+ * Validates how multiple values of a filter combine: `any` (OR, default) or `all` (AND)
+ */
+const matchParamSchema = z
+    .string()
+    .optional()
+    .transform((val) => val?.toLowerCase() || 'any')
+    .pipe(z.enum(['all', 'any']));
+
 /**
  * Validates and transforms a category string to a Category domain object
  */
@@ -31,6 +63,30 @@ const categoryParamSchema = z
     .pipe(categorySchema.optional())
     .transform((val) => (val ? new Category(val) : undefined));
 
+/**
+ * Validates and transforms a list of categories to a Categories domain object
+ */
+const categoriesParamSchema = listParamSchema
+    .transform((arr) => Array.from(new Set(arr.map((val) => val.toUpperCase()))))
+    .pipe(z.array(categorySchema))
+    .transform((arr) => (arr.length > 0 ? new Categories(arr) : undefined));
+
+/**
+ * Validates a list of report tiers; OFF_TOPIC articles are never listed
+ */
+const tierParamSchema = listParamSchema
+    .transform((arr) => Array.from(new Set(arr.map((val) => val.toUpperCase()))))
+    .pipe(z.array(z.enum(['GENERAL', 'NICHE'])))
+    .transform((arr) => (arr.length > 0 ? arr : undefined));
+
+/**
+ * Validates a list of article traits (e.g. `positive,essential`)
+ */
+const traitsParamSchema = listParamSchema
+    .transform((arr) => Array.from(new Set(arr.map((val) => val.toLowerCase()))))
+    .pipe(z.array(articleTraitsSchema.keyof()))
+    .transform((arr) => (arr.length > 0 ? arr : undefined));
+
 /**
  * Validates and transforms a country string to a Country domain object
  * Defaults to 'us' if not specified
@@ -53,35 +109,30 @@ const languageParamSchema = z
     .transform((val) => (val ? new Language(val) : undefined));
 
 /**
- * Validates and transforms a cursor string to a Date object
+ * Validates and decodes an opaque cursor to a list position and read direction
  */
 const cursorParamSchema = z
     .string()
     .optional()
-    .refine(
-        (cursor) => {
-            if (!cursor) return true;
-
-            try {
-                const decodedString = Buffer.from(cursor, 'base64').toString();
-                const timestamp = Number(decodedString);
-                return !Number.isNaN(timestamp);
-            } catch {
-                return false;
-            }
-        },
-        {
-            message: 'Invalid cursor format',
-        },
-    )
-    .transform((cursor) => {
+    .transform((cursor, ctx) => {
         if (!cursor) return undefined;
 
-        const decodedString = Buffer.from(cursor, 'base64').toString();
-        const timestamp = Number(decodedString);
-        return new Date(timestamp);
+        const decoded = decodeArticleCursor(cursor);
+        if (!decoded) {
+            ctx.addIssue({ code: 'custom', message: 'Invalid cursor format' });
+            return z.NEVER;
+        }
+
+        return decoded;
     });
 
+/**
+ * Validates a calendar day (yyyy-MM-dd), interpreted later in the country timezone
+ */
+const dayParamSchema = z.iso
+    .date({ message: 'Expected a date formatted as yyyy-MM-dd' })
+    .optional();
+
 /**
  * Validates and transforms limit parameter with default value
  */
@@ -98,24 +149,42 @@ const limitParamSchema = z
  * Schema for validating HTTP input parameters for GET /articles endpoint
  * Transforms raw input directly to domain value objects
  */
-const getArticlesParamsSchema = z.object({
-    category: categoryParamSchema,
-    country: countryParamSchema,
-    cursor: cursorParamSchema,
-    ids: z
-        .union([z.string(), z.array(z.string())])
-        .optional()
-        .transform((v) => (v === undefined ? undefined : Array.isArray(v) ? v : v.split(',')))
-        .transform((arr) => arr?.map((id) => id.trim()).filter((id) => id.length > 0))
-        .refine((arr) => (arr ? arr.length <= 50 : true), {
-            message: 'Too many ids (max 50 allowed)',
-        })
-        .refine((arr) => (arr ? arr.every((id) => /^[0-9a-fA-F-]{36}$/.test(id)) : true), {
-            message: 'All ids must be UUIDs',
-        }),
-    language: languageParamSchema,
-    limit: limitParamSchema,
-});
+export const getArticlesParamsSchema = z
+    .object({
+        categories: categoriesParamSchema,
+        categoriesMatch: matchParamSchema,
+        category: categoryParamSchema,
+        country: countryParamSchema,
+        cursor: cursorParamSchema,
+        from: dayParamSchema,
+        groupBy: z.enum(['day']).optional(),
+        ids: z
+            .union([z.string(), z.array(z.string())])
+            .optional()
+            .transform((v) => (v === undefined ? undefined : Array.isArray(v) ? v : v.split(',')))
+            .transform((arr) => arr?.map((id) => id.trim()).filter((id) => id.length > 0))
+            .refine((arr) => (arr ? arr.length <= 50 : true), {
+                message: 'Too many ids (max 50 allowed)',
+            })
+            .refine((arr) => (arr ? arr.every((id) => /^[0-9a-fA-F-]{36}$/.test(id)) : true), {
+                message: 'All ids must be UUIDs',
+            }),
+        language: languageParamSchema,
+        limit: limitParamSchema,
+        tier: tierParamSchema,
+        to: dayParamSchema,
+        traits: traitsParamSchema,
+        traitsMatch: matchParamSchema,
+    })
+    .refine((params) => !params.from || !params.to || params.from <= params.to, {
+        message: "'from' must not be after 'to'",
+        path: ['from'],
+    })
+    .transform(({ cursor, ...params }) => ({
+        ...params,
+        cursor: cursor?.cursor,
+        direction: cursor?.direction,
+    }));
 
 export type GetArticlesHttpParams = z.infer<typeof getArticlesParamsSchema>;
 
@@ -1,6 +1,7 @@
 // Application
 import { type GetArticlesUseCase } from '../../../../application/use-cases/articles/get-articles.use-case.js';
 
+import { type ArticleResponsePresenterOptions } from './article-response.presenter.js';
 import {
     type GetArticlesHttpQuery,
     GetArticlesRequestHandler,
@@ -15,9 +16,12 @@ export class GetArticlesController {
     private readonly requestHandler: GetArticlesRequestHandler;
     private readonly responsePresenter: GetArticlesResponsePresenter;
 
-    constructor(private readonly getArticlesUseCase: GetArticlesUseCase) {
+    constructor(
+        private readonly getArticlesUseCase: GetArticlesUseCase,
+        presenterOptions: ArticleResponsePresenterOptions = {},
+    ) {
         this.requestHandler = new GetArticlesRequestHandler();
-        this.responsePresenter = new GetArticlesResponsePresenter();
+        this.responsePresenter = new GetArticlesResponsePresenter(presenterOptions);
     }
 
     async getArticles(rawQuery: GetArticlesHttpQuery) {
@@ -0,0 +1,66 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+const MAX_ANSWERS = 20;
+
+/**
+ * Raw HTTP input for POST /articles/:id/quiz/answers
+ */
+export interface GradeArticleQuizHttpInput {
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for POST /articles/:id/quiz/answers endpoint
+ */
+export const gradeArticleQuizInputSchema = z.object({
+    body: z.object({
+        answers: z
+            .array(
+                z.object({
+                    answerIndex: z.number().int().min(0),
+                    questionIndex: z.number().int().min(0),
+                }),
+            )
+            .min(1)
+            .max(MAX_ANSWERS)
+            .refine(
+                (answers) =>
+                    new Set(answers.map((answer) => answer.questionIndex)).size === answers.length,
+                { message: 'Each question can only be answered once' },
+            ),
+        playerId: z.uuid().optional(),
+    }),
+    id: z
+        .string()
+        .trim()
+        .regex(/^[0-9a-fA-F-]{36}$/, { message: 'Article id must be a UUID' }),
+});
+
+export type GradeArticleQuizHttpParams = z.infer<typeof gradeArticleQuizInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /articles/:id/quiz/answers endpoint
+ */
+export class GradeArticleQuizRequestHandler {
+    /**
+     * Validates the article id and the submitted answers
+     *
+     * @param rawInput - Raw HTTP path parameters and JSON body
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GradeArticleQuizHttpInput): GradeArticleQuizHttpParams {
+        const validatedInput = gradeArticleQuizInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,39 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type GradeArticleQuizResult } from '../../../../application/use-cases/articles/grade-article-quiz.use-case.js';
+
+export const gradeArticleQuizResponseSchema = z.object({
+    correctCount: z.number().int(),
+    results: z.array(
+        z.object({
+            answerIndex: z.number().int(),
+            correct: z.boolean(),
+            correctAnswer: z.string(),
+            correctAnswerIndex: z.number().int(),
+            questionIndex: z.number().int(),
+        }),
+    ),
+    total: z.number().int(),
+});
+
+type GradeArticleQuizResponse = z.infer<typeof gradeArticleQuizResponseSchema>;
+
+/**
+ * Handles response formatting for POST /articles/:id/quiz/answers endpoint
+ */
+export class GradeArticleQuizResponsePresenter {
+    present(result: GradeArticleQuizResult): GradeArticleQuizResponse {
+        return {
+            correctCount: result.correctCount,
+            results: result.results.map((grade) => ({
+                answerIndex: grade.answerIndex,
+                correct: grade.correct,
+                correctAnswer: grade.correctAnswer,
+                correctAnswerIndex: grade.correctAnswerIndex,
+                questionIndex: grade.questionIndex,
+            })),
+            total: result.total,
+        };
+    }
+}
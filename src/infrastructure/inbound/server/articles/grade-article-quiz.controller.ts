@@ -0,0 +1,58 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import {
+    type GradeArticleQuizUseCase,
+    InvalidQuizAnswerError,
+} from '../../../../application/use-cases/articles/grade-article-quiz.use-case.js';
+import { PlayerNotFoundError } from '../../../../application/use-cases/players/player-not-found.error.js';
+import { PlayerRequiredError } from '../../../../application/use-cases/players/player-required.error.js';
+
+import {
+    type GradeArticleQuizHttpInput,
+    GradeArticleQuizRequestHandler,
+} from './grade-article-quiz-request.handler.js';
+import { GradeArticleQuizResponsePresenter } from './grade-article-quiz-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the quiz grading endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GradeArticleQuizController {
+    private readonly requestHandler: GradeArticleQuizRequestHandler;
+    private readonly responsePresenter: GradeArticleQuizResponsePresenter;
+
+    constructor(private readonly gradeArticleQuizUseCase: GradeArticleQuizUseCase) {
+        this.requestHandler = new GradeArticleQuizRequestHandler();
+        this.responsePresenter = new GradeArticleQuizResponsePresenter();
+    }
+
+    async gradeArticleQuiz(rawInput: GradeArticleQuizHttpInput) {
+        const { body, id } = this.requestHandler.handle(rawInput);
+
+        try {
+            const result = await this.gradeArticleQuizUseCase.execute({
+                answers: body.answers,
+                articleId: id,
+                playerId: body.playerId,
+            });
+
+            if (!result) {
+                throw new HTTPException(404, { message: `Article ${id} not found` });
+            }
+
+            return this.responsePresenter.present(result);
+        } catch (error) {
+            if (error instanceof InvalidQuizAnswerError) {
+                throw new HTTPException(422, { cause: error, message: error.message });
+            }
+            if (error instanceof PlayerNotFoundError) {
+                throw new HTTPException(404, { cause: error, message: error.message });
+            }
+            if (error instanceof PlayerRequiredError) {
+                throw new HTTPException(422, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
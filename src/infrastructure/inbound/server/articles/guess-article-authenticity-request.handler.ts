@@ -0,0 +1,59 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { authenticityStatusSchema } from '../../../../domain/value-objects/article/authenticity.vo.js';
+
+/**
+ * Raw HTTP input for POST /articles/:id/authenticity-guess
+ */
+export interface GuessArticleAuthenticityHttpInput {
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for POST /articles/:id/authenticity-guess endpoint
+ */
+export const guessArticleAuthenticityInputSchema = z.object({
+    body: z.object({
+        guess: z
+            .string()
+            .transform((val) => val.toUpperCase())
+            .pipe(authenticityStatusSchema),
+        playerId: z.uuid().optional(),
+    }),
+    id: z
+        .string()
+        .trim()
+        .regex(/^[0-9a-fA-F-]{36}$/, { message: 'Article id must be a UUID' }),
+});
+
+export type GuessArticleAuthenticityHttpParams = z.infer<
+    typeof guessArticleAuthenticityInputSchema
+>;
+
+/**
+ * Handles HTTP request validation for POST /articles/:id/authenticity-guess endpoint
+ */
+export class GuessArticleAuthenticityRequestHandler {
+    /**
+     * Validates the article id and the submitted guess
+     *
+     * @param rawInput - Raw HTTP path parameters and JSON body
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GuessArticleAuthenticityHttpInput): GuessArticleAuthenticityHttpParams {
+        const validatedInput = guessArticleAuthenticityInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,27 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type GuessArticleAuthenticityResult } from '../../../../application/use-cases/articles/guess-article-authenticity.use-case.js';
+
+export const guessArticleAuthenticityResponseSchema = z.object({
+    answer: z.enum(['AUTHENTIC', 'FABRICATED']),
+    correct: z.boolean(),
+    explanation: z.string(),
+    guess: z.enum(['AUTHENTIC', 'FABRICATED']),
+});
+
+type GuessArticleAuthenticityResponse = z.infer<typeof guessArticleAuthenticityResponseSchema>;
+
+/**
+ * Handles response formatting for POST /articles/:id/authenticity-guess endpoint
+ */
+export class GuessArticleAuthenticityResponsePresenter {
+    present(result: GuessArticleAuthenticityResult): GuessArticleAuthenticityResponse {
+        return {
+            answer: result.answer,
+            correct: result.correct,
+            explanation: result.clarification ?? '',
+            guess: result.guess,
+        };
+    }
+}
@@ -0,0 +1,52 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type GuessArticleAuthenticityUseCase } from '../../../../application/use-cases/articles/guess-article-authenticity.use-case.js';
+import { PlayerNotFoundError } from '../../../../application/use-cases/players/player-not-found.error.js';
+import { PlayerRequiredError } from '../../../../application/use-cases/players/player-required.error.js';
+
+import {
+    type GuessArticleAuthenticityHttpInput,
+    GuessArticleAuthenticityRequestHandler,
+} from './guess-article-authenticity-request.handler.js';
+import { GuessArticleAuthenticityResponsePresenter } from './guess-article-authenticity-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the authenticity guess endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GuessArticleAuthenticityController {
+    private readonly requestHandler: GuessArticleAuthenticityRequestHandler;
+    private readonly responsePresenter: GuessArticleAuthenticityResponsePresenter;
+
+    constructor(private readonly guessArticleAuthenticityUseCase: GuessArticleAuthenticityUseCase) {
+        this.requestHandler = new GuessArticleAuthenticityRequestHandler();
+        this.responsePresenter = new GuessArticleAuthenticityResponsePresenter();
+    }
+
+    async guessArticleAuthenticity(rawInput: GuessArticleAuthenticityHttpInput) {
+        const { body, id } = this.requestHandler.handle(rawInput);
+
+        try {
+            const result = await this.guessArticleAuthenticityUseCase.execute({
+                articleId: id,
+                guess: body.guess,
+                playerId: body.playerId,
+            });
+
+            if (!result) {
+                throw new HTTPException(404, { message: `Article ${id} not found` });
+            }
+
+            return this.responsePresenter.present(result);
+        } catch (error) {
+            if (error instanceof PlayerNotFoundError) {
+                throw new HTTPException(404, { cause: error, message: error.message });
+            }
+            if (error instanceof PlayerRequiredError) {
+                throw new HTTPException(422, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
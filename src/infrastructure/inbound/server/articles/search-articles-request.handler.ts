@@ -0,0 +1,105 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { Language, languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+const MAX_QUERY_LENGTH = 200;
+
+/**
+ * Raw HTTP query parameters from the request
+ */
+export interface SearchArticlesHttpQuery {
+    country?: string;
+    cursor?: string;
+    language?: string;
+    limit?: string;
+    q?: string;
+}
+
+/**
+ * Search cursors are base64-encoded JSON holding the relevance rank and id of the last hit
+ */
+const searchCursorSchema = z.object({
+    id: z.string().regex(/^[0-9a-fA-F-]{36}$/),
+    rank: z.number(),
+});
+
+const cursorParamSchema = z
+    .string()
+    .optional()
+    .transform((cursor, ctx) => {
+        if (!cursor) return undefined;
+
+        try {
+            const decoded = JSON.parse(Buffer.from(cursor, 'base64').toString());
+            const result = searchCursorSchema.safeParse(decoded);
+            if (result.success) return result.data;
+        } catch {
+            // Fall through to the validation issue below
+        }
+
+        ctx.addIssue({ code: 'custom', message: 'Invalid cursor format' });
+        return z.NEVER;
+    });
+
+/**
+ * Schema for validating HTTP input parameters for GET /articles/search endpoint
+ * Country and language behave as on GET /articles
+ */
+export const searchArticlesParamsSchema = z.object({
+    country: z
+        .string()
+        .optional()
+        .transform((val) => val?.toUpperCase() || 'US')
+        .pipe(countrySchema)
+        .transform((val) => new Country(val)),
+    cursor: cursorParamSchema,
+    language: z
+        .string()
+        .optional()
+        .transform((val) => val?.toUpperCase())
+        .pipe(languageSchema.optional())
+        .transform((val) => (val ? new Language(val) : undefined)),
+    limit: z
+        .string()
+        .optional()
+        .transform((val) => (val === undefined ? DEFAULT_PAGE_SIZE : Number(val)))
+        .pipe(z.number().int().min(1).max(MAX_PAGE_SIZE)),
+    query: z
+        .string({ message: 'Search query is required' })
+        .trim()
+        .min(2, { message: 'Search query must be at least 2 characters long' })
+        .max(MAX_QUERY_LENGTH),
+});
+
+export type SearchArticlesHttpParams = z.infer<typeof searchArticlesParamsSchema>;
+
+/**
+ * Handles HTTP request validation for GET /articles/search endpoint
+ */
+export class SearchArticlesRequestHandler {
+    /**
+     * Validates raw HTTP query parameters
+     *
+     * @param rawQuery - Raw HTTP query parameters
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawQuery: SearchArticlesHttpQuery): SearchArticlesHttpParams {
+        const { q, ...rest } = rawQuery;
+        const validatedParams = searchArticlesParamsSchema.safeParse({ ...rest, query: q });
+
+        if (!validatedParams.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedParams.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedParams.data;
+    }
+}
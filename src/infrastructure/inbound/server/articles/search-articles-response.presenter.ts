@@ -0,0 +1,55 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type SearchArticlesResult } from '../../../../application/use-cases/articles/search-articles.use-case.js';
+
+import {
+    ArticleResponsePresenter,
+    type ArticleResponsePresenterOptions,
+    articleResponseSchema,
+} from './article-response.presenter.js';
+
+/**
+ * GET /articles/search response: same envelope as GET /articles, with a snippet per article
+ */
+export const searchArticlesResponseSchema = z.object({
+    items: z.array(
+        articleResponseSchema.extend({
+            /** Best matching excerpt with matched terms wrapped in `<mark>` tags */
+            snippet: z.string(),
+        }),
+    ),
+    nextCursor: z.string().nullable(),
+    total: z.number().int(),
+});
+
+type SearchArticlesResponse = z.infer<typeof searchArticlesResponseSchema>;
+
+/**
+ * Handles response formatting for GET /articles/search endpoint
+ * Same envelope as GET /articles, with a highlighted snippet on each article
+ */
+export class SearchArticlesResponsePresenter {
+    private readonly articlePresenter: ArticleResponsePresenter;
+
+    constructor(options: ArticleResponsePresenterOptions = {}) {
+        this.articlePresenter = new ArticleResponsePresenter(options);
+    }
+
+    present(result: SearchArticlesResult): SearchArticlesResponse {
+        const items = result.hits.map((hit) => ({
+            ...this.articlePresenter.present(hit.article),
+            snippet: hit.snippet,
+        }));
+
+        const nextCursor = result.lastHit
+            ? Buffer.from(JSON.stringify(result.lastHit)).toString('base64')
+            : null;
+
+        return {
+            items,
+            nextCursor,
+            total: result.total,
+        };
+    }
+}
@@ -0,0 +1,34 @@
+// Application
+import { type SearchArticlesUseCase } from '../../../../application/use-cases/articles/search-articles.use-case.js';
+
+import { type ArticleResponsePresenterOptions } from './article-response.presenter.js';
+import {
+    type SearchArticlesHttpQuery,
+    SearchArticlesRequestHandler,
+} from './search-articles-request.handler.js';
+import { SearchArticlesResponsePresenter } from './search-articles-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the article search endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class SearchArticlesController {
+    private readonly requestHandler: SearchArticlesRequestHandler;
+    private readonly responsePresenter: SearchArticlesResponsePresenter;
+
+    constructor(
+        private readonly searchArticlesUseCase: SearchArticlesUseCase,
+        presenterOptions: ArticleResponsePresenterOptions = {},
+    ) {
+        this.requestHandler = new SearchArticlesRequestHandler();
+        this.responsePresenter = new SearchArticlesResponsePresenter(presenterOptions);
+    }
+
+    async searchArticles(rawQuery: SearchArticlesHttpQuery) {
+        const validatedParams = this.requestHandler.handle(rawQuery);
+
+        const result = await this.searchArticlesUseCase.execute(validatedParams);
+
+        return this.responsePresenter.present(result);
+    }
+}
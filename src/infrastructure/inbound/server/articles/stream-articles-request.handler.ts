@@ -0,0 +1,62 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { Language, languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * Raw HTTP input for GET /articles/stream
+ */
+export interface StreamArticlesHttpInput {
+    country?: string;
+    language?: string;
+    lastEventId?: string;
+}
+
+/**
+ * Schema for validating HTTP input for GET /articles/stream endpoint
+ * Without a locale, articles of every locale are streamed
+ */
+export const streamArticlesInputSchema = z.object({
+    country: z
+        .string()
+        .optional()
+        .transform((val) => val?.toUpperCase())
+        .pipe(countrySchema.optional())
+        .transform((val) => (val ? new Country(val) : undefined)),
+    language: z
+        .string()
+        .optional()
+        .transform((val) => val?.toUpperCase())
+        .pipe(languageSchema.optional())
+        .transform((val) => (val ? new Language(val) : undefined)),
+    lastEventId: z.coerce.number().int().min(0).optional(),
+});
+
+export type StreamArticlesHttpParams = z.infer<typeof streamArticlesInputSchema>;
+
+/**
+ * Handles HTTP request validation for GET /articles/stream endpoint
+ */
+export class StreamArticlesRequestHandler {
+    /**
+     * Validates the locale filter and the id of the last event the client received
+     *
+     * @param rawInput - Raw HTTP query parameters and Last-Event-ID header
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: StreamArticlesHttpInput): StreamArticlesHttpParams {
+        const validatedInput = streamArticlesInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,43 @@
+import { type z } from 'zod/v4';
+
+// Domain
+import { type Article } from '../../../../domain/entities/article.entity.js';
+import { type CategoryEnum } from '../../../../domain/value-objects/category.vo.js';
+import { type CountryEnum } from '../../../../domain/value-objects/country.vo.js';
+import { type LanguageEnum } from '../../../../domain/value-objects/language.vo.js';
+
+import { articleResponseSchema } from './article-response.presenter.js';
+
+/**
+ * Lightweight notification: enough to render a teaser, the full article is fetched by id
+ */
+export const streamArticleEventSchema = articleResponseSchema
+    .pick({ headline: true, id: true, publishedAt: true })
+    .extend({
+        metadata: articleResponseSchema.shape.metadata.pick({
+            categories: true,
+            country: true,
+            language: true,
+        }),
+    });
+
+export type StreamArticleEvent = z.infer<typeof streamArticleEventSchema>;
+
+/**
+ * Handles event formatting for GET /articles/stream endpoint
+ * Never carries the authenticity, so the stream cannot spoil the game
+ */
+export class StreamArticlesResponsePresenter {
+    present(article: Article): StreamArticleEvent {
+        return {
+            headline: article.headline.toString(),
+            id: article.id,
+            metadata: {
+                categories: article.categories.toArray() as CategoryEnum[],
+                country: article.country.toString() as CountryEnum,
+                language: article.language.toString() as LanguageEnum,
+            },
+            publishedAt: article.publishedAt.toISOString(),
+        };
+    }
+}
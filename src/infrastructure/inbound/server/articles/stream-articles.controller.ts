@@ -0,0 +1,116 @@
+// Application
+import { type EventBusPort } from '../../../../application/ports/outbound/events/event-bus.port.js';
+
+// Domain
+import { type Article } from '../../../../domain/entities/article.entity.js';
+
+import {
+    type StreamArticlesHttpInput,
+    type StreamArticlesHttpParams,
+    StreamArticlesRequestHandler,
+} from './stream-articles-request.handler.js';
+import { StreamArticlesResponsePresenter } from './stream-articles-response.presenter.js';
+
+/** Events kept for clients resuming with Last-Event-ID; older gaps cannot be replayed */
+const HISTORY_SIZE = 500;
+
+/**
+ * Server-Sent Event, as written on the wire
+ */
+export interface ArticleStreamMessage {
+    data: string;
+    event: 'article';
+    id: string;
+}
+
+/**
+ * Open stream of a client: replays missed events then forwards live ones, until unsubscribed
+ */
+export interface ArticleStreamSubscription {
+    subscribe(listener: (message: ArticleStreamMessage) => void): () => void;
+}
+
+type StreamedArticle = {
+    country: string;
+    id: number;
+    language: string;
+    message: ArticleStreamMessage;
+};
+
+/**
+ * Orchestrates HTTP request handling for the article stream endpoint
+ * Turns published article events into SSE messages and keeps a short history for resumption
+ */
+export class StreamArticlesController {
+    private readonly history: StreamedArticle[] = [];
+    private lastId = 0;
+    private readonly listeners = new Set<(article: StreamedArticle) => void>();
+    private readonly requestHandler: StreamArticlesRequestHandler;
+    private readonly responsePresenter: StreamArticlesResponsePresenter;
+
+    constructor(eventBus: EventBusPort) {
+        this.requestHandler = new StreamArticlesRequestHandler();
+        this.responsePresenter = new StreamArticlesResponsePresenter();
+
+        eventBus.subscribe('articles.published', (event) => {
+            event.articles.forEach((article) => this.broadcast(article));
+        });
+    }
+
+    /**
+     * Validates the request before the stream is opened, so invalid input still gets a 422
+     */
+    streamArticles(rawInput: StreamArticlesHttpInput): ArticleStreamSubscription {
+        const params = this.requestHandler.handle(rawInput);
+        const matches = (article: StreamedArticle) => matchesLocale(article, params);
+
+        return {
+            subscribe: (listener) => {
+                // Replay and subscription happen in the same tick, so no event falls in between
+                const { lastEventId } = params;
+                if (lastEventId !== undefined) {
+                    this.history
+                        .filter((article) => article.id > lastEventId && matches(article))
+                        .forEach((article) => listener(article.message));
+                }
+
+                const forward = (article: StreamedArticle) => {
+                    if (matches(article)) listener(article.message);
+                };
+                this.listeners.add(forward);
+
+                return () => {
+                    this.listeners.delete(forward);
+                };
+            },
+        };
+    }
+
+    private broadcast(article: Article): void {
+        // Time-based ids keep increasing across restarts, so a stale Last-Event-ID replays nothing wrong
+        this.lastId = Math.max(Date.now(), this.lastId + 1);
+
+        const streamed: StreamedArticle = {
+            country: article.country.toString(),
+            id: this.lastId,
+            language: article.language.toString(),
+            message: {
+                data: JSON.stringify(this.responsePresenter.present(article)),
+                event: 'article',
+                id: String(this.lastId),
+            },
+        };
+
+        this.history.push(streamed);
+        if (this.history.length > HISTORY_SIZE) this.history.shift();
+
+        this.listeners.forEach((listener) => listener(streamed));
+    }
+}
+
+function matchesLocale(article: StreamedArticle, params: StreamArticlesHttpParams): boolean {
+    return (
+        (!params.country || params.country.toString() === article.country) &&
+        (!params.language || params.language.toString() === article.language)
+    );
+}
@@ -0,0 +1,25 @@
+import { Hono } from 'hono';
+
+import { type GetDailyChallengeController } from './get-daily-challenge.controller.js';
+
+/**
+ * Controllers backing the /challenges routes
+ */
+export interface ChallengesControllers {
+    getDailyChallenge: GetDailyChallengeController;
+}
+
+export const createChallengesRouter = (controllers: ChallengesControllers) => {
+    const app = new Hono();
+
+    app.get('/daily', async (c) => {
+        const response = await controllers.getDailyChallenge.getDailyChallenge({
+            country: c.req.query('country'),
+            language: c.req.query('language'),
+        });
+
+        return c.json(response);
+    });
+
+    return app;
+};
@@ -0,0 +1,58 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { Language, languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * Raw HTTP query parameters from the request
+ */
+export interface GetDailyChallengeHttpQuery {
+    country?: string;
+    language?: string;
+}
+
+/**
+ * Schema for validating HTTP input parameters for GET /challenges/daily endpoint
+ * Both country and language are required since an edition is shared per locale
+ */
+export const getDailyChallengeQuerySchema = z.object({
+    country: z
+        .string()
+        .transform((val) => val.toUpperCase())
+        .pipe(countrySchema)
+        .transform((val) => new Country(val)),
+    language: z
+        .string()
+        .transform((val) => val.toUpperCase())
+        .pipe(languageSchema)
+        .transform((val) => new Language(val)),
+});
+
+export type GetDailyChallengeValidatedParams = z.infer<typeof getDailyChallengeQuerySchema>;
+
+/**
+ * Handles HTTP request validation for GET /challenges/daily endpoint
+ */
+export class GetDailyChallengeRequestHandler {
+    /**
+     * Validates raw HTTP query parameters
+     *
+     * @param rawQuery - Raw HTTP query parameters
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawQuery: GetDailyChallengeHttpQuery): GetDailyChallengeValidatedParams {
+        const validatedParams = getDailyChallengeQuerySchema.safeParse(rawQuery);
+
+        if (!validatedParams.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedParams.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedParams.data;
+    }
+}
@@ -0,0 +1,49 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type GetDailyChallengeResult } from '../../../../application/use-cases/challenges/get-daily-challenge.use-case.js';
+
+// Domain
+import { type Country } from '../../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../../domain/value-objects/language.vo.js';
+
+import {
+    ArticleResponsePresenter,
+    type ArticleResponsePresenterOptions,
+    articleResponseSchema,
+} from '../articles/article-response.presenter.js';
+
+export const getDailyChallengeResponseSchema = z.object({
+    articles: z.array(articleResponseSchema),
+    country: z.string(),
+    date: z.iso.date(),
+    fabricatedIncluded: z.boolean(),
+    language: z.string(),
+});
+
+type GetDailyChallengeResponse = z.infer<typeof getDailyChallengeResponseSchema>;
+
+/**
+ * Handles response formatting for GET /challenges/daily endpoint
+ * Articles share the shape of the /articles endpoints so clients can reuse their rendering
+ */
+export class GetDailyChallengeResponsePresenter {
+    private readonly articlePresenter: ArticleResponsePresenter;
+
+    constructor(options: ArticleResponsePresenterOptions = {}) {
+        this.articlePresenter = new ArticleResponsePresenter(options);
+    }
+
+    present(
+        result: GetDailyChallengeResult,
+        locale: { country: Country; language: Language },
+    ): GetDailyChallengeResponse {
+        return {
+            articles: result.articles.map((article) => this.articlePresenter.present(article)),
+            country: locale.country.toString().toLowerCase(),
+            date: result.date,
+            fabricatedIncluded: result.fabricatedIncluded,
+            language: locale.language.toString().toLowerCase(),
+        };
+    }
+}
@@ -0,0 +1,43 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type GetDailyChallengeUseCase } from '../../../../application/use-cases/challenges/get-daily-challenge.use-case.js';
+
+import { type ArticleResponsePresenterOptions } from '../articles/article-response.presenter.js';
+
+import {
+    type GetDailyChallengeHttpQuery,
+    GetDailyChallengeRequestHandler,
+} from './get-daily-challenge-request.handler.js';
+import { GetDailyChallengeResponsePresenter } from './get-daily-challenge-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the daily challenge endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetDailyChallengeController {
+    private readonly requestHandler: GetDailyChallengeRequestHandler;
+    private readonly responsePresenter: GetDailyChallengeResponsePresenter;
+
+    constructor(
+        private readonly getDailyChallengeUseCase: GetDailyChallengeUseCase,
+        presenterOptions: ArticleResponsePresenterOptions = {},
+    ) {
+        this.requestHandler = new GetDailyChallengeRequestHandler();
+        this.responsePresenter = new GetDailyChallengeResponsePresenter(presenterOptions);
+    }
+
+    async getDailyChallenge(rawQuery: GetDailyChallengeHttpQuery) {
+        const validatedParams = this.requestHandler.handle(rawQuery);
+
+        const result = await this.getDailyChallengeUseCase.execute(validatedParams);
+
+        if (!result) {
+            throw new HTTPException(404, {
+                message: 'No articles available for a daily challenge in this locale',
+            });
+        }
+
+        return this.responsePresenter.present(result, validatedParams);
+    }
+}
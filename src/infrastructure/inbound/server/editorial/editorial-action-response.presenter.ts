@@ -0,0 +1,43 @@
+import { z } from 'zod/v4';
+
+// Domain
+import {
+    type EditorialAction,
+    editorialActionTypeSchema,
+} from '../../../../domain/entities/editorial-action.entity.js';
+
+/**
+ * HTTP representation of the audit record of an editorial override, also used to document the API
+ */
+export const editorialActionResponseSchema = z.object({
+    actor: z.string(),
+    articleId: z.uuid().nullable(),
+    /** Changed fields with their previous and next values */
+    changes: z.record(z.string(), z.object({ from: z.unknown(), to: z.unknown() })),
+    createdAt: z.iso.datetime(),
+    id: z.uuid(),
+    reason: z.string(),
+    reportId: z.uuid().nullable(),
+    type: editorialActionTypeSchema,
+});
+
+export type EditorialActionResponse = z.infer<typeof editorialActionResponseSchema>;
+
+/**
+ * Maps an editorial action to its HTTP representation
+ * Shared by every editorial endpoint so the response shape stays identical
+ */
+export class EditorialActionResponsePresenter {
+    present(action: EditorialAction): EditorialActionResponse {
+        return {
+            actor: action.actor,
+            articleId: action.articleId ?? null,
+            changes: action.changes,
+            createdAt: action.createdAt.toISOString(),
+            id: action.id,
+            reason: action.reason,
+            reportId: action.reportId ?? null,
+            type: action.type,
+        };
+    }
+}
@@ -0,0 +1,16 @@
+import { z } from 'zod/v4';
+
+/**
+ * Request fields shared by the editorial override endpoints
+ */
+export const editorialFieldSchemas = {
+    /** Who is making the change, resolved from the credentials of the request */
+    actor: z.string().min(1),
+    articleId: z.uuid({ message: 'Article id must be a UUID' }),
+    reason: z
+        .string({ message: 'A reason is required' })
+        .trim()
+        .min(1, { message: 'A reason is required' })
+        .max(1000),
+    reportId: z.uuid({ message: 'Report id must be a UUID' }),
+};
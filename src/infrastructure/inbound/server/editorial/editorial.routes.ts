@@ -0,0 +1,86 @@
+import { Hono } from 'hono';
+
+import { describeApiClient } from '../api-key-auth.middleware.js';
+
+import { type MarkReportDuplicateController } from './mark-report-duplicate.controller.js';
+import { type ReclassifyReportController } from './reclassify-report.controller.js';
+import { type RepublishReportController } from './republish-report.controller.js';
+import { type RetractArticleController } from './retract-article.controller.js';
+import { type UnmarkReportDuplicateController } from './unmark-report-duplicate.controller.js';
+
+/**
+ * Controllers backing the editorial override routes, under /admin
+ */
+export interface EditorialControllers {
+    markReportDuplicate: MarkReportDuplicateController;
+    reclassifyReport: ReclassifyReportController;
+    republishReport: RepublishReportController;
+    retractArticle: RetractArticleController;
+    unmarkReportDuplicate: UnmarkReportDuplicateController;
+}
+
+export const createEditorialRouter = (controllers: EditorialControllers) => {
+    const app = new Hono();
+
+    app.post('/reports/:id/reclassify', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.reclassifyReport.reclassifyReport({
+            actor: describeApiClient(c.get('apiClient')),
+            body,
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    app.post('/reports/:id/mark-duplicate', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.markReportDuplicate.markReportDuplicate({
+            actor: describeApiClient(c.get('apiClient')),
+            body,
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    app.post('/reports/:id/unmark-duplicate', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.unmarkReportDuplicate.unmarkReportDuplicate({
+            actor: describeApiClient(c.get('apiClient')),
+            body,
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    app.post('/reports/:id/republish', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.republishReport.republishReport({
+            actor: describeApiClient(c.get('apiClient')),
+            body,
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    app.post('/articles/:id/retract', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.retractArticle.retractArticle({
+            actor: describeApiClient(c.get('apiClient')),
+            body,
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    return app;
+};
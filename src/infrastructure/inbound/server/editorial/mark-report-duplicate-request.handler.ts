@@ -0,0 +1,52 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+import { editorialFieldSchemas } from './editorial-request.schemas.js';
+
+/**
+ * Raw HTTP input for POST /admin/reports/:id/mark-duplicate
+ */
+export interface MarkReportDuplicateHttpInput {
+    actor: string;
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/reports/:id/mark-duplicate endpoint
+ */
+export const markReportDuplicateInputSchema = z.object({
+    actor: editorialFieldSchemas.actor,
+    body: z.object({
+        duplicateOfId: editorialFieldSchemas.reportId,
+        reason: editorialFieldSchemas.reason,
+    }),
+    id: editorialFieldSchemas.reportId,
+});
+
+export type MarkReportDuplicateHttpParams = z.infer<typeof markReportDuplicateInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /admin/reports/:id/mark-duplicate endpoint
+ */
+export class MarkReportDuplicateRequestHandler {
+    /**
+     * Validates the report id, the canonical report id and the reason
+     *
+     * @param rawInput - Raw HTTP path parameter and JSON body, with the client making the change
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: MarkReportDuplicateHttpInput): MarkReportDuplicateHttpParams {
+        const validatedInput = markReportDuplicateInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
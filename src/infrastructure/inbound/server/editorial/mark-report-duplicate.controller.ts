@@ -0,0 +1,49 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { InvalidEditorialTransitionError } from '../../../../application/use-cases/editorial/invalid-editorial-transition.error.js';
+import { type MarkReportDuplicateUseCase } from '../../../../application/use-cases/editorial/mark-report-duplicate.use-case.js';
+
+import { EditorialActionResponsePresenter } from './editorial-action-response.presenter.js';
+import {
+    type MarkReportDuplicateHttpInput,
+    MarkReportDuplicateRequestHandler,
+} from './mark-report-duplicate-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the endpoint marking a report as a duplicate
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class MarkReportDuplicateController {
+    private readonly requestHandler: MarkReportDuplicateRequestHandler;
+    private readonly responsePresenter: EditorialActionResponsePresenter;
+
+    constructor(private readonly markReportDuplicateUseCase: MarkReportDuplicateUseCase) {
+        this.requestHandler = new MarkReportDuplicateRequestHandler();
+        this.responsePresenter = new EditorialActionResponsePresenter();
+    }
+
+    async markReportDuplicate(rawInput: MarkReportDuplicateHttpInput) {
+        const { actor, body, id } = this.requestHandler.handle(rawInput);
+
+        try {
+            const action = await this.markReportDuplicateUseCase.execute({
+                actor,
+                duplicateOfId: body.duplicateOfId,
+                reason: body.reason,
+                reportId: id,
+            });
+
+            if (!action) {
+                throw new HTTPException(404, { message: `Report ${id} not found` });
+            }
+
+            return this.responsePresenter.present(action);
+        } catch (error) {
+            if (error instanceof InvalidEditorialTransitionError) {
+                throw new HTTPException(409, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { classificationSchema } from '../../../../domain/value-objects/report/tier.vo.js';
+
+import { editorialFieldSchemas } from './editorial-request.schemas.js';
+
+/**
+ * Raw HTTP input for POST /admin/reports/:id/reclassify
+ */
+export interface ReclassifyReportHttpInput {
+    actor: string;
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/reports/:id/reclassify endpoint
+ */
+export const reclassifyReportInputSchema = z.object({
+    actor: editorialFieldSchemas.actor,
+    body: z.object({
+        reason: editorialFieldSchemas.reason,
+        tier: z
+            .string()
+            .transform((val) => val.toUpperCase())
+            .pipe(classificationSchema),
+        traits: z.object({ essential: z.boolean(), positive: z.boolean() }).optional(),
+    }),
+    id: editorialFieldSchemas.reportId,
+});
+
+export type ReclassifyReportHttpParams = z.infer<typeof reclassifyReportInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /admin/reports/:id/reclassify endpoint
+ */
+export class ReclassifyReportRequestHandler {
+    /**
+     * Validates the report id, the new classification and the reason
+     *
+     * @param rawInput - Raw HTTP path parameter and JSON body, with the client making the change
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: ReclassifyReportHttpInput): ReclassifyReportHttpParams {
+        const validatedInput = reclassifyReportInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
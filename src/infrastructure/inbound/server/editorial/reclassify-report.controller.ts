@@ -0,0 +1,50 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { InvalidEditorialTransitionError } from '../../../../application/use-cases/editorial/invalid-editorial-transition.error.js';
+import { type ReclassifyReportUseCase } from '../../../../application/use-cases/editorial/reclassify-report.use-case.js';
+
+import { EditorialActionResponsePresenter } from './editorial-action-response.presenter.js';
+import {
+    type ReclassifyReportHttpInput,
+    ReclassifyReportRequestHandler,
+} from './reclassify-report-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the report reclassification endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class ReclassifyReportController {
+    private readonly requestHandler: ReclassifyReportRequestHandler;
+    private readonly responsePresenter: EditorialActionResponsePresenter;
+
+    constructor(private readonly reclassifyReportUseCase: ReclassifyReportUseCase) {
+        this.requestHandler = new ReclassifyReportRequestHandler();
+        this.responsePresenter = new EditorialActionResponsePresenter();
+    }
+
+    async reclassifyReport(rawInput: ReclassifyReportHttpInput) {
+        const { actor, body, id } = this.requestHandler.handle(rawInput);
+
+        try {
+            const action = await this.reclassifyReportUseCase.execute({
+                actor,
+                reason: body.reason,
+                reportId: id,
+                tier: body.tier,
+                traits: body.traits,
+            });
+
+            if (!action) {
+                throw new HTTPException(404, { message: `Report ${id} not found` });
+            }
+
+            return this.responsePresenter.present(action);
+        } catch (error) {
+            if (error instanceof InvalidEditorialTransitionError) {
+                throw new HTTPException(409, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,59 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Language, languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+import { editorialFieldSchemas } from './editorial-request.schemas.js';
+
+/**
+ * Raw HTTP input for POST /admin/reports/:id/republish
+ */
+export interface RepublishReportHttpInput {
+    actor: string;
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/reports/:id/republish endpoint
+ */
+export const republishReportInputSchema = z.object({
+    actor: editorialFieldSchemas.actor,
+    body: z.object({
+        language: z
+            .string()
+            .transform((val) => val.toUpperCase())
+            .pipe(languageSchema)
+            .transform((val) => new Language(val)),
+        reason: editorialFieldSchemas.reason,
+    }),
+    id: editorialFieldSchemas.reportId,
+});
+
+export type RepublishReportHttpParams = z.infer<typeof republishReportInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /admin/reports/:id/republish endpoint
+ */
+export class RepublishReportRequestHandler {
+    /**
+     * Validates the report id, the language to publish in and the reason
+     *
+     * @param rawInput - Raw HTTP path parameter and JSON body, with the client making the change
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: RepublishReportHttpInput): RepublishReportHttpParams {
+        const validatedInput = republishReportInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
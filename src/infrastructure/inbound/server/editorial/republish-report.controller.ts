@@ -0,0 +1,49 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { InvalidEditorialTransitionError } from '../../../../application/use-cases/editorial/invalid-editorial-transition.error.js';
+import { type RepublishReportUseCase } from '../../../../application/use-cases/editorial/republish-report.use-case.js';
+
+import { EditorialActionResponsePresenter } from './editorial-action-response.presenter.js';
+import {
+    type RepublishReportHttpInput,
+    RepublishReportRequestHandler,
+} from './republish-report-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the report republication endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class RepublishReportController {
+    private readonly requestHandler: RepublishReportRequestHandler;
+    private readonly responsePresenter: EditorialActionResponsePresenter;
+
+    constructor(private readonly republishReportUseCase: RepublishReportUseCase) {
+        this.requestHandler = new RepublishReportRequestHandler();
+        this.responsePresenter = new EditorialActionResponsePresenter();
+    }
+
+    async republishReport(rawInput: RepublishReportHttpInput) {
+        const { actor, body, id } = this.requestHandler.handle(rawInput);
+
+        try {
+            const action = await this.republishReportUseCase.execute({
+                actor,
+                language: body.language,
+                reason: body.reason,
+                reportId: id,
+            });
+
+            if (!action) {
+                throw new HTTPException(404, { message: `Report ${id} not found` });
+            }
+
+            return this.responsePresenter.present(action);
+        } catch (error) {
+            if (error instanceof InvalidEditorialTransitionError) {
+                throw new HTTPException(409, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+import { editorialFieldSchemas } from './editorial-request.schemas.js';
+
+/**
+ * Raw HTTP input for POST /admin/articles/:id/retract
+ */
+export interface RetractArticleHttpInput {
+    actor: string;
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/articles/:id/retract endpoint
+ */
+export const retractArticleInputSchema = z.object({
+    actor: editorialFieldSchemas.actor,
+    body: z.object({ reason: editorialFieldSchemas.reason }),
+    id: editorialFieldSchemas.articleId,
+});
+
+export type RetractArticleHttpParams = z.infer<typeof retractArticleInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /admin/articles/:id/retract endpoint
+ */
+export class RetractArticleRequestHandler {
+    /**
+     * Validates the article id and the reason
+     *
+     * @param rawInput - Raw HTTP path parameter and JSON body, with the client making the change
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: RetractArticleHttpInput): RetractArticleHttpParams {
+        const validatedInput = retractArticleInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,48 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { InvalidEditorialTransitionError } from '../../../../application/use-cases/editorial/invalid-editorial-transition.error.js';
+import { type RetractArticleUseCase } from '../../../../application/use-cases/editorial/retract-article.use-case.js';
+
+import { EditorialActionResponsePresenter } from './editorial-action-response.presenter.js';
+import {
+    type RetractArticleHttpInput,
+    RetractArticleRequestHandler,
+} from './retract-article-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the article retraction endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class RetractArticleController {
+    private readonly requestHandler: RetractArticleRequestHandler;
+    private readonly responsePresenter: EditorialActionResponsePresenter;
+
+    constructor(private readonly retractArticleUseCase: RetractArticleUseCase) {
+        this.requestHandler = new RetractArticleRequestHandler();
+        this.responsePresenter = new EditorialActionResponsePresenter();
+    }
+
+    async retractArticle(rawInput: RetractArticleHttpInput) {
+        const { actor, body, id } = this.requestHandler.handle(rawInput);
+
+        try {
+            const action = await this.retractArticleUseCase.execute({
+                actor,
+                articleId: id,
+                reason: body.reason,
+            });
+
+            if (!action) {
+                throw new HTTPException(404, { message: `Article ${id} not found` });
+            }
+
+            return this.responsePresenter.present(action);
+        } catch (error) {
+            if (error instanceof InvalidEditorialTransitionError) {
+                throw new HTTPException(409, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+import { editorialFieldSchemas } from './editorial-request.schemas.js';
+
+/**
+ * Raw HTTP input for POST /admin/reports/:id/unmark-duplicate
+ */
+export interface UnmarkReportDuplicateHttpInput {
+    actor: string;
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/reports/:id/unmark-duplicate endpoint
+ */
+export const unmarkReportDuplicateInputSchema = z.object({
+    actor: editorialFieldSchemas.actor,
+    body: z.object({ reason: editorialFieldSchemas.reason }),
+    id: editorialFieldSchemas.reportId,
+});
+
+export type UnmarkReportDuplicateHttpParams = z.infer<typeof unmarkReportDuplicateInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /admin/reports/:id/unmark-duplicate endpoint
+ */
+export class UnmarkReportDuplicateRequestHandler {
+    /**
+     * Validates the report id and the reason
+     *
+     * @param rawInput - Raw HTTP path parameter and JSON body, with the client making the change
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: UnmarkReportDuplicateHttpInput): UnmarkReportDuplicateHttpParams {
+        const validatedInput = unmarkReportDuplicateInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,48 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { InvalidEditorialTransitionError } from '../../../../application/use-cases/editorial/invalid-editorial-transition.error.js';
+import { type UnmarkReportDuplicateUseCase } from '../../../../application/use-cases/editorial/unmark-report-duplicate.use-case.js';
+
+import { EditorialActionResponsePresenter } from './editorial-action-response.presenter.js';
+import {
+    type UnmarkReportDuplicateHttpInput,
+    UnmarkReportDuplicateRequestHandler,
+} from './unmark-report-duplicate-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the endpoint restoring a duplicate report as canonical
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class UnmarkReportDuplicateController {
+    private readonly requestHandler: UnmarkReportDuplicateRequestHandler;
+    private readonly responsePresenter: EditorialActionResponsePresenter;
+
+    constructor(private readonly unmarkReportDuplicateUseCase: UnmarkReportDuplicateUseCase) {
+        this.requestHandler = new UnmarkReportDuplicateRequestHandler();
+        this.responsePresenter = new EditorialActionResponsePresenter();
+    }
+
+    async unmarkReportDuplicate(rawInput: UnmarkReportDuplicateHttpInput) {
+        const { actor, body, id } = this.requestHandler.handle(rawInput);
+
+        try {
+            const action = await this.unmarkReportDuplicateUseCase.execute({
+                actor,
+                reason: body.reason,
+                reportId: id,
+            });
+
+            if (!action) {
+                throw new HTTPException(404, { message: `Report ${id} not found` });
+            }
+
+            return this.responsePresenter.present(action);
+        } catch (error) {
+            if (error instanceof InvalidEditorialTransitionError) {
+                throw new HTTPException(409, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
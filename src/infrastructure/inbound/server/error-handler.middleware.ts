@@ -1,26 +1,62 @@
 import type { LoggerPort } from '@jterrazz/logger';
 import type { Context } from 'hono';
 import { HTTPException } from 'hono/http-exception';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { type z } from 'zod/v4';
+
+import { problemResponse, type ProblemValidationError } from './problem-details.js';
 
 /**
  * Creates a global error handling middleware for Hono
- * Catches all unhandled errors and returns appropriate HTTP responses
+ * Answers every error as `application/problem+json`. HTTP exceptions keep their status and
+ * message, with the validation issues request handlers attach as `cause.details`; any other
+ * error is logged with its stack and answered as a generic 500.
  */
 export const createErrorHandlerMiddleware = (logger: LoggerPort) => {
     return async (err: Error, c: Context) => {
-        logger.error('Unexpected error in HTTP handler:', { error: err.message, stack: err.stack });
-
-        // Handle HTTP exceptions (like validation errors)
         if (err instanceof HTTPException) {
-            return c.json({ error: err.message }, err.status);
+            logger.debug('HTTP request rejected', {
+                error: err.message,
+                path: c.req.path,
+                status: err.status,
+            });
+
+            return problemResponse(c, {
+                detail: err.message,
+                errors: toValidationErrors(err.cause),
+                status: err.status as ContentfulStatusCode,
+            });
         }
 
-        // Handle all other errors as 500 Internal Server Error
-        return c.json(
-            {
-                error: err instanceof Error ? err.message : 'Internal server error',
-            },
-            500,
-        );
+        logger.error('Unexpected error in HTTP handler', {
+            error: err.message,
+            path: c.req.path,
+            stack: err.stack,
+        });
+
+        return problemResponse(c, {
+            detail: 'An unexpected error occurred',
+            status: 500,
+        });
     };
 };
+
+/**
+ * Creates the handler of requests no route matched
+ */
+export const createNotFoundHandler = () => (c: Context) =>
+    problemResponse(c, {
+        detail: `No route matches ${c.req.method} ${c.req.path}`,
+        status: 404,
+    });
+
+const toValidationErrors = (cause: unknown): ProblemValidationError[] | undefined => {
+    const details = (cause as null | { details?: unknown } | undefined)?.details;
+    if (!Array.isArray(details)) return undefined;
+
+    return (details as z.core.$ZodIssue[]).map((issue) => ({
+        code: issue.code,
+        message: issue.message,
+        path: issue.path.map(String).join('.'),
+    }));
+};
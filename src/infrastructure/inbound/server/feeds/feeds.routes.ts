@@ -0,0 +1,27 @@
+import { Hono } from 'hono';
+
+import { type GetFeedController } from './get-feed.controller.js';
+
+/**
+ * Controllers backing the /feeds routes
+ */
+export interface FeedsControllers {
+    getFeed: GetFeedController;
+}
+
+export const createFeedsRouter = (controllers: FeedsControllers) => {
+    const app = new Hono();
+
+    // The last segment carries both the language and the format, e.g. /feeds/us/en.rss
+    app.get('/:country/:file', async (c) => {
+        const response = await controllers.getFeed.getFeed({
+            country: c.req.param('country'),
+            file: c.req.param('file'),
+            url: c.req.url,
+        });
+
+        return c.body(response.body, 200, { 'Content-Type': response.contentType });
+    });
+
+    return app;
+};
@@ -0,0 +1,75 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { Language, languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * Raw HTTP input for GET /feeds/:country/:language.(rss|atom)
+ */
+export interface GetFeedHttpInput {
+    country?: string;
+    /** Last path segment, the language followed by the feed format (e.g. `en.rss`) */
+    file?: string;
+    /** Full request URL, used for the feed self link and article links */
+    url: string;
+}
+
+/**
+ * Schema for validating HTTP input for GET /feeds/:country/:language.(rss|atom) endpoint
+ */
+export const getFeedInputSchema = z
+    .object({
+        country: z
+            .string()
+            .transform((val) => val.toUpperCase())
+            .pipe(countrySchema)
+            .transform((val) => new Country(val)),
+        file: z
+            .string()
+            .regex(/^[a-z]+\.(rss|atom)$/i, 'Expected a language followed by .rss or .atom'),
+        url: z.url(),
+    })
+    .transform(({ file, ...input }, ctx) => {
+        const [language, format] = file.toLowerCase().split('.');
+        const parsedLanguage = languageSchema.safeParse(language.toUpperCase());
+
+        if (!parsedLanguage.success) {
+            ctx.addIssue({ code: 'custom', message: 'Invalid language', path: ['file'] });
+            return z.NEVER;
+        }
+
+        return {
+            ...input,
+            format: format as 'atom' | 'rss',
+            language: new Language(parsedLanguage.data),
+        };
+    });
+
+export type GetFeedHttpParams = z.infer<typeof getFeedInputSchema>;
+
+/**
+ * Handles HTTP request validation for GET /feeds/:country/:language.(rss|atom) endpoint
+ */
+export class GetFeedRequestHandler {
+    /**
+     * Validates the locale and the requested feed format
+     *
+     * @param rawInput - Raw HTTP path parameters and request URL
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GetFeedHttpInput): GetFeedHttpParams {
+        const validatedInput = getFeedInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
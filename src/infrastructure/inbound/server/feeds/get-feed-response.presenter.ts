@@ -0,0 +1,145 @@
+// Application
+import { type GetArticlesResult } from '../../../../application/use-cases/articles/get-articles.use-case.js';
+
+import {
+    type ArticleResponse,
+    ArticleResponsePresenter,
+} from '../articles/article-response.presenter.js';
+
+import { type GetFeedHttpParams } from './get-feed-request.handler.js';
+
+const FEED_TITLE = 'n00';
+
+/**
+ * Rendered syndication document
+ */
+export type FeedResponse = {
+    body: string;
+    contentType: string;
+};
+
+/**
+ * Handles response formatting for GET /feeds/:country/:language.(rss|atom) endpoint
+ * Renders authentic articles as RSS 2.0 or Atom 1.0, with frames as extra sections
+ */
+export class GetFeedResponsePresenter {
+    private readonly articlePresenter = new ArticleResponsePresenter();
+
+    present(result: GetArticlesResult, params: GetFeedHttpParams): FeedResponse {
+        // Syndicated content leaves the game, so fabricated articles must never be part of it
+        const articles = result.articles
+            .filter((article) => !article.isFabricated())
+            .map((article) => this.articlePresenter.present(article));
+
+        const origin = new URL(params.url).origin;
+        const title = `${FEED_TITLE} – ${params.country.toString()} (${params.language.toString()})`;
+        const feed = { articles, origin, selfUrl: params.url, title };
+
+        return params.format === 'atom'
+            ? { body: renderAtom(feed), contentType: 'application/atom+xml; charset=utf-8' }
+            : { body: renderRss(feed), contentType: 'application/rss+xml; charset=utf-8' };
+    }
+}
+
+type Feed = {
+    articles: ArticleResponse[];
+    origin: string;
+    selfUrl: string;
+    title: string;
+};
+
+function articleUrl(feed: Feed, article: ArticleResponse): string {
+    return `${feed.origin}/articles/${article.id}`;
+}
+
+/**
+ * Article body followed by each frame as its own section, as HTML
+ */
+function renderContent(article: ArticleResponse): string {
+    const sections = [
+        toParagraphs(article.bodyText),
+        ...(article.frames ?? []).map(
+            (frame) => `<h2>${escapeXml(frame.headline)}</h2>${toParagraphs(frame.body)}`,
+        ),
+    ];
+
+    return sections.join('');
+}
+
+function renderAtom(feed: Feed): string {
+    const updated = feed.articles[0]?.publishedAt ?? new Date().toISOString();
+
+    const entries = feed.articles.map((article) =>
+        [
+            '<entry>',
+            `<id>urn:uuid:${article.id}</id>`,
+            `<title>${escapeXml(article.headline)}</title>`,
+            `<link href="${escapeXml(articleUrl(feed, article))}"/>`,
+            `<published>${article.publishedAt}</published>`,
+            `<updated>${article.publishedAt}</updated>`,
+            ...article.metadata.categories.map(
+                (category) => `<category term="${escapeXml(category)}"/>`,
+            ),
+            `<content type="html">${escapeXml(renderContent(article))}</content>`,
+            '</entry>',
+        ].join(''),
+    );
+
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<feed xmlns="http://www.w3.org/2005/Atom">',
+        `<id>${escapeXml(feed.selfUrl)}</id>`,
+        `<title>${escapeXml(feed.title)}</title>`,
+        `<updated>${updated}</updated>`,
+        `<link rel="self" href="${escapeXml(feed.selfUrl)}"/>`,
+        ...entries,
+        '</feed>',
+    ].join('\n');
+}
+
+function renderRss(feed: Feed): string {
+    const items = feed.articles.map((article) =>
+        [
+            '<item>',
+            `<guid isPermaLink="false">${article.id}</guid>`,
+            `<title>${escapeXml(article.headline)}</title>`,
+            `<link>${escapeXml(articleUrl(feed, article))}</link>`,
+            `<pubDate>${new Date(article.publishedAt).toUTCString()}</pubDate>`,
+            ...article.metadata.categories.map(
+                (category) => `<category>${escapeXml(category)}</category>`,
+            ),
+            `<description>${escapeXml(renderContent(article))}</description>`,
+            '</item>',
+        ].join(''),
+    );
+
+    return [
+        '<?xml version="1.0" encoding="utf-8"?>',
+        '<rss version="2.0" xmlns:atom="http://www.w3.org/2005/Atom">',
+        '<channel>',
+        `<title>${escapeXml(feed.title)}</title>`,
+        `<link>${escapeXml(feed.origin)}</link>`,
+        `<description>${escapeXml(feed.title)}</description>`,
+        `<atom:link rel="self" type="application/rss+xml" href="${escapeXml(feed.selfUrl)}"/>`,
+        ...items,
+        '</channel>',
+        '</rss>',
+    ].join('\n');
+}
+
+function toParagraphs(text: string): string {
+    return text
+        .split(/\n+/)
+        .filter((paragraph) => paragraph.trim().length > 0)
+        .map((paragraph) => `<p>${escapeXml(paragraph.trim())}</p>`)
+        .join('');
+}
+
+function escapeXml(value: string): string {
+    return value
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;')
+        .replace(/'/g, '&apos;');
+}
@@ -0,0 +1,34 @@
+// Application
+import { type GetArticlesUseCase } from '../../../../application/use-cases/articles/get-articles.use-case.js';
+
+import { type GetFeedHttpInput, GetFeedRequestHandler } from './get-feed-request.handler.js';
+import { GetFeedResponsePresenter } from './get-feed-response.presenter.js';
+
+const FEED_SIZE = 50;
+
+/**
+ * Orchestrates HTTP request handling for the syndication feeds endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetFeedController {
+    private readonly requestHandler: GetFeedRequestHandler;
+    private readonly responsePresenter: GetFeedResponsePresenter;
+
+    constructor(private readonly getArticlesUseCase: GetArticlesUseCase) {
+        this.requestHandler = new GetFeedRequestHandler();
+        this.responsePresenter = new GetFeedResponsePresenter();
+    }
+
+    async getFeed(rawInput: GetFeedHttpInput) {
+        const validatedParams = this.requestHandler.handle(rawInput);
+
+        const result = await this.getArticlesUseCase.execute({
+            country: validatedParams.country,
+            excludeFabricated: true,
+            language: validatedParams.language,
+            limit: FEED_SIZE,
+        });
+
+        return this.responsePresenter.present(result, validatedParams);
+    }
+}
@@ -0,0 +1,21 @@
+// Application
+import { type CheckReadinessUseCase } from '../../../../application/use-cases/health/check-readiness.use-case.js';
+
+import { ReadinessResponsePresenter } from './readiness-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the readiness check
+ */
+export class CheckReadinessController {
+    private readonly responsePresenter: ReadinessResponsePresenter;
+
+    constructor(private readonly checkReadinessUseCase: CheckReadinessUseCase) {
+        this.responsePresenter = new ReadinessResponsePresenter();
+    }
+
+    async checkReadiness() {
+        const report = await this.checkReadinessUseCase.execute();
+
+        return this.responsePresenter.present(report);
+    }
+}
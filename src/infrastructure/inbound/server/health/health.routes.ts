@@ -1,9 +1,32 @@
 import { Hono } from 'hono';
 
-export const createHealthRouter = () => {
+import { type CheckReadinessController } from './check-readiness.controller.js';
+
+/**
+ * Controllers backing the health routes
+ */
+export interface HealthControllers {
+    checkReadiness: CheckReadinessController;
+}
+
+export const createHealthRouter = (controllers: HealthControllers) => {
     const app = new Hono();
 
     app.get('/', (c) => c.text('OK'));
 
+    // The process answers: restarting it would not help
+    app.get('/health/live', (c) =>
+        c.json({ status: 'pass', uptimeSeconds: Math.floor(process.uptime()) }),
+    );
+
+    // Dependencies answer: traffic can be routed to the process
+    app.get('/health/ready', async (c) => {
+        const response = await controllers.checkReadiness.checkReadiness();
+
+        return c.json(response, response.status === 'fail' ? 503 : 200, {
+            'Cache-Control': 'no-store',
+        });
+    });
+
     return app;
 };
@@ -0,0 +1,39 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type ReadinessReport } from '../../../../application/use-cases/health/check-readiness.use-case.js';
+
+const healthStatusSchema = z.enum(['fail', 'pass', 'warn']);
+
+/**
+ * HTTP representation of the readiness report, as served to probes and monitoring.
+ * The route is public: check details, which name internal errors, are only logged.
+ */
+export const readinessResponseSchema = z.object({
+    checks: z.record(
+        z.string(),
+        z.object({
+            status: healthStatusSchema,
+        }),
+    ),
+    status: healthStatusSchema,
+});
+
+export type ReadinessResponse = z.infer<typeof readinessResponseSchema>;
+
+/**
+ * Maps a readiness report to its HTTP representation
+ */
+export class ReadinessResponsePresenter {
+    present(report: ReadinessReport): ReadinessResponse {
+        return {
+            checks: Object.fromEntries(
+                Object.entries(report.checks).map(([name, check]) => [
+                    name,
+                    { status: check.status },
+                ]),
+            ),
+            status: report.status,
+        };
+    }
+}
@@ -1,6 +1,7 @@
 import { serve } from '@hono/node-server';
 import { type LoggerPort } from '@jterrazz/logger';
 import { Hono } from 'hono';
+import { except } from 'hono/combine';
 
 // Application
 import {
@@ -8,10 +9,45 @@ import {
     type ServerPort,
 } from '../../../application/ports/inbound/server.port.js';
 
-import { createArticlesRouter } from './articles/articles.routes.js';
-import { type GetArticlesController } from './articles/get-articles.controller.js';
-import { createErrorHandlerMiddleware } from './error-handler.middleware.js';
-import { createHealthRouter } from './health/health.routes.js';
+import { type ApiKeyAuth } from './api-key-auth.middleware.js';
+import { type ApiKeysControllers, createApiKeysRouter } from './api-keys/api-keys.routes.js';
+import { type ArticlesControllers, createArticlesRouter } from './articles/articles.routes.js';
+import {
+    type ChallengesControllers,
+    createChallengesRouter,
+} from './challenges/challenges.routes.js';
+import { createEditorialRouter, type EditorialControllers } from './editorial/editorial.routes.js';
+import { createErrorHandlerMiddleware, createNotFoundHandler } from './error-handler.middleware.js';
+import { createFeedsRouter, type FeedsControllers } from './feeds/feeds.routes.js';
+import { createHealthRouter, type HealthControllers } from './health/health.routes.js';
+import { type HttpCache } from './http-cache.middleware.js';
+import { type HttpMetrics } from './http-metrics.middleware.js';
+import {
+    createLeaderboardsRouter,
+    type LeaderboardsControllers,
+} from './leaderboards/leaderboards.routes.js';
+import { createOpenApiRouter } from './openapi/openapi.routes.js';
+import { createPlayersRouter, type PlayersControllers } from './players/players.routes.js';
+import { createPipelineRouter, type PipelineControllers } from './pipeline/pipeline.routes.js';
+import { type RateLimiter } from './rate-limit.middleware.js';
+import { createReportsRouter, type ReportsControllers } from './reports/reports.routes.js';
+import { createRequestIdMiddleware } from './request-id.middleware.js';
+import { createWebhooksRouter, type WebhooksControllers } from './webhooks/webhooks.routes.js';
+
+/**
+ * HTTP controllers exposed by the server
+ */
+export type HonoServerControllers = ApiKeysControllers &
+    ArticlesControllers &
+    ChallengesControllers &
+    EditorialControllers &
+    FeedsControllers &
+    HealthControllers &
+    LeaderboardsControllers &
+    PipelineControllers &
+    PlayersControllers &
+    ReportsControllers &
+    WebhooksControllers;
 
 export class HonoServer implements ServerPort {
     private app: Hono;
@@ -19,7 +55,11 @@ export class HonoServer implements ServerPort {
 
     constructor(
         private readonly logger: LoggerPort,
-        private readonly getArticlesController: GetArticlesController,
+        private readonly controllers: HonoServerControllers,
+        private readonly httpCache: HttpCache,
+        private readonly apiKeyAuth: ApiKeyAuth,
+        private readonly rateLimiter: RateLimiter,
+        private readonly httpMetrics: HttpMetrics,
     ) {
         this.app = new Hono();
         this.setupGlobalMiddleware();
@@ -59,11 +99,50 @@ export class HonoServer implements ServerPort {
     }
 
     private registerRoutes(): void {
-        this.app.route('/', createHealthRouter());
-        this.app.route('/articles', createArticlesRouter(this.getArticlesController));
+        this.app.route('/', createHealthRouter(this.controllers));
+        // Everything but the health checks is authenticated and rate limited
+        this.app.use('*', this.apiKeyAuth.identify(), this.rateLimiter.middleware());
+        this.registerScopes();
+        this.app.route('/', createOpenApiRouter());
+        const metricsHandler = this.httpMetrics.handler();
+        if (metricsHandler) {
+            this.app.get('/metrics', metricsHandler);
+        }
+        // Article content, and so feeds, only change when the pipeline persists articles.
+        // The stream never ends, so it cannot be hashed into an ETag.
+        this.app.use('/articles/*', except('/articles/stream', this.httpCache.middleware()));
+        this.app.route('/articles', createArticlesRouter(this.controllers));
+        this.app.route('/challenges', createChallengesRouter(this.controllers));
+        this.app.use('/feeds/*', this.httpCache.middleware());
+        this.app.route('/feeds', createFeedsRouter(this.controllers));
+        this.app.route('/leaderboards', createLeaderboardsRouter(this.controllers));
+        this.app.route('/players', createPlayersRouter(this.controllers));
+        this.app.route('/admin/api-keys', createApiKeysRouter(this.controllers));
+        this.app.route('/admin/pipeline', createPipelineRouter(this.controllers));
+        this.app.route('/admin/reports', createReportsRouter(this.controllers));
+        this.app.route('/admin/webhooks', createWebhooksRouter(this.controllers));
+        this.app.route('/admin', createEditorialRouter(this.controllers));
+    }
+
+    private registerScopes(): void {
+        const { apiKeyAuth } = this;
+
+        this.app.on(
+            'GET',
+            ['/articles/*', '/challenges/*', '/feeds/*'],
+            apiKeyAuth.requireScope('read:articles'),
+        );
+        // Answering quizzes and guessing authenticity
+        this.app.on('POST', '/articles/*', apiKeyAuth.requireScope('play'));
+        this.app.use('/leaderboards/*', apiKeyAuth.requireScope('play'));
+        this.app.use('/players/*', apiKeyAuth.requireScope('play'));
+        this.app.use('/admin/*', apiKeyAuth.requireScope('admin'));
+        this.app.use('/metrics', apiKeyAuth.requireScope('admin'));
     }
 
     private setupGlobalMiddleware(): void {
         this.app.onError(createErrorHandlerMiddleware(this.logger));
+        this.app.notFound(createNotFoundHandler());
+        this.app.use('*', createRequestIdMiddleware(), this.httpMetrics.middleware());
     }
 }
@@ -0,0 +1,98 @@
+import type { MiddlewareHandler } from 'hono';
+import { createHash } from 'node:crypto';
+
+// Application
+import type { HttpCacheConfigurationPort } from '../../../application/ports/inbound/configuration.port.js';
+import type { CacheInvalidationPort } from '../../../application/ports/outbound/cache/cache-invalidation.port.js';
+
+/** Bounds memory: the oldest remembered ETags are dropped first */
+const MAX_ENTRIES = 1000;
+
+/**
+ * Conditional GET support for read endpoints.
+ * Responses get a content-hash ETag and `Cache-Control`; a request whose `If-None-Match`
+ * still matches gets a 304. ETags are remembered per URL until invalidated, so a
+ * revalidation answered from memory does not run the handler at all.
+ */
+export class HttpCache implements CacheInvalidationPort {
+    private readonly etags = new Map<string, string>();
+    private generation = 0;
+
+    constructor(private readonly configuration: HttpCacheConfigurationPort) {}
+
+    invalidate(): void {
+        this.etags.clear();
+        this.generation++;
+    }
+
+    middleware(): MiddlewareHandler {
+        return async (c, next) => {
+            if (c.req.method !== 'GET' && c.req.method !== 'HEAD') {
+                return next();
+            }
+
+            const key = c.req.url;
+            const ifNoneMatch = c.req.header('If-None-Match');
+            const known = this.etags.get(key);
+
+            if (known && matchesEtag(ifNoneMatch, known)) {
+                return this.notModified(known);
+            }
+
+            const generation = this.generation;
+            await next();
+
+            if (c.res.status !== 200) {
+                return;
+            }
+
+            const body = await c.res.clone().arrayBuffer();
+            const etag = `"${createHash('sha1').update(new Uint8Array(body)).digest('base64url')}"`;
+
+            // A write during the request may have made this body stale already
+            if (generation === this.generation) {
+                this.remember(key, etag);
+            }
+
+            if (matchesEtag(ifNoneMatch, etag)) {
+                c.res = this.notModified(etag);
+                return;
+            }
+
+            c.res.headers.set('Cache-Control', this.cacheControl());
+            c.res.headers.set('ETag', etag);
+        };
+    }
+
+    private cacheControl(): string {
+        const { maxAge, staleWhileRevalidate } = this.configuration;
+        return `public, max-age=${maxAge}, stale-while-revalidate=${staleWhileRevalidate}`;
+    }
+
+    private notModified(etag: string): Response {
+        return new Response(null, {
+            headers: { 'Cache-Control': this.cacheControl(), ETag: etag },
+            status: 304,
+        });
+    }
+
+    private remember(key: string, etag: string): void {
+        this.etags.delete(key);
+        this.etags.set(key, etag);
+
+        if (this.etags.size > MAX_ENTRIES) {
+            const oldest = this.etags.keys().next().value;
+            if (oldest !== undefined) this.etags.delete(oldest);
+        }
+    }
+}
+
+/**
+ * Weak comparison as required for If-None-Match: `W/` prefixes are ignored, `*` matches anything
+ */
+function matchesEtag(ifNoneMatch: string | undefined, etag: string): boolean {
+    if (!ifNoneMatch) return false;
+
+    const strip = (tag: string) => tag.trim().replace(/^W\//, '');
+    return ifNoneMatch.split(',').some((tag) => tag.trim() === '*' || strip(tag) === strip(etag));
+}
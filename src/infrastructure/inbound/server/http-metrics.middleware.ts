@@ -0,0 +1,55 @@
+import type { Handler, MiddlewareHandler } from 'hono';
+import { routePath } from 'hono/route';
+
+// Shared
+import {
+    type PrometheusTelemetryAdapter,
+    type TelemetryPort,
+} from '../../../shared/telemetry/index.js';
+
+/**
+ * Request metrics of the HTTP server, and their Prometheus scrape endpoint.
+ * Requests are counted (`http.server.requests`) and timed (`http.server.duration_ms`) by
+ * method, route pattern and status; patterns rather than paths keep the label sets bounded.
+ */
+export class HttpMetrics {
+    constructor(
+        private readonly telemetry: TelemetryPort,
+        private readonly prometheus: null | PrometheusTelemetryAdapter,
+    ) {}
+
+    /**
+     * Serve the metrics in the Prometheus text format, or null when the endpoint is disabled
+     */
+    handler(): Handler | null {
+        const { prometheus } = this;
+        if (!prometheus) return null;
+
+        return (c) =>
+            c.body(prometheus.collect(), 200, {
+                'Cache-Control': 'no-store',
+                'Content-Type': 'text/plain; version=0.0.4; charset=utf-8',
+            });
+    }
+
+    middleware(): MiddlewareHandler {
+        return async (c, next) => {
+            const startedAt = performance.now();
+
+            await next();
+
+            // Read once the handler ran, so the route is the pattern it was registered with
+            const attributes = {
+                method: c.req.method,
+                route: routePath(c),
+                status: c.res.status,
+            };
+            this.telemetry.counter('http.server.requests', 1, attributes);
+            this.telemetry.histogram(
+                'http.server.duration_ms',
+                performance.now() - startedAt,
+                attributes,
+            );
+        };
+    }
+}
@@ -0,0 +1,73 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { Language, languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+const DEFAULT_LEADERBOARD_SIZE = 50;
+const MAX_LEADERBOARD_SIZE = 100;
+
+/**
+ * Raw HTTP input for GET /leaderboards/:country/:language
+ */
+export interface GetLeaderboardHttpInput {
+    country?: string;
+    language?: string;
+    limit?: string;
+    period?: string;
+}
+
+/**
+ * Schema for validating HTTP input for GET /leaderboards/:country/:language endpoint
+ */
+export const getLeaderboardInputSchema = z.object({
+    country: z
+        .string()
+        .transform((val) => val.toUpperCase())
+        .pipe(countrySchema)
+        .transform((val) => new Country(val)),
+    language: z
+        .string()
+        .transform((val) => val.toUpperCase())
+        .pipe(languageSchema)
+        .transform((val) => new Language(val)),
+    limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_LEADERBOARD_SIZE)
+        .optional()
+        .transform((val) => val ?? DEFAULT_LEADERBOARD_SIZE),
+    period: z
+        .enum(['all', 'day', 'week'])
+        .optional()
+        .transform((val) => val ?? 'day'),
+});
+
+export type GetLeaderboardHttpParams = z.infer<typeof getLeaderboardInputSchema>;
+
+/**
+ * Handles HTTP request validation for GET /leaderboards/:country/:language endpoint
+ */
+export class GetLeaderboardRequestHandler {
+    /**
+     * Validates the locale, the period and the leaderboard size
+     *
+     * @param rawInput - Raw HTTP path and query parameters
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GetLeaderboardHttpInput): GetLeaderboardHttpParams {
+        const validatedInput = getLeaderboardInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
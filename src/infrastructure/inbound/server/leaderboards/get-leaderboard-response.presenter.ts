@@ -0,0 +1,55 @@
+import { z } from 'zod/v4';
+
+// Application
+import {
+    type GetLeaderboardResult,
+    type LeaderboardPeriod,
+} from '../../../../application/use-cases/leaderboards/get-leaderboard.use-case.js';
+
+// Domain
+import { type Country } from '../../../../domain/value-objects/country.vo.js';
+import { type Language } from '../../../../domain/value-objects/language.vo.js';
+
+export const getLeaderboardResponseSchema = z.object({
+    country: z.string(),
+    entries: z.array(
+        z.object({
+            accuracy: z.number(),
+            answered: z.number().int(),
+            correct: z.number().int(),
+            playerId: z.uuid(),
+            rank: z.number().int(),
+            score: z.number().int(),
+        }),
+    ),
+    language: z.string(),
+    period: z.enum(['all', 'day', 'week']),
+    since: z.iso.datetime().nullable(),
+});
+
+type GetLeaderboardResponse = z.infer<typeof getLeaderboardResponseSchema>;
+
+/**
+ * Handles response formatting for GET /leaderboards/:country/:language endpoint
+ */
+export class GetLeaderboardResponsePresenter {
+    present(
+        result: GetLeaderboardResult,
+        context: { country: Country; language: Language; period: LeaderboardPeriod },
+    ): GetLeaderboardResponse {
+        return {
+            country: context.country.toString().toLowerCase(),
+            entries: result.entries.map((entry) => ({
+                accuracy: Math.round(entry.accuracy * 1000) / 1000,
+                answered: entry.answered,
+                correct: entry.correct,
+                playerId: entry.playerId,
+                rank: entry.rank,
+                score: entry.score,
+            })),
+            language: context.language.toString().toLowerCase(),
+            period: context.period,
+            since: result.since ? new Date(result.since.getTime()).toISOString() : null,
+        };
+    }
+}
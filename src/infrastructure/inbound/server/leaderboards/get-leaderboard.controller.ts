@@ -0,0 +1,30 @@
+// Application
+import { type GetLeaderboardUseCase } from '../../../../application/use-cases/leaderboards/get-leaderboard.use-case.js';
+
+import {
+    type GetLeaderboardHttpInput,
+    GetLeaderboardRequestHandler,
+} from './get-leaderboard-request.handler.js';
+import { GetLeaderboardResponsePresenter } from './get-leaderboard-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the leaderboard endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetLeaderboardController {
+    private readonly requestHandler: GetLeaderboardRequestHandler;
+    private readonly responsePresenter: GetLeaderboardResponsePresenter;
+
+    constructor(private readonly getLeaderboardUseCase: GetLeaderboardUseCase) {
+        this.requestHandler = new GetLeaderboardRequestHandler();
+        this.responsePresenter = new GetLeaderboardResponsePresenter();
+    }
+
+    async getLeaderboard(rawInput: GetLeaderboardHttpInput) {
+        const validatedParams = this.requestHandler.handle(rawInput);
+
+        const result = await this.getLeaderboardUseCase.execute(validatedParams);
+
+        return this.responsePresenter.present(result, validatedParams);
+    }
+}
@@ -0,0 +1,27 @@
+import { Hono } from 'hono';
+
+import { type GetLeaderboardController } from './get-leaderboard.controller.js';
+
+/**
+ * Controllers backing the /leaderboards routes
+ */
+export interface LeaderboardsControllers {
+    getLeaderboard: GetLeaderboardController;
+}
+
+export const createLeaderboardsRouter = (controllers: LeaderboardsControllers) => {
+    const app = new Hono();
+
+    app.get('/:country/:language', async (c) => {
+        const response = await controllers.getLeaderboard.getLeaderboard({
+            country: c.req.param('country'),
+            language: c.req.param('language'),
+            limit: c.req.query('limit'),
+            period: c.req.query('period'),
+        });
+
+        return c.json(response);
+    });
+
+    return app;
+};
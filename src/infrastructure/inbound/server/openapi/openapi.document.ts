@@ -0,0 +1,442 @@
+import { z } from 'zod/v4';
+
+import { apiKeyResponseSchema } from '../api-keys/api-key-response.presenter.js';
+import { createApiKeyInputSchema } from '../api-keys/create-api-key-request.handler.js';
+import { revokeApiKeyInputSchema } from '../api-keys/revoke-api-key-request.handler.js';
+import { articleResponseSchema } from '../articles/article-response.presenter.js';
+import { getArticleParamsSchema } from '../articles/get-article-request.handler.js';
+import { getArticlesParamsSchema } from '../articles/get-articles-request.handler.js';
+import { getArticlesResponseSchema } from '../articles/get-articles-response.presenter.js';
+import { gradeArticleQuizInputSchema } from '../articles/grade-article-quiz-request.handler.js';
+import { gradeArticleQuizResponseSchema } from '../articles/grade-article-quiz-response.presenter.js';
+import { guessArticleAuthenticityInputSchema } from '../articles/guess-article-authenticity-request.handler.js';
+import { guessArticleAuthenticityResponseSchema } from '../articles/guess-article-authenticity-response.presenter.js';
+import { searchArticlesParamsSchema } from '../articles/search-articles-request.handler.js';
+import { searchArticlesResponseSchema } from '../articles/search-articles-response.presenter.js';
+import { streamArticlesInputSchema } from '../articles/stream-articles-request.handler.js';
+import { getDailyChallengeQuerySchema } from '../challenges/get-daily-challenge-request.handler.js';
+import { getDailyChallengeResponseSchema } from '../challenges/get-daily-challenge-response.presenter.js';
+import { editorialActionResponseSchema } from '../editorial/editorial-action-response.presenter.js';
+import { markReportDuplicateInputSchema } from '../editorial/mark-report-duplicate-request.handler.js';
+import { reclassifyReportInputSchema } from '../editorial/reclassify-report-request.handler.js';
+import { republishReportInputSchema } from '../editorial/republish-report-request.handler.js';
+import { retractArticleInputSchema } from '../editorial/retract-article-request.handler.js';
+import { unmarkReportDuplicateInputSchema } from '../editorial/unmark-report-duplicate-request.handler.js';
+import { getFeedInputSchema } from '../feeds/get-feed-request.handler.js';
+import { getLeaderboardInputSchema } from '../leaderboards/get-leaderboard-request.handler.js';
+import { getLeaderboardResponseSchema } from '../leaderboards/get-leaderboard-response.presenter.js';
+import { getPipelineRunInputSchema } from '../pipeline/get-pipeline-run-request.handler.js';
+import { pipelineRunResponseSchema } from '../pipeline/pipeline-run-response.presenter.js';
+import { startPipelineRunInputSchema } from '../pipeline/start-pipeline-run-request.handler.js';
+import { getPlayerStatsInputSchema } from '../players/get-player-stats-request.handler.js';
+import { getPlayerStatsResponseSchema } from '../players/get-player-stats-response.presenter.js';
+import { registerPlayerInputSchema } from '../players/register-player-request.handler.js';
+import { registerPlayerResponseSchema } from '../players/register-player-response.presenter.js';
+import { PROBLEM_CONTENT_TYPE, problemDetailsSchema } from '../problem-details.js';
+import { getReportInputSchema } from '../reports/get-report-request.handler.js';
+import { getReportResponseSchema } from '../reports/get-report-response.presenter.js';
+import { getReportsInputSchema } from '../reports/get-reports-request.handler.js';
+import { getReportsResponseSchema } from '../reports/get-reports-response.presenter.js';
+import { createWebhookSubscriptionInputSchema } from '../webhooks/create-webhook-subscription-request.handler.js';
+import { deleteWebhookSubscriptionInputSchema } from '../webhooks/delete-webhook-subscription-request.handler.js';
+import { getWebhookDeliveriesInputSchema } from '../webhooks/get-webhook-deliveries-request.handler.js';
+import { getWebhookDeliveriesResponseSchema } from '../webhooks/get-webhook-deliveries-response.presenter.js';
+import { updateWebhookSubscriptionInputSchema } from '../webhooks/update-webhook-subscription-request.handler.js';
+import { webhookSubscriptionResponseSchema } from '../webhooks/webhook-subscription-response.presenter.js';
+
+type JsonSchema = {
+    [key: string]: unknown;
+    properties?: Record<string, JsonSchema>;
+    required?: string[];
+};
+
+/**
+ * Describes one route from the schemas its request handler validates with and its presenter returns
+ */
+type OperationDefinition = {
+    /** Requires an API key with the `admin` scope, or the admin token */
+    admin?: boolean;
+    /** Request handler schema. Its `body` property is the JSON body, the rest are parameters. */
+    input?: z.ZodType;
+    /** Input properties not sent by clients, filled from the request by the route */
+    internal?: string[];
+    method: 'delete' | 'get' | 'patch' | 'post';
+    /** Input properties carried in the path */
+    pathParams?: string[];
+    /** Hono path, e.g. `/articles/:id` */
+    path: string;
+    /** Presenter schema per success status; a string documents a non-JSON response */
+    responses: Record<number, string | z.ZodType>;
+    summary: string;
+    tag: string;
+};
+
+const VALIDATION_ERROR = 'Invalid request parameters';
+
+const EDITORIAL_CONFLICT = 'The override does not apply to the current state of its target';
+
+const operations: OperationDefinition[] = [
+    {
+        admin: true,
+        method: 'get',
+        path: '/admin/api-keys',
+        responses: { 200: z.object({ items: z.array(apiKeyResponseSchema) }) },
+        summary: 'List API keys, revoked ones included',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: createApiKeyInputSchema,
+        method: 'post',
+        path: '/admin/api-keys',
+        responses: { 201: apiKeyResponseSchema },
+        summary: 'Issue an API key; the key itself is only returned here',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: revokeApiKeyInputSchema,
+        method: 'delete',
+        path: '/admin/api-keys/:id',
+        pathParams: ['id'],
+        responses: { 204: 'API key revoked' },
+        summary: 'Revoke an API key',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: retractArticleInputSchema,
+        internal: ['actor'],
+        method: 'post',
+        path: '/admin/articles/:id/retract',
+        pathParams: ['id'],
+        responses: { 200: editorialActionResponseSchema, 409: EDITORIAL_CONFLICT },
+        summary: 'Withdraw an article from every public listing',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: startPipelineRunInputSchema,
+        internal: ['actor'],
+        method: 'post',
+        path: '/admin/pipeline/runs',
+        responses: { 202: pipelineRunResponseSchema, 409: 'Another pipeline run is in progress' },
+        summary:
+            'Start a report pipeline run, optionally for one country/language pair or some steps',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: getPipelineRunInputSchema,
+        method: 'get',
+        path: '/admin/pipeline/runs/:id',
+        pathParams: ['id'],
+        responses: { 200: pipelineRunResponseSchema },
+        summary: 'Follow the progress of a pipeline run, step by step',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: getReportsInputSchema,
+        method: 'get',
+        path: '/admin/reports',
+        responses: { 200: getReportsResponseSchema },
+        summary: 'List reports with their classification and deduplication states',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: getReportInputSchema,
+        method: 'get',
+        path: '/admin/reports/:id',
+        pathParams: ['id'],
+        responses: { 200: getReportResponseSchema },
+        summary: 'Get a report with its duplicate chain and articles',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: markReportDuplicateInputSchema,
+        internal: ['actor'],
+        method: 'post',
+        path: '/admin/reports/:id/mark-duplicate',
+        pathParams: ['id'],
+        responses: { 200: editorialActionResponseSchema, 409: EDITORIAL_CONFLICT },
+        summary: 'Mark a report as a duplicate of a canonical report',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: reclassifyReportInputSchema,
+        internal: ['actor'],
+        method: 'post',
+        path: '/admin/reports/:id/reclassify',
+        pathParams: ['id'],
+        responses: { 200: editorialActionResponseSchema, 409: EDITORIAL_CONFLICT },
+        summary: 'Override the tier and traits of a report',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: republishReportInputSchema,
+        internal: ['actor'],
+        method: 'post',
+        path: '/admin/reports/:id/republish',
+        pathParams: ['id'],
+        responses: { 200: editorialActionResponseSchema, 409: EDITORIAL_CONFLICT },
+        summary: 'Compose the article of a report again, retracting the previous one',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: unmarkReportDuplicateInputSchema,
+        internal: ['actor'],
+        method: 'post',
+        path: '/admin/reports/:id/unmark-duplicate',
+        pathParams: ['id'],
+        responses: { 200: editorialActionResponseSchema, 409: EDITORIAL_CONFLICT },
+        summary: 'Restore a report marked as a duplicate as a canonical report',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        method: 'get',
+        path: '/admin/webhooks',
+        responses: { 200: z.object({ items: z.array(webhookSubscriptionResponseSchema) }) },
+        summary: 'List webhook subscriptions',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: createWebhookSubscriptionInputSchema,
+        method: 'post',
+        path: '/admin/webhooks',
+        responses: { 201: webhookSubscriptionResponseSchema },
+        summary: 'Subscribe an endpoint to events; the signing secret is only returned here',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: updateWebhookSubscriptionInputSchema,
+        method: 'patch',
+        path: '/admin/webhooks/:id',
+        pathParams: ['id'],
+        responses: { 200: webhookSubscriptionResponseSchema },
+        summary: 'Update or re-enable a webhook subscription',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: deleteWebhookSubscriptionInputSchema,
+        method: 'delete',
+        path: '/admin/webhooks/:id',
+        pathParams: ['id'],
+        responses: { 204: 'Subscription and its delivery history deleted' },
+        summary: 'Delete a webhook subscription',
+        tag: 'Admin',
+    },
+    {
+        admin: true,
+        input: getWebhookDeliveriesInputSchema,
+        method: 'get',
+        path: '/admin/webhooks/:id/deliveries',
+        pathParams: ['id'],
+        responses: { 200: getWebhookDeliveriesResponseSchema },
+        summary: 'Recent deliveries of a webhook subscription, with their attempts',
+        tag: 'Admin',
+    },
+    {
+        input: getArticlesParamsSchema,
+        method: 'get',
+        path: '/articles',
+        responses: { 200: getArticlesResponseSchema },
+        summary: 'List articles, newest first',
+        tag: 'Articles',
+    },
+    {
+        input: searchArticlesParamsSchema,
+        method: 'get',
+        path: '/articles/search',
+        responses: { 200: searchArticlesResponseSchema },
+        summary: 'Full-text search over articles, best matches first',
+        tag: 'Articles',
+    },
+    {
+        input: streamArticlesInputSchema,
+        // Sent as the Last-Event-ID header by EventSource clients
+        internal: ['lastEventId'],
+        method: 'get',
+        path: '/articles/stream',
+        responses: {
+            200: '`text/event-stream` of `article` events (headline, id, metadata, publishedAt) as articles get published, with a heartbeat comment every 15 seconds; reconnecting with `Last-Event-ID` replays the missed events',
+        },
+        summary: 'Live stream of newly published articles',
+        tag: 'Articles',
+    },
+    {
+        input: getArticleParamsSchema,
+        method: 'get',
+        path: '/articles/:id',
+        pathParams: ['id'],
+        responses: { 200: articleResponseSchema },
+        summary: 'Get a single article',
+        tag: 'Articles',
+    },
+    {
+        input: gradeArticleQuizInputSchema,
+        method: 'post',
+        path: '/articles/:id/quiz/answers',
+        pathParams: ['id'],
+        responses: { 200: gradeArticleQuizResponseSchema },
+        summary: 'Grade quiz answers',
+        tag: 'Articles',
+    },
+    {
+        input: guessArticleAuthenticityInputSchema,
+        method: 'post',
+        path: '/articles/:id/authenticity-guess',
+        pathParams: ['id'],
+        responses: { 200: guessArticleAuthenticityResponseSchema },
+        summary: 'Guess whether an article is authentic or fabricated',
+        tag: 'Articles',
+    },
+    {
+        input: getDailyChallengeQuerySchema,
+        method: 'get',
+        path: '/challenges/daily',
+        responses: { 200: getDailyChallengeResponseSchema },
+        summary: "Get today's challenge edition of a locale",
+        tag: 'Challenges',
+    },
+    {
+        input: getFeedInputSchema,
+        internal: ['url'],
+        method: 'get',
+        path: '/feeds/:country/:file',
+        pathParams: ['country', 'file'],
+        responses: { 200: 'RSS 2.0 (`.rss`) or Atom 1.0 (`.atom`) feed, e.g. `/feeds/us/en.rss`' },
+        summary: 'Syndication feed of authentic articles',
+        tag: 'Feeds',
+    },
+    {
+        input: getLeaderboardInputSchema,
+        method: 'get',
+        path: '/leaderboards/:country/:language',
+        pathParams: ['country', 'language'],
+        responses: { 200: getLeaderboardResponseSchema },
+        summary: 'Player rankings of a locale',
+        tag: 'Leaderboards',
+    },
+    {
+        input: registerPlayerInputSchema,
+        method: 'post',
+        path: '/players',
+        responses: { 200: registerPlayerResponseSchema, 201: registerPlayerResponseSchema },
+        summary: 'Register an anonymous player, or return the one of this device',
+        tag: 'Players',
+    },
+    {
+        input: getPlayerStatsInputSchema,
+        method: 'get',
+        path: '/players/:id/stats',
+        pathParams: ['id'],
+        responses: { 200: getPlayerStatsResponseSchema },
+        summary: 'Score, accuracy and streak of a player',
+        tag: 'Players',
+    },
+];
+
+/**
+ * Builds the OpenAPI 3.1 document of the HTTP API.
+ * Request parameters come from the zod schemas the request handlers validate with,
+ * and responses from the schemas typing the presenters, so the document cannot drift.
+ */
+export function createOpenApiDocument(info: { title: string; version: string }) {
+    const paths: Record<string, Record<string, unknown>> = {};
+
+    for (const operation of operations) {
+        const path = operation.path.replace(/:(\w+)/g, '{$1}');
+        paths[path] = { ...paths[path], [operation.method]: toOperationObject(operation) };
+    }
+
+    return {
+        components: {
+            schemas: {
+                Problem: toJsonSchema(problemDetailsSchema, 'output'),
+            },
+            securitySchemes: {
+                apiKey: { in: 'header', name: 'X-Api-Key', type: 'apiKey' },
+                bearer: { scheme: 'bearer', type: 'http' },
+            },
+        },
+        info,
+        openapi: '3.1.0',
+        paths,
+        // Public routes also serve anonymous clients, unless disabled
+        security: [{}, { apiKey: [] }, { bearer: [] }],
+    };
+}
+
+function toProblemResponse(description: string) {
+    return {
+        content: { [PROBLEM_CONTENT_TYPE]: { schema: { $ref: '#/components/schemas/Problem' } } },
+        description,
+    };
+}
+
+function toJsonSchema(schema: z.ZodType, io: 'input' | 'output'): JsonSchema {
+    const { $schema: _, ...jsonSchema } = z.toJSONSchema(schema, {
+        io,
+        unrepresentable: 'any',
+    }) as JsonSchema;
+    return jsonSchema;
+}
+
+function toOperationObject(operation: OperationDefinition) {
+    const input = operation.input ? toJsonSchema(operation.input, 'input') : {};
+    const { body, ...parameters } = input.properties ?? {};
+    const required = new Set(input.required ?? []);
+
+    const responses: Record<string, unknown> = {};
+    for (const [status, response] of Object.entries(operation.responses)) {
+        if (typeof response !== 'string') {
+            responses[status] = {
+                content: { 'application/json': { schema: toJsonSchema(response, 'output') } },
+                description: 'Successful response',
+            };
+        } else {
+            responses[status] =
+                Number(status) >= 400 ? toProblemResponse(response) : { description: response };
+        }
+    }
+    responses['422'] = toProblemResponse(VALIDATION_ERROR);
+    responses['401'] = toProblemResponse('Missing or invalid API key');
+    responses['429'] = toProblemResponse('Rate limit exceeded, see the `Retry-After` header');
+    if (operation.admin) {
+        responses['403'] = toProblemResponse('API key lacks the admin scope');
+    }
+
+    return {
+        parameters: Object.entries(parameters)
+            .filter(([name]) => !operation.internal?.includes(name))
+            .map(([name, schema]) => {
+                const inPath = operation.pathParams?.includes(name) ?? false;
+                return {
+                    in: inPath ? 'path' : 'query',
+                    name,
+                    required: inPath || required.has(name),
+                    schema,
+                };
+            }),
+        ...(body && {
+            requestBody: {
+                content: { 'application/json': { schema: body } },
+                required: required.has('body'),
+            },
+        }),
+        responses,
+        ...(operation.admin && { security: [{ apiKey: [] }, { bearer: [] }] }),
+        summary: operation.summary,
+        tags: [operation.tag],
+    };
+}
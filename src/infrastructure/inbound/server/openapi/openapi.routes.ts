@@ -0,0 +1,35 @@
+import { Hono } from 'hono';
+
+import { createOpenApiDocument } from './openapi.document.js';
+
+const API_INFO = { title: 'n00 API', version: '1.0.0' };
+
+const SWAGGER_UI_VERSION = '5.17.14';
+
+/**
+ * Interactive API reference, rendered client-side by Swagger UI from /openapi.json
+ */
+const DOCS_PAGE = `<!doctype html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>${API_INFO.title}</title>
+<link rel="stylesheet" href="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui.css">
+</head>
+<body>
+<div id="swagger-ui"></div>
+<script src="https://unpkg.com/swagger-ui-dist@${SWAGGER_UI_VERSION}/swagger-ui-bundle.js"></script>
+<script>window.ui = SwaggerUIBundle({ dom_id: '#swagger-ui', url: '/openapi.json' });</script>
+</body>
+</html>`;
+
+export const createOpenApiRouter = () => {
+    const app = new Hono();
+    // The document only depends on the schemas, so it is built once
+    const document = createOpenApiDocument(API_INFO);
+
+    app.get('/openapi.json', (c) => c.json(document));
+    app.get('/docs', (c) => c.html(DOCS_PAGE));
+
+    return app;
+};
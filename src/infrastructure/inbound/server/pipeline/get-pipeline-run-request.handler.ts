@@ -0,0 +1,43 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+/**
+ * Raw HTTP input for GET /admin/pipeline/runs/:id
+ */
+export interface GetPipelineRunHttpInput {
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for GET /admin/pipeline/runs/:id endpoint
+ */
+export const getPipelineRunInputSchema = z.object({
+    id: z.uuid({ message: 'Run id must be a UUID' }),
+});
+
+export type GetPipelineRunHttpParams = z.infer<typeof getPipelineRunInputSchema>;
+
+/**
+ * Handles HTTP request validation for GET /admin/pipeline/runs/:id endpoint
+ */
+export class GetPipelineRunRequestHandler {
+    /**
+     * Validates the run id
+     *
+     * @param rawInput - Raw HTTP path parameter
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GetPipelineRunHttpInput): GetPipelineRunHttpParams {
+        const validatedInput = getPipelineRunInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
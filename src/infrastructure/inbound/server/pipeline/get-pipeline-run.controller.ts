@@ -0,0 +1,36 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type GetPipelineRunUseCase } from '../../../../application/use-cases/pipeline/get-pipeline-run.use-case.js';
+
+import {
+    type GetPipelineRunHttpInput,
+    GetPipelineRunRequestHandler,
+} from './get-pipeline-run-request.handler.js';
+import { PipelineRunResponsePresenter } from './pipeline-run-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the pipeline run progress endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetPipelineRunController {
+    private readonly requestHandler: GetPipelineRunRequestHandler;
+    private readonly responsePresenter: PipelineRunResponsePresenter;
+
+    constructor(private readonly getPipelineRunUseCase: GetPipelineRunUseCase) {
+        this.requestHandler = new GetPipelineRunRequestHandler();
+        this.responsePresenter = new PipelineRunResponsePresenter();
+    }
+
+    async getPipelineRun(rawInput: GetPipelineRunHttpInput) {
+        const { id } = this.requestHandler.handle(rawInput);
+
+        const run = await this.getPipelineRunUseCase.execute(id);
+
+        if (!run) {
+            throw new HTTPException(404, { message: `Pipeline run ${id} not found` });
+        }
+
+        return this.responsePresenter.present(run);
+    }
+}
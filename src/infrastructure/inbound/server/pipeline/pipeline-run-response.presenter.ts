@@ -0,0 +1,73 @@
+import { z } from 'zod/v4';
+
+// Domain
+import {
+    type PipelineRun,
+    pipelineRunStatusSchema,
+    pipelineRunTriggerSchema,
+    pipelineStepSchema,
+    pipelineStepStatusSchema,
+} from '../../../../domain/entities/pipeline-run.entity.js';
+import { countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * HTTP representation of a pipeline run, also used to document the API
+ */
+export const pipelineRunResponseSchema = z.object({
+    error: z.string().nullable(),
+    finishedAt: z.iso.datetime().nullable(),
+    id: z.uuid(),
+    requestedBy: z.string().nullable(),
+    startedAt: z.iso.datetime(),
+    status: pipelineRunStatusSchema,
+    steps: z.array(
+        z.object({
+            error: z.string().nullable(),
+            finishedAt: z.iso.datetime().nullable(),
+            name: pipelineStepSchema,
+            /** Reports or articles the step produced; null for classification */
+            processedCount: z.number().int().nullable(),
+            startedAt: z.iso.datetime().nullable(),
+            status: pipelineStepStatusSchema,
+        }),
+    ),
+    targets: z.array(
+        z.object({
+            country: z.enum(countrySchema.options),
+            language: z.enum(languageSchema.options),
+        }),
+    ),
+    trigger: pipelineRunTriggerSchema,
+});
+
+export type PipelineRunResponse = z.infer<typeof pipelineRunResponseSchema>;
+
+/**
+ * Maps a pipeline run to its HTTP representation
+ */
+export class PipelineRunResponsePresenter {
+    present(run: PipelineRun): PipelineRunResponse {
+        return {
+            error: run.error ?? null,
+            finishedAt: run.finishedAt?.toISOString() ?? null,
+            id: run.id,
+            requestedBy: run.requestedBy ?? null,
+            startedAt: run.startedAt.toISOString(),
+            status: run.status,
+            steps: run.steps.map((step) => ({
+                error: step.error ?? null,
+                finishedAt: step.finishedAt?.toISOString() ?? null,
+                name: step.name,
+                processedCount: step.processedCount ?? null,
+                startedAt: step.startedAt?.toISOString() ?? null,
+                status: step.status,
+            })),
+            targets: run.targets.map((target) => ({
+                country: target.country,
+                language: target.language,
+            })),
+            trigger: run.trigger,
+        };
+    }
+}
@@ -0,0 +1,40 @@
+import { Hono } from 'hono';
+
+import { describeApiClient } from '../api-key-auth.middleware.js';
+
+import { type GetPipelineRunController } from './get-pipeline-run.controller.js';
+import { type StartPipelineRunController } from './start-pipeline-run.controller.js';
+
+/**
+ * Controllers backing the /admin/pipeline routes
+ */
+export interface PipelineControllers {
+    getPipelineRun: GetPipelineRunController;
+    startPipelineRun: StartPipelineRunController;
+}
+
+export const createPipelineRouter = (controllers: PipelineControllers) => {
+    const app = new Hono();
+
+    // The run continues in the background: follow it with GET /runs/:id
+    app.post('/runs', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.startPipelineRun.startPipelineRun({
+            actor: describeApiClient(c.get('apiClient')),
+            body,
+        });
+
+        return c.json(response, 202, { Location: `${c.req.path}/${response.id}` });
+    });
+
+    app.get('/runs/:id', async (c) => {
+        const response = await controllers.getPipelineRun.getPipelineRun({
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    return app;
+};
@@ -0,0 +1,79 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { pipelineStepSchema } from '../../../../domain/entities/pipeline-run.entity.js';
+import { countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * Raw HTTP input for POST /admin/pipeline/runs
+ */
+export interface StartPipelineRunHttpInput {
+    actor: string;
+    body: unknown;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/pipeline/runs endpoint
+ * Without a body, every step runs for every configured country/language pair
+ */
+export const startPipelineRunInputSchema = z.object({
+    /** Who is starting the run, resolved from the credentials of the request */
+    actor: z.string().min(1),
+    body: z
+        .object({
+            country: z
+                .string()
+                .transform((val) => val.toUpperCase())
+                .pipe(countrySchema)
+                .optional(),
+            language: z
+                .string()
+                .transform((val) => val.toUpperCase())
+                .pipe(languageSchema)
+                .optional(),
+            steps: z
+                .array(
+                    z
+                        .string()
+                        .transform((val) => val.toLowerCase())
+                        .pipe(pipelineStepSchema),
+                )
+                .min(1)
+                .optional(),
+        })
+        .refine((body) => (body.country === undefined) === (body.language === undefined), {
+            message: "'country' and 'language' must be given together",
+            path: ['country'],
+        })
+        .optional()
+        .transform((body) => body ?? {}),
+});
+
+export type StartPipelineRunHttpParams = z.infer<typeof startPipelineRunInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /admin/pipeline/runs endpoint
+ */
+export class StartPipelineRunRequestHandler {
+    /**
+     * Validates the country/language pair and the steps to run
+     *
+     * @param rawInput - Raw HTTP JSON body, with the client starting the run
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: StartPipelineRunHttpInput): StartPipelineRunHttpParams {
+        const validatedInput = startPipelineRunInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
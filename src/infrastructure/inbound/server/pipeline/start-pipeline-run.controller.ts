@@ -0,0 +1,48 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { PipelineRunInProgressError } from '../../../../application/use-cases/pipeline/pipeline-run-in-progress.error.js';
+import { type RunReportPipelineUseCase } from '../../../../application/use-cases/pipeline/run-report-pipeline.use-case.js';
+
+import { PipelineRunResponsePresenter } from './pipeline-run-response.presenter.js';
+import {
+    type StartPipelineRunHttpInput,
+    StartPipelineRunRequestHandler,
+} from './start-pipeline-run-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the endpoint starting a pipeline run
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class StartPipelineRunController {
+    private readonly requestHandler: StartPipelineRunRequestHandler;
+    private readonly responsePresenter: PipelineRunResponsePresenter;
+
+    constructor(private readonly runReportPipelineUseCase: RunReportPipelineUseCase) {
+        this.requestHandler = new StartPipelineRunRequestHandler();
+        this.responsePresenter = new PipelineRunResponsePresenter();
+    }
+
+    async startPipelineRun(rawInput: StartPipelineRunHttpInput) {
+        const { actor, body } = this.requestHandler.handle(rawInput);
+
+        try {
+            const run = await this.runReportPipelineUseCase.start({
+                requestedBy: actor,
+                steps: body.steps,
+                targets:
+                    body.country && body.language
+                        ? [{ country: body.country, language: body.language }]
+                        : undefined,
+                trigger: 'MANUAL',
+            });
+
+            return this.responsePresenter.present(run);
+        } catch (error) {
+            if (error instanceof PipelineRunInProgressError) {
+                throw new HTTPException(409, { cause: error, message: error.message });
+            }
+            throw error;
+        }
+    }
+}
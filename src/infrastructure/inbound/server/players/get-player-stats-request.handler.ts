@@ -0,0 +1,54 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+
+/**
+ * Raw HTTP input for GET /players/:id/stats
+ */
+export interface GetPlayerStatsHttpInput {
+    country?: string;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for GET /players/:id/stats endpoint
+ * The country only drives the day boundaries of the streak and defaults to 'US'
+ */
+export const getPlayerStatsInputSchema = z.object({
+    country: z
+        .string()
+        .optional()
+        .transform((val) => val?.toUpperCase() || 'US')
+        .pipe(countrySchema)
+        .transform((val) => new Country(val)),
+    id: z.uuid({ message: 'Player id must be a UUID' }),
+});
+
+export type GetPlayerStatsHttpParams = z.infer<typeof getPlayerStatsInputSchema>;
+
+/**
+ * Handles HTTP request validation for GET /players/:id/stats endpoint
+ */
+export class GetPlayerStatsRequestHandler {
+    /**
+     * Validates the player id and the streak country
+     *
+     * @param rawInput - Raw HTTP path and query parameters
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GetPlayerStatsHttpInput): GetPlayerStatsHttpParams {
+        const validatedInput = getPlayerStatsInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
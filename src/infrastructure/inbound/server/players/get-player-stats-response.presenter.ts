@@ -0,0 +1,35 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type PlayerStats } from '../../../../application/use-cases/players/get-player-stats.use-case.js';
+
+export const getPlayerStatsResponseSchema = z.object({
+    accuracy: z.number(),
+    authenticity: z.object({ correct: z.number().int(), guessed: z.number().int() }),
+    playerId: z.uuid(),
+    quiz: z.object({ answered: z.number().int(), correct: z.number().int() }),
+    score: z.number().int(),
+    streak: z.object({
+        current: z.number().int(),
+        lastPlayedOn: z.iso.date().nullable(),
+        longest: z.number().int(),
+    }),
+});
+
+type GetPlayerStatsResponse = z.infer<typeof getPlayerStatsResponseSchema>;
+
+/**
+ * Handles response formatting for GET /players/:id/stats endpoint
+ */
+export class GetPlayerStatsResponsePresenter {
+    present(stats: PlayerStats): GetPlayerStatsResponse {
+        return {
+            accuracy: Math.round(stats.accuracy * 1000) / 1000,
+            authenticity: stats.authenticity,
+            playerId: stats.playerId,
+            quiz: stats.quiz,
+            score: stats.score,
+            streak: stats.streak,
+        };
+    }
+}
@@ -0,0 +1,36 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type GetPlayerStatsUseCase } from '../../../../application/use-cases/players/get-player-stats.use-case.js';
+
+import {
+    type GetPlayerStatsHttpInput,
+    GetPlayerStatsRequestHandler,
+} from './get-player-stats-request.handler.js';
+import { GetPlayerStatsResponsePresenter } from './get-player-stats-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the player stats endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetPlayerStatsController {
+    private readonly requestHandler: GetPlayerStatsRequestHandler;
+    private readonly responsePresenter: GetPlayerStatsResponsePresenter;
+
+    constructor(private readonly getPlayerStatsUseCase: GetPlayerStatsUseCase) {
+        this.requestHandler = new GetPlayerStatsRequestHandler();
+        this.responsePresenter = new GetPlayerStatsResponsePresenter();
+    }
+
+    async getPlayerStats(rawInput: GetPlayerStatsHttpInput) {
+        const { country, id } = this.requestHandler.handle(rawInput);
+
+        const stats = await this.getPlayerStatsUseCase.execute({ country, playerId: id });
+
+        if (!stats) {
+            throw new HTTPException(404, { message: `Player ${id} not found` });
+        }
+
+        return this.responsePresenter.present(stats);
+    }
+}
@@ -0,0 +1,35 @@
+import { Hono } from 'hono';
+
+import { type GetPlayerStatsController } from './get-player-stats.controller.js';
+import { type RegisterPlayerController } from './register-player.controller.js';
+
+/**
+ * Controllers backing the /players routes
+ */
+export interface PlayersControllers {
+    getPlayerStats: GetPlayerStatsController;
+    registerPlayer: RegisterPlayerController;
+}
+
+export const createPlayersRouter = (controllers: PlayersControllers) => {
+    const app = new Hono();
+
+    app.post('/', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const { created, player } = await controllers.registerPlayer.registerPlayer({ body });
+
+        return c.json(player, created ? 201 : 200);
+    });
+
+    app.get('/:id/stats', async (c) => {
+        const response = await controllers.getPlayerStats.getPlayerStats({
+            country: c.req.query('country'),
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    return app;
+};
@@ -0,0 +1,48 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { deviceIdSchema } from '../../../../domain/entities/player.entity.js';
+
+/**
+ * Raw HTTP input for POST /players
+ */
+export interface RegisterPlayerHttpInput {
+    body: unknown;
+}
+
+/**
+ * Schema for validating HTTP input for POST /players endpoint
+ */
+export const registerPlayerInputSchema = z.object({
+    body: z.object({
+        deviceId: deviceIdSchema,
+    }),
+});
+
+export type RegisterPlayerHttpParams = z.infer<typeof registerPlayerInputSchema>;
+
+/**
+ * Handles HTTP request validation for POST /players endpoint
+ */
+export class RegisterPlayerRequestHandler {
+    /**
+     * Validates the anonymous device id
+     *
+     * @param rawInput - Raw HTTP JSON body
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: RegisterPlayerHttpInput): RegisterPlayerHttpParams {
+        const validatedInput = registerPlayerInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
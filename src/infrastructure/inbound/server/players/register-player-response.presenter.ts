@@ -0,0 +1,25 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type RegisterPlayerResult } from '../../../../application/use-cases/players/register-player.use-case.js';
+
+export const registerPlayerResponseSchema = z.object({
+    createdAt: z.iso.datetime(),
+    deviceId: z.string(),
+    id: z.uuid(),
+});
+
+type RegisterPlayerResponse = z.infer<typeof registerPlayerResponseSchema>;
+
+/**
+ * Handles response formatting for POST /players endpoint
+ */
+export class RegisterPlayerResponsePresenter {
+    present(result: RegisterPlayerResult): RegisterPlayerResponse {
+        return {
+            createdAt: result.player.createdAt.toISOString(),
+            deviceId: result.player.deviceId,
+            id: result.player.id,
+        };
+    }
+}
@@ -0,0 +1,33 @@
+// Application
+import { type RegisterPlayerUseCase } from '../../../../application/use-cases/players/register-player.use-case.js';
+
+import {
+    type RegisterPlayerHttpInput,
+    RegisterPlayerRequestHandler,
+} from './register-player-request.handler.js';
+import { RegisterPlayerResponsePresenter } from './register-player-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the player registration endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class RegisterPlayerController {
+    private readonly requestHandler: RegisterPlayerRequestHandler;
+    private readonly responsePresenter: RegisterPlayerResponsePresenter;
+
+    constructor(private readonly registerPlayerUseCase: RegisterPlayerUseCase) {
+        this.requestHandler = new RegisterPlayerRequestHandler();
+        this.responsePresenter = new RegisterPlayerResponsePresenter();
+    }
+
+    async registerPlayer(rawInput: RegisterPlayerHttpInput) {
+        const { body } = this.requestHandler.handle(rawInput);
+
+        const result = await this.registerPlayerUseCase.execute({ deviceId: body.deviceId });
+
+        return {
+            created: result.created,
+            player: this.responsePresenter.present(result),
+        };
+    }
+}
@@ -0,0 +1,60 @@
+import type { Context } from 'hono';
+import type { ContentfulStatusCode } from 'hono/utils/http-status';
+import { STATUS_CODES } from 'node:http';
+import { z } from 'zod/v4';
+
+export const PROBLEM_CONTENT_TYPE = 'application/problem+json';
+
+/**
+ * RFC 7807 problem details, the body of every error response
+ */
+export const problemDetailsSchema = z.object({
+    detail: z.string(),
+    /** Field-level validation issues, for 422 responses */
+    errors: z
+        .array(
+            z.object({
+                code: z.string(),
+                message: z.string(),
+                /** Dotted path of the invalid input, e.g. `body.scopes.0` */
+                path: z.string(),
+            }),
+        )
+        .optional(),
+    instance: z.string(),
+    requestId: z.string(),
+    status: z.number().int(),
+    title: z.string(),
+    type: z.string(),
+});
+
+export type ProblemDetails = z.infer<typeof problemDetailsSchema>;
+
+export type ProblemValidationError = NonNullable<ProblemDetails['errors']>[number];
+
+/**
+ * Answers a problem for the current request, identified by the id of `createRequestIdMiddleware`;
+ * `type` stays `about:blank`, so `title` is the standard phrase of the status
+ */
+export const problemResponse = (
+    c: Context,
+    problem: {
+        detail: string;
+        errors?: ProblemValidationError[];
+        status: ContentfulStatusCode;
+    },
+    headers?: Record<string, string>,
+): Response =>
+    c.body(
+        JSON.stringify({
+            detail: problem.detail,
+            errors: problem.errors,
+            instance: c.req.path,
+            requestId: c.get('requestId'),
+            status: problem.status,
+            title: STATUS_CODES[problem.status] ?? 'Error',
+            type: 'about:blank',
+        } satisfies ProblemDetails),
+        problem.status,
+        { ...headers, 'Content-Type': PROBLEM_CONTENT_TYPE },
+    );
@@ -0,0 +1,101 @@
+import type { Context, MiddlewareHandler } from 'hono';
+
+// Application
+import type {
+    RateLimitConfigurationPort,
+    RateLimitPolicy,
+} from '../../../application/ports/inbound/configuration.port.js';
+
+import { problemResponse } from './problem-details.js';
+
+/** Bounds memory: the least recently seen clients are forgotten first */
+const MAX_BUCKETS = 10_000;
+
+type Bucket = {
+    refilledAt: number;
+    tokens: number;
+};
+
+/**
+ * Token-bucket rate limiting per API key, or per address for anonymous clients.
+ * Every response carries `RateLimit-Limit`, `RateLimit-Remaining` and `RateLimit-Reset`
+ * (seconds until the bucket is full again); an empty bucket answers 429 with `Retry-After`.
+ * Must run after `ApiKeyAuth.identify()`.
+ */
+export class RateLimiter {
+    private readonly buckets = new Map<string, Bucket>();
+
+    constructor(private readonly configuration: RateLimitConfigurationPort) {}
+
+    middleware(): MiddlewareHandler {
+        return async (c, next) => {
+            const { key, policy } = this.resolve(c);
+            const { allowed, tokens } = this.take(key, policy);
+
+            c.header('RateLimit-Limit', String(policy.capacity));
+            c.header('RateLimit-Remaining', String(Math.floor(tokens)));
+            c.header(
+                'RateLimit-Reset',
+                String(Math.ceil((policy.capacity - tokens) / policy.refillPerSecond)),
+            );
+
+            if (!allowed) {
+                const retryAfter = Math.ceil((1 - tokens) / policy.refillPerSecond);
+
+                return problemResponse(
+                    c,
+                    {
+                        detail: `Rate limit exceeded, retry in ${retryAfter} seconds`,
+                        status: 429,
+                    },
+                    { 'Retry-After': String(retryAfter) },
+                );
+            }
+
+            return next();
+        };
+    }
+
+    private resolve(c: Context): { key: string; policy: RateLimitPolicy } {
+        const client = c.get('apiClient');
+
+        switch (client.kind) {
+            case 'admin-token':
+                return { key: 'admin-token', policy: this.configuration.apiKey };
+            case 'anonymous':
+                return { key: `address:${client.address}`, policy: this.configuration.anonymous };
+            case 'api-key':
+                return {
+                    key: `key:${client.apiKey.id}`,
+                    policy:
+                        this.configuration.keys[client.apiKey.label] ?? this.configuration.apiKey,
+                };
+        }
+    }
+
+    /**
+     * Refill the bucket for the time elapsed, then take a token if one is left.
+     * Rejected requests take nothing, so retrying clients recover at the refill rate.
+     */
+    private take(key: string, policy: RateLimitPolicy): { allowed: boolean; tokens: number } {
+        const now = Date.now();
+        const previous = this.buckets.get(key);
+        const elapsedSeconds = previous ? (now - previous.refilledAt) / 1000 : 0;
+        const available = previous
+            ? Math.min(policy.capacity, previous.tokens + elapsedSeconds * policy.refillPerSecond)
+            : policy.capacity;
+
+        const allowed = available >= 1;
+        const tokens = allowed ? available - 1 : available;
+
+        this.buckets.delete(key);
+        this.buckets.set(key, { refilledAt: now, tokens });
+
+        if (this.buckets.size > MAX_BUCKETS) {
+            const oldest = this.buckets.keys().next().value;
+            if (oldest !== undefined) this.buckets.delete(oldest);
+        }
+
+        return { allowed, tokens };
+    }
+}
@@ -0,0 +1,43 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+/**
+ * Raw HTTP input for GET /admin/reports/:id
+ */
+export interface GetReportHttpInput {
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for GET /admin/reports/:id endpoint
+ */
+export const getReportInputSchema = z.object({
+    id: z.uuid({ message: 'Report id must be a UUID' }),
+});
+
+export type GetReportHttpParams = z.infer<typeof getReportInputSchema>;
+
+/**
+ * Handles HTTP request validation for GET /admin/reports/:id endpoint
+ */
+export class GetReportRequestHandler {
+    /**
+     * Validates the report id
+     *
+     * @param rawInput - Raw HTTP path parameter
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GetReportHttpInput): GetReportHttpParams {
+        const validatedInput = getReportInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,71 @@
+import { z } from 'zod/v4';
+
+// Application
+import {
+    type ReportDetail,
+    type ReportSummary,
+} from '../../../../application/ports/outbound/persistence/report/report-repository.port.js';
+
+// Domain
+import { languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+import { ReportResponsePresenter, reportResponseSchema } from './report-response.presenter.js';
+
+const linkedReportSchema = z.object({
+    core: z.string(),
+    createdAt: z.iso.datetime(),
+    dateline: z.iso.datetime(),
+    id: z.uuid(),
+});
+
+export const getReportResponseSchema = reportResponseSchema.extend({
+    articles: z.array(
+        z.object({
+            fabricated: z.boolean(),
+            headline: z.string(),
+            id: z.uuid(),
+            language: z.enum(languageSchema.options),
+            publishedAt: z.iso.datetime(),
+            /** Set once an editor withdrew the article */
+            retractedAt: z.iso.datetime().nullable(),
+        }),
+    ),
+    /** Canonical report this one duplicates */
+    duplicateOf: linkedReportSchema.nullable(),
+    /** Reports marked as duplicates of this one */
+    duplicates: z.array(linkedReportSchema),
+});
+
+type GetReportResponse = z.infer<typeof getReportResponseSchema>;
+
+/**
+ * Handles response formatting for GET /admin/reports/:id endpoint
+ */
+export class GetReportResponsePresenter {
+    private readonly reportPresenter = new ReportResponsePresenter();
+
+    present(detail: ReportDetail): GetReportResponse {
+        return {
+            ...this.reportPresenter.present(detail.report),
+            articles: detail.articles.map((article) => ({
+                fabricated: article.fabricated,
+                headline: article.headline,
+                id: article.id,
+                language: article.language,
+                publishedAt: article.publishedAt.toISOString(),
+                retractedAt: article.retractedAt?.toISOString() ?? null,
+            })),
+            duplicateOf: detail.duplicateOf ? this.presentLinkedReport(detail.duplicateOf) : null,
+            duplicates: detail.duplicates.map((report) => this.presentLinkedReport(report)),
+        };
+    }
+
+    private presentLinkedReport(report: ReportSummary) {
+        return {
+            core: report.core,
+            createdAt: report.createdAt.toISOString(),
+            dateline: report.dateline.toISOString(),
+            id: report.id,
+        };
+    }
+}
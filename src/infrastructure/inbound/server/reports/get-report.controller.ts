@@ -0,0 +1,33 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type GetReportUseCase } from '../../../../application/use-cases/reports/get-report.use-case.js';
+
+import { type GetReportHttpInput, GetReportRequestHandler } from './get-report-request.handler.js';
+import { GetReportResponsePresenter } from './get-report-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the report detail endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetReportController {
+    private readonly requestHandler: GetReportRequestHandler;
+    private readonly responsePresenter: GetReportResponsePresenter;
+
+    constructor(private readonly getReportUseCase: GetReportUseCase) {
+        this.requestHandler = new GetReportRequestHandler();
+        this.responsePresenter = new GetReportResponsePresenter();
+    }
+
+    async getReport(rawInput: GetReportHttpInput) {
+        const { id } = this.requestHandler.handle(rawInput);
+
+        const detail = await this.getReportUseCase.execute(id);
+
+        if (!detail) {
+            throw new HTTPException(404, { message: `Report ${id} not found` });
+        }
+
+        return this.responsePresenter.present(detail);
+    }
+}
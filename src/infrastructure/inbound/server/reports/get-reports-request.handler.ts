@@ -0,0 +1,100 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+// Domain
+import { Country, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { deduplicationStateSchema } from '../../../../domain/value-objects/report/deduplication-state.vo.js';
+import { classificationStateSchema } from '../../../../domain/value-objects/report/tier-state.vo.js';
+import { classificationSchema } from '../../../../domain/value-objects/report/tier.vo.js';
+
+const DEFAULT_PAGE_SIZE = 20;
+const MAX_PAGE_SIZE = 100;
+
+/**
+ * Raw HTTP query parameters for GET /admin/reports
+ */
+export interface GetReportsHttpQuery {
+    classificationState?: string;
+    country?: string;
+    deduplicationState?: string;
+    from?: string;
+    limit?: string;
+    offset?: string;
+    tier?: string;
+    to?: string;
+}
+
+/**
+ * Upper-cases an optional parameter so enum values match regardless of their case
+ */
+const upperCaseParamSchema = z
+    .string()
+    .optional()
+    .transform((val) => val?.toUpperCase() || undefined);
+
+/**
+ * Validates an instant bounding the report dateline (ISO 8601 date-time)
+ */
+const datelineParamSchema = z.iso
+    .datetime({ message: 'Expected an ISO 8601 date-time', offset: true })
+    .optional()
+    .transform((val) => (val ? new Date(val) : undefined));
+
+/**
+ * Schema for validating HTTP query parameters for GET /admin/reports endpoint
+ */
+export const getReportsInputSchema = z
+    .object({
+        classificationState: upperCaseParamSchema.pipe(classificationStateSchema.optional()),
+        country: upperCaseParamSchema
+            .pipe(countrySchema.optional())
+            .transform((val) => (val ? new Country(val) : undefined)),
+        deduplicationState: upperCaseParamSchema.pipe(deduplicationStateSchema.optional()),
+        from: datelineParamSchema,
+        limit: z.coerce
+            .number()
+            .int()
+            .min(1)
+            .max(MAX_PAGE_SIZE)
+            .optional()
+            .transform((val) => val ?? DEFAULT_PAGE_SIZE),
+        offset: z.coerce
+            .number()
+            .int()
+            .min(0)
+            .optional()
+            .transform((val) => val ?? 0),
+        tier: upperCaseParamSchema.pipe(classificationSchema.optional()),
+        to: datelineParamSchema,
+    })
+    .refine((params) => !params.from || !params.to || params.from <= params.to, {
+        message: "'from' must not be after 'to'",
+        path: ['from'],
+    });
+
+export type GetReportsHttpParams = z.infer<typeof getReportsInputSchema>;
+
+/**
+ * Handles HTTP request validation and transformation for GET /admin/reports endpoint
+ */
+export class GetReportsRequestHandler {
+    /**
+     * Validates the filters and pagination of the report list
+     *
+     * @param rawQuery - Raw HTTP query parameters
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawQuery: GetReportsHttpQuery): GetReportsHttpParams {
+        const validatedParams = getReportsInputSchema.safeParse(rawQuery);
+
+        if (!validatedParams.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedParams.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedParams.data;
+    }
+}
@@ -0,0 +1,28 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type GetReportsResult } from '../../../../application/use-cases/reports/get-reports.use-case.js';
+
+import { ReportResponsePresenter, reportResponseSchema } from './report-response.presenter.js';
+
+export const getReportsResponseSchema = z.object({
+    items: z.array(reportResponseSchema),
+    /** Offset of the next page, null on the last one */
+    nextOffset: z.number().int().nullable(),
+});
+
+type GetReportsResponse = z.infer<typeof getReportsResponseSchema>;
+
+/**
+ * Handles response formatting for GET /admin/reports endpoint
+ */
+export class GetReportsResponsePresenter {
+    private readonly reportPresenter = new ReportResponsePresenter();
+
+    present(result: GetReportsResult): GetReportsResponse {
+        return {
+            items: result.reports.map((report) => this.reportPresenter.present(report)),
+            nextOffset: result.nextOffset,
+        };
+    }
+}
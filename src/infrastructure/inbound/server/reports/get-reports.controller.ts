@@ -0,0 +1,30 @@
+// Application
+import { type GetReportsUseCase } from '../../../../application/use-cases/reports/get-reports.use-case.js';
+
+import {
+    type GetReportsHttpQuery,
+    GetReportsRequestHandler,
+} from './get-reports-request.handler.js';
+import { GetReportsResponsePresenter } from './get-reports-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the report list endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetReportsController {
+    private readonly requestHandler: GetReportsRequestHandler;
+    private readonly responsePresenter: GetReportsResponsePresenter;
+
+    constructor(private readonly getReportsUseCase: GetReportsUseCase) {
+        this.requestHandler = new GetReportsRequestHandler();
+        this.responsePresenter = new GetReportsResponsePresenter();
+    }
+
+    async getReports(rawQuery: GetReportsHttpQuery) {
+        const params = this.requestHandler.handle(rawQuery);
+
+        const result = await this.getReportsUseCase.execute(params);
+
+        return this.responsePresenter.present(result);
+    }
+}
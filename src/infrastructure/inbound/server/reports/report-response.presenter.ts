@@ -0,0 +1,60 @@
+import { z } from 'zod/v4';
+
+// Domain
+import { type Report } from '../../../../domain/entities/report.entity.js';
+import { categorySchema } from '../../../../domain/value-objects/category.vo.js';
+import { type CountryEnum, countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { deduplicationStateSchema } from '../../../../domain/value-objects/report/deduplication-state.vo.js';
+import { classificationStateSchema } from '../../../../domain/value-objects/report/tier-state.vo.js';
+import { classificationSchema } from '../../../../domain/value-objects/report/tier.vo.js';
+
+/**
+ * HTTP representation of a report, also used to document the API
+ */
+export const reportResponseSchema = z.object({
+    angles: z.array(z.object({ narrative: z.string() })),
+    background: z.string(),
+    categories: z.array(categorySchema),
+    classificationState: classificationStateSchema,
+    core: z.string(),
+    country: z.enum(countrySchema.options),
+    createdAt: z.iso.datetime(),
+    dateline: z.iso.datetime(),
+    deduplicationState: deduplicationStateSchema,
+    id: z.uuid(),
+    /** Identifiers of the news the report was ingested from */
+    sources: z.array(z.string()),
+    tier: classificationSchema.nullable(),
+    traits: z.object({ essential: z.boolean(), positive: z.boolean() }),
+    updatedAt: z.iso.datetime(),
+});
+
+export type ReportResponse = z.infer<typeof reportResponseSchema>;
+
+/**
+ * Maps a report to its HTTP representation
+ * Shared by the report endpoints so the response shape stays identical
+ */
+export class ReportResponsePresenter {
+    present(report: Report): ReportResponse {
+        return {
+            angles: report.angles.map((angle) => ({ narrative: angle.narrative.toString() })),
+            background: report.background.toString(),
+            categories: report.categories.toArray(),
+            classificationState: report.classificationState.toString(),
+            core: report.core.toString(),
+            country: report.country.toString() as CountryEnum,
+            createdAt: report.createdAt.toISOString(),
+            dateline: report.dateline.toISOString(),
+            deduplicationState: report.deduplicationState.toString(),
+            id: report.id,
+            sources: report.sourceReferences,
+            tier: report.tier?.toString() ?? null,
+            traits: {
+                essential: report.traits?.essential ?? false,
+                positive: report.traits?.positive ?? false,
+            },
+            updatedAt: report.updatedAt.toISOString(),
+        };
+    }
+}
@@ -0,0 +1,30 @@
+import { Hono } from 'hono';
+
+import { type GetReportController } from './get-report.controller.js';
+import { type GetReportsController } from './get-reports.controller.js';
+
+/**
+ * Controllers backing the /admin/reports routes
+ */
+export interface ReportsControllers {
+    getReport: GetReportController;
+    getReports: GetReportsController;
+}
+
+export const createReportsRouter = (controllers: ReportsControllers) => {
+    const app = new Hono();
+
+    app.get('/', async (c) => {
+        const response = await controllers.getReports.getReports(c.req.query());
+
+        return c.json(response);
+    });
+
+    app.get('/:id', async (c) => {
+        const response = await controllers.getReport.getReport({ id: c.req.param('id') });
+
+        return c.json(response);
+    });
+
+    return app;
+};
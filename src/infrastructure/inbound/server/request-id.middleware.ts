@@ -0,0 +1,27 @@
+import type { MiddlewareHandler } from 'hono';
+import { randomUUID } from 'node:crypto';
+
+// Shared
+import { runWithCorrelation } from '../../../shared/correlation/index.js';
+
+declare module 'hono' {
+    interface ContextVariableMap {
+        requestId: string;
+    }
+}
+
+/**
+ * Request correlation.
+ * Reuses the `X-Request-Id` sent by the client when it looks like an identifier, generates
+ * a UUID otherwise, and echoes it on the response. The id is bound to the async context
+ * of the request, so logs and spans of the use cases and agents it runs carry it.
+ */
+export const createRequestIdMiddleware = (): MiddlewareHandler => async (c, next) => {
+    const header = c.req.header('X-Request-Id');
+    const requestId = header && /^[\w.:-]{1,128}$/.test(header) ? header : randomUUID();
+
+    c.set('requestId', requestId);
+    c.header('X-Request-Id', requestId);
+
+    await runWithCorrelation({ requestId }, next);
+};
@@ -0,0 +1,54 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+import { webhookSubscriptionFieldSchemas } from './webhook-subscription-request.schemas.js';
+
+/**
+ * Raw HTTP input for POST /admin/webhooks
+ */
+export interface CreateWebhookSubscriptionHttpInput {
+    body: unknown;
+}
+
+/**
+ * Schema for validating HTTP input for POST /admin/webhooks endpoint
+ * Locale filters default to every locale, and the secret is generated when omitted
+ */
+export const createWebhookSubscriptionInputSchema = z.object({
+    body: z.object({
+        countries: webhookSubscriptionFieldSchemas.countries.default([]),
+        eventTypes: webhookSubscriptionFieldSchemas.eventTypes,
+        languages: webhookSubscriptionFieldSchemas.languages.default([]),
+        secret: z.string().min(16).optional(),
+        url: webhookSubscriptionFieldSchemas.url,
+    }),
+});
+
+export type CreateWebhookSubscriptionHttpParams = z.infer<
+    typeof createWebhookSubscriptionInputSchema
+>;
+
+/**
+ * Handles HTTP request validation for POST /admin/webhooks endpoint
+ */
+export class CreateWebhookSubscriptionRequestHandler {
+    /**
+     * Validates the endpoint, the subscribed events and the locale filters
+     *
+     * @param rawInput - Raw HTTP JSON body
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: CreateWebhookSubscriptionHttpInput): CreateWebhookSubscriptionHttpParams {
+        const validatedInput = createWebhookSubscriptionInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
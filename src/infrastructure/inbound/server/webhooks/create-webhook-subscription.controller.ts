@@ -0,0 +1,33 @@
+// Application
+import { type CreateWebhookSubscriptionUseCase } from '../../../../application/use-cases/webhooks/create-webhook-subscription.use-case.js';
+
+import {
+    type CreateWebhookSubscriptionHttpInput,
+    CreateWebhookSubscriptionRequestHandler,
+} from './create-webhook-subscription-request.handler.js';
+import { WebhookSubscriptionResponsePresenter } from './webhook-subscription-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the webhook subscription creation endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class CreateWebhookSubscriptionController {
+    private readonly requestHandler: CreateWebhookSubscriptionRequestHandler;
+    private readonly responsePresenter: WebhookSubscriptionResponsePresenter;
+
+    constructor(
+        private readonly createWebhookSubscriptionUseCase: CreateWebhookSubscriptionUseCase,
+    ) {
+        this.requestHandler = new CreateWebhookSubscriptionRequestHandler();
+        this.responsePresenter = new WebhookSubscriptionResponsePresenter();
+    }
+
+    async createWebhookSubscription(rawInput: CreateWebhookSubscriptionHttpInput) {
+        const { body } = this.requestHandler.handle(rawInput);
+
+        const subscription = await this.createWebhookSubscriptionUseCase.execute(body);
+
+        // The secret is only ever disclosed here, partners must store it
+        return this.responsePresenter.present(subscription, { includeSecret: true });
+    }
+}
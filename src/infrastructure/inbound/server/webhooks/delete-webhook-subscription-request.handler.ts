@@ -0,0 +1,47 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+import { webhookSubscriptionFieldSchemas } from './webhook-subscription-request.schemas.js';
+
+/**
+ * Raw HTTP input for DELETE /admin/webhooks/:id
+ */
+export interface DeleteWebhookSubscriptionHttpInput {
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for DELETE /admin/webhooks/:id endpoint
+ */
+export const deleteWebhookSubscriptionInputSchema = z.object({
+    id: webhookSubscriptionFieldSchemas.id,
+});
+
+export type DeleteWebhookSubscriptionHttpParams = z.infer<
+    typeof deleteWebhookSubscriptionInputSchema
+>;
+
+/**
+ * Handles HTTP request validation for DELETE /admin/webhooks/:id endpoint
+ */
+export class DeleteWebhookSubscriptionRequestHandler {
+    /**
+     * Validates the subscription id
+     *
+     * @param rawInput - Raw HTTP path parameter
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: DeleteWebhookSubscriptionHttpInput): DeleteWebhookSubscriptionHttpParams {
+        const validatedInput = deleteWebhookSubscriptionInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
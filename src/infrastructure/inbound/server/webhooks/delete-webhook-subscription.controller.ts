@@ -0,0 +1,32 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type DeleteWebhookSubscriptionUseCase } from '../../../../application/use-cases/webhooks/delete-webhook-subscription.use-case.js';
+
+import {
+    type DeleteWebhookSubscriptionHttpInput,
+    DeleteWebhookSubscriptionRequestHandler,
+} from './delete-webhook-subscription-request.handler.js';
+
+/**
+ * Orchestrates HTTP request handling for the webhook subscription deletion endpoint
+ */
+export class DeleteWebhookSubscriptionController {
+    private readonly requestHandler: DeleteWebhookSubscriptionRequestHandler;
+
+    constructor(
+        private readonly deleteWebhookSubscriptionUseCase: DeleteWebhookSubscriptionUseCase,
+    ) {
+        this.requestHandler = new DeleteWebhookSubscriptionRequestHandler();
+    }
+
+    async deleteWebhookSubscription(rawInput: DeleteWebhookSubscriptionHttpInput): Promise<void> {
+        const { id } = this.requestHandler.handle(rawInput);
+
+        const deleted = await this.deleteWebhookSubscriptionUseCase.execute(id);
+
+        if (!deleted) {
+            throw new HTTPException(404, { message: `Webhook subscription ${id} not found` });
+        }
+    }
+}
@@ -0,0 +1,56 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+import { webhookSubscriptionFieldSchemas } from './webhook-subscription-request.schemas.js';
+
+const DEFAULT_DELIVERIES_SIZE = 20;
+const MAX_DELIVERIES_SIZE = 100;
+
+/**
+ * Raw HTTP input for GET /admin/webhooks/:id/deliveries
+ */
+export interface GetWebhookDeliveriesHttpInput {
+    id?: string;
+    limit?: string;
+}
+
+/**
+ * Schema for validating HTTP input for GET /admin/webhooks/:id/deliveries endpoint
+ */
+export const getWebhookDeliveriesInputSchema = z.object({
+    id: webhookSubscriptionFieldSchemas.id,
+    limit: z.coerce
+        .number()
+        .int()
+        .min(1)
+        .max(MAX_DELIVERIES_SIZE)
+        .optional()
+        .transform((val) => val ?? DEFAULT_DELIVERIES_SIZE),
+});
+
+export type GetWebhookDeliveriesHttpParams = z.infer<typeof getWebhookDeliveriesInputSchema>;
+
+/**
+ * Handles HTTP request validation for GET /admin/webhooks/:id/deliveries endpoint
+ */
+export class GetWebhookDeliveriesRequestHandler {
+    /**
+     * Validates the subscription id and the number of deliveries
+     *
+     * @param rawInput - Raw HTTP path and query parameters
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: GetWebhookDeliveriesHttpInput): GetWebhookDeliveriesHttpParams {
+        const validatedInput = getWebhookDeliveriesInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,56 @@
+import { z } from 'zod/v4';
+
+// Application
+import { type WebhookDeliveryRecord } from '../../../../application/ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+// Domain
+import { webhookEventTypeSchema } from '../../../../domain/entities/webhook-subscription.entity.js';
+
+export const getWebhookDeliveriesResponseSchema = z.object({
+    items: z.array(
+        z.object({
+            attemptCount: z.number().int(),
+            attempts: z.array(
+                z.object({
+                    attemptedAt: z.iso.datetime(),
+                    durationMs: z.number().int(),
+                    error: z.string().nullable(),
+                    statusCode: z.number().int().nullable(),
+                    succeeded: z.boolean(),
+                }),
+            ),
+            createdAt: z.iso.datetime(),
+            eventType: webhookEventTypeSchema,
+            id: z.uuid(),
+            nextAttemptAt: z.iso.datetime().nullable(),
+            status: z.enum(['FAILED', 'PENDING', 'SUCCEEDED']),
+        }),
+    ),
+});
+
+type GetWebhookDeliveriesResponse = z.infer<typeof getWebhookDeliveriesResponseSchema>;
+
+/**
+ * Handles response formatting for GET /admin/webhooks/:id/deliveries endpoint
+ */
+export class GetWebhookDeliveriesResponsePresenter {
+    present(deliveries: WebhookDeliveryRecord[]): GetWebhookDeliveriesResponse {
+        return {
+            items: deliveries.map((delivery) => ({
+                attemptCount: delivery.attemptCount,
+                attempts: delivery.attempts.map((attempt) => ({
+                    attemptedAt: attempt.attemptedAt.toISOString(),
+                    durationMs: Math.round(attempt.durationMs),
+                    error: attempt.error ?? null,
+                    statusCode: attempt.statusCode ?? null,
+                    succeeded: attempt.succeeded,
+                })),
+                createdAt: delivery.createdAt.toISOString(),
+                eventType: delivery.eventType,
+                id: delivery.id,
+                nextAttemptAt: delivery.nextAttemptAt?.toISOString() ?? null,
+                status: delivery.status,
+            })),
+        };
+    }
+}
@@ -0,0 +1,39 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type GetWebhookDeliveriesUseCase } from '../../../../application/use-cases/webhooks/get-webhook-deliveries.use-case.js';
+
+import {
+    type GetWebhookDeliveriesHttpInput,
+    GetWebhookDeliveriesRequestHandler,
+} from './get-webhook-deliveries-request.handler.js';
+import { GetWebhookDeliveriesResponsePresenter } from './get-webhook-deliveries-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the webhook deliveries endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class GetWebhookDeliveriesController {
+    private readonly requestHandler: GetWebhookDeliveriesRequestHandler;
+    private readonly responsePresenter: GetWebhookDeliveriesResponsePresenter;
+
+    constructor(private readonly getWebhookDeliveriesUseCase: GetWebhookDeliveriesUseCase) {
+        this.requestHandler = new GetWebhookDeliveriesRequestHandler();
+        this.responsePresenter = new GetWebhookDeliveriesResponsePresenter();
+    }
+
+    async getWebhookDeliveries(rawInput: GetWebhookDeliveriesHttpInput) {
+        const { id, limit } = this.requestHandler.handle(rawInput);
+
+        const deliveries = await this.getWebhookDeliveriesUseCase.execute({
+            limit,
+            subscriptionId: id,
+        });
+
+        if (!deliveries) {
+            throw new HTTPException(404, { message: `Webhook subscription ${id} not found` });
+        }
+
+        return this.responsePresenter.present(deliveries);
+    }
+}
@@ -0,0 +1,25 @@
+// Application
+import { type GetWebhookSubscriptionsUseCase } from '../../../../application/use-cases/webhooks/get-webhook-subscriptions.use-case.js';
+
+import { WebhookSubscriptionResponsePresenter } from './webhook-subscription-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the webhook subscription list endpoint
+ */
+export class GetWebhookSubscriptionsController {
+    private readonly responsePresenter: WebhookSubscriptionResponsePresenter;
+
+    constructor(private readonly getWebhookSubscriptionsUseCase: GetWebhookSubscriptionsUseCase) {
+        this.responsePresenter = new WebhookSubscriptionResponsePresenter();
+    }
+
+    async getWebhookSubscriptions() {
+        const subscriptions = await this.getWebhookSubscriptionsUseCase.execute();
+
+        return {
+            items: subscriptions.map((subscription) =>
+                this.responsePresenter.present(subscription),
+            ),
+        };
+    }
+}
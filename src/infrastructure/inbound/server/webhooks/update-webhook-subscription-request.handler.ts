@@ -0,0 +1,60 @@
+import { HTTPException } from 'hono/http-exception';
+import { z } from 'zod/v4';
+
+import { webhookSubscriptionFieldSchemas } from './webhook-subscription-request.schemas.js';
+
+/**
+ * Raw HTTP input for PATCH /admin/webhooks/:id
+ */
+export interface UpdateWebhookSubscriptionHttpInput {
+    body: unknown;
+    id?: string;
+}
+
+/**
+ * Schema for validating HTTP input for PATCH /admin/webhooks/:id endpoint
+ * Every body property is optional, but at least one must be given
+ */
+export const updateWebhookSubscriptionInputSchema = z.object({
+    body: z
+        .object({
+            countries: webhookSubscriptionFieldSchemas.countries.optional(),
+            enabled: z.boolean().optional(),
+            eventTypes: webhookSubscriptionFieldSchemas.eventTypes.optional(),
+            languages: webhookSubscriptionFieldSchemas.languages.optional(),
+            url: webhookSubscriptionFieldSchemas.url.optional(),
+        })
+        .refine((body) => Object.values(body).some((value) => value !== undefined), {
+            message: 'Nothing to update',
+        }),
+    id: webhookSubscriptionFieldSchemas.id,
+});
+
+export type UpdateWebhookSubscriptionHttpParams = z.infer<
+    typeof updateWebhookSubscriptionInputSchema
+>;
+
+/**
+ * Handles HTTP request validation for PATCH /admin/webhooks/:id endpoint
+ */
+export class UpdateWebhookSubscriptionRequestHandler {
+    /**
+     * Validates the subscription id and the properties to change
+     *
+     * @param rawInput - Raw HTTP path parameter and JSON body
+     * @returns Validated parameters
+     * @throws HTTPException with 422 status for validation errors
+     */
+    handle(rawInput: UpdateWebhookSubscriptionHttpInput): UpdateWebhookSubscriptionHttpParams {
+        const validatedInput = updateWebhookSubscriptionInputSchema.safeParse(rawInput);
+
+        if (!validatedInput.success) {
+            throw new HTTPException(422, {
+                cause: { details: validatedInput.error.issues },
+                message: 'Invalid request parameters',
+            });
+        }
+
+        return validatedInput.data;
+    }
+}
@@ -0,0 +1,38 @@
+import { HTTPException } from 'hono/http-exception';
+
+// Application
+import { type UpdateWebhookSubscriptionUseCase } from '../../../../application/use-cases/webhooks/update-webhook-subscription.use-case.js';
+
+import {
+    type UpdateWebhookSubscriptionHttpInput,
+    UpdateWebhookSubscriptionRequestHandler,
+} from './update-webhook-subscription-request.handler.js';
+import { WebhookSubscriptionResponsePresenter } from './webhook-subscription-response.presenter.js';
+
+/**
+ * Orchestrates HTTP request handling for the webhook subscription update endpoint
+ * Delegates request processing, use case execution, and response formatting
+ */
+export class UpdateWebhookSubscriptionController {
+    private readonly requestHandler: UpdateWebhookSubscriptionRequestHandler;
+    private readonly responsePresenter: WebhookSubscriptionResponsePresenter;
+
+    constructor(
+        private readonly updateWebhookSubscriptionUseCase: UpdateWebhookSubscriptionUseCase,
+    ) {
+        this.requestHandler = new UpdateWebhookSubscriptionRequestHandler();
+        this.responsePresenter = new WebhookSubscriptionResponsePresenter();
+    }
+
+    async updateWebhookSubscription(rawInput: UpdateWebhookSubscriptionHttpInput) {
+        const { body, id } = this.requestHandler.handle(rawInput);
+
+        const subscription = await this.updateWebhookSubscriptionUseCase.execute({ ...body, id });
+
+        if (!subscription) {
+            throw new HTTPException(404, { message: `Webhook subscription ${id} not found` });
+        }
+
+        return this.responsePresenter.present(subscription);
+    }
+}
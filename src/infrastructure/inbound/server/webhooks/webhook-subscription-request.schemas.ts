@@ -0,0 +1,27 @@
+import { z } from 'zod/v4';
+
+// Domain
+import { webhookEventTypeSchema } from '../../../../domain/entities/webhook-subscription.entity.js';
+import { countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * Request fields shared by the webhook subscription endpoints
+ */
+export const webhookSubscriptionFieldSchemas = {
+    countries: z.array(
+        z
+            .string()
+            .transform((val) => val.toUpperCase())
+            .pipe(countrySchema),
+    ),
+    eventTypes: z.array(webhookEventTypeSchema).min(1),
+    id: z.uuid({ message: 'Subscription id must be a UUID' }),
+    languages: z.array(
+        z
+            .string()
+            .transform((val) => val.toUpperCase())
+            .pipe(languageSchema),
+    ),
+    url: z.url({ message: 'Expected an http(s) URL', protocol: /^https?$/ }),
+};
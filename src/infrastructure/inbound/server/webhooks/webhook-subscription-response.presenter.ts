@@ -0,0 +1,50 @@
+import { z } from 'zod/v4';
+
+// Domain
+import {
+    webhookEventTypeSchema,
+    type WebhookSubscription,
+} from '../../../../domain/entities/webhook-subscription.entity.js';
+import { countrySchema } from '../../../../domain/value-objects/country.vo.js';
+import { languageSchema } from '../../../../domain/value-objects/language.vo.js';
+
+/**
+ * HTTP representation of a webhook subscription, also used to document the API
+ */
+export const webhookSubscriptionResponseSchema = z.object({
+    consecutiveFailures: z.number().int(),
+    countries: z.array(z.enum(countrySchema.options)),
+    createdAt: z.iso.datetime(),
+    enabled: z.boolean(),
+    eventTypes: z.array(webhookEventTypeSchema),
+    id: z.uuid(),
+    languages: z.array(z.enum(languageSchema.options)),
+    /** Only returned when the subscription is created */
+    secret: z.string().optional(),
+    url: z.string(),
+});
+
+export type WebhookSubscriptionResponse = z.infer<typeof webhookSubscriptionResponseSchema>;
+
+/**
+ * Maps a webhook subscription to its HTTP representation
+ * Shared by every webhook endpoint so the response shape stays identical
+ */
+export class WebhookSubscriptionResponsePresenter {
+    present(
+        subscription: WebhookSubscription,
+        options: { includeSecret?: boolean } = {},
+    ): WebhookSubscriptionResponse {
+        return {
+            consecutiveFailures: subscription.consecutiveFailures,
+            countries: subscription.countries,
+            createdAt: subscription.createdAt.toISOString(),
+            enabled: subscription.enabled,
+            eventTypes: subscription.eventTypes,
+            id: subscription.id,
+            languages: subscription.languages,
+            ...(options.includeSecret && { secret: subscription.secret }),
+            url: subscription.url,
+        };
+    }
+}
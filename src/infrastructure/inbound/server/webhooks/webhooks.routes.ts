@@ -0,0 +1,68 @@
+import { Hono } from 'hono';
+
+import { type CreateWebhookSubscriptionController } from './create-webhook-subscription.controller.js';
+import { type DeleteWebhookSubscriptionController } from './delete-webhook-subscription.controller.js';
+import { type GetWebhookDeliveriesController } from './get-webhook-deliveries.controller.js';
+import { type GetWebhookSubscriptionsController } from './get-webhook-subscriptions.controller.js';
+import { type UpdateWebhookSubscriptionController } from './update-webhook-subscription.controller.js';
+
+/**
+ * Controllers backing the /admin/webhooks routes
+ */
+export interface WebhooksControllers {
+    createWebhookSubscription: CreateWebhookSubscriptionController;
+    deleteWebhookSubscription: DeleteWebhookSubscriptionController;
+    getWebhookDeliveries: GetWebhookDeliveriesController;
+    getWebhookSubscriptions: GetWebhookSubscriptionsController;
+    updateWebhookSubscription: UpdateWebhookSubscriptionController;
+}
+
+export const createWebhooksRouter = (controllers: WebhooksControllers) => {
+    const app = new Hono();
+
+    app.get('/', async (c) => {
+        const response = await controllers.getWebhookSubscriptions.getWebhookSubscriptions();
+
+        return c.json(response);
+    });
+
+    app.post('/', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.createWebhookSubscription.createWebhookSubscription({
+            body,
+        });
+
+        return c.json(response, 201);
+    });
+
+    app.patch('/:id', async (c) => {
+        const body = await c.req.json().catch(() => undefined);
+
+        const response = await controllers.updateWebhookSubscription.updateWebhookSubscription({
+            body,
+            id: c.req.param('id'),
+        });
+
+        return c.json(response);
+    });
+
+    app.delete('/:id', async (c) => {
+        await controllers.deleteWebhookSubscription.deleteWebhookSubscription({
+            id: c.req.param('id'),
+        });
+
+        return c.body(null, 204);
+    });
+
+    app.get('/:id/deliveries', async (c) => {
+        const response = await controllers.getWebhookDeliveries.getWebhookDeliveries({
+            id: c.req.param('id'),
+            limit: c.req.query('limit'),
+        });
+
+        return c.json(response);
+    });
+
+    return app;
+};
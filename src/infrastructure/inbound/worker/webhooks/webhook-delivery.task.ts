@@ -0,0 +1,67 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Application
+import { type TaskPort } from '../../../../application/ports/inbound/worker.port.js';
+import {
+    type DomainEvent,
+    type EventBusPort,
+} from '../../../../application/ports/outbound/events/event-bus.port.js';
+import { type DeliverWebhooksUseCase } from '../../../../application/use-cases/webhooks/deliver-webhooks.use-case.js';
+import { type EnqueueWebhookDeliveriesUseCase } from '../../../../application/use-cases/webhooks/enqueue-webhook-deliveries.use-case.js';
+
+/**
+ * Webhook worker: queues a delivery per subscription as soon as an event is raised and sends it
+ * right away. The schedule then retries failed deliveries once their backoff has elapsed.
+ */
+export class WebhookDeliveryTask implements TaskPort {
+    public readonly executeOnStartup = true; // Resume deliveries left pending by a restart
+    public readonly name = 'webhook-delivery';
+    public readonly schedule = '* * * * *'; // Every minute
+
+    private rerunRequested = false;
+    private running: null | Promise<void> = null;
+
+    constructor(
+        private readonly enqueueWebhookDeliveries: EnqueueWebhookDeliveriesUseCase,
+        private readonly deliverWebhooks: DeliverWebhooksUseCase,
+        eventBus: EventBusPort,
+        private readonly logger: LoggerPort,
+    ) {
+        eventBus.subscribe('articles.published', (event) => void this.handle(event));
+        eventBus.subscribe('quizzes.generated', (event) => void this.handle(event));
+    }
+
+    /**
+     * Runs never overlap, so a delivery cannot be sent twice; a request arriving
+     * during a run schedules one more run right after it
+     */
+    async execute(): Promise<void> {
+        if (this.running) {
+            this.rerunRequested = true;
+            return this.running;
+        }
+
+        this.running = (async () => {
+            do {
+                this.rerunRequested = false;
+                await this.deliverWebhooks.execute();
+            } while (this.rerunRequested);
+        })().finally(() => {
+            this.running = null;
+        });
+
+        return this.running;
+    }
+
+    private async handle(event: DomainEvent): Promise<void> {
+        try {
+            const queued = await this.enqueueWebhookDeliveries.execute(event);
+
+            if (queued > 0) {
+                await this.execute();
+            }
+        } catch (error) {
+            this.logger.error('Webhook delivery of event failed', { error, type: event.type });
+        }
+    }
+}
@@ -0,0 +1,56 @@
+import { describe, expect, test } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+// Shared
+import { type TelemetryPort } from '../../../../shared/telemetry/index.js';
+
+import { MeteredAgent } from '../metered.agent.js';
+
+describe('MeteredAgent', () => {
+    const createAgent = (run: (input: string) => Promise<null | string>) => ({
+        name: 'TestAgent',
+        run,
+    });
+
+    test('should count a call that answered', async () => {
+        // Given
+        const telemetry = mock<TelemetryPort>();
+        const agent = new MeteredAgent(
+            createAgent(async (input) => input.toUpperCase()),
+            telemetry,
+        );
+
+        // When
+        const result = await agent.run('report');
+
+        // Then
+        expect(result).toBe('REPORT');
+        expect(telemetry.counter).toHaveBeenCalledTimes(1);
+        expect(telemetry.counter).toHaveBeenCalledWith('agent.calls', 1, { agent: 'TestAgent' });
+    });
+
+    test('should count a failure when the agent answers null or throws', async () => {
+        // Given
+        const telemetry = mock<TelemetryPort>();
+        const failing = new MeteredAgent(
+            createAgent(async () => null),
+            telemetry,
+        );
+        const throwing = new MeteredAgent(
+            createAgent(async () => {
+                throw new Error('Model unavailable');
+            }),
+            telemetry,
+        );
+
+        // When
+        await failing.run('report');
+        await expect(throwing.run('report')).rejects.toThrow('Model unavailable');
+
+        // Then
+        expect(telemetry.counter.mock.calls.filter(([name]) => name === 'agent.failures')).toEqual([
+            ['agent.failures', 1, { agent: 'TestAgent' }],
+            ['agent.failures', 1, { agent: 'TestAgent' }],
+        ]);
+    });
+});
@@ -0,0 +1,120 @@
+import { createSchemaPrompt, parseObject } from '@jterrazz/intelligence';
+import { type LoggerPort } from '@jterrazz/logger';
+import type { LanguageModel } from 'ai';
+import { generateText } from 'ai';
+import { z } from 'zod/v4';
+
+// Application
+import {
+    type ArticleInsightGenerationAgentPort,
+    type ArticleInsightGenerationInput,
+    type ArticleInsightGenerationResult,
+} from '../../../application/ports/outbound/agents/article-insight-generation.agent.js';
+
+// Domain
+import {
+    articleInsightDurationSchema,
+    articleInsightKindSchema,
+} from '../../../domain/value-objects/article-insight/article-insight.vo.js';
+
+export class ArticleInsightGenerationAgent implements ArticleInsightGenerationAgentPort {
+    static readonly SCHEMA = z.object({
+        insights: z.array(
+            z.object({
+                analysis: z.string(),
+                duration: articleInsightDurationSchema,
+                kind: articleInsightKindSchema,
+            }),
+        ),
+    });
+
+    public readonly name = 'ArticleInsightGenerationAgent';
+
+    constructor(
+        private readonly model: LanguageModel,
+        private readonly logger: LoggerPort,
+    ) {}
+
+    static readonly USER_PROMPT = (input: ArticleInsightGenerationInput): string => {
+        const essentialAlert = input.traits.essential
+            ? [
+                  '**ESSENTIAL CONTENT ALERT**: This article is marked as "essential" - it reveals important patterns, systems, or implications. Your analyses MUST explain those patterns and where they lead.',
+                  '',
+              ]
+            : [];
+
+        return [
+            // Core Mission
+            'Explain to readers why this news matters and what to watch next.',
+            '',
+            `Write your analyses in ${input.targetLanguage.toString().toUpperCase()}, as short paragraphs of 2-4 sentences. Readers already know the facts of the article: add context and consequences instead of repeating them.`,
+            '',
+            ...essentialAlert,
+
+            // Perspectives
+            '=== PERSPECTIVES ===',
+            '',
+            '• **WHY_IT_MATTERS** - who is affected and how, what changes compared to before, why it is bigger (or smaller) than it looks',
+            '• **WHAT_TO_WATCH** - the next decisions, dates, or signals that will show how the story unfolds',
+            '',
+            'Write exactly one analysis per perspective. Skip a perspective rather than speculate when the article gives nothing to build on.',
+            '',
+
+            // Key Rules
+            '=== ESSENTIAL RULES ===',
+            '',
+            '• **Stay factual** - rely on the article and well-established knowledge only; never invent figures, quotes, or events',
+            '• **Stay neutral** - describe stakes and scenarios without taking sides or predicting outcomes as certain',
+            '• **Respect sensitive topics** - keep a sober tone for deaths, tragedies, and disasters',
+            '',
+
+            // Duration
+            '=== DURATION ===',
+            '',
+            'Set `duration` to how long the analysis stays relevant, as an ISO 8601 duration:',
+            '• `P1W` - a week, for fast-moving events',
+            '• `P1M` - a month, for developments expected in the coming weeks',
+            '• `P1Y` - a year, for structural shifts',
+            '',
+
+            // Content to Process
+            '=== ARTICLE TO ANALYZE ===',
+            '',
+            input.articleContent,
+        ].join('\n');
+    };
+
+    public async run(
+        input: ArticleInsightGenerationInput,
+    ): Promise<ArticleInsightGenerationResult | null> {
+        try {
+            const { text } = await generateText({
+                model: this.model,
+                prompt: ArticleInsightGenerationAgent.USER_PROMPT(input),
+                system: createSchemaPrompt(ArticleInsightGenerationAgent.SCHEMA),
+            });
+
+            const result = parseObject(text, ArticleInsightGenerationAgent.SCHEMA);
+
+            // Keep a single analysis per perspective
+            const insights = articleInsightKindSchema.options.flatMap((kind) =>
+                result.insights.filter((insight) => insight.kind === kind).slice(0, 1),
+            );
+
+            if (insights.length === 0) {
+                this.logger.warn('No article insights generated', {
+                    agent: 'ArticleInsightGenerationAgent',
+                });
+                return null;
+            }
+
+            return { insights };
+        } catch (error) {
+            this.logger.error('Insight generation error', {
+                agent: 'ArticleInsightGenerationAgent',
+                error,
+            });
+            return null;
+        }
+    }
+}
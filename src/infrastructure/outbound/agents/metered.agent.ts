@@ -0,0 +1,40 @@
+// Shared
+import { type TelemetryPort } from '../../../shared/telemetry/index.js';
+
+/**
+ * Agents answer null when the model call or the parsing of its answer fails
+ */
+interface Agent<TInput, TResult> {
+    readonly name: string;
+    run(input: TInput): Promise<null | TResult>;
+}
+
+/**
+ * Counts the calls of an agent (`agent.calls`) and its failures (`agent.failures`), by agent name
+ */
+export class MeteredAgent<TInput, TResult> implements Agent<TInput, TResult> {
+    public readonly name: string;
+
+    constructor(
+        private readonly agent: Agent<TInput, TResult>,
+        private readonly telemetry: TelemetryPort,
+    ) {
+        this.name = agent.name;
+    }
+
+    async run(input: TInput): Promise<null | TResult> {
+        const attributes = { agent: this.name };
+        this.telemetry.counter('agent.calls', 1, attributes);
+
+        try {
+            const result = await this.agent.run(input);
+            if (result === null) {
+                this.telemetry.counter('agent.failures', 1, attributes);
+            }
+            return result;
+        } catch (error) {
+            this.telemetry.counter('agent.failures', 1, attributes);
+            throw error;
+        }
+    }
+}
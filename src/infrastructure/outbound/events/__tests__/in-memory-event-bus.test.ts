@@ -0,0 +1,48 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { describe, expect, test, vi } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+// Domain
+import { ArticlesPublishedEvent } from '../../../../domain/events/articles-published.event.js';
+
+import { InMemoryEventBus } from '../in-memory-event-bus.js';
+
+describe('InMemoryEventBus', () => {
+    test('should deliver events to subscribers until they unsubscribe', () => {
+        // Given
+        const bus = new InMemoryEventBus(mock<LoggerPort>());
+        const handler = vi.fn();
+        const unsubscribe = bus.subscribe('articles.published', handler);
+        const event = new ArticlesPublishedEvent([]);
+
+        // When
+        bus.publish(event);
+        unsubscribe();
+        bus.publish(new ArticlesPublishedEvent([]));
+
+        // Then
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(handler).toHaveBeenCalledWith(event);
+    });
+
+    test('should keep delivering when a subscriber throws', () => {
+        // Given
+        const logger = mock<LoggerPort>();
+        const bus = new InMemoryEventBus(logger);
+        const handler = vi.fn();
+        bus.subscribe('articles.published', () => {
+            throw new Error('Subscriber failure');
+        });
+        bus.subscribe('articles.published', handler);
+
+        // When
+        bus.publish(new ArticlesPublishedEvent([]));
+
+        // Then
+        expect(handler).toHaveBeenCalledTimes(1);
+        expect(logger.warn).toHaveBeenCalledWith('Event subscriber failed', {
+            error: expect.any(Error),
+            type: 'articles.published',
+        });
+    });
+});
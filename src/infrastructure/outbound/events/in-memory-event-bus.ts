@@ -0,0 +1,41 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+// Application
+import {
+    type DomainEvent,
+    type DomainEventHandler,
+    type DomainEventType,
+    type EventBusPort,
+} from '../../../application/ports/outbound/events/event-bus.port.js';
+
+/**
+ * Synchronous in-process event bus.
+ * Subscribers only see events published by this process, and only while they are subscribed.
+ */
+export class InMemoryEventBus implements EventBusPort {
+    private readonly handlers = new Map<DomainEventType, Set<(event: DomainEvent) => void>>();
+
+    constructor(private readonly logger: LoggerPort) {}
+
+    publish(event: DomainEvent): void {
+        for (const handler of [...(this.handlers.get(event.type) ?? [])]) {
+            try {
+                handler(event);
+            } catch (error) {
+                this.logger.warn('Event subscriber failed', { error, type: event.type });
+            }
+        }
+    }
+
+    subscribe<T extends DomainEventType>(type: T, handler: DomainEventHandler<T>): () => void {
+        const handlers = this.handlers.get(type) ?? new Set();
+        const registered = handler as (event: DomainEvent) => void;
+
+        handlers.add(registered);
+        this.handlers.set(type, handlers);
+
+        return () => {
+            handlers.delete(registered);
+        };
+    }
+}
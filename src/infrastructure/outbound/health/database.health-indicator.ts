@@ -0,0 +1,30 @@
+// Application
+import {
+    type HealthCheckResult,
+    type HealthIndicatorPort,
+} from '../../../application/ports/outbound/health/health-indicator.port.js';
+import { type DatabasePort } from '../../../application/ports/outbound/persistence/database.port.js';
+
+/**
+ * Checks the database answers queries; every route but the health checks needs it
+ */
+export class DatabaseHealthIndicator implements HealthIndicatorPort {
+    public readonly critical = true;
+    public readonly name = 'database';
+
+    constructor(private readonly database: DatabasePort) {}
+
+    async check(): Promise<HealthCheckResult> {
+        const start = Date.now();
+
+        try {
+            await this.database.ping();
+            return { details: { latencyMs: Date.now() - start }, status: 'pass' };
+        } catch (error) {
+            return {
+                details: { error: error instanceof Error ? error.message : String(error) },
+                status: 'fail',
+            };
+        }
+    }
+}
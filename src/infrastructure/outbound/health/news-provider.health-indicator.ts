@@ -0,0 +1,32 @@
+// Application
+import {
+    type HealthCheckResult,
+    type HealthIndicatorPort,
+} from '../../../application/ports/outbound/health/health-indicator.port.js';
+import { type NewsProviderPort } from '../../../application/ports/outbound/providers/news.port.js';
+
+/**
+ * Reports the outcome of the latest requests to the news provider, without calling it:
+ * requests are metered, and the pipeline makes them anyway
+ */
+export class NewsProviderHealthIndicator implements HealthIndicatorPort {
+    public readonly critical = false;
+    public readonly name = 'newsProvider';
+
+    constructor(private readonly newsProvider: NewsProviderPort) {}
+
+    async check(): Promise<HealthCheckResult> {
+        const { lastFailure, lastSuccessAt } = this.newsProvider.getStatus();
+        const failing =
+            lastFailure !== null && (lastSuccessAt === null || lastFailure.at > lastSuccessAt);
+
+        return {
+            details: {
+                lastError: lastFailure?.error ?? null,
+                lastFailureAt: lastFailure?.at.toISOString() ?? null,
+                lastSuccessAt: lastSuccessAt?.toISOString() ?? null,
+            },
+            status: failing ? 'fail' : 'pass',
+        };
+    }
+}
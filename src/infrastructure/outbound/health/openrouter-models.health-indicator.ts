@@ -0,0 +1,72 @@
+import { z } from 'zod/v4';
+
+// Application
+import {
+    type HealthCheckResult,
+    type HealthIndicatorPort,
+} from '../../../application/ports/outbound/health/health-indicator.port.js';
+
+// Constants
+const MODELS_URL = 'https://openrouter.ai/api/v1/models';
+const CACHE_TTL = 10 * 60 * 1000; // 10 minutes in milliseconds
+const REQUEST_TIMEOUT = 5000;
+
+// Schemas
+const modelsResponseSchema = z.object({
+    data: z.array(z.object({ id: z.string() })),
+});
+
+/**
+ * Checks the models configured for the agents are still offered by OpenRouter.
+ * The catalogue is public and cached, so readiness probes do not hammer it.
+ */
+export class OpenRouterModelsHealthIndicator implements HealthIndicatorPort {
+    public readonly critical = false;
+    public readonly name = 'models';
+
+    private catalogue: null | { fetchedAt: number; ids: Set<string> } = null;
+
+    /**
+     * @param models - Configured model per agent, e.g. `{ reportIngestion: 'google/gemini-2.5-flash' }`
+     */
+    constructor(private readonly models: Record<string, string>) {}
+
+    async check(): Promise<HealthCheckResult> {
+        let ids: Set<string>;
+
+        try {
+            ids = await this.getCatalogue();
+        } catch (error) {
+            return {
+                details: { error: error instanceof Error ? error.message : String(error) },
+                status: 'fail',
+            };
+        }
+
+        const unavailable = Object.entries(this.models)
+            .filter(([, model]) => !ids.has(model))
+            .map(([agent, model]) => ({ agent, model }));
+
+        return {
+            details: { models: [...new Set(Object.values(this.models))], unavailable },
+            status: unavailable.length > 0 ? 'fail' : 'pass',
+        };
+    }
+
+    private async getCatalogue(): Promise<Set<string>> {
+        if (this.catalogue && Date.now() - this.catalogue.fetchedAt < CACHE_TTL) {
+            return this.catalogue.ids;
+        }
+
+        const response = await fetch(MODELS_URL, { signal: AbortSignal.timeout(REQUEST_TIMEOUT) });
+
+        if (!response.ok) {
+            throw new Error(`Model catalogue request failed: ${response.status}`);
+        }
+
+        const { data } = modelsResponseSchema.parse(await response.json());
+        this.catalogue = { fetchedAt: Date.now(), ids: new Set(data.map((model) => model.id)) };
+
+        return this.catalogue.ids;
+    }
+}
@@ -0,0 +1,30 @@
+// Domain
+import { ApiKey, type ApiKeyScope } from '../../../../domain/entities/api-key.entity.js';
+
+import { type ApiKey as PrismaApiKey, type Prisma } from '../../../../generated/prisma/client.js';
+
+export class ApiKeyMapper {
+    toDomain(prisma: PrismaApiKey): ApiKey {
+        return new ApiKey({
+            createdAt: prisma.createdAt,
+            id: prisma.id,
+            keyHash: prisma.keyHash,
+            label: prisma.label,
+            prefix: prisma.prefix,
+            revokedAt: prisma.revokedAt ?? undefined,
+            scopes: prisma.scopes as ApiKeyScope[],
+        });
+    }
+
+    toPrisma(apiKey: ApiKey): Prisma.ApiKeyCreateInput {
+        return {
+            createdAt: apiKey.createdAt,
+            id: apiKey.id,
+            keyHash: apiKey.keyHash,
+            label: apiKey.label,
+            prefix: apiKey.prefix,
+            revokedAt: apiKey.revokedAt ?? null,
+            scopes: apiKey.scopes,
+        };
+    }
+}
@@ -0,0 +1,66 @@
+// Application
+import { type ApiKeyRepositoryPort } from '../../../../application/ports/outbound/persistence/api-key/api-key-repository.port.js';
+
+// Domain
+import { type ApiKey } from '../../../../domain/entities/api-key.entity.js';
+
+import { type PrismaDatabase } from '../prisma.database.js';
+
+import { ApiKeyMapper } from './prisma-api-key.mapper.js';
+
+export class PrismaApiKeyRepository implements ApiKeyRepositoryPort {
+    private readonly mapper: ApiKeyMapper;
+
+    constructor(private readonly prisma: PrismaDatabase) {
+        this.mapper = new ApiKeyMapper();
+    }
+
+    async create(apiKey: ApiKey): Promise<ApiKey> {
+        const created = await this.prisma.getPrismaClient().apiKey.create({
+            data: this.mapper.toPrisma(apiKey),
+        });
+
+        return this.mapper.toDomain(created);
+    }
+
+    async findAll(): Promise<ApiKey[]> {
+        const apiKeys = await this.prisma.getPrismaClient().apiKey.findMany({
+            orderBy: { createdAt: 'asc' },
+        });
+
+        return apiKeys.map((apiKey) => this.mapper.toDomain(apiKey));
+    }
+
+    async findByHash(keyHash: string): Promise<null | ApiKey> {
+        const apiKey = await this.prisma.getPrismaClient().apiKey.findUnique({
+            where: { keyHash },
+        });
+
+        return apiKey ? this.mapper.toDomain(apiKey) : null;
+    }
+
+    async findById(id: string): Promise<null | ApiKey> {
+        const apiKey = await this.prisma.getPrismaClient().apiKey.findUnique({
+            where: { id },
+        });
+
+        return apiKey ? this.mapper.toDomain(apiKey) : null;
+    }
+
+    async findByLabel(label: string): Promise<null | ApiKey> {
+        const apiKey = await this.prisma.getPrismaClient().apiKey.findUnique({
+            where: { label },
+        });
+
+        return apiKey ? this.mapper.toDomain(apiKey) : null;
+    }
+
+    async revoke(id: string, revokedAt: Date): Promise<ApiKey> {
+        const apiKey = await this.prisma.getPrismaClient().apiKey.update({
+            data: { revokedAt },
+            where: { id },
+        });
+
+        return this.mapper.toDomain(apiKey);
+    }
+}
@@ -0,0 +1,146 @@
+// Application
+import type {
+    ArticleSearchCursor,
+    CountSearchOptions,
+} from '../../../../application/ports/outbound/persistence/article/article-repository.port.js';
+
+// Domain
+import { AnnotatedText } from '../../../../domain/value-objects/article/annotated-text.vo.js';
+
+import { Prisma } from '../../../../generated/prisma/client.js';
+import type { PrismaDatabase } from '../prisma.database.js';
+
+const SEARCH_TABLE = Prisma.raw('"ArticleSearch"');
+
+/** Column weights for bm25: headline matches count more than body, body more than frames */
+const RANK_EXPRESSION = Prisma.raw('bm25("ArticleSearch", 0.0, 10.0, 1.0, 0.5)');
+
+const SNIPPET_EXPRESSION = Prisma.raw(`snippet("ArticleSearch", -1, '<mark>', '</mark>', '…', 16)`);
+
+/**
+ * Same visibility rule as the list endpoint: hide retracted articles,
+ * and articles whose reports are all OFF_TOPIC
+ */
+const NOT_ARCHIVED_CONDITION = Prisma.sql`a."retractedAt" IS NULL AND (
+    NOT EXISTS (SELECT 1 FROM "_ReportArticles" ra WHERE ra."A" = a."id")
+    OR EXISTS (
+        SELECT 1 FROM "_ReportArticles" ra JOIN "Report" r ON r."id" = ra."B"
+        WHERE ra."A" = a."id" AND r."tier" <> 'OFF_TOPIC'
+    )
+)`;
+
+export interface SearchIndexRow {
+    articleId: string;
+    rank: number;
+    snippet: string;
+}
+
+/**
+ * SQLite FTS5 index over article headline, body and frame text.
+ * The virtual table is not part of the Prisma schema: its migration creates and backfills it.
+ */
+export class ArticleSearchIndex {
+    constructor(private readonly prisma: PrismaDatabase) {}
+
+    /**
+     * Turn free user input into an FTS5 query: every word must match, as a prefix.
+     * Quoting each term neutralises FTS5 operators and syntax errors.
+     */
+    static toMatchExpression(query: string): null | string {
+        const terms = query.match(/[\p{L}\p{N}]+/gu) ?? [];
+
+        if (terms.length === 0) {
+            return null;
+        }
+
+        return terms.map((term) => `"${term}"*`).join(' ');
+    }
+
+    async count(options: CountSearchOptions): Promise<number> {
+        const match = ArticleSearchIndex.toMatchExpression(options.query);
+        if (!match) return 0;
+
+        const [{ total }] = await this.prisma.getPrismaClient().$queryRaw<[{ total: bigint }]>`
+            SELECT COUNT(*) AS total
+            FROM ${SEARCH_TABLE} s JOIN "Article" a ON a."id" = s."articleId"
+            WHERE ${this.whereClause(match, options)}
+        `;
+
+        return Number(total);
+    }
+
+    /**
+     * Re-index the stored text of the given articles, reading through the caller's transaction
+     */
+    async index(
+        articleIds: string[],
+        client: Prisma.TransactionClient = this.prisma.getPrismaClient(),
+    ): Promise<void> {
+        const articles = await client.article.findMany({
+            select: {
+                body: true,
+                frames: { select: { body: true, headline: true } },
+                headline: true,
+                id: true,
+            },
+            where: { id: { in: articleIds } },
+        });
+
+        for (const article of articles) {
+            await client.$executeRaw`DELETE FROM ${SEARCH_TABLE} WHERE "articleId" = ${article.id}`;
+            await client.$executeRaw`
+                INSERT INTO ${SEARCH_TABLE} ("articleId", "headline", "body", "frames")
+                VALUES (
+                    ${article.id},
+                    ${article.headline},
+                    ${toSearchableText(article.body)},
+                    ${article.frames.map((frame) => `${frame.headline}\n${frame.body}`).join('\n')}
+                )
+            `;
+        }
+    }
+
+    async search(
+        options: CountSearchOptions & { cursor?: ArticleSearchCursor; limit: number },
+    ): Promise<SearchIndexRow[]> {
+        const match = ArticleSearchIndex.toMatchExpression(options.query);
+        if (!match) return [];
+
+        const cursorCondition = options.cursor
+            ? Prisma.sql`AND (
+                ${RANK_EXPRESSION} > ${options.cursor.rank}
+                OR (${RANK_EXPRESSION} = ${options.cursor.rank} AND s."articleId" > ${options.cursor.id})
+            )`
+            : Prisma.empty;
+
+        return this.prisma.getPrismaClient().$queryRaw<SearchIndexRow[]>`
+            SELECT s."articleId" AS "articleId", ${RANK_EXPRESSION} AS "rank", ${SNIPPET_EXPRESSION} AS "snippet"
+            FROM ${SEARCH_TABLE} s JOIN "Article" a ON a."id" = s."articleId"
+            WHERE ${this.whereClause(match, options)} ${cursorCondition}
+            ORDER BY "rank" ASC, s."articleId" ASC
+            LIMIT ${options.limit}
+        `;
+    }
+
+    private whereClause(match: string, options: CountSearchOptions): Prisma.Sql {
+        const conditions = [Prisma.sql`${SEARCH_TABLE} MATCH ${match}`, NOT_ARCHIVED_CONDITION];
+
+        if (options.country) {
+            conditions.push(Prisma.sql`a."country" = ${options.country.toString()}`);
+        }
+
+        if (options.language) {
+            conditions.push(Prisma.sql`a."language" = ${options.language.toString()}`);
+        }
+
+        return Prisma.join(conditions, ' AND ');
+    }
+}
+
+/**
+ * Index the plain text served to clients, so explanations of fabricated articles
+ * cannot be found, or leaked through snippets
+ */
+function toSearchableText(body: string): string {
+    return AnnotatedText.tolerant(body).text;
+}
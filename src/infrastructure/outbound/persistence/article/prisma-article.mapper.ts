@@ -1,6 +1,16 @@
+// Application
+import type {
+    ArticleTrait,
+    FilterMatch,
+} from '../../../../application/ports/outbound/persistence/article/article-repository.port.js';
+
 // Domain
 import { Article } from '../../../../domain/entities/article.entity.js';
 import { ArticleFrame } from '../../../../domain/value-objects/article-frame/article-frame.vo.js';
+import {
+    ArticleInsight,
+    type ArticleInsightDuration,
+} from '../../../../domain/value-objects/article-insight/article-insight.vo.js';
 import { ArticleQuizQuestion } from '../../../../domain/value-objects/article-quiz-question.vo.js';
 import { ArticleQuizQuestions } from '../../../../domain/value-objects/article-quiz-questions.vo.js';
 import { ArticleTraits } from '../../../../domain/value-objects/article-traits.vo.js';
@@ -20,6 +30,7 @@ import {
     type Prisma,
     type Article as PrismaArticle,
     type ArticleFrame as PrismaArticleFrame,
+    type ArticleInsight as PrismaArticleInsight,
     type ArticleQuiz as PrismaArticleQuiz,
     type Country as PrismaCountry,
     type Language as PrismaLanguage,
@@ -29,7 +40,19 @@ export class ArticleMapper {
     /**
      * Creates a Prisma where condition for category filtering using join table
      */
-    createCategoryFilter(category?: Category, categories?: Categories): object | undefined {
+    createCategoryFilter(
+        category?: Category,
+        categories?: Categories,
+        match: FilterMatch = 'any',
+    ): object | undefined {
+        if (categories && categories.toArray().length > 0 && match === 'all') {
+            return {
+                AND: categories.toArray().map((value) => ({
+                    categories: { some: { category: value } },
+                })),
+            };
+        }
+
         if (categories && categories.toArray().length > 0) {
             return {
                 categories: {
@@ -53,6 +76,24 @@ export class ArticleMapper {
         return undefined;
     }
 
+    /**
+     * Creates a Prisma where condition requiring any (OR) or all (AND) of the given traits
+     */
+    createTraitsFilter(
+        traits?: ArticleTrait[],
+        match: FilterMatch = 'any',
+    ): Prisma.ArticleWhereInput | undefined {
+        if (!traits || traits.length === 0) {
+            return undefined;
+        }
+
+        const conditions: Prisma.ArticleWhereInput[] = traits.map((trait) =>
+            trait === 'essential' ? { traitsEssential: true } : { traitsPositive: true },
+        );
+
+        return match === 'all' ? { AND: conditions } : { OR: conditions };
+    }
+
     mapCountryToPrisma(country: Country): PrismaCountry {
         return country.toString();
     }
@@ -64,6 +105,7 @@ export class ArticleMapper {
     toDomain(
         prisma: PrismaArticle & {
             frames?: PrismaArticleFrame[];
+            insights?: PrismaArticleInsight[];
             quizQuestions?: PrismaArticleQuiz[];
             reports?: { tier: null | string; id: string }[];
         },
@@ -76,6 +118,16 @@ export class ArticleMapper {
                 }),
         );
 
+        const insights = prisma.insights?.map(
+            (insight) =>
+                new ArticleInsight({
+                    analysis: insight.analysis,
+                    duration: insight.duration as ArticleInsightDuration,
+                    kind: insight.kind,
+                    publishedAt: insight.publishedAt,
+                }),
+        );
+
         const quizQuestions = prisma.quizQuestions?.length
             ? new ArticleQuizQuestions(
                   prisma.quizQuestions.map(
@@ -114,10 +166,12 @@ export class ArticleMapper {
             frames,
             headline: new Headline(prisma.headline),
             id: prisma.id,
+            insights,
             language: new Language(prisma.language),
             publishedAt: prisma.publishedAt,
             quizQuestions,
             reportIds: prisma.reports?.map((report) => report.id),
+            retractedAt: prisma.retractedAt ?? undefined,
             traits: new ArticleTraits({
                 essential:
                     (prisma as unknown as { traitsEssential?: boolean }).traitsEssential ?? false,
@@ -146,6 +200,16 @@ export class ArticleMapper {
                 : undefined,
             headline: domain.headline.value,
             id: domain.id,
+            insights: domain.insights
+                ? {
+                      create: domain.insights.map((insight) => ({
+                          analysis: insight.analysis,
+                          duration: insight.duration,
+                          kind: insight.kind,
+                          publishedAt: insight.publishedAt,
+                      })),
+                  }
+                : undefined,
             language: this.mapLanguageToPrisma(domain.language),
             publishedAt: domain.publishedAt,
             quizQuestions:
@@ -163,6 +227,7 @@ export class ArticleMapper {
                       connect: domain.reportIds.map((id) => ({ id })),
                   }
                 : undefined,
+            retractedAt: domain.retractedAt ?? null,
             // Removed JSON traits - using typed columns only
             traitsEssential: domain.traits.essential,
             traitsPositive: domain.traits.positive,
@@ -1,53 +1,88 @@
 // Application
+import type { CacheInvalidationPort } from '../../../../application/ports/outbound/cache/cache-invalidation.port.js';
 import type {
     ArticleRepositoryPort,
+    ArticleSearchHit,
     CountManyOptions,
+    CountSearchOptions,
     FindHeadlinesAndSummariesOptions,
     FindManyOptions,
+    SearchOptions,
 } from '../../../../application/ports/outbound/persistence/article/article-repository.port.js';
 
 // Domain
 import type { Article } from '../../../../domain/entities/article.entity.js';
+import type { EditorialAction } from '../../../../domain/entities/editorial-action.entity.js';
+import type { ArticleInsight } from '../../../../domain/value-objects/article-insight/article-insight.vo.js';
 
 import { type Prisma } from '../../../../generated/prisma/client.js';
+import { EditorialActionMapper } from '../editorial/prisma-editorial-action.mapper.js';
 import type { PrismaDatabase } from '../prisma.database.js';
 
+import { ArticleSearchIndex } from './prisma-article-search.index.js';
 import { ArticleMapper } from './prisma-article.mapper.js';
 
 export class PrismaArticleRepository implements ArticleRepositoryPort {
+    private readonly editorialActionMapper: EditorialActionMapper;
     private readonly mapper: ArticleMapper;
+    private readonly searchIndex: ArticleSearchIndex;
 
-    constructor(private readonly prisma: PrismaDatabase) {
+    constructor(
+        private readonly prisma: PrismaDatabase,
+        private readonly cache?: CacheInvalidationPort,
+    ) {
+        this.editorialActionMapper = new EditorialActionMapper();
         this.mapper = new ArticleMapper();
+        this.searchIndex = new ArticleSearchIndex(prisma);
     }
 
     async countMany(params: CountManyOptions): Promise<number> {
-        const categoryFilter = this.mapper.createCategoryFilter(params.category, params.categories);
+        const where = this.createWhere({ excludeArchived: false, ...params });
 
-        const where = {
-            ...(params.language && { language: this.mapper.mapLanguageToPrisma(params.language) }),
-            ...(categoryFilter && categoryFilter),
-            ...(params.country && { country: this.mapper.mapCountryToPrisma(params.country) }),
-            ...(params.startDate &&
-                params.endDate && {
-                    createdAt: {
-                        gte: params.startDate,
-                        lte: params.endDate,
-                    },
-                }),
-        };
+        if (params.startDate && params.endDate) {
+            where.createdAt = {
+                gte: params.startDate,
+                lte: params.endDate,
+            };
+        }
 
         return this.prisma.getPrismaClient().article.count({ where });
     }
 
+    async countSearch(options: CountSearchOptions): Promise<number> {
+        return this.searchIndex.count(options);
+    }
+
     async createMany(articles: Article[]): Promise<void> {
-        await this.prisma.getPrismaClient().$transaction(
-            articles.map((article) =>
-                this.prisma.getPrismaClient().article.create({
-                    data: this.mapper.toPrisma(article),
-                }),
-            ),
-        );
+        await this.prisma.getPrismaClient().$transaction(async (tx) => {
+            for (const article of articles) {
+                await tx.article.create({ data: this.mapper.toPrisma(article) });
+            }
+            await this.searchIndex.index(
+                articles.map((article) => article.id),
+                tx,
+            );
+        });
+
+        this.cache?.invalidate();
+    }
+
+    async findById(id: string): Promise<Article | null> {
+        const item = await this.prisma.getPrismaClient().article.findUnique({
+            include: {
+                categories: true,
+                frames: true,
+                insights: true,
+                quizQuestions: true,
+                reports: {
+                    select: { id: true, tier: true },
+                    take: 1,
+                },
+            },
+            where: { id },
+        });
+
+        return item ? this.mapper.toDomain(item) : null;
     }
 
     async findHeadlinesAndSummaries(
@@ -81,54 +116,27 @@ export class PrismaArticleRepository implements ArticleRepositoryPort {
     }
 
     async findMany(options: FindManyOptions): Promise<Article[]> {
-        const categoryFilter = this.mapper.createCategoryFilter(
-            options.category,
-            options.categories,
-        );
+        const where = this.createWhere(options);
+        const backward = options.direction === 'backward';
 
-        const where: Prisma.ArticleWhereInput = {
-            ...(options.language && {
-                language: this.mapper.mapLanguageToPrisma(options.language),
-            }),
-            ...(categoryFilter && categoryFilter),
-            ...(options.country && { country: this.mapper.mapCountryToPrisma(options.country) }),
-            ...(options.cursor && {
-                publishedAt: {
-                    lt: options.cursor,
-                },
-            }),
-            ...(options.tier && {
-                reports: {
-                    some: {
-                        tier: {
-                            in: options.tier,
-                        },
-                    },
+        // Articles are ordered by publishedAt then id so equal dates still page deterministically
+        if (options.cursor) {
+            const comparison = backward ? 'gt' : 'lt';
+            where.OR = [
+                { publishedAt: { [comparison]: options.cursor.publishedAt } },
+                {
+                    id: { [comparison]: options.cursor.id },
+                    publishedAt: options.cursor.publishedAt,
                 },
-            }),
-        };
-
-        if (!options.tier && options.excludeArchived !== false) {
-            Object.assign(where, {
-                OR: [
-                    { reports: { none: {} } },
-                    {
-                        reports: {
-                            some: {
-                                tier: {
-                                    not: 'OFF_TOPIC',
-                                },
-                            },
-                        },
-                    },
-                ],
-            });
+            ];
         }
 
+        const order = backward ? 'asc' : 'desc';
         const items = await this.prisma.getPrismaClient().article.findMany({
             include: {
                 categories: true,
                 frames: true,
+                insights: true,
                 quizQuestions: true,
                 reports: {
                     select: {
@@ -138,13 +146,16 @@ export class PrismaArticleRepository implements ArticleRepositoryPort {
                     take: 1,
                 },
             },
-            orderBy: {
-                publishedAt: 'desc',
-            },
+            orderBy: [{ publishedAt: order }, { id: order }],
             take: options.limit + 1,
             where,
         });
 
+        // Reading backward walks towards newer articles; return them newest first
+        if (backward) {
+            items.reverse();
+        }
+
         return items.map((item) => this.mapper.toDomain(item));
     }
 
@@ -155,6 +166,7 @@ export class PrismaArticleRepository implements ArticleRepositoryPort {
             include: {
                 categories: true,
                 frames: true,
+                insights: true,
                 quizQuestions: true,
                 reports: {
                     select: { id: true, tier: true },
@@ -174,6 +186,63 @@ export class PrismaArticleRepository implements ArticleRepositoryPort {
         return mapped;
     }
 
+    async republish(
+        article: Article,
+        replacedIds: string[],
+        action: EditorialAction,
+    ): Promise<void> {
+        await this.prisma.getPrismaClient().$transaction(async (tx) => {
+            await tx.article.create({ data: this.mapper.toPrisma(article) });
+            if (replacedIds.length > 0) {
+                await tx.article.updateMany({
+                    data: { retractedAt: action.createdAt },
+                    where: { id: { in: replacedIds } },
+                });
+            }
+            await tx.editorialAction.create({ data: this.editorialActionMapper.toPrisma(action) });
+            await this.searchIndex.index([article.id], tx);
+        });
+
+        this.cache?.invalidate();
+    }
+
+    async retract(id: string, action: EditorialAction): Promise<void> {
+        await this.prisma.getPrismaClient().$transaction(async (tx) => {
+            await tx.article.update({ data: { retractedAt: action.createdAt }, where: { id } });
+            await tx.editorialAction.create({ data: this.editorialActionMapper.toPrisma(action) });
+        });
+
+        this.cache?.invalidate();
+    }
+
+    async saveInsights(articleId: string, insights: ArticleInsight[]): Promise<void> {
+        await this.prisma.getPrismaClient().$transaction(async (tx) => {
+            await tx.articleInsight.deleteMany({ where: { articleId } });
+            await tx.articleInsight.createMany({
+                data: insights.map((insight) => ({
+                    analysis: insight.analysis,
+                    articleId,
+                    duration: insight.duration,
+                    kind: insight.kind,
+                    publishedAt: insight.publishedAt,
+                })),
+            });
+        });
+
+        this.cache?.invalidate();
+    }
+
+    async search(options: SearchOptions): Promise<ArticleSearchHit[]> {
+        const rows = await this.searchIndex.search(options);
+        const articles = await this.findManyByIds(rows.map((row) => row.articleId));
+        const articlesById = new Map(articles.map((article) => [article.id, article]));
+
+        return rows.flatMap((row) => {
+            const article = articlesById.get(row.articleId);
+            return article ? [{ article, rank: row.rank, snippet: row.snippet }] : [];
+        });
+    }
+
     async updateMany(articles: Article[]): Promise<void> {
         if (articles.length === 0) {
             return;
@@ -234,7 +303,98 @@ export class PrismaArticleRepository implements ArticleRepositoryPort {
                         });
                     }
                 }
+
+                if (
+                    prismaData.insights &&
+                    typeof prismaData.insights === 'object' &&
+                    'create' in prismaData.insights
+                ) {
+                    await tx.articleInsight.deleteMany({ where: { articleId: article.id } });
+                    const insightData = prismaData.insights.create;
+                    if (Array.isArray(insightData)) {
+                        await tx.articleInsight.createMany({
+                            data: insightData.map((insight) => ({
+                                analysis: insight.analysis,
+                                articleId: article.id,
+                                duration: insight.duration,
+                                kind: insight.kind,
+                                publishedAt: insight.publishedAt,
+                            })),
+                        });
+                    }
+                }
+
+                await this.searchIndex.index([article.id], tx);
             });
         }
+
+        this.cache?.invalidate();
+    }
+
+    /**
+     * Filters shared by findMany and countMany so totals match the listed articles.
+     * Each filter is its own AND clause, letting OR-based filters combine safely.
+     */
+    private createWhere(options: CountManyOptions): Prisma.ArticleWhereInput {
+        const conditions: Prisma.ArticleWhereInput[] = [];
+
+        const categoryFilter = this.mapper.createCategoryFilter(
+            options.category,
+            options.categories,
+            options.categoriesMatch,
+        );
+        if (categoryFilter) conditions.push(categoryFilter);
+
+        const traitsFilter = this.mapper.createTraitsFilter(options.traits, options.traitsMatch);
+        if (traitsFilter) conditions.push(traitsFilter);
+
+        if (options.publishedFrom || options.publishedBefore) {
+            conditions.push({
+                publishedAt: {
+                    ...(options.publishedFrom && { gte: options.publishedFrom }),
+                    ...(options.publishedBefore && { lt: options.publishedBefore }),
+                },
+            });
+        }
+
+        if (options.tier) {
+            conditions.push({
+                reports: {
+                    some: {
+                        tier: {
+                            in: options.tier,
+                        },
+                    },
+                },
+            });
+        } else if (options.excludeArchived !== false) {
+            conditions.push({
+                OR: [
+                    { reports: { none: {} } },
+                    {
+                        reports: {
+                            some: {
+                                tier: {
+                                    not: 'OFF_TOPIC',
+                                },
+                            },
+                        },
+                    },
+                ],
+            });
+        }
+
+        if (options.excludeArchived !== false) {
+            conditions.push({ retractedAt: null });
+        }
+
+        return {
+            ...(options.language && {
+                language: this.mapper.mapLanguageToPrisma(options.language),
+            }),
+            ...(options.country && { country: this.mapper.mapCountryToPrisma(options.country) }),
+            ...(options.excludeFabricated && { fabricated: false }),
+            ...(conditions.length > 0 && { AND: conditions }),
+        };
     }
 }
@@ -0,0 +1,45 @@
+// Domain
+import { DailyChallenge } from '../../../../domain/entities/daily-challenge.entity.js';
+import { Country } from '../../../../domain/value-objects/country.vo.js';
+import { Language } from '../../../../domain/value-objects/language.vo.js';
+
+import {
+    type DailyChallenge as PrismaDailyChallenge,
+    type DailyChallengeArticle as PrismaDailyChallengeArticle,
+    type Prisma,
+} from '../../../../generated/prisma/client.js';
+
+export class DailyChallengeMapper {
+    toDomain(
+        prisma: PrismaDailyChallenge & {
+            articles: Pick<PrismaDailyChallengeArticle, 'articleId' | 'position'>[];
+        },
+    ): DailyChallenge {
+        return new DailyChallenge({
+            articleIds: [...prisma.articles]
+                .sort((a, b) => a.position - b.position)
+                .map((article) => article.articleId),
+            country: new Country(prisma.country),
+            createdAt: prisma.createdAt,
+            date: prisma.date,
+            id: prisma.id,
+            language: new Language(prisma.language),
+        });
+    }
+
+    toPrisma(challenge: DailyChallenge): Prisma.DailyChallengeCreateInput {
+        return {
+            articles: {
+                create: challenge.articleIds.map((articleId, position) => ({
+                    article: { connect: { id: articleId } },
+                    position,
+                })),
+            },
+            country: challenge.country.toString(),
+            createdAt: challenge.createdAt,
+            date: challenge.date,
+            id: challenge.id,
+            language: challenge.language.toString(),
+        };
+    }
+}
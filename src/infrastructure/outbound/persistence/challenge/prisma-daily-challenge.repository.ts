@@ -0,0 +1,53 @@
+// Application
+import {
+    type DailyChallengeRepositoryPort,
+    type FindDailyChallengeOptions,
+} from '../../../../application/ports/outbound/persistence/challenge/daily-challenge-repository.port.js';
+
+// Domain
+import { type DailyChallenge } from '../../../../domain/entities/daily-challenge.entity.js';
+
+import { type PrismaDatabase } from '../prisma.database.js';
+
+import { DailyChallengeMapper } from './prisma-daily-challenge.mapper.js';
+
+export class PrismaDailyChallengeRepository implements DailyChallengeRepositoryPort {
+    private readonly mapper: DailyChallengeMapper;
+
+    constructor(private readonly prisma: PrismaDatabase) {
+        this.mapper = new DailyChallengeMapper();
+    }
+
+    async findByDate(options: FindDailyChallengeOptions): Promise<DailyChallenge | null> {
+        const challenge = await this.prisma.getPrismaClient().dailyChallenge.findUnique({
+            include: { articles: { select: { articleId: true, position: true } } },
+            where: {
+                country_language_date: {
+                    country: options.country.toString(),
+                    date: options.date,
+                    language: options.language.toString(),
+                },
+            },
+        });
+
+        return challenge ? this.mapper.toDomain(challenge) : null;
+    }
+
+    async saveIfAbsent(challenge: DailyChallenge): Promise<DailyChallenge> {
+        // Empty update keeps the edition that was stored first
+        const stored = await this.prisma.getPrismaClient().dailyChallenge.upsert({
+            create: this.mapper.toPrisma(challenge),
+            include: { articles: { select: { articleId: true, position: true } } },
+            update: {},
+            where: {
+                country_language_date: {
+                    country: challenge.country.toString(),
+                    date: challenge.date,
+                    language: challenge.language.toString(),
+                },
+            },
+        });
+
+        return this.mapper.toDomain(stored);
+    }
+}
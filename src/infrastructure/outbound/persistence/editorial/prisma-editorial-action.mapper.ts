@@ -0,0 +1,38 @@
+// Domain
+import {
+    EditorialAction,
+    type EditorialChange,
+} from '../../../../domain/entities/editorial-action.entity.js';
+
+import {
+    type EditorialAction as PrismaEditorialAction,
+    type Prisma,
+} from '../../../../generated/prisma/client.js';
+
+export class EditorialActionMapper {
+    toDomain(prisma: PrismaEditorialAction): EditorialAction {
+        return new EditorialAction({
+            actor: prisma.actor,
+            articleId: prisma.articleId ?? undefined,
+            changes: prisma.changes as Record<string, EditorialChange>,
+            createdAt: prisma.createdAt,
+            id: prisma.id,
+            reason: prisma.reason,
+            reportId: prisma.reportId ?? undefined,
+            type: prisma.type,
+        });
+    }
+
+    toPrisma(action: EditorialAction): Prisma.EditorialActionCreateInput {
+        return {
+            actor: action.actor,
+            articleId: action.articleId ?? null,
+            changes: action.changes as Prisma.InputJsonObject,
+            createdAt: action.createdAt,
+            id: action.id,
+            reason: action.reason,
+            reportId: action.reportId ?? null,
+            type: action.type,
+        };
+    }
+}
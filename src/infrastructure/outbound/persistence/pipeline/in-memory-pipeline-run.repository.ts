@@ -0,0 +1,46 @@
+// Application
+import { type PipelineRunRepositoryPort } from '../../../../application/ports/outbound/persistence/pipeline/pipeline-run-repository.port.js';
+
+// Domain
+import { type PipelineRun } from '../../../../domain/entities/pipeline-run.entity.js';
+
+const DEFAULT_HISTORY_SIZE = 100;
+
+/**
+ * Keeps the latest pipeline runs in process memory.
+ * Runs execute in the process that tracks them, so a restart forgets them along with the runs it interrupted.
+ */
+export class InMemoryPipelineRunRepository implements PipelineRunRepositoryPort {
+    private readonly runs = new Map<string, PipelineRun>();
+
+    constructor(private readonly historySize = DEFAULT_HISTORY_SIZE) {}
+
+    async create(run: PipelineRun): Promise<PipelineRun> {
+        this.runs.set(run.id, run);
+
+        // Maps iterate in insertion order: the first key is the oldest run
+        while (this.runs.size > this.historySize) {
+            const oldest = this.runs.keys().next().value;
+            if (oldest === undefined) break;
+            this.runs.delete(oldest);
+        }
+
+        return run;
+    }
+
+    async findById(id: string): Promise<null | PipelineRun> {
+        return this.runs.get(id) ?? null;
+    }
+
+    async findRecent(): Promise<PipelineRun[]> {
+        return [...this.runs.values()].reverse();
+    }
+
+    async update(run: PipelineRun): Promise<PipelineRun> {
+        if (this.runs.has(run.id)) {
+            this.runs.set(run.id, run);
+        }
+
+        return run;
+    }
+}
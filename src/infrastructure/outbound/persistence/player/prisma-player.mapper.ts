@@ -0,0 +1,76 @@
+// Application
+import {
+    type AuthenticityGuessRecord,
+    type PlayerGameResult,
+    type QuizAttemptRecord,
+} from '../../../../application/ports/outbound/persistence/player/player-repository.port.js';
+
+// Domain
+import { Player } from '../../../../domain/entities/player.entity.js';
+
+import {
+    type AuthenticityGuess as PrismaAuthenticityGuess,
+    type Player as PrismaPlayer,
+    type QuizAttempt as PrismaQuizAttempt,
+} from '../../../../generated/prisma/client.js';
+
+export class PlayerMapper {
+    authenticityGuessToPrisma(
+        guess: AuthenticityGuessRecord,
+    ): Omit<PrismaAuthenticityGuess, 'createdAt' | 'id'> {
+        return {
+            articleId: guess.articleId,
+            correct: guess.correct,
+            guess: guess.guess,
+            playerId: guess.playerId,
+        };
+    }
+
+    authenticityGuessToResult(
+        guess: Pick<PrismaAuthenticityGuess, 'articleId' | 'correct' | 'createdAt'>,
+    ): PlayerGameResult {
+        return {
+            articleId: guess.articleId,
+            correct: guess.correct,
+            kind: 'AUTHENTICITY',
+            playedAt: guess.createdAt,
+        };
+    }
+
+    quizAttemptToPrisma(attempt: QuizAttemptRecord): Omit<PrismaQuizAttempt, 'createdAt' | 'id'> {
+        return {
+            answerIndex: attempt.answerIndex,
+            articleId: attempt.articleId,
+            correct: attempt.correct,
+            playerId: attempt.playerId,
+            questionIndex: attempt.questionIndex,
+        };
+    }
+
+    quizAttemptToResult(
+        attempt: Pick<PrismaQuizAttempt, 'articleId' | 'correct' | 'createdAt'>,
+    ): PlayerGameResult {
+        return {
+            articleId: attempt.articleId,
+            correct: attempt.correct,
+            kind: 'QUIZ',
+            playedAt: attempt.createdAt,
+        };
+    }
+
+    toDomain(prisma: PrismaPlayer): Player {
+        return new Player({
+            createdAt: prisma.createdAt,
+            deviceId: prisma.deviceId,
+            id: prisma.id,
+        });
+    }
+
+    toPrisma(player: Player): PrismaPlayer {
+        return {
+            createdAt: player.createdAt,
+            deviceId: player.deviceId,
+            id: player.id,
+        };
+    }
+}
@@ -0,0 +1,151 @@
+// Application
+import {
+    type AuthenticityGuessRecord,
+    type FindResultTotalsOptions,
+    type PlayerGameResult,
+    type PlayerRepositoryPort,
+    type PlayerResultTotals,
+    type QuizAttemptRecord,
+} from '../../../../application/ports/outbound/persistence/player/player-repository.port.js';
+
+// Domain
+import { type Player } from '../../../../domain/entities/player.entity.js';
+
+import { type PrismaDatabase } from '../prisma.database.js';
+
+import { PlayerMapper } from './prisma-player.mapper.js';
+
+export class PrismaPlayerRepository implements PlayerRepositoryPort {
+    private readonly mapper: PlayerMapper;
+
+    constructor(private readonly prisma: PrismaDatabase) {
+        this.mapper = new PlayerMapper();
+    }
+
+    async create(player: Player): Promise<Player> {
+        // Empty update returns the player a concurrent registration of the device already stored
+        const stored = await this.prisma.getPrismaClient().player.upsert({
+            create: this.mapper.toPrisma(player),
+            update: {},
+            where: { deviceId: player.deviceId },
+        });
+
+        return this.mapper.toDomain(stored);
+    }
+
+    async findByDeviceId(deviceId: string): Promise<null | Player> {
+        const player = await this.prisma.getPrismaClient().player.findUnique({
+            where: { deviceId },
+        });
+
+        return player ? this.mapper.toDomain(player) : null;
+    }
+
+    async findById(id: string): Promise<null | Player> {
+        const player = await this.prisma.getPrismaClient().player.findUnique({
+            where: { id },
+        });
+
+        return player ? this.mapper.toDomain(player) : null;
+    }
+
+    async findGameResults(playerId: string): Promise<PlayerGameResult[]> {
+        const prismaClient = this.prisma.getPrismaClient();
+        const select = { articleId: true, correct: true, createdAt: true } as const;
+
+        const [quizAttempts, authenticityGuesses] = await Promise.all([
+            prismaClient.quizAttempt.findMany({ select, where: { playerId } }),
+            prismaClient.authenticityGuess.findMany({ select, where: { playerId } }),
+        ]);
+
+        return [
+            ...quizAttempts.map((attempt) => this.mapper.quizAttemptToResult(attempt)),
+            ...authenticityGuesses.map((guess) => this.mapper.authenticityGuessToResult(guess)),
+        ];
+    }
+
+    async findResultTotals(options: FindResultTotalsOptions): Promise<PlayerResultTotals[]> {
+        const prismaClient = this.prisma.getPrismaClient();
+        const where = {
+            article: {
+                country: options.country.toString(),
+                language: options.language.toString(),
+            },
+            ...(options.since && { createdAt: { gte: options.since } }),
+        };
+
+        const [quizGroups, authenticityGroups] = await Promise.all([
+            prismaClient.quizAttempt.groupBy({
+                _count: { _all: true },
+                by: ['playerId', 'correct'],
+                where,
+            }),
+            prismaClient.authenticityGuess.groupBy({
+                _count: { _all: true },
+                by: ['playerId', 'correct'],
+                where,
+            }),
+        ]);
+
+        const totals = new Map<string, PlayerResultTotals>();
+        const totalsFor = (playerId: string): PlayerResultTotals => {
+            let playerTotals = totals.get(playerId);
+            if (!playerTotals) {
+                playerTotals = {
+                    authenticityCorrect: 0,
+                    authenticityGuessed: 0,
+                    playerId,
+                    quizAnswered: 0,
+                    quizCorrect: 0,
+                };
+                totals.set(playerId, playerTotals);
+            }
+            return playerTotals;
+        };
+
+        for (const group of quizGroups) {
+            const playerTotals = totalsFor(group.playerId);
+            playerTotals.quizAnswered += group._count._all;
+            if (group.correct) playerTotals.quizCorrect += group._count._all;
+        }
+
+        for (const group of authenticityGroups) {
+            const playerTotals = totalsFor(group.playerId);
+            playerTotals.authenticityGuessed += group._count._all;
+            if (group.correct) playerTotals.authenticityCorrect += group._count._all;
+        }
+
+        return [...totals.values()];
+    }
+
+    async recordAuthenticityGuess(guess: AuthenticityGuessRecord): Promise<void> {
+        // Empty update keeps the first guess so retries cannot farm points
+        await this.prisma.getPrismaClient().authenticityGuess.upsert({
+            create: this.mapper.authenticityGuessToPrisma(guess),
+            update: {},
+            where: {
+                playerId_articleId: { articleId: guess.articleId, playerId: guess.playerId },
+            },
+        });
+    }
+
+    async recordQuizAttempts(attempts: QuizAttemptRecord[]): Promise<void> {
+        const prismaClient = this.prisma.getPrismaClient();
+
+        await prismaClient.$transaction(
+            attempts.map((attempt) =>
+                prismaClient.quizAttempt.upsert({
+                    create: this.mapper.quizAttemptToPrisma(attempt),
+                    update: {},
+                    where: {
+                        playerId_articleId_questionIndex: {
+                            articleId: attempt.articleId,
+                            playerId: attempt.playerId,
+                            questionIndex: attempt.questionIndex,
+                        },
+                    },
+                }),
+            ),
+        );
+    }
+}
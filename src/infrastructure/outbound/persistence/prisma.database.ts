@@ -34,4 +34,8 @@ export class PrismaDatabase implements DatabasePort {
     getPrismaClient(): PrismaClient {
         return this.client;
     }
+
+    async ping(): Promise<void> {
+        await this.client.$queryRaw`SELECT 1`;
+    }
 }
@@ -98,6 +98,7 @@ export class ReportMapper {
             deduplicationState: new DeduplicationState(
                 prisma.deduplicationState as 'COMPLETE' | 'PENDING',
             ),
+            duplicateOfId: prisma.duplicateOfId ?? undefined,
             id: prisma.id,
             sourceReferences: Array.isArray(prisma.sources) ? (prisma.sources as string[]) : [],
             traits: new ArticleTraits({
@@ -1,25 +1,41 @@
 import { type LoggerPort } from '@jterrazz/logger';
 
 // Application
-import { type ReportRepositoryPort } from '../../../../application/ports/outbound/persistence/report/report-repository.port.js';
+import type { CacheInvalidationPort } from '../../../../application/ports/outbound/cache/cache-invalidation.port.js';
+import {
+    type ReportDetail,
+    type ReportRepositoryPort,
+} from '../../../../application/ports/outbound/persistence/report/report-repository.port.js';
 
 // Domain
+import { type EditorialAction } from '../../../../domain/entities/editorial-action.entity.js';
 import { type Report } from '../../../../domain/entities/report.entity.js';
+import { type ArticleTraits } from '../../../../domain/value-objects/article-traits.vo.js';
 import { Country } from '../../../../domain/value-objects/country.vo.js';
 import { type Language } from '../../../../domain/value-objects/language.vo.js';
+import { type DeduplicationStateType } from '../../../../domain/value-objects/report/deduplication-state.vo.js';
+import { type ClassificationStateType } from '../../../../domain/value-objects/report/tier-state.vo.js';
+import {
+    type Classification,
+    type ClassificationType,
+} from '../../../../domain/value-objects/report/tier.vo.js';
 
 import { type Prisma } from '../../../../generated/prisma/client.js';
+import { EditorialActionMapper } from '../editorial/prisma-editorial-action.mapper.js';
 import { type PrismaDatabase } from '../prisma.database.js';
 
 import { ReportMapper } from './prisma-report.mapper.js';
 
 export class PrismaReportRepository implements ReportRepositoryPort {
+    private readonly editorialActionMapper: EditorialActionMapper;
     private readonly mapper: ReportMapper;
 
     constructor(
         private readonly prisma: PrismaDatabase,
         private readonly logger: LoggerPort,
+        private readonly cache?: CacheInvalidationPort,
     ) {
+        this.editorialActionMapper = new EditorialActionMapper();
         this.mapper = new ReportMapper();
     }
 
@@ -109,6 +125,40 @@ export class PrismaReportRepository implements ReportRepositoryPort {
         return prismaReport ? this.mapper.toDomain(prismaReport) : null;
     }
 
+    async findDetailById(id: string): Promise<null | ReportDetail> {
+        const summary = { core: true, createdAt: true, dateline: true, id: true } as const;
+
+        const prismaReport = await this.prisma.getPrismaClient().report.findUnique({
+            include: {
+                angles: true,
+                articles: {
+                    orderBy: { publishedAt: 'desc' },
+                    select: {
+                        fabricated: true,
+                        headline: true,
+                        id: true,
+                        language: true,
+                        publishedAt: true,
+                        retractedAt: true,
+                    },
+                },
+                categories: true,
+                duplicateOf: { select: summary },
+                duplicates: { orderBy: { createdAt: 'asc' }, select: summary },
+            },
+            where: { id },
+        });
+
+        if (!prismaReport) return null;
+
+        return {
+            articles: prismaReport.articles,
+            duplicateOf: prismaReport.duplicateOf,
+            duplicates: prismaReport.duplicates,
+            report: this.mapper.toDomain(prismaReport),
+        };
+    }
+
     async findMany(criteria: {
         category?: string;
         country?: string;
@@ -116,7 +166,11 @@ export class PrismaReportRepository implements ReportRepositoryPort {
         limit?: number;
         offset?: number;
         startDate?: Date;
-        where?: { classificationState?: 'PENDING' };
+        where?: {
+            classificationState?: ClassificationStateType;
+            deduplicationState?: DeduplicationStateType;
+            tier?: ClassificationType;
+        };
     }): Promise<Report[]> {
         const where: Record<string, unknown> = {};
         if (criteria.category) {
@@ -124,12 +178,16 @@ export class PrismaReportRepository implements ReportRepositoryPort {
             if (categoryFilter) Object.assign(where, categoryFilter);
         }
         if (criteria.country) where.country = criteria.country;
-        if (criteria.startDate && criteria.endDate) {
+        if (criteria.startDate || criteria.endDate) {
             where.dateline = { gte: criteria.startDate, lte: criteria.endDate };
         }
         if (criteria.where?.classificationState) {
             where.classificationState = criteria.where.classificationState;
         }
+        if (criteria.where?.deduplicationState) {
+            where.deduplicationState = criteria.where.deduplicationState;
+        }
+        if (criteria.where?.tier) where.tier = criteria.where.tier;
         const reports = await this.prisma.getPrismaClient().report.findMany({
             include: { angles: true, categories: true },
             orderBy: { dateline: 'desc' },
@@ -239,15 +297,72 @@ export class PrismaReportRepository implements ReportRepositoryPort {
         return allSourceReferences;
     }
 
-    async markAsDuplicate(reportId: string, options: { duplicateOfId: string }): Promise<Report> {
-        const updatedReport = await this.prisma.getPrismaClient().report.update({
-            data: {
-                deduplicationState: 'COMPLETE',
-                duplicateOfId: options.duplicateOfId,
-            },
-            include: { angles: true, categories: true },
-            where: { id: reportId },
+    async markAsDuplicate(
+        reportId: string,
+        options: { action?: EditorialAction; duplicateOfId: string },
+    ): Promise<Report> {
+        const updatedReport = await this.prisma.getPrismaClient().$transaction(async (tx) => {
+            const report = await tx.report.update({
+                data: {
+                    deduplicationState: 'COMPLETE',
+                    duplicateOfId: options.duplicateOfId,
+                },
+                include: { angles: true, categories: true },
+                where: { id: reportId },
+            });
+            if (options.action) {
+                await tx.editorialAction.create({
+                    data: this.editorialActionMapper.toPrisma(options.action),
+                });
+            }
+            return report;
+        });
+        this.cache?.invalidate();
+        return this.mapper.toDomain(updatedReport);
+    }
+
+    async reclassify(
+        reportId: string,
+        classification: { tier: Classification; traits?: ArticleTraits },
+        action: EditorialAction,
+    ): Promise<Report> {
+        const { tier, traits } = classification;
+        const traitsData = traits && {
+            traitsEssential: traits.essential,
+            traitsPositive: traits.positive,
+        };
+
+        const updatedReport = await this.prisma.getPrismaClient().$transaction(async (tx) => {
+            const report = await tx.report.update({
+                data: { classificationState: 'COMPLETE', tier: tier.toString(), ...traitsData },
+                include: { angles: true, categories: true },
+                where: { id: reportId },
+            });
+            // Published articles read their tier from the report, but carry their own traits
+            if (traitsData) {
+                await tx.article.updateMany({
+                    data: traitsData,
+                    where: { reports: { some: { id: reportId } } },
+                });
+            }
+            await tx.editorialAction.create({ data: this.editorialActionMapper.toPrisma(action) });
+            return report;
+        });
+        this.cache?.invalidate();
+        return this.mapper.toDomain(updatedReport);
+    }
+
+    async unmarkAsDuplicate(reportId: string, action: EditorialAction): Promise<Report> {
+        const updatedReport = await this.prisma.getPrismaClient().$transaction(async (tx) => {
+            const report = await tx.report.update({
+                data: { duplicateOfId: null },
+                include: { angles: true, categories: true },
+                where: { id: reportId },
+            });
+            await tx.editorialAction.create({ data: this.editorialActionMapper.toPrisma(action) });
+            return report;
         });
+        this.cache?.invalidate();
         return this.mapper.toDomain(updatedReport);
     }
 
@@ -267,6 +382,8 @@ export class PrismaReportRepository implements ReportRepositoryPort {
             include: { angles: true, categories: true },
             where: { id },
         });
+        // Served articles read their tier from the report
+        this.cache?.invalidate();
         return this.mapper.toDomain(updatedReport);
     }
 }
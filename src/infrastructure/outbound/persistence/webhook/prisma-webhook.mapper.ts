@@ -0,0 +1,93 @@
+// Application
+import {
+    type NewWebhookDelivery,
+    type WebhookDeliveryAttemptRecord,
+    type WebhookDeliveryRecord,
+} from '../../../../application/ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+// Domain
+import {
+    type WebhookEventType,
+    WebhookSubscription,
+} from '../../../../domain/entities/webhook-subscription.entity.js';
+
+import {
+    type Prisma,
+    type WebhookDelivery as PrismaWebhookDelivery,
+    type WebhookDeliveryAttempt as PrismaWebhookDeliveryAttempt,
+    type WebhookSubscription as PrismaWebhookSubscription,
+} from '../../../../generated/prisma/client.js';
+
+export class WebhookMapper {
+    attemptToPrisma(
+        deliveryId: string,
+        attempt: WebhookDeliveryAttemptRecord,
+    ): Prisma.WebhookDeliveryAttemptUncheckedCreateInput {
+        return {
+            createdAt: attempt.attemptedAt,
+            deliveryId,
+            durationMs: Math.round(attempt.durationMs),
+            error: attempt.error ?? null,
+            statusCode: attempt.statusCode ?? null,
+            succeeded: attempt.succeeded,
+        };
+    }
+
+    deliveryToDomain(
+        prisma: PrismaWebhookDelivery & { attempts: PrismaWebhookDeliveryAttempt[] },
+    ): WebhookDeliveryRecord {
+        return {
+            attemptCount: prisma.attemptCount,
+            attempts: prisma.attempts.map((attempt) => ({
+                attemptedAt: attempt.createdAt,
+                durationMs: attempt.durationMs,
+                error: attempt.error ?? undefined,
+                statusCode: attempt.statusCode ?? undefined,
+                succeeded: attempt.succeeded,
+            })),
+            createdAt: prisma.createdAt,
+            eventType: prisma.eventType as WebhookEventType,
+            id: prisma.id,
+            nextAttemptAt: prisma.nextAttemptAt,
+            status: prisma.status,
+        };
+    }
+
+    deliveryToPrisma(delivery: NewWebhookDelivery): Prisma.WebhookDeliveryCreateManyInput {
+        return {
+            eventType: delivery.eventType,
+            id: delivery.id,
+            nextAttemptAt: delivery.nextAttemptAt,
+            payload: delivery.payload,
+            subscriptionId: delivery.subscriptionId,
+        };
+    }
+
+    toDomain(prisma: PrismaWebhookSubscription): WebhookSubscription {
+        return new WebhookSubscription({
+            consecutiveFailures: prisma.consecutiveFailures,
+            countries: prisma.countries as WebhookSubscription['countries'],
+            createdAt: prisma.createdAt,
+            enabled: prisma.enabled,
+            eventTypes: prisma.eventTypes as WebhookEventType[],
+            id: prisma.id,
+            languages: prisma.languages as WebhookSubscription['languages'],
+            secret: prisma.secret,
+            url: prisma.url,
+        });
+    }
+
+    toPrisma(subscription: WebhookSubscription): Prisma.WebhookSubscriptionCreateInput {
+        return {
+            consecutiveFailures: subscription.consecutiveFailures,
+            countries: subscription.countries,
+            createdAt: subscription.createdAt,
+            enabled: subscription.enabled,
+            eventTypes: subscription.eventTypes,
+            id: subscription.id,
+            languages: subscription.languages,
+            secret: subscription.secret,
+            url: subscription.url,
+        };
+    }
+}
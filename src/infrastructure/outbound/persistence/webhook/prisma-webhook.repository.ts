@@ -0,0 +1,143 @@
+// Application
+import {
+    type DueWebhookDelivery,
+    type FindDueDeliveriesOptions,
+    type FindSubscriptionsOptions,
+    type NewWebhookDelivery,
+    type WebhookDeliveryOutcome,
+    type WebhookDeliveryRecord,
+    type WebhookRepositoryPort,
+} from '../../../../application/ports/outbound/persistence/webhook/webhook-repository.port.js';
+
+// Domain
+import {
+    type WebhookEventType,
+    type WebhookSubscription,
+} from '../../../../domain/entities/webhook-subscription.entity.js';
+
+import { type PrismaDatabase } from '../prisma.database.js';
+
+import { WebhookMapper } from './prisma-webhook.mapper.js';
+
+export class PrismaWebhookRepository implements WebhookRepositoryPort {
+    private readonly mapper: WebhookMapper;
+
+    constructor(private readonly prisma: PrismaDatabase) {
+        this.mapper = new WebhookMapper();
+    }
+
+    async createDeliveries(deliveries: NewWebhookDelivery[]): Promise<void> {
+        await this.prisma.getPrismaClient().webhookDelivery.createMany({
+            data: deliveries.map((delivery) => this.mapper.deliveryToPrisma(delivery)),
+        });
+    }
+
+    async createSubscription(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+        const created = await this.prisma.getPrismaClient().webhookSubscription.create({
+            data: this.mapper.toPrisma(subscription),
+        });
+
+        return this.mapper.toDomain(created);
+    }
+
+    async deleteSubscription(id: string): Promise<boolean> {
+        const { count } = await this.prisma.getPrismaClient().webhookSubscription.deleteMany({
+            where: { id },
+        });
+
+        return count > 0;
+    }
+
+    async findDeliveries(subscriptionId: string, limit: number): Promise<WebhookDeliveryRecord[]> {
+        const deliveries = await this.prisma.getPrismaClient().webhookDelivery.findMany({
+            include: { attempts: { orderBy: { createdAt: 'asc' } } },
+            orderBy: { createdAt: 'desc' },
+            take: limit,
+            where: { subscriptionId },
+        });
+
+        return deliveries.map((delivery) => this.mapper.deliveryToDomain(delivery));
+    }
+
+    async findDueDeliveries(options: FindDueDeliveriesOptions): Promise<DueWebhookDelivery[]> {
+        const deliveries = await this.prisma.getPrismaClient().webhookDelivery.findMany({
+            include: { subscription: true },
+            orderBy: { nextAttemptAt: 'asc' },
+            take: options.limit,
+            where: {
+                nextAttemptAt: { lte: options.now },
+                status: 'PENDING',
+                // Deliveries of a disabled endpoint wait until it is re-enabled
+                subscription: { enabled: true },
+            },
+        });
+
+        return deliveries.map((delivery) => ({
+            attemptCount: delivery.attemptCount,
+            eventType: delivery.eventType as WebhookEventType,
+            id: delivery.id,
+            payload: delivery.payload,
+            subscription: this.mapper.toDomain(delivery.subscription),
+        }));
+    }
+
+    async findSubscriptionById(id: string): Promise<null | WebhookSubscription> {
+        const subscription = await this.prisma.getPrismaClient().webhookSubscription.findUnique({
+            where: { id },
+        });
+
+        return subscription ? this.mapper.toDomain(subscription) : null;
+    }
+
+    async findSubscriptions(
+        options: FindSubscriptionsOptions = {},
+    ): Promise<WebhookSubscription[]> {
+        const subscriptions = await this.prisma.getPrismaClient().webhookSubscription.findMany({
+            orderBy: { createdAt: 'asc' },
+            where: options.eventType ? { enabled: true } : {},
+        });
+
+        // Event types are stored as a JSON array, so they are matched in memory
+        return subscriptions
+            .map((subscription) => this.mapper.toDomain(subscription))
+            .filter(
+                (subscription) =>
+                    !options.eventType || subscription.eventTypes.includes(options.eventType),
+            );
+    }
+
+    async recordDeliveryAttempt(outcome: WebhookDeliveryOutcome): Promise<void> {
+        const prismaClient = this.prisma.getPrismaClient();
+
+        await prismaClient.$transaction([
+            prismaClient.webhookDeliveryAttempt.create({
+                data: this.mapper.attemptToPrisma(outcome.delivery.id, outcome.attempt),
+            }),
+            prismaClient.webhookDelivery.update({
+                data: {
+                    attemptCount: outcome.delivery.attemptCount,
+                    nextAttemptAt: outcome.delivery.nextAttemptAt,
+                    status: outcome.delivery.status,
+                },
+                where: { id: outcome.delivery.id },
+            }),
+            prismaClient.webhookSubscription.update({
+                data: {
+                    consecutiveFailures: outcome.subscription.consecutiveFailures,
+                    enabled: outcome.subscription.enabled,
+                },
+                where: { id: outcome.subscription.id },
+            }),
+        ]);
+    }
+
+    async updateSubscription(subscription: WebhookSubscription): Promise<WebhookSubscription> {
+        const { id, ...data } = this.mapper.toPrisma(subscription);
+        const updated = await this.prisma.getPrismaClient().webhookSubscription.update({
+            data,
+            where: { id },
+        });
+
+        return this.mapper.toDomain(updated);
+    }
+}
@@ -200,6 +200,27 @@ describe('WorldNews', () => {
         });
     });
 
+    it('should report the latest failure in its status', async () => {
+        // Given - the API rejects the request
+        server.use(
+            http.get('https://api.worldnewsapi.com/top-news', () => {
+                return new HttpResponse(null, { status: 402 });
+            }),
+        );
+
+        // When - fetching news
+        await provider.fetchNews();
+
+        // Then - the failure is kept for health checks
+        expect(provider.getStatus()).toEqual({
+            lastFailure: {
+                at: expect.any(Date),
+                error: 'API request failed: 402 Payment Required',
+            },
+            lastSuccessAt: null,
+        });
+    });
+
     it('should handle invalid response data', async () => {
         // Given - the API returns an invalid data structure
         server.use(
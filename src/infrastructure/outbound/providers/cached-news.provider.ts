@@ -8,6 +8,7 @@ import { z } from 'zod/v4';
 import {
     type NewsOptions,
     type NewsProviderPort,
+    type NewsProviderStatus,
     type NewsReport,
 } from '../../../application/ports/outbound/providers/news.port.js';
 
@@ -100,6 +101,13 @@ export class CachedNews implements NewsProviderPort {
         return stories;
     }
 
+    /**
+     * Cache hits do not reach the provider, so its status reflects the latest cache misses only
+     */
+    public getStatus(): NewsProviderStatus {
+        return this.newsSource.getStatus();
+    }
+
     private ensureDirectoryExists(filePath: string): void {
         const directory = dirname(filePath);
         if (!existsSync(directory)) {
@@ -6,6 +6,7 @@ import {
     type NewsArticle,
     type NewsOptions,
     type NewsProviderPort,
+    type NewsProviderStatus,
     type NewsReport,
 } from '../../../application/ports/outbound/providers/news.port.js';
 
@@ -56,6 +57,7 @@ const worldNewsResponseSchema = z.object({
 
 export class WorldNews implements NewsProviderPort {
     private lastRequestTime = 0;
+    private status: NewsProviderStatus = { lastFailure: null, lastSuccessAt: null };
 
     constructor(
         private readonly configuration: WorldNewsConfiguration,
@@ -83,6 +85,7 @@ export class WorldNews implements NewsProviderPort {
                     const response = await this.makeApiRequest(url);
                     const stories = await this.processApiResponse(response);
 
+                    this.status = { ...this.status, lastSuccessAt: new Date() };
                     this.logger.info('Successfully fetched news from WorldNews API', {
                         country: country.toString(),
                         language: language.toString(),
@@ -90,6 +93,13 @@ export class WorldNews implements NewsProviderPort {
                     });
                     return stories;
                 } catch (error) {
+                    this.status = {
+                        ...this.status,
+                        lastFailure: {
+                            at: new Date(),
+                            error: error instanceof Error ? error.message : String(error),
+                        },
+                    };
                     this.telemetry.counter('worldnews.errors');
                     this.logger.error('Failed to fetch news from WorldNews API', {
                         country: country.toString(),
@@ -103,6 +113,10 @@ export class WorldNews implements NewsProviderPort {
         );
     }
 
+    public getStatus(): NewsProviderStatus {
+        return this.status;
+    }
+
     private buildApiUrl(country: Country, language: Language): URL {
         const tzDate = createCurrentTZDateForCountry(country.toString());
         const countryDate = formatTZDateForCountry(tzDate, country.toString(), DATE_FORMAT);
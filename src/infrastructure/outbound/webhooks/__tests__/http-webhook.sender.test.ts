@@ -0,0 +1,102 @@
+import { createServer, type IncomingHttpHeaders, type Server } from 'node:http';
+import { type AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, test } from 'vitest';
+
+import { HttpWebhookSender, signWebhookPayload } from '../http-webhook.sender.js';
+
+type ReceivedRequest = { body: string; headers: IncomingHttpHeaders };
+
+describe('HttpWebhookSender', () => {
+    const secret = 'partner-secret-0123456789';
+    const payload = JSON.stringify({ data: { articles: [] }, type: 'articles.published' });
+
+    let received: ReceivedRequest[];
+    let responseStatus: number;
+    let server: Server;
+    let url: string;
+
+    beforeEach(async () => {
+        // Given - a local HTTP stand-in for the partner endpoint
+        received = [];
+        responseStatus = 204;
+        server = createServer((req, res) => {
+            let body = '';
+            req.on('data', (chunk) => (body += chunk));
+            req.on('end', () => {
+                received.push({ body, headers: req.headers });
+                res.writeHead(responseStatus).end();
+            });
+        });
+        await new Promise<void>((resolve) => server.listen(0, '127.0.0.1', resolve));
+        url = `http://127.0.0.1:${(server.address() as AddressInfo).port}/hooks`;
+    });
+
+    afterEach(async () => {
+        await new Promise((resolve) => server.close(resolve));
+    });
+
+    test('should post the payload signed with the subscription secret', async () => {
+        // When
+        const response = await new HttpWebhookSender(1000).send({
+            deliveryId: 'delivery-1',
+            eventType: 'articles.published',
+            payload,
+            secret,
+            url,
+        });
+
+        // Then
+        expect(response).toMatchObject({ statusCode: 204, succeeded: true });
+        expect(received).toHaveLength(1);
+
+        const { body, headers } = received[0];
+        const timestamp = Number(headers['x-webhook-timestamp']);
+        expect(body).toBe(payload);
+        expect(headers['content-type']).toBe('application/json');
+        expect(headers['x-webhook-delivery']).toBe('delivery-1');
+        expect(headers['x-webhook-event']).toBe('articles.published');
+        expect(headers['x-webhook-signature']).toBe(signWebhookPayload(secret, timestamp, body));
+    });
+
+    test('should report a non-2xx response as a failure', async () => {
+        // Given
+        responseStatus = 500;
+
+        // When
+        const response = await new HttpWebhookSender(1000).send({
+            deliveryId: 'delivery-2',
+            eventType: 'articles.published',
+            payload,
+            secret,
+            url,
+        });
+
+        // Then
+        expect(response).toMatchObject({
+            error: 'Unexpected status 500',
+            statusCode: 500,
+            succeeded: false,
+        });
+    });
+
+    test('should report an unreachable endpoint without throwing', async () => {
+        // Given - nothing listens anymore
+        await new Promise((resolve) => server.close(resolve));
+        server = createServer();
+        server.listen(0);
+
+        // When
+        const response = await new HttpWebhookSender(1000).send({
+            deliveryId: 'delivery-3',
+            eventType: 'articles.published',
+            payload,
+            secret,
+            url,
+        });
+
+        // Then
+        expect(response.succeeded).toBe(false);
+        expect(response.statusCode).toBeUndefined();
+        expect(response.error).toBeDefined();
+    });
+});
@@ -0,0 +1,66 @@
+import { createHmac } from 'node:crypto';
+
+// Application
+import {
+    type WebhookRequest,
+    type WebhookResponse,
+    type WebhookSenderPort,
+} from '../../../application/ports/outbound/webhooks/webhook-sender.port.js';
+
+const USER_AGENT = 'n00-webhooks/1.0';
+
+/**
+ * Signature partners verify deliveries with: HMAC-SHA256 of `<timestamp>.<payload>` keyed by
+ * the subscription secret. The timestamp is part of the signed content so replays can be refused.
+ */
+export function signWebhookPayload(secret: string, timestamp: number, payload: string): string {
+    return `sha256=${createHmac('sha256', secret).update(`${timestamp}.${payload}`).digest('hex')}`;
+}
+
+/**
+ * Delivers webhooks as signed JSON POST requests; any 2xx response is a success
+ */
+export class HttpWebhookSender implements WebhookSenderPort {
+    constructor(private readonly timeoutMs: number) {}
+
+    async send(request: WebhookRequest): Promise<WebhookResponse> {
+        const timestamp = Math.floor(Date.now() / 1000);
+        const start = performance.now();
+
+        try {
+            const response = await fetch(request.url, {
+                body: request.payload,
+                headers: {
+                    'Content-Type': 'application/json',
+                    'User-Agent': USER_AGENT,
+                    'X-Webhook-Delivery': request.deliveryId,
+                    'X-Webhook-Event': request.eventType,
+                    'X-Webhook-Signature': signWebhookPayload(
+                        request.secret,
+                        timestamp,
+                        request.payload,
+                    ),
+                    'X-Webhook-Timestamp': String(timestamp),
+                },
+                method: 'POST',
+                redirect: 'manual',
+                signal: AbortSignal.timeout(this.timeoutMs),
+            });
+            // The body is not used, but must be consumed to release the connection
+            await response.body?.cancel();
+
+            return {
+                durationMs: performance.now() - start,
+                ...(!response.ok && { error: `Unexpected status ${response.status}` }),
+                statusCode: response.status,
+                succeeded: response.ok,
+            };
+        } catch (error) {
+            return {
+                durationMs: performance.now() - start,
+                error: error instanceof Error ? error.message : String(error),
+                succeeded: false,
+            };
+        }
+    }
+}
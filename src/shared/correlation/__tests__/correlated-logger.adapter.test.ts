@@ -0,0 +1,43 @@
+import { type LoggerPort } from '@jterrazz/logger';
+import { describe, expect, test } from 'vitest';
+import { mock } from 'vitest-mock-extended';
+
+import { CorrelatedLoggerAdapter } from '../correlated-logger.adapter.js';
+import { runWithCorrelation } from '../correlation-context.js';
+
+describe('CorrelatedLoggerAdapter', () => {
+    test('should add the ids bound to the async context to every entry', async () => {
+        // Given
+        const logger = mock<LoggerPort>();
+        const correlated = new CorrelatedLoggerAdapter(logger);
+
+        // When
+        await runWithCorrelation({ requestId: 'request-1' }, async () => {
+            await Promise.resolve();
+            await runWithCorrelation({ pipelineRunId: 'run-1' }, async () => {
+                correlated.info('Ingesting reports', { country: 'FR' });
+            });
+            correlated.warn('Skipped');
+        });
+
+        // Then
+        expect(logger.info).toHaveBeenCalledWith('Ingesting reports', {
+            country: 'FR',
+            pipelineRunId: 'run-1',
+            requestId: 'request-1',
+        });
+        expect(logger.warn).toHaveBeenCalledWith('Skipped', { requestId: 'request-1' });
+    });
+
+    test('should log entries as they are outside of any context', () => {
+        // Given
+        const logger = mock<LoggerPort>();
+        const correlated = new CorrelatedLoggerAdapter(logger);
+
+        // When
+        correlated.error('Server stopped');
+
+        // Then
+        expect(logger.error).toHaveBeenCalledWith('Server stopped', undefined);
+    });
+});
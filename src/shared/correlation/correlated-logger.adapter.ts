@@ -0,0 +1,38 @@
+import { type LoggerPort } from '@jterrazz/logger';
+
+import { getCorrelationIds } from './correlation-context.js';
+
+/**
+ * Logger adding the correlation ids of the current async context to every entry
+ * @description Ids passed explicitly in the metadata take precedence
+ */
+export class CorrelatedLoggerAdapter implements LoggerPort {
+    constructor(private readonly logger: LoggerPort) {}
+
+    child(bindings: Record<string, unknown>): LoggerPort {
+        return new CorrelatedLoggerAdapter(this.logger.child(bindings));
+    }
+
+    debug(message: string, meta?: Record<string, unknown>): void {
+        this.logger.debug(message, this.withCorrelation(meta));
+    }
+
+    error(message: string, meta?: Record<string, unknown>): void {
+        this.logger.error(message, this.withCorrelation(meta));
+    }
+
+    info(message: string, meta?: Record<string, unknown>): void {
+        this.logger.info(message, this.withCorrelation(meta));
+    }
+
+    warn(message: string, meta?: Record<string, unknown>): void {
+        this.logger.warn(message, this.withCorrelation(meta));
+    }
+
+    private withCorrelation(meta?: Record<string, unknown>): Record<string, unknown> | undefined {
+        const ids = getCorrelationIds();
+        if (!ids.pipelineRunId && !ids.requestId) return meta;
+
+        return { ...ids, ...meta };
+    }
+}
@@ -0,0 +1,25 @@
+import { AsyncLocalStorage } from 'node:async_hooks';
+
+/**
+ * Identifiers tying together the logs and spans of one unit of work
+ */
+export type CorrelationIds = {
+    /** Pipeline run being executed */
+    pipelineRunId?: string;
+    /** HTTP request being handled, from `X-Request-Id` */
+    requestId?: string;
+};
+
+const storage = new AsyncLocalStorage<CorrelationIds>();
+
+/**
+ * Run a function with correlation ids bound to everything it awaits or schedules,
+ * on top of the ids already bound by the caller
+ */
+export const runWithCorrelation = <T>(ids: CorrelationIds, fn: () => T): T =>
+    storage.run({ ...storage.getStore(), ...ids }, fn);
+
+/**
+ * Get the correlation ids bound to the current async context
+ */
+export const getCorrelationIds = (): CorrelationIds => storage.getStore() ?? {};
@@ -0,0 +1,6 @@
+export { CorrelatedLoggerAdapter } from './correlated-logger.adapter.js';
+export {
+    type CorrelationIds,
+    getCorrelationIds,
+    runWithCorrelation,
+} from './correlation-context.js';
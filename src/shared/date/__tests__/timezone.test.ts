@@ -3,10 +3,13 @@ import { mockOfDate } from '@jterrazz/test';
 import { afterEach, beforeEach, describe, expect, it } from 'vitest';
 
 import {
+    addDays,
     COUNTRY_TIMEZONE_MAP,
     createCurrentTZDateForCountry,
+    createStartOfDayForCountry,
     createTZDateForCountry,
     formatTZDateForCountry,
+    getStartOfDay,
     subtractDays,
 } from '../timezone.js';
 
@@ -155,6 +158,49 @@ describe('Timezone Utilities', () => {
         });
     });
 
+    describe('createStartOfDayForCountry', () => {
+        it('should return midnight of the calendar day in the country timezone', () => {
+            // Given - a calendar day for a US reader
+            // When - creating the start of that day
+            const result = createStartOfDayForCountry('2024-03-10', 'US');
+
+            // Then - it should be midnight in New York
+            expect(result.timeZone).toBe('America/New_York');
+            expect(result.getTime()).toBe(new Date('2024-03-10T05:00:00.000Z').getTime());
+        });
+    });
+
+    describe('addDays', () => {
+        it('should add calendar days across a DST change while preserving timezone', () => {
+            // Given - midnight in New York the day clocks move forward
+            const date = createStartOfDayForCountry('2024-03-10', 'US');
+
+            // When - adding one day
+            const result = addDays(date, 1);
+
+            // Then - it should be the next local midnight, only 23 hours later
+            expect(result).toBeInstanceOf(TZDate);
+            expect(result.timeZone).toBe('America/New_York');
+            expect(result.getTime()).toBe(new Date('2024-03-11T04:00:00.000Z').getTime());
+        });
+    });
+
+    describe('getStartOfDay', () => {
+        it('should return local midnight in the date timezone', () => {
+            // Given - 02:30 UTC on Jan 15, which is still Jan 14 in New York
+            const date = createTZDateForCountry(new Date('2024-01-15T02:30:00.000Z'), 'US');
+
+            // When - getting the start of the day
+            const result = getStartOfDay(date);
+
+            // Then - it should be midnight of Jan 14 in New York, preserving the timezone
+            expect(result).toBeInstanceOf(TZDate);
+            expect(result.timeZone).toBe('America/New_York');
+            expect(result.toISOString()).toBe('2024-01-14T00:00:00.000-05:00');
+            expect(result.getTime()).toBe(new Date('2024-01-14T05:00:00.000Z').getTime());
+        });
+    });
+
     describe('subtractDays', () => {
         it('should subtract days while preserving timezone', () => {
             // Given - a TZDate in Paris timezone
@@ -1,5 +1,5 @@
 import { TZDate } from '@date-fns/tz';
-import { format, subDays } from 'date-fns';
+import { addDays as addCalendarDays, format, startOfDay, subDays } from 'date-fns';
 
 /**
  * Map of country codes to their timezone identifiers
@@ -62,6 +62,14 @@ export const COUNTRY_TIMEZONE_MAP: Record<string, string> = {
 
 export type CountryTimezone = keyof typeof COUNTRY_TIMEZONE_MAP;
 
+/**
+ * Adds days to a date while preserving timezone
+ */
+export function addDays(date: TZDate, days: number): TZDate {
+    const addedDate = addCalendarDays(date, days);
+    return new TZDate(addedDate.getTime(), date.timeZone);
+}
+
 /**
  * Creates a TZDate for the current time in a specific country's timezone
  */
@@ -70,6 +78,15 @@ export function createCurrentTZDateForCountry(country: string): TZDate {
     return new TZDate(new Date(), timezone);
 }
 
+/**
+ * Creates a TZDate at midnight of a calendar day (yyyy-MM-dd) in a country's timezone
+ */
+export function createStartOfDayForCountry(day: string, country: string): TZDate {
+    const timezone = getTimezoneForCountry(country);
+    const [year, month, date] = day.split('-').map(Number);
+    return new TZDate(year, month - 1, date, timezone);
+}
+
 /**
  * Creates a TZDate for a specific date in a country's timezone
  */
@@ -87,6 +104,13 @@ export function formatTZDateForCountry(date: TZDate, country: string, formatStr:
     return format(date.withTimeZone(timezone), formatStr);
 }
 
+/**
+ * Returns midnight of the date's day in its own timezone
+ */
+export function getStartOfDay(date: TZDate): TZDate {
+    return new TZDate(startOfDay(date).getTime(), date.timeZone);
+}
+
 /**
  * Subtracts days from a date while preserving timezone
  */
@@ -14,8 +14,10 @@ export {
 // =============================================================================
 
 export {
+    CompositeTelemetryAdapter,
     NoopTelemetryAdapter,
     OpenTelemetryAdapter,
+    PrometheusTelemetryAdapter,
     type TelemetryAttributes,
     type TelemetryPort,
 } from './sdk/index.js';
@@ -0,0 +1,79 @@
+import { describe, expect, test } from 'vitest';
+
+import { PrometheusTelemetryAdapter } from '../prometheus.adapter.js';
+
+describe('PrometheusTelemetryAdapter', () => {
+    test('should render counters per label set, whatever the attribute order', () => {
+        // Given
+        const adapter = new PrometheusTelemetryAdapter();
+
+        // When
+        adapter.counter('worldnews.errors');
+        adapter.counter('articles.published', 2, { country: 'fr', language: 'fr' });
+        adapter.counter('articles.published', 3, { country: 'fr', language: 'fr' });
+        adapter.counter('articles.published', 1, { language: 'en', country: 'us' });
+
+        // Then
+        expect(adapter.collect()).toBe(
+            [
+                '# TYPE worldnews_errors_total counter',
+                'worldnews_errors_total 1',
+                '# TYPE articles_published_total counter',
+                'articles_published_total{country="fr",language="fr"} 5',
+                'articles_published_total{country="us",language="en"} 1',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    test('should render histograms with cumulative buckets, sum and count', () => {
+        // Given
+        const adapter = new PrometheusTelemetryAdapter([10, 100]);
+
+        // When
+        adapter.histogram('pipeline.step.duration_ms', 5, { step: 'ingest' });
+        adapter.histogram('pipeline.step.duration_ms', 50, { step: 'ingest' });
+        adapter.histogram('pipeline.step.duration_ms', 500, { step: 'ingest' });
+
+        // Then
+        expect(adapter.collect()).toBe(
+            [
+                '# TYPE pipeline_step_duration_ms histogram',
+                'pipeline_step_duration_ms_bucket{step="ingest",le="10"} 1',
+                'pipeline_step_duration_ms_bucket{step="ingest",le="100"} 2',
+                'pipeline_step_duration_ms_bucket{step="ingest",le="+Inf"} 3',
+                'pipeline_step_duration_ms_sum{step="ingest"} 555',
+                'pipeline_step_duration_ms_count{step="ingest"} 3',
+                '',
+            ].join('\n'),
+        );
+    });
+
+    test('should escape label values and skip undefined attributes', () => {
+        // Given
+        const adapter = new PrometheusTelemetryAdapter();
+
+        // When
+        adapter.counter('http.server.requests', 1, {
+            'http.route': '/say "hi"\\',
+            status: undefined,
+        });
+
+        // Then
+        expect(adapter.collect()).toContain(
+            'http_server_requests_total{http_route="/say \\"hi\\"\\\\"} 1',
+        );
+    });
+
+    test('should render nothing before any metric is recorded', async () => {
+        // Given
+        const adapter = new PrometheusTelemetryAdapter();
+
+        // When
+        const result = await adapter.span('Api/Test', async () => 'done');
+
+        // Then
+        expect(result).toBe('done');
+        expect(adapter.collect()).toBe('');
+    });
+});
@@ -0,0 +1,46 @@
+import type { TelemetryAttributes, TelemetryPort } from './telemetry.port.js';
+
+/**
+ * Telemetry adapter forwarding to several adapters
+ * @description Lets metrics reach an OTLP collector and a Prometheus scrape endpoint at once
+ */
+export class CompositeTelemetryAdapter implements TelemetryPort {
+    constructor(private readonly adapters: TelemetryPort[]) {}
+
+    counter(name: string, value?: number, attributes?: TelemetryAttributes): void {
+        for (const adapter of this.adapters) {
+            adapter.counter(name, value, attributes);
+        }
+    }
+
+    event(name: string, attributes?: TelemetryAttributes): void {
+        for (const adapter of this.adapters) {
+            adapter.event(name, attributes);
+        }
+    }
+
+    histogram(name: string, value: number, attributes?: TelemetryAttributes): void {
+        for (const adapter of this.adapters) {
+            adapter.histogram(name, value, attributes);
+        }
+    }
+
+    setAttribute(key: string, value: boolean | number | string): void {
+        for (const adapter of this.adapters) {
+            adapter.setAttribute(key, value);
+        }
+    }
+
+    async span<T>(
+        name: string,
+        fn: () => Promise<T>,
+        attributes?: TelemetryAttributes,
+    ): Promise<T> {
+        // Nest the spans so that fn runs once, within all of them
+        const run = this.adapters.reduceRight<() => Promise<T>>(
+            (next, adapter) => () => adapter.span(name, next, attributes),
+            fn,
+        );
+        return run();
+    }
+}
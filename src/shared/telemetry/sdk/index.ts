@@ -1,4 +1,5 @@
 export type { TelemetryAttributes, TelemetryPort } from './telemetry.port.js';
+export { CompositeTelemetryAdapter } from './composite.adapter.js';
 export { NoopTelemetryAdapter } from './noop.adapter.js';
 export { OpenTelemetryAdapter } from './opentelemetry.adapter.js';
-
+export { PrometheusTelemetryAdapter } from './prometheus.adapter.js';
@@ -1,11 +1,14 @@
 import { type Counter, type Histogram, metrics } from '@opentelemetry/api';
 import { context, type Span, SpanStatusCode, trace } from '@opentelemetry/api';
 
+import { getCorrelationIds } from '../../correlation/index.js';
+
 import type { TelemetryAttributes, TelemetryPort } from './telemetry.port.js';
 
 /**
  * OpenTelemetry adapter implementing the TelemetryPort
- * @description Uses @opentelemetry/api for manual instrumentation alongside auto-instrumentation
+ * @description Uses @opentelemetry/api for manual instrumentation alongside auto-instrumentation.
+ * Spans carry the request and pipeline run ids bound to the current async context.
  */
 export class OpenTelemetryAdapter implements TelemetryPort {
     private readonly counters = new Map<string, Counter>();
@@ -75,9 +78,12 @@ export class OpenTelemetryAdapter implements TelemetryPort {
     ): Promise<T> {
         return this.tracer.startActiveSpan(name, async (span: Span) => {
             try {
-                if (attributes) {
-                    this.setSpanAttributes(span, attributes);
-                }
+                const { pipelineRunId, requestId } = getCorrelationIds();
+                this.setSpanAttributes(span, {
+                    'pipeline.run.id': pipelineRunId,
+                    'request.id': requestId,
+                    ...attributes,
+                });
 
                 const result = await fn();
 
@@ -118,4 +124,3 @@ export class OpenTelemetryAdapter implements TelemetryPort {
         }
     }
 }
-
@@ -0,0 +1,143 @@
+import type { TelemetryAttributes, TelemetryPort } from './telemetry.port.js';
+
+/** Upper bounds of the histogram buckets, sized for durations in milliseconds */
+const DEFAULT_BUCKETS = [
+    5, 10, 25, 50, 100, 250, 500, 1_000, 2_500, 5_000, 10_000, 30_000, 60_000, 300_000, 900_000,
+    1_800_000,
+];
+
+type Labels = Record<string, boolean | number | string>;
+
+type HistogramSeries = {
+    buckets: number[];
+    count: number;
+    labels: Labels;
+    sum: number;
+};
+
+/**
+ * Prometheus telemetry adapter keeping metrics in memory
+ * @description Aggregates counters and histograms for a scrape endpoint, without a collector.
+ * Spans, events and span attributes are not exported.
+ */
+export class PrometheusTelemetryAdapter implements TelemetryPort {
+    private readonly counters = new Map<string, Map<string, { labels: Labels; value: number }>>();
+    private readonly histograms = new Map<string, Map<string, HistogramSeries>>();
+
+    constructor(private readonly buckets: number[] = DEFAULT_BUCKETS) {}
+
+    /**
+     * Render every metric in the Prometheus text exposition format (version 0.0.4)
+     */
+    collect(): string {
+        const lines: string[] = [];
+
+        for (const [name, series] of this.counters) {
+            const metric = toMetricName(name, '_total');
+            lines.push(`# TYPE ${metric} counter`);
+            for (const { labels, value } of series.values()) {
+                lines.push(`${metric}${formatLabels(labels)} ${value}`);
+            }
+        }
+
+        for (const [name, series] of this.histograms) {
+            const metric = toMetricName(name);
+            lines.push(`# TYPE ${metric} histogram`);
+            for (const { buckets, count, labels, sum } of series.values()) {
+                buckets.forEach((bucketCount, index) => {
+                    const le = { ...labels, le: String(this.buckets[index]) };
+                    lines.push(`${metric}_bucket${formatLabels(le)} ${bucketCount}`);
+                });
+                lines.push(`${metric}_bucket${formatLabels({ ...labels, le: '+Inf' })} ${count}`);
+                lines.push(`${metric}_sum${formatLabels(labels)} ${sum}`);
+                lines.push(`${metric}_count${formatLabels(labels)} ${count}`);
+            }
+        }
+
+        return lines.length > 0 ? `${lines.join('\n')}\n` : '';
+    }
+
+    counter(name: string, value = 1, attributes?: TelemetryAttributes): void {
+        const labels = toLabels(attributes);
+        const series = getOrCreate(this.counters, name, () => new Map());
+        const current = getOrCreate(series, seriesKey(labels), () => ({ labels, value: 0 }));
+
+        current.value += value;
+    }
+
+    event(_name: string, _attributes?: TelemetryAttributes): void {
+        // Events belong to spans, which are not exported
+    }
+
+    histogram(name: string, value: number, attributes?: TelemetryAttributes): void {
+        const labels = toLabels(attributes);
+        const series = getOrCreate(this.histograms, name, () => new Map());
+        const current = getOrCreate(series, seriesKey(labels), () => ({
+            buckets: this.buckets.map(() => 0),
+            count: 0,
+            labels,
+            sum: 0,
+        }));
+
+        // Buckets are cumulative: a value counts in every bucket it fits in
+        this.buckets.forEach((bound, index) => {
+            if (value <= bound) current.buckets[index] += 1;
+        });
+        current.count += 1;
+        current.sum += value;
+    }
+
+    setAttribute(_key: string, _value: boolean | number | string): void {
+        // Span attributes are not exported
+    }
+
+    async span<T>(
+        _name: string,
+        fn: () => Promise<T>,
+        _attributes?: TelemetryAttributes,
+    ): Promise<T> {
+        return fn();
+    }
+}
+
+const getOrCreate = <K, V>(map: Map<K, V>, key: K, create: () => V): V => {
+    let value = map.get(key);
+    if (value === undefined) {
+        value = create();
+        map.set(key, value);
+    }
+    return value;
+};
+
+const toLabels = (attributes?: TelemetryAttributes): Labels => {
+    const labels: Labels = {};
+    for (const [key, value] of Object.entries(attributes ?? {}).sort(([a], [b]) =>
+        a.localeCompare(b),
+    )) {
+        if (value !== undefined) {
+            labels[key.replace(/[^a-zA-Z0-9_]/g, '_')] = value;
+        }
+    }
+    return labels;
+};
+
+const seriesKey = (labels: Labels): string => JSON.stringify(Object.entries(labels));
+
+/**
+ * Dotted telemetry names (e.g. `worldnews.errors`) become Prometheus names (`worldnews_errors_total`)
+ */
+const toMetricName = (name: string, suffix = ''): string => {
+    const metric = name.replace(/[^a-zA-Z0-9_:]/g, '_').replace(/^([0-9])/, '_$1');
+    return metric.endsWith(suffix) ? metric : `${metric}${suffix}`;
+};
+
+const formatLabels = (labels: Labels): string => {
+    const entries = Object.entries(labels);
+    if (entries.length === 0) return '';
+
+    const formatted = entries.map(
+        ([key, value]) =>
+            `${key}="${String(value).replace(/\\/g, '\\\\').replace(/\n/g, '\\n').replace(/"/g, '\\"')}"`,
+    );
+    return `{${formatted.join(',')}}`;
+};